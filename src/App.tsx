@@ -7,26 +7,55 @@ import Index from "./pages/Index";
 import Calculator from "./pages/Calculator";
 import Projects from "./pages/Projects";
 import Fleet from "./pages/Fleet";
+import PriceBooks from "./pages/PriceBooks";
+import Estimates from "./pages/Estimates";
+import Analytics from "./pages/Analytics";
+import Mapping from "./pages/Mapping";
+import Reports from "./pages/Reports";
+import Auth from "./pages/Auth";
+import ResetPassword from "./pages/ResetPassword";
+import UserRoles from "./pages/UserRoles";
+import ClientPortal from "./pages/ClientPortal";
+import Dispatch from "./pages/Dispatch";
+import JobCosting from "./pages/JobCosting";
+import TimeClock from "./pages/TimeClock";
 import NotFound from "./pages/NotFound";
+import AuthProvider from "@/components/AuthProvider";
+import ProtectedRoute from "@/components/ProtectedRoute";
 
 const queryClient = new QueryClient();
 
 const App = () => (
   <QueryClientProvider client={queryClient}>
-    <TooltipProvider>
-      <Toaster />
-      <Sonner />
-      <BrowserRouter>
-        <Routes>
-          <Route path="/" element={<Index />} />
-          <Route path="/calculator" element={<Calculator />} />
-          <Route path="/projects" element={<Projects />} />
-          <Route path="/fleet" element={<Fleet />} />
-          {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-          <Route path="*" element={<NotFound />} />
-        </Routes>
-      </BrowserRouter>
-    </TooltipProvider>
+    <AuthProvider>
+      <TooltipProvider>
+        <Toaster />
+        <Sonner />
+        <BrowserRouter>
+          <Routes>
+            <Route path="/" element={<Index />} />
+            <Route path="/calculator" element={<ProtectedRoute permission="estimates.view"><Calculator /></ProtectedRoute>} />
+            <Route path="/calculator/:estimateId" element={<ProtectedRoute permission="estimates.view"><Calculator /></ProtectedRoute>} />
+            <Route path="/estimates" element={<ProtectedRoute permission="estimates.view"><Estimates /></ProtectedRoute>} />
+            <Route path="/projects" element={<ProtectedRoute permission="projects.view"><Projects /></ProtectedRoute>} />
+            <Route path="/dispatch" element={<ProtectedRoute permission="schedule.view"><Dispatch /></ProtectedRoute>} />
+            <Route path="/time-clock" element={<ProtectedRoute permission="time_clock.use"><TimeClock /></ProtectedRoute>} />
+            <Route path="/fleet" element={<ProtectedRoute permission="fleet.view"><Fleet /></ProtectedRoute>} />
+            <Route path="/price-books" element={<ProtectedRoute permission="price_books.manage"><PriceBooks /></ProtectedRoute>} />
+            <Route path="/costing" element={<ProtectedRoute permission="costing.view"><JobCosting /></ProtectedRoute>} />
+            <Route path="/analytics" element={<ProtectedRoute permission="analytics.view"><Analytics /></ProtectedRoute>} />
+            <Route path="/mapping" element={<ProtectedRoute permission="mapping.view"><Mapping /></ProtectedRoute>} />
+            <Route path="/reports" element={<ProtectedRoute permission="reports.view"><Reports /></ProtectedRoute>} />
+            <Route path="/admin/roles" element={<ProtectedRoute permission="roles.manage"><UserRoles /></ProtectedRoute>} />
+            <Route path="/portal" element={<ProtectedRoute permission="portal.view"><ClientPortal /></ProtectedRoute>} />
+            <Route path="/auth" element={<Auth />} />
+            <Route path="/reset-password" element={<ResetPassword />} />
+            {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+            <Route path="*" element={<NotFound />} />
+          </Routes>
+        </BrowserRouter>
+      </TooltipProvider>
+    </AuthProvider>
   </QueryClientProvider>
 );
 
@@ -0,0 +1,151 @@
+import React from 'react';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig
+} from '@/components/ui/chart';
+import { BarChart3, DollarSign, FileText, Target, TrendingUp } from 'lucide-react';
+import { useEstimates } from '@/hooks/use-estimates';
+import { useProjects } from '@/hooks/use-projects';
+import {
+  buildEstimatePipeline,
+  countProjectsByType,
+  getCostPerformance,
+  summarizeEstimates,
+  DEFAULT_PIPELINE_MONTHS
+} from '@/lib/analytics';
+
+const pipelineConfig = {
+  quoted: { label: 'Quoted', color: 'hsl(var(--industrial-blue))' },
+  accepted: { label: 'Accepted', color: 'hsl(var(--industrial-orange))' }
+} satisfies ChartConfig;
+
+const projectTypeConfig = {
+  count: { label: 'Projects', color: 'hsl(var(--industrial-orange))' }
+} satisfies ChartConfig;
+
+const formatCurrency = (value: number) => `$${Math.round(value).toLocaleString()}`;
+
+const AnalyticsOverview = () => {
+  const { data: estimates = [], isLoading: estimatesLoading } = useEstimates();
+  const { data: projects = [], isLoading: projectsLoading } = useProjects();
+  const isLoading = estimatesLoading || projectsLoading;
+
+  const summary = summarizeEstimates(estimates);
+  const pipeline = buildEstimatePipeline(estimates);
+  const projectTypes = countProjectsByType(projects);
+  const costPerformance = getCostPerformance(projects);
+
+  const stats = [
+    { title: 'Estimates Written', value: String(summary.count), caption: `${formatCurrency(summary.averageValue)} average`, icon: FileText },
+    { title: 'Quoted Value', value: formatCurrency(summary.quotedValue), caption: 'across all estimates', icon: DollarSign },
+    { title: 'Accepted Value', value: formatCurrency(summary.acceptedValue), caption: 'won from quotes', icon: TrendingUp },
+    { title: 'Win Rate', value: summary.winRate === null ? '—' : `${summary.winRate}%`, caption: 'of accepted or declined quotes', icon: Target },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-3xl font-bold text-foreground">Analytics</h2>
+        <p className="text-muted-foreground">Quoting pipeline and project performance</p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+        {stats.map((stat) => (
+          <Card key={stat.title} className="bg-card border-border">
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground">{stat.title}</CardTitle>
+              <stat.icon className="h-4 w-4 text-industrial-orange" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold text-foreground">{isLoading ? '—' : stat.value}</div>
+              <p className="text-xs text-muted-foreground">{stat.caption}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card className="bg-card border-border shadow-industrial">
+        <CardHeader>
+          <CardTitle className="text-foreground flex items-center gap-2">
+            <BarChart3 className="h-5 w-5 text-primary" />
+            Estimate Pipeline
+          </CardTitle>
+          <p className="text-sm text-muted-foreground">Value quoted and accepted by month over the last {DEFAULT_PIPELINE_MONTHS} months</p>
+        </CardHeader>
+        <CardContent>
+          <ChartContainer config={pipelineConfig} className="h-72 w-full">
+            <BarChart data={pipeline}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="label" tickLine={false} axisLine={false} />
+              <YAxis tickLine={false} axisLine={false} tickFormatter={(value: number) => formatCurrency(value)} width={80} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              <Bar dataKey="quoted" fill="var(--color-quoted)" radius={4} />
+              <Bar dataKey="accepted" fill="var(--color-accepted)" radius={4} />
+            </BarChart>
+          </ChartContainer>
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card className="bg-card border-border shadow-industrial">
+          <CardHeader>
+            <CardTitle className="text-foreground">Projects by Type</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {!isLoading && projectTypes.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No projects yet.</p>
+            ) : (
+              <ChartContainer config={projectTypeConfig} className="h-64 w-full">
+                <BarChart data={projectTypes} layout="vertical">
+                  <CartesianGrid horizontal={false} />
+                  <XAxis type="number" allowDecimals={false} tickLine={false} axisLine={false} />
+                  <YAxis type="category" dataKey="label" tickLine={false} axisLine={false} width={110} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+                </BarChart>
+              </ChartContainer>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="bg-card border-border shadow-industrial">
+          <CardHeader>
+            <CardTitle className="text-foreground">Cost Performance</CardTitle>
+            <p className="text-sm text-muted-foreground">Completed projects with both estimated and actual cost recorded</p>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-muted-foreground">Projects Compared</span>
+              <span className="font-medium text-foreground">{costPerformance.projectCount}</span>
+            </div>
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-muted-foreground">Estimated Cost</span>
+              <span className="font-medium text-foreground">{formatCurrency(costPerformance.estimatedCost)}</span>
+            </div>
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-muted-foreground">Actual Cost</span>
+              <span className="font-medium text-foreground">{formatCurrency(costPerformance.actualCost)}</span>
+            </div>
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-muted-foreground">Variance</span>
+              <span className={`font-medium ${costPerformance.variancePercent > 0 ? 'text-red-400' : 'text-green-400'}`}>
+                {costPerformance.variancePercent === null
+                  ? '—'
+                  : `${costPerformance.variancePercent > 0 ? '+' : ''}${costPerformance.variancePercent}%`}
+              </span>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default AnalyticsOverview;
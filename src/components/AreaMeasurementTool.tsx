@@ -0,0 +1,398 @@
+import React, { useEffect, useRef, useState } from 'react';
+import L from 'leaflet';
+import 'leaflet/dist/leaflet.css';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Check, Image as ImageIcon, Map as MapIcon, Pencil, Ruler, Trash2, Undo2, X } from 'lucide-react';
+import type { EstimateArea } from '@/lib/pricing';
+import { DEFAULT_MAP_CENTER, MAP_TILE_LAYERS, type TileLayerKey } from '@/lib/map-tiles';
+import {
+  MEASUREMENT_TARGETS,
+  MEASUREMENT_TARGET_COLORS,
+  MEASUREMENT_TARGET_KEYS,
+  canCompleteTrace,
+  measureCoordinates,
+  planarDistance,
+  type Measurement,
+  type MeasurementSource,
+  type MeasurementTarget,
+  type Position
+} from '@/lib/measurements';
+
+interface AreaMeasurementToolProps {
+  areas: EstimateArea[];
+  measurements: Measurement[];
+  onAdd: (measurement: Measurement) => void;
+  onRemove: (measurement: Measurement) => void;
+  onClose: () => void;
+}
+
+type ToolMode = 'idle' | 'trace' | 'calibrate';
+
+// Leaflet works in [lat, lng]; measurements are stored GeoJSON-style as [x, y]
+const toLatLng = ([x, y]: Position): L.LatLngTuple => [y, x];
+
+const formatQuantity = (target: MeasurementTarget, quantity: number) =>
+  `${Math.round(quantity).toLocaleString()} ${MEASUREMENT_TARGETS[target].unit}`;
+
+const AreaMeasurementTool = ({ areas, measurements, onAdd, onRemove, onClose }: AreaMeasurementToolProps) => {
+  const [source, setSource] = useState<MeasurementSource>('map');
+  const [tileLayer, setTileLayer] = useState<TileLayerKey>('satellite');
+  const [image, setImage] = useState<{ url: string; width: number; height: number } | null>(null);
+  const [feetPerPixel, setFeetPerPixel] = useState<number | null>(null);
+  const [calibrationFeet, setCalibrationFeet] = useState('');
+  const [mode, setMode] = useState<ToolMode>('idle');
+  const [draft, setDraft] = useState<Position[]>([]);
+  const [areaId, setAreaId] = useState(areas[0]?.id ?? '');
+  const [target, setTarget] = useState<MeasurementTarget>('squareFootage');
+  const [label, setLabel] = useState('');
+
+  const containerRef = useRef<HTMLDivElement>(null);
+  const mapRef = useRef<L.Map | null>(null);
+  const overlayRef = useRef<L.LayerGroup | null>(null);
+  const initialMeasurementsRef = useRef(measurements);
+
+  // (Re)build the map whenever the backdrop changes between the live map and
+  // an uploaded image
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || (source === 'image' && !image)) return;
+
+    const map = source === 'map'
+      ? L.map(container, { doubleClickZoom: false })
+      : L.map(container, { crs: L.CRS.Simple, minZoom: -4, maxZoom: 4, doubleClickZoom: false });
+
+    if (source === 'image' && image) {
+      const bounds = L.latLngBounds([0, 0], [image.height, image.width]);
+      L.imageOverlay(image.url, bounds).addTo(map);
+      map.fitBounds(bounds);
+    } else {
+      const traced = initialMeasurementsRef.current.filter(measurement => measurement.source === 'map');
+      if (traced.length > 0) {
+        map.fitBounds(L.latLngBounds(traced.flatMap(measurement => measurement.coordinates.map(toLatLng))), { maxZoom: 19 });
+      } else {
+        map.setView(DEFAULT_MAP_CENTER, 17);
+      }
+    }
+
+    overlayRef.current = L.layerGroup().addTo(map);
+    mapRef.current = map;
+
+    return () => {
+      map.remove();
+      mapRef.current = null;
+      overlayRef.current = null;
+    };
+  }, [source, image]);
+
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || source !== 'map') return;
+    const config = MAP_TILE_LAYERS[tileLayer];
+    const layer = L.tileLayer(config.url, { attribution: config.attribution, maxZoom: config.maxZoom }).addTo(map);
+    map.setMaxZoom(config.maxZoom);
+    return () => {
+      layer.remove();
+    };
+  }, [source, image, tileLayer]);
+
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || mode === 'idle') return;
+
+    const handleClick = (event: L.LeafletMouseEvent) => {
+      const point: Position = [event.latlng.lng, event.latlng.lat];
+      // A calibration line is exactly two points
+      setDraft(prev => (mode === 'calibrate' && prev.length >= 2 ? prev : [...prev, point]));
+    };
+
+    map.on('click', handleClick);
+    map.getContainer().style.cursor = 'crosshair';
+    return () => {
+      map.off('click', handleClick);
+      map.getContainer().style.cursor = '';
+    };
+  }, [mode, source, image]);
+
+  useEffect(() => {
+    const overlay = overlayRef.current;
+    if (!overlay) return;
+    overlay.clearLayers();
+
+    measurements
+      .filter(measurement => measurement.source === source)
+      .forEach(measurement => {
+        const color = MEASUREMENT_TARGET_COLORS[measurement.target];
+        const points = measurement.coordinates.map(toLatLng);
+        const shape = MEASUREMENT_TARGETS[measurement.target].shape === 'polygon'
+          ? L.polygon(points, { color, weight: 2, fillOpacity: 0.25 })
+          : L.polyline(points, { color, weight: 4 });
+        const areaName = areas.find(area => area.id === measurement.areaId)?.name ?? 'Area';
+        shape
+          .bindTooltip(`${areaName}: ${measurement.label || MEASUREMENT_TARGETS[measurement.target].label} (${formatQuantity(measurement.target, measurement.quantity)})`)
+          .addTo(overlay);
+      });
+
+    if (draft.length > 0) {
+      const color = mode === 'calibrate' ? '#22c55e' : MEASUREMENT_TARGET_COLORS[target];
+      const points = draft.map(toLatLng);
+      const closeRing = mode === 'trace' && MEASUREMENT_TARGETS[target].shape === 'polygon' && draft.length >= 3;
+      (closeRing ? L.polygon(points, { color, weight: 2, dashArray: '6 4', fillOpacity: 0.15 }) : L.polyline(points, { color, weight: 3, dashArray: '6 4' }))
+        .addTo(overlay);
+      points.forEach(point => L.circleMarker(point, { radius: 4, color, fillOpacity: 1 }).addTo(overlay));
+    }
+  }, [measurements, draft, source, image, mode, target, areas]);
+
+  // Release the uploaded image when it is replaced or the tool closes
+  useEffect(() => {
+    if (!image) return;
+    return () => URL.revokeObjectURL(image.url);
+  }, [image]);
+
+  const handleImageUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    const url = URL.createObjectURL(file);
+    const element = new window.Image();
+    element.onload = () => {
+      setImage({ url, width: element.naturalWidth, height: element.naturalHeight });
+      setFeetPerPixel(null);
+      setDraft([]);
+      setMode('calibrate');
+      setSource('image');
+    };
+    element.src = url;
+  };
+
+  const handleSourceChange = (next: MeasurementSource) => {
+    setSource(next);
+    setDraft([]);
+    setMode(next === 'image' && !feetPerPixel ? 'calibrate' : 'idle');
+  };
+
+  const handleSetScale = () => {
+    const feet = parseFloat(calibrationFeet);
+    if (draft.length !== 2 || !(feet > 0)) return;
+    const pixels = planarDistance(draft[0], draft[1]);
+    if (pixels === 0) return;
+    setFeetPerPixel(feet / pixels);
+    setDraft([]);
+    setMode('idle');
+  };
+
+  const handleFinish = () => {
+    if (!canCompleteTrace(target, draft)) return;
+    const scale = source === 'image' ? feetPerPixel : null;
+    onAdd({
+      id: crypto.randomUUID(),
+      areaId,
+      target,
+      label: label.trim(),
+      source,
+      coordinates: draft,
+      feetPerPixel: scale,
+      quantity: measureCoordinates(target, draft, source, scale)
+    });
+    setDraft([]);
+    setLabel('');
+    setMode('idle');
+  };
+
+  const handleCancel = () => {
+    setDraft([]);
+    setMode(source === 'image' && !feetPerPixel ? 'calibrate' : 'idle');
+  };
+
+  const draftQuantity = mode === 'trace'
+    ? measureCoordinates(target, draft, source, source === 'image' ? feetPerPixel : null)
+    : 0;
+  const canTrace = areas.length > 0 && (source === 'map' || (!!image && !!feetPerPixel));
+
+  return (
+    <div className="fixed inset-0 bg-background/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <Card className="w-full max-w-6xl max-h-[95vh] overflow-y-auto bg-card border-border shadow-industrial">
+        <CardHeader>
+          <div className="flex justify-between items-center">
+            <CardTitle className="flex items-center gap-2 text-foreground">
+              <Ruler className="h-5 w-5 text-primary" />
+              Measure Areas
+            </CardTitle>
+            <Button variant="ghost" size="icon" onClick={onClose} aria-label="Close measurement tool">
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+          <p className="text-muted-foreground">
+            Trace sealcoat, oil spot and patch areas as polygons, and cracks or crosswalks as lines. Totals go straight into the selected area.
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-end gap-3">
+            <div className="flex gap-2">
+              <Button
+                variant={source === 'map' ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => handleSourceChange('map')}
+              >
+                <MapIcon className="h-4 w-4 mr-2" />
+                Map
+              </Button>
+              <Button
+                variant={source === 'image' ? 'default' : 'outline'}
+                size="sm"
+                disabled={!image}
+                onClick={() => handleSourceChange('image')}
+              >
+                <ImageIcon className="h-4 w-4 mr-2" />
+                Aerial Image
+              </Button>
+            </div>
+
+            {source === 'map' ? (
+              <Select value={tileLayer} onValueChange={(value) => setTileLayer(value as TileLayerKey)}>
+                <SelectTrigger className="w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(MAP_TILE_LAYERS) as TileLayerKey[]).map((key) => (
+                    <SelectItem key={key} value={key}>{MAP_TILE_LAYERS[key].name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : (
+              <Button variant="outline" size="sm" onClick={() => { setDraft([]); setMode('calibrate'); }}>
+                Recalibrate Scale
+              </Button>
+            )}
+
+            <div className="space-y-1">
+              <Label htmlFor="aerial-image" className="text-xs">Upload aerial image</Label>
+              <Input id="aerial-image" type="file" accept="image/*" className="w-56" onChange={handleImageUpload} />
+            </div>
+          </div>
+
+          {mode === 'calibrate' && (
+            <div className="flex flex-wrap items-end gap-3 p-3 border border-border rounded-lg bg-secondary/30">
+              <p className="text-sm text-muted-foreground flex-1 min-w-[240px]">
+                Set the image scale: click both ends of something with a known length (a parking stall is usually 18 ft), then enter that length.
+              </p>
+              <div className="space-y-1">
+                <Label htmlFor="calibration-feet" className="text-xs">Known length (ft)</Label>
+                <Input
+                  id="calibration-feet"
+                  type="number"
+                  className="w-32"
+                  value={calibrationFeet}
+                  onChange={(e) => setCalibrationFeet(e.target.value)}
+                  placeholder="18"
+                />
+              </div>
+              <Button size="sm" onClick={handleSetScale} disabled={draft.length !== 2 || !(parseFloat(calibrationFeet) > 0)}>
+                Set Scale
+              </Button>
+            </div>
+          )}
+
+          <div ref={containerRef} className="h-[480px] w-full rounded-lg border border-border isolate bg-muted/30" />
+
+          <div className="flex flex-wrap items-end gap-3">
+            <div className="space-y-1">
+              <Label className="text-xs">Area</Label>
+              <Select value={areaId} onValueChange={setAreaId} disabled={mode === 'trace'}>
+                <SelectTrigger className="w-44">
+                  <SelectValue placeholder="Select area" />
+                </SelectTrigger>
+                <SelectContent>
+                  {areas.map((area) => (
+                    <SelectItem key={area.id} value={area.id}>{area.name || 'Unnamed area'}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Measures</Label>
+              <Select value={target} onValueChange={(value) => setTarget(value as MeasurementTarget)} disabled={mode === 'trace'}>
+                <SelectTrigger className="w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {MEASUREMENT_TARGET_KEYS.map((key) => (
+                    <SelectItem key={key} value={key}>{MEASUREMENT_TARGETS[key].label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="measurement-label" className="text-xs">Label (optional)</Label>
+              <Input
+                id="measurement-label"
+                className="w-44"
+                value={label}
+                onChange={(e) => setLabel(e.target.value)}
+                placeholder="e.g. North row"
+              />
+            </div>
+
+            {mode === 'trace' ? (
+              <div className="flex items-center gap-2">
+                <Badge variant="secondary">{formatQuantity(target, draftQuantity)}</Badge>
+                <Button size="sm" variant="outline" onClick={() => setDraft(prev => prev.slice(0, -1))} disabled={draft.length === 0}>
+                  <Undo2 className="h-4 w-4 mr-2" />
+                  Undo Point
+                </Button>
+                <Button size="sm" variant="outline" onClick={handleCancel}>
+                  Cancel
+                </Button>
+                <Button size="sm" onClick={handleFinish} disabled={!canCompleteTrace(target, draft)}>
+                  <Check className="h-4 w-4 mr-2" />
+                  Finish
+                </Button>
+              </div>
+            ) : (
+              <Button size="sm" onClick={() => { setDraft([]); setMode('trace'); }} disabled={!canTrace || mode === 'calibrate'}>
+                <Pencil className="h-4 w-4 mr-2" />
+                Trace {MEASUREMENT_TARGETS[target].shape === 'polygon' ? 'Polygon' : 'Line'}
+              </Button>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <h3 className="text-sm font-semibold text-foreground">Measurements</h3>
+            {measurements.length === 0 && (
+              <p className="text-sm text-muted-foreground">Nothing traced yet. Click points on the map, then Finish.</p>
+            )}
+            {measurements.map((measurement) => (
+              <div key={measurement.id} className="flex items-center justify-between gap-4 p-2 border border-border rounded-lg">
+                <div className="flex items-center gap-2">
+                  <span className="h-3 w-3 rounded-full" style={{ backgroundColor: MEASUREMENT_TARGET_COLORS[measurement.target] }} />
+                  <span className="text-sm text-foreground">
+                    {areas.find(area => area.id === measurement.areaId)?.name ?? 'Area'}: {MEASUREMENT_TARGETS[measurement.target].label}
+                    {measurement.label && ` (${measurement.label})`}
+                  </span>
+                  <Badge variant="outline" className="text-xs">{measurement.source === 'map' ? 'Map' : 'Image'}</Badge>
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-medium">{formatQuantity(measurement.target, measurement.quantity)}</span>
+                  <Button size="icon" variant="ghost" onClick={() => onRemove(measurement)} aria-label="Remove measurement">
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex justify-end">
+            <Button onClick={onClose} className="bg-primary hover:bg-primary/90 text-primary-foreground">
+              Done
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default AreaMeasurementTool;
@@ -0,0 +1,210 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Loader2, Shield } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { MIN_PASSWORD_LENGTH, getAuthRedirectUrl } from '@/hooks/use-auth';
+
+type AuthMode = 'sign-in' | 'sign-up' | 'forgot-password';
+
+interface AuthFormProps {
+  onSignedIn: () => void;
+}
+
+const AuthForm = ({ onSignedIn }: AuthFormProps) => {
+  const { toast } = useToast();
+  const [mode, setMode] = useState<AuthMode>('sign-in');
+  const [fullName, setFullName] = useState('');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSignIn = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    try {
+      const { error } = await supabase.auth.signInWithPassword({ email, password });
+      if (error) throw error;
+      onSignedIn();
+    } catch (error) {
+      console.error('Error signing in:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to sign in",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleSignUp = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      toast({
+        title: "Error",
+        description: `Password must be at least ${MIN_PASSWORD_LENGTH} characters`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const { data, error } = await supabase.auth.signUp({
+        email,
+        password,
+        options: {
+          emailRedirectTo: getAuthRedirectUrl(),
+          data: { full_name: fullName.trim() || null },
+        },
+      });
+      if (error) throw error;
+
+      // Projects that require email confirmation return no session yet
+      if (data.session) {
+        onSignedIn();
+      } else {
+        toast({
+          title: "Success",
+          description: "Check your email to confirm your account, then sign in",
+        });
+        setMode('sign-in');
+      }
+    } catch (error) {
+      console.error('Error signing up:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to create account",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleResetRequest = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    try {
+      const { error } = await supabase.auth.resetPasswordForEmail(email, {
+        redirectTo: getAuthRedirectUrl('/reset-password'),
+      });
+      if (error) throw error;
+      toast({
+        title: "Success",
+        description: "If that email has an account, a reset link is on its way",
+      });
+      setMode('sign-in');
+    } catch (error) {
+      console.error('Error requesting password reset:', error);
+      toast({
+        title: "Error",
+        description: "Failed to send reset email",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const emailField = (
+    <div>
+      <Label htmlFor="auth-email">Email</Label>
+      <Input
+        id="auth-email"
+        type="email"
+        autoComplete="email"
+        required
+        value={email}
+        onChange={(e) => setEmail(e.target.value)}
+      />
+    </div>
+  );
+
+  const passwordField = (autoComplete: string) => (
+    <div>
+      <Label htmlFor="auth-password">Password</Label>
+      <Input
+        id="auth-password"
+        type="password"
+        autoComplete={autoComplete}
+        required
+        value={password}
+        onChange={(e) => setPassword(e.target.value)}
+      />
+    </div>
+  );
+
+  const submitButton = (label: string) => (
+    <Button type="submit" className="w-full bg-primary hover:bg-primary/90 text-primary-foreground" disabled={submitting}>
+      {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+      {label}
+    </Button>
+  );
+
+  return (
+    <Card className="w-full max-w-md bg-card border-border shadow-industrial">
+      <CardHeader className="text-center">
+        <div className="mx-auto p-2 bg-gradient-primary rounded-lg shadow-glow w-fit">
+          <Shield className="h-6 w-6 text-industrial-dark" />
+        </div>
+        <CardTitle className="text-foreground">Asphalt Overwatch</CardTitle>
+        <p className="text-sm text-muted-foreground">
+          {mode === 'forgot-password' ? 'Reset your password' : 'Sign in to manage estimates, projects and the fleet'}
+        </p>
+      </CardHeader>
+      <CardContent>
+        {mode === 'forgot-password' ? (
+          <form onSubmit={handleResetRequest} className="space-y-4">
+            {emailField}
+            {submitButton('Send Reset Link')}
+            <Button type="button" variant="link" className="w-full" onClick={() => setMode('sign-in')}>
+              Back to sign in
+            </Button>
+          </form>
+        ) : (
+          <Tabs value={mode} onValueChange={(value) => setMode(value as AuthMode)}>
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="sign-in">Sign In</TabsTrigger>
+              <TabsTrigger value="sign-up">Create Account</TabsTrigger>
+            </TabsList>
+            <TabsContent value="sign-in">
+              <form onSubmit={handleSignIn} className="space-y-4 pt-2">
+                {emailField}
+                {passwordField('current-password')}
+                {submitButton('Sign In')}
+                <Button type="button" variant="link" className="w-full" onClick={() => setMode('forgot-password')}>
+                  Forgot your password?
+                </Button>
+              </form>
+            </TabsContent>
+            <TabsContent value="sign-up">
+              <form onSubmit={handleSignUp} className="space-y-4 pt-2">
+                <div>
+                  <Label htmlFor="auth-full-name">Full Name</Label>
+                  <Input
+                    id="auth-full-name"
+                    autoComplete="name"
+                    value={fullName}
+                    onChange={(e) => setFullName(e.target.value)}
+                  />
+                </div>
+                {emailField}
+                {passwordField('new-password')}
+                <p className="text-xs text-muted-foreground">At least {MIN_PASSWORD_LENGTH} characters</p>
+                {submitButton('Create Account')}
+              </form>
+            </TabsContent>
+          </Tabs>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AuthForm;
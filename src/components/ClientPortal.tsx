@@ -0,0 +1,417 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { CheckCircle, CreditCard, Download, FileSignature, FileText, FolderOpen, Receipt } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  useAcceptPortalEstimate,
+  useAcceptPortalProposal,
+  useClientPortal,
+  useStartPortalPayment
+} from '@/hooks/use-client-portal';
+import {
+  PAYMENT_INSTRUCTIONS,
+  buildInvoice,
+  canAcceptEstimate,
+  getBalanceDue,
+  getInvoiceNumber,
+  getPaymentUrl,
+  getPortalQuote,
+  isOnlinePaymentEnabled,
+  type PortalEstimate,
+  type PortalProposal
+} from '@/lib/client-portal';
+import { PROJECT_STATUS_LABELS, PROJECT_TYPE_LABELS } from '@/lib/projects';
+import { downloadQuotePdf } from '@/lib/quote-pdf';
+import { downloadInvoicePdf } from '@/lib/invoice-pdf';
+
+const formatCurrency = (value: number) =>
+  `$${value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatDate = (value: string | null) =>
+  value ? new Date(`${value.slice(0, 10)}T00:00:00`).toLocaleDateString() : '—';
+
+const getStatusColor = (status: string | null) => {
+  switch (status) {
+    case 'completed':
+    case 'accepted': return 'bg-green-500/10 text-green-400 border-green-500/20';
+    case 'in_progress':
+    case 'sent': return 'bg-blue-500/10 text-blue-400 border-blue-500/20';
+    case 'declined':
+    case 'cancelled': return 'bg-red-500/10 text-red-400 border-red-500/20';
+    case 'on_hold': return 'bg-yellow-500/10 text-yellow-400 border-yellow-500/20';
+    default: return 'bg-gray-500/10 text-gray-400 border-gray-500/20';
+  }
+};
+
+const formatStatus = (status: string | null) =>
+  (status || 'pending').replace(/_/g, ' ').replace(/\b\w/g, letter => letter.toUpperCase());
+
+const ClientPortal = () => {
+  const { toast } = useToast();
+  const { data, isLoading } = useClientPortal();
+  const acceptEstimate = useAcceptPortalEstimate();
+  const acceptProposal = useAcceptPortalProposal();
+  const startPayment = useStartPortalPayment();
+  const [payingProposal, setPayingProposal] = useState<PortalProposal | null>(null);
+  const [paymentAmount, setPaymentAmount] = useState('');
+
+  const { projects = [], milestones = [], estimates = [], proposals = [], payments = [], contracts = [] } = data ?? {};
+  const onlinePayments = isOnlinePaymentEnabled();
+
+  const handleAcceptEstimate = async (estimate: PortalEstimate) => {
+    try {
+      await acceptEstimate.mutateAsync(estimate.id);
+      toast({
+        title: "Success",
+        description: "Thank you! We'll be in touch to schedule the work.",
+      });
+    } catch (error) {
+      console.error('Error accepting estimate:', error);
+      toast({
+        title: "Error",
+        description: "This estimate can no longer be accepted. Please contact us for an updated quote.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleAcceptProposal = async (proposal: PortalProposal) => {
+    try {
+      await acceptProposal.mutateAsync(proposal.id);
+      toast({
+        title: "Success",
+        description: "Proposal accepted",
+      });
+    } catch (error) {
+      console.error('Error accepting proposal:', error);
+      toast({
+        title: "Error",
+        description: "Failed to accept proposal",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const openPayment = (proposal: PortalProposal) => {
+    setPayingProposal(proposal);
+    setPaymentAmount(getBalanceDue(proposal).toFixed(2));
+  };
+
+  const handlePayment = async () => {
+    if (!payingProposal) return;
+    const amount = Number(paymentAmount);
+    if (!(amount > 0) || amount > getBalanceDue(payingProposal)) {
+      toast({
+        title: "Error",
+        description: `Enter an amount up to ${formatCurrency(getBalanceDue(payingProposal))}`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      const reference = await startPayment.mutateAsync({ proposalId: payingProposal.id, amount });
+      const url = getPaymentUrl(reference, amount);
+      if (url) window.location.assign(url);
+    } catch (error) {
+      console.error('Error starting payment:', error);
+      toast({
+        title: "Error",
+        description: "Failed to start payment",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground">Loading your account...</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-3xl font-bold text-foreground">Client Portal</h2>
+        <p className="text-muted-foreground">Your projects, quotes, invoices and contracts</p>
+      </div>
+
+      <Tabs defaultValue="projects" className="space-y-6">
+        <TabsList className="grid w-full grid-cols-4">
+          <TabsTrigger value="projects">Projects</TabsTrigger>
+          <TabsTrigger value="estimates">Estimates</TabsTrigger>
+          <TabsTrigger value="invoices">Invoices & Payments</TabsTrigger>
+          <TabsTrigger value="contracts">Contracts</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="projects" className="space-y-4">
+          {projects.length === 0 && (
+            <p className="text-sm text-muted-foreground">No projects yet.</p>
+          )}
+          {projects.map((project) => {
+            const projectMilestones = milestones.filter(milestone => milestone.project_id === project.id);
+            return (
+              <Card key={project.id} className="bg-card border-border shadow-industrial">
+                <CardHeader>
+                  <div className="flex items-start justify-between gap-4">
+                    <div>
+                      <CardTitle className="text-foreground flex items-center gap-2">
+                        <FolderOpen className="h-5 w-5 text-primary" />
+                        {project.name}
+                      </CardTitle>
+                      <p className="text-sm text-muted-foreground">
+                        {project.project_type ? PROJECT_TYPE_LABELS[project.project_type] : ''}
+                        {project.site_address ? ` · ${project.site_address}` : ''}
+                      </p>
+                    </div>
+                    <Badge className={getStatusColor(project.status)}>
+                      {project.status ? PROJECT_STATUS_LABELS[project.status] : 'Pending'}
+                    </Badge>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {project.description && <p className="text-sm text-foreground">{project.description}</p>}
+                  <div className="text-sm text-muted-foreground">
+                    {formatDate(project.start_date)} – {formatDate(project.end_date)}
+                  </div>
+                  {projectMilestones.length > 0 && (
+                    <div className="space-y-2">
+                      {projectMilestones.map((milestone) => (
+                        <div key={milestone.id} className="flex items-center justify-between p-3 bg-muted/50 rounded-lg">
+                          <div>
+                            <div className="font-medium text-foreground">{milestone.title}</div>
+                            <div className="text-xs text-muted-foreground">
+                              {milestone.completed_date
+                                ? `Completed ${formatDate(milestone.completed_date)}`
+                                : `Target ${formatDate(milestone.target_date)}`}
+                            </div>
+                          </div>
+                          <Badge className={getStatusColor(milestone.status)}>{formatStatus(milestone.status)}</Badge>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            );
+          })}
+        </TabsContent>
+
+        <TabsContent value="estimates" className="space-y-4">
+          {estimates.length === 0 && (
+            <p className="text-sm text-muted-foreground">No estimates have been sent to you yet.</p>
+          )}
+          {estimates.map((estimate) => {
+            const quote = getPortalQuote(estimate);
+            if (!quote) return null;
+            return (
+              <Card key={estimate.id} className="bg-card border-border shadow-industrial">
+                <CardHeader>
+                  <div className="flex items-start justify-between gap-4">
+                    <div>
+                      <CardTitle className="text-foreground flex items-center gap-2">
+                        <FileText className="h-5 w-5 text-primary" />
+                        Quote {quote.quoteNumber}
+                      </CardTitle>
+                      <p className="text-sm text-muted-foreground">
+                        {quote.jobSiteAddress || estimate.job_site_address} · Valid until {formatDate(estimate.valid_until)}
+                      </p>
+                    </div>
+                    <Badge className={getStatusColor(estimate.status)}>{formatStatus(estimate.status)}</Badge>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="space-y-2">
+                    {quote.scope.map((item) => (
+                      <div key={item.title} className="flex justify-between gap-4 text-sm">
+                        <div>
+                          <div className="font-medium text-foreground">{item.title}</div>
+                          <div className="text-muted-foreground">{item.description}</div>
+                        </div>
+                        <div className="font-medium text-foreground whitespace-nowrap">{formatCurrency(item.amount)}</div>
+                      </div>
+                    ))}
+                  </div>
+                  <div className="flex justify-between border-t border-border pt-3 font-bold text-foreground">
+                    <span>Total</span>
+                    <span>{formatCurrency(quote.total)}</span>
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    <Button variant="outline" onClick={() => downloadQuotePdf(quote)}>
+                      <Download className="h-4 w-4 mr-2" />
+                      Download PDF
+                    </Button>
+                    {canAcceptEstimate(estimate) && (
+                      <Button
+                        onClick={() => handleAcceptEstimate(estimate)}
+                        disabled={acceptEstimate.isPending}
+                        className="bg-primary hover:bg-primary/90 text-primary-foreground"
+                      >
+                        <CheckCircle className="h-4 w-4 mr-2" />
+                        Accept Quote
+                      </Button>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </TabsContent>
+
+        <TabsContent value="invoices" className="space-y-4">
+          {proposals.length === 0 && (
+            <p className="text-sm text-muted-foreground">No proposals or invoices yet.</p>
+          )}
+          {proposals.map((proposal) => {
+            const balanceDue = getBalanceDue(proposal);
+            const proposalPayments = payments.filter(payment => payment.proposal_id === proposal.id);
+            return (
+              <Card key={proposal.id} className="bg-card border-border shadow-industrial">
+                <CardHeader>
+                  <div className="flex items-start justify-between gap-4">
+                    <div>
+                      <CardTitle className="text-foreground flex items-center gap-2">
+                        <Receipt className="h-5 w-5 text-primary" />
+                        {proposal.project_name || 'Proposal'}
+                      </CardTitle>
+                      <p className="text-sm text-muted-foreground">Invoice {getInvoiceNumber(proposal.id)}</p>
+                    </div>
+                    <Badge className={getStatusColor(proposal.status)}>{formatStatus(proposal.status)}</Badge>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="grid grid-cols-3 gap-4 text-sm">
+                    <div>
+                      <div className="text-muted-foreground">Amount</div>
+                      <div className="font-medium text-foreground">{formatCurrency(proposal.amount ?? 0)}</div>
+                    </div>
+                    <div>
+                      <div className="text-muted-foreground">Paid</div>
+                      <div className="font-medium text-foreground">{formatCurrency(proposal.amount_paid ?? 0)}</div>
+                    </div>
+                    <div>
+                      <div className="text-muted-foreground">Balance Due</div>
+                      <div className="font-medium text-foreground">{formatCurrency(balanceDue)}</div>
+                    </div>
+                  </div>
+                  {proposalPayments.length > 0 && (
+                    <div className="space-y-1 text-sm">
+                      {proposalPayments.map((payment) => (
+                        <div key={payment.id} className="flex justify-between text-muted-foreground">
+                          <span>{formatDate(payment.payment_date)} · {formatStatus(payment.status)}</span>
+                          <span>{formatCurrency(payment.amount ?? 0)}</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  <div className="flex flex-wrap gap-2">
+                    {proposal.status === 'sent' && (
+                      <Button
+                        onClick={() => handleAcceptProposal(proposal)}
+                        disabled={acceptProposal.isPending}
+                        className="bg-primary hover:bg-primary/90 text-primary-foreground"
+                      >
+                        <CheckCircle className="h-4 w-4 mr-2" />
+                        Accept Proposal
+                      </Button>
+                    )}
+                    {proposal.status === 'accepted' && (
+                      <Button variant="outline" onClick={() => downloadInvoicePdf(buildInvoice(proposal, payments))}>
+                        <Download className="h-4 w-4 mr-2" />
+                        Download Invoice
+                      </Button>
+                    )}
+                    {proposal.status === 'accepted' && balanceDue > 0 && onlinePayments && (
+                      <Button
+                        onClick={() => openPayment(proposal)}
+                        className="bg-primary hover:bg-primary/90 text-primary-foreground"
+                      >
+                        <CreditCard className="h-4 w-4 mr-2" />
+                        Pay Now
+                      </Button>
+                    )}
+                  </div>
+                  {proposal.status === 'accepted' && balanceDue > 0 && !onlinePayments && (
+                    <p className="text-sm text-muted-foreground">{PAYMENT_INSTRUCTIONS}</p>
+                  )}
+                </CardContent>
+              </Card>
+            );
+          })}
+        </TabsContent>
+
+        <TabsContent value="contracts" className="space-y-4">
+          <Card className="bg-card border-border shadow-industrial">
+            <CardHeader>
+              <CardTitle className="text-foreground flex items-center gap-2">
+                <FileSignature className="h-5 w-5 text-primary" />
+                Signed Contracts
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {contracts.length === 0 && (
+                <p className="text-sm text-muted-foreground">No signed contracts yet.</p>
+              )}
+              {contracts.map((contract) => (
+                <div key={contract.id} className="flex items-center justify-between p-3 bg-muted/50 rounded-lg">
+                  <div>
+                    <div className="font-medium text-foreground">{contract.job_title || 'Contract'}</div>
+                    <div className="text-xs text-muted-foreground">Signed {formatDate(contract.signed_at)}</div>
+                  </div>
+                  {contract.contract_url && (
+                    <Button variant="outline" size="sm" asChild>
+                      <a href={contract.contract_url} target="_blank" rel="noopener noreferrer">
+                        <Download className="h-4 w-4 mr-2" />
+                        Download
+                      </a>
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+
+      <Dialog open={!!payingProposal} onOpenChange={(open) => !open && setPayingProposal(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Make a Payment</DialogTitle>
+            <DialogDescription>
+              {payingProposal && `Balance due ${formatCurrency(getBalanceDue(payingProposal))}. You'll be taken to our secure payment page.`}
+            </DialogDescription>
+          </DialogHeader>
+          <Input
+            type="number"
+            min="0"
+            step="0.01"
+            value={paymentAmount}
+            onChange={(e) => setPaymentAmount(e.target.value)}
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPayingProposal(null)}>Cancel</Button>
+            <Button
+              onClick={handlePayment}
+              disabled={startPayment.isPending}
+              className="bg-primary hover:bg-primary/90 text-primary-foreground"
+            >
+              Continue to Payment
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default ClientPortal;
@@ -0,0 +1,238 @@
+import React, { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { useAddCostEntry } from '@/hooks/use-job-costing';
+import {
+  COST_CATEGORY_LABELS,
+  COST_ENTRY_CATEGORIES,
+  costEntryFormSchema,
+  getCostEntryFormValues,
+  serializeCostEntryForm,
+  type CostEntryFormValues,
+  type InventoryItemRecord
+} from '@/lib/job-costing';
+
+// Select items can't have an empty value
+const NONE = 'none';
+
+interface CostEntryFormProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  projectId: string;
+  inventoryItems: InventoryItemRecord[];
+}
+
+const CostEntryForm = ({ open, onOpenChange, projectId, inventoryItems }: CostEntryFormProps) => {
+  const { toast } = useToast();
+  const addCostEntry = useAddCostEntry();
+  const [receipt, setReceipt] = useState<File | null>(null);
+  const form = useForm<CostEntryFormValues>({
+    resolver: zodResolver(costEntryFormSchema),
+    defaultValues: getCostEntryFormValues(format(new Date(), 'yyyy-MM-dd')),
+  });
+
+  useEffect(() => {
+    if (open) {
+      form.reset(getCostEntryFormValues(format(new Date(), 'yyyy-MM-dd')));
+      setReceipt(null);
+    }
+  }, [open, form]);
+
+  const category = form.watch('category');
+  const item = category === 'material'
+    ? inventoryItems.find(candidate => candidate.id === form.watch('inventory_item_id'))
+    : undefined;
+  const quantity = form.watch('quantity');
+
+  const onSubmit = async (values: CostEntryFormValues) => {
+    try {
+      await addCostEntry.mutateAsync({
+        values: serializeCostEntryForm(values, projectId, inventoryItems),
+        receipt: item ? null : receipt,
+      });
+      toast({
+        title: "Success",
+        description: "Cost added",
+      });
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error adding cost:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to add cost",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Add Cost</DialogTitle>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="category"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Category</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {COST_ENTRY_CATEGORIES.map((option) => (
+                          <SelectItem key={option} value={option}>{COST_CATEGORY_LABELS[option]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="incurred_on"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Date</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            {category === 'material' && (
+              <FormField
+                control={form.control}
+                name="inventory_item_id"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>From Inventory</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={NONE}>Bought for this job</SelectItem>
+                        {inventoryItems.map((option) => (
+                          <SelectItem key={option.id} value={option.id}>
+                            {option.name} ({option.quantity ?? 0}{option.unit ? ` ${option.unit}` : ''} in stock)
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Description</FormLabel>
+                  <FormControl>
+                    <Input
+                      placeholder={item ? item.name : category === 'fuel' ? 'e.g. Diesel, truck 12' : 'e.g. Crack filler, 10 boxes'}
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="quantity"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Quantity{item?.unit ? ` (${item.unit})` : ''}</FormLabel>
+                    <FormControl>
+                      <Input type="number" min="0" step="0.01" {...field} value={field.value ?? ''} />
+                    </FormControl>
+                    {!item && <FormDescription>Optional, e.g. gallons of fuel</FormDescription>}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              {item ? (
+                <div className="space-y-2">
+                  <Label>Cost</Label>
+                  <div className="h-10 flex items-center text-sm text-foreground">
+                    ${((Number(quantity) || 0) * item.unit_cost).toFixed(2)}
+                  </div>
+                  <p className="text-sm text-muted-foreground">At ${item.unit_cost.toFixed(2)}{item.unit ? ` per ${item.unit}` : ' each'}</p>
+                </div>
+              ) : (
+                <FormField
+                  control={form.control}
+                  name="amount"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Amount ($)</FormLabel>
+                      <FormControl>
+                        <Input type="number" min="0" step="0.01" {...field} value={field.value ?? ''} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+            </div>
+
+            {!item && (
+              <div className="space-y-2">
+                <Label htmlFor="cost-receipt">Receipt</Label>
+                <Input
+                  id="cost-receipt"
+                  type="file"
+                  accept="image/*,application/pdf"
+                  onChange={(event) => setReceipt(event.target.files?.[0] ?? null)}
+                />
+              </div>
+            )}
+
+            <DialogFooter className="pt-4 border-t border-border">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={addCostEntry.isPending}
+                className="bg-primary hover:bg-primary/90 text-primary-foreground"
+              >
+                Add Cost
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CostEntryForm;
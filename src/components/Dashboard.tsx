@@ -1,3 +1,4 @@
+import { Link } from "react-router-dom";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -9,42 +10,62 @@ import {
   TrendingUp,
   AlertTriangle,
   CheckCircle2,
-  Clock
+  Clock,
+  CloudRain,
+  Truck
 } from "lucide-react";
+import { format } from "date-fns";
+import { useScheduledWeatherChecks, useWeatherForecast } from "@/hooks/use-weather";
+import { useDashboardMetrics } from "@/hooks/use-dashboard";
+import { WEATHER_REQUIREMENTS, getCurrentConditions } from "@/lib/weather";
+import { formatTrendChange } from "@/lib/dashboard";
+
+const PROJECT_STATUS_LABELS: Record<string, string> = {
+  pending: "Pending",
+  in_progress: "In Progress",
+  completed: "Completed",
+  cancelled: "Cancelled",
+};
 
 const Dashboard = () => {
-  const projects = [
-    { id: 1, name: "Highway 101 Resurfacing", status: "In Progress", progress: 65, location: "San Francisco, CA" },
-    { id: 2, name: "Downtown Street Repair", status: "Planning", progress: 25, location: "Oakland, CA" },
-    { id: 3, name: "Airport Runway Maintenance", status: "Completed", progress: 100, location: "SFO, CA" },
-  ];
+  const { metrics, isLoading } = useDashboardMetrics();
+  const { data: forecast = [] } = useWeatherForecast();
+  const { checks: weatherChecks, delayCount } = useScheduledWeatherChecks();
+  const current = getCurrentConditions(forecast);
+  const atRisk = weatherChecks.filter(check => check.status === "unsuitable");
+  const sealcoatRequirement = WEATHER_REQUIREMENTS.sealcoating;
+  const sealcoatWeatherOk = current
+    ? current.temperatureF >= sealcoatRequirement.minTemperatureF && current.condition !== "rainy" && current.condition !== "snowy"
+    : null;
 
   const kpis = [
-    { title: "Active Projects", value: "12", icon: Activity, trend: "+2" },
-    { title: "Completion Rate", value: "94%", icon: CheckCircle2, trend: "+3%" },
-    { title: "Weather Delays", value: "3", icon: Thermometer, trend: "-1" },
-    { title: "Scheduled Tasks", value: "45", icon: Calendar, trend: "+8" },
+    { title: "Active Projects", value: String(metrics.activeProjects.current), icon: Activity, trend: formatTrendChange(metrics.activeProjects), href: "/projects" },
+    { title: "Completion Rate", value: `${metrics.completionRate.current}%`, icon: CheckCircle2, trend: formatTrendChange(metrics.completionRate, "%"), href: "/projects" },
+    { title: "Weather Delays", value: String(delayCount), icon: Thermometer, caption: "scheduled jobs at risk in the 7-day forecast", href: "/projects" },
+    { title: "Scheduled Tasks", value: String(metrics.scheduledTasks.current), icon: Calendar, trend: formatTrendChange(metrics.scheduledTasks), href: "/projects" },
   ];
 
   return (
     <div className="space-y-6">
       {/* KPI Cards */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
-        {kpis.map((kpi, index) => (
-          <Card key={index} className="bg-card border-border hover:shadow-industrial transition-all duration-300">
-            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium text-muted-foreground">
-                {kpi.title}
-              </CardTitle>
-              <kpi.icon className="h-4 w-4 text-industrial-orange" />
-            </CardHeader>
-            <CardContent>
-              <div className="text-2xl font-bold text-foreground">{kpi.value}</div>
-              <p className="text-xs text-muted-foreground">
-                <span className="text-industrial-orange">{kpi.trend}</span> from last month
-              </p>
-            </CardContent>
-          </Card>
+        {kpis.map((kpi) => (
+          <Link key={kpi.title} to={kpi.href}>
+            <Card className="bg-card border-border hover:shadow-industrial transition-all duration-300 h-full">
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium text-muted-foreground">
+                  {kpi.title}
+                </CardTitle>
+                <kpi.icon className="h-4 w-4 text-industrial-orange" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold text-foreground">{isLoading ? "—" : kpi.value}</div>
+                <p className="text-xs text-muted-foreground">
+                  {kpi.caption ?? <><span className="text-industrial-orange">{kpi.trend}</span> from last month</>}
+                </p>
+              </CardContent>
+            </Card>
+          </Link>
         ))}
       </div>
 
@@ -58,40 +79,46 @@ const Dashboard = () => {
         </CardHeader>
         <CardContent>
           <div className="space-y-4">
-            {projects.map((project) => (
+            {!isLoading && metrics.activeProjectList.length === 0 && (
+              <p className="text-sm text-muted-foreground">No active projects. Accepted estimates and new projects show up here.</p>
+            )}
+            {metrics.activeProjectList.slice(0, 5).map(({ project, progress, taskCount, milestoneCount }) => (
               <div key={project.id} className="flex items-center justify-between p-4 rounded-lg bg-muted/50 border border-border">
                 <div className="flex-1">
                   <h3 className="font-medium text-foreground">{project.name}</h3>
                   <p className="text-sm text-muted-foreground flex items-center gap-1 mt-1">
                     <MapPin className="h-3 w-3" />
-                    {project.location}
+                    {project.site_address || "No site address"}
                   </p>
                   <div className="flex items-center gap-2 mt-2">
                     <div className="flex-1 bg-secondary rounded-full h-2">
                       <div 
                         className="bg-gradient-primary h-2 rounded-full transition-all duration-500"
-                        style={{ width: `${project.progress}%` }}
+                        style={{ width: `${progress}%` }}
                       />
                     </div>
-                    <span className="text-xs text-muted-foreground">{project.progress}%</span>
+                    <span className="text-xs text-muted-foreground">
+                      {taskCount + milestoneCount > 0 ? `${progress}%` : "No tasks"}
+                    </span>
                   </div>
                 </div>
                 <div className="flex items-center gap-3 ml-4">
-                  <Badge 
-                    variant={project.status === "Completed" ? "default" : project.status === "In Progress" ? "secondary" : "outline"}
-                    className={project.status === "Completed" ? "bg-industrial-orange text-industrial-dark" : ""}
-                  >
-                    {project.status === "In Progress" && <Clock className="h-3 w-3 mr-1" />}
-                    {project.status === "Completed" && <CheckCircle2 className="h-3 w-3 mr-1" />}
-                    {project.status === "Planning" && <AlertTriangle className="h-3 w-3 mr-1" />}
-                    {project.status}
+                  <Badge variant={project.status === "in_progress" ? "secondary" : "outline"}>
+                    {project.status === "in_progress" && <Clock className="h-3 w-3 mr-1" />}
+                    {project.status === "pending" && <AlertTriangle className="h-3 w-3 mr-1" />}
+                    {PROJECT_STATUS_LABELS[project.status ?? ""] ?? project.status}
                   </Badge>
-                  <Button variant="outline" size="sm">
-                    View Details
+                  <Button variant="outline" size="sm" asChild>
+                    <Link to={`/projects?project=${project.id}`}>View Details</Link>
                   </Button>
                 </div>
               </div>
             ))}
+            {metrics.activeProjectList.length > 5 && (
+              <Button variant="ghost" size="sm" asChild>
+                <Link to="/projects">View all {metrics.activeProjectList.length} active projects</Link>
+              </Button>
+            )}
           </div>
         </CardContent>
       </Card>
@@ -109,21 +136,55 @@ const Dashboard = () => {
             <div className="space-y-4">
               <div className="flex items-center justify-between">
                 <span className="text-sm text-muted-foreground">Current Temperature</span>
-                <span className="font-medium text-foreground">72°F</span>
+                <span className="font-medium text-foreground">{current ? `${Math.round(current.temperatureF)}°F` : "—"}</span>
               </div>
               <div className="flex items-center justify-between">
                 <span className="text-sm text-muted-foreground">Humidity</span>
-                <span className="font-medium text-foreground">45%</span>
+                <span className="font-medium text-foreground">{current ? `${Math.round(current.humidity)}%` : "—"}</span>
               </div>
               <div className="flex items-center justify-between">
                 <span className="text-sm text-muted-foreground">Wind Speed</span>
-                <span className="font-medium text-foreground">8 mph</span>
+                <span className="font-medium text-foreground">{current ? `${Math.round(current.windSpeedMph)} mph` : "—"}</span>
+              </div>
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-muted-foreground">Chance of Rain</span>
+                <span className="font-medium text-foreground">{current ? `${Math.round(current.precipitationProbability)}%` : "—"}</span>
               </div>
               <div className="pt-2">
-                <Badge className="bg-industrial-blue/20 text-industrial-blue border-industrial-blue">
-                  Optimal Paving Conditions
-                </Badge>
+                {sealcoatWeatherOk === null ? (
+                  <Badge variant="outline">Forecast unavailable</Badge>
+                ) : sealcoatWeatherOk ? (
+                  <Badge className="bg-industrial-blue/20 text-industrial-blue border-industrial-blue">
+                    Sealcoat Conditions OK
+                  </Badge>
+                ) : (
+                  <Badge className="bg-yellow-500/10 text-yellow-400 border-yellow-500/20">
+                    Below Sealcoat Conditions
+                  </Badge>
+                )}
               </div>
+              {atRisk.length > 0 && (
+                <div className="space-y-2 pt-2 border-t border-border">
+                  <h4 className="text-sm font-medium text-foreground flex items-center gap-2">
+                    <CloudRain className="h-4 w-4 text-industrial-blue" />
+                    Jobs at Risk
+                  </h4>
+                  {atRisk.map((check) => {
+                    const badDay = check.days.find(day => day.assessment.status === "unsuitable");
+                    return (
+                      <div key={check.project.id} className="text-sm">
+                        <div className="flex items-center justify-between">
+                          <span className="text-foreground">{check.project.name}</span>
+                          <span className="text-muted-foreground">
+                            {badDay && format(new Date(`${badDay.date}T00:00:00`), "EEE MMM d")}
+                          </span>
+                        </div>
+                        <p className="text-xs text-muted-foreground">{badDay?.assessment.reasons.join("; ")}</p>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
             </div>
           </CardContent>
         </Card>
@@ -138,22 +199,33 @@ const Dashboard = () => {
           <CardContent>
             <div className="space-y-4">
               <div className="flex items-center justify-between">
-                <span className="text-sm text-muted-foreground">Projects This Month</span>
-                <span className="font-medium text-foreground">18</span>
+                <span className="text-sm text-muted-foreground">Projects Started This Month</span>
+                <span className="font-medium text-foreground">
+                  {metrics.projectsStarted.current}
+                  <span className="text-xs text-industrial-orange ml-2">{formatTrendChange(metrics.projectsStarted)}</span>
+                </span>
               </div>
               <div className="flex items-center justify-between">
                 <span className="text-sm text-muted-foreground">Average Completion</span>
-                <span className="font-medium text-foreground">12.5 days</span>
+                <span className="font-medium text-foreground">
+                  {metrics.averageCompletionDays.current > 0 ? `${metrics.averageCompletionDays.current} days` : "—"}
+                  {metrics.averageCompletionDays.previous > 0 && metrics.averageCompletionDays.current > 0 && (
+                    <span className="text-xs text-industrial-orange ml-2">{formatTrendChange(metrics.averageCompletionDays, "d")}</span>
+                  )}
+                </span>
               </div>
               <div className="flex items-center justify-between">
-                <span className="text-sm text-muted-foreground">Quality Score</span>
-                <span className="font-medium text-foreground">98.2%</span>
-              </div>
-              <div className="pt-2">
-                <Badge className="bg-industrial-orange/20 text-industrial-orange border-industrial-orange">
-                  Above Target
-                </Badge>
+                <span className="text-sm text-muted-foreground">Open Jobs</span>
+                <span className="font-medium text-foreground">{metrics.openJobs}</span>
               </div>
+              <Link to="/fleet" className="flex items-center justify-between hover:underline">
+                <span className="text-sm text-muted-foreground flex items-center gap-1">
+                  <Truck className="h-3 w-3" />
+                  Fleet Trackers Online
+                </span>
+                <span className="font-medium text-foreground">{metrics.devicesOnline} / {metrics.deviceCount}</span>
+              </Link>
+              <p className="text-xs text-muted-foreground pt-2">Trends compare with last month</p>
             </div>
           </CardContent>
         </Card>
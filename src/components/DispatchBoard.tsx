@@ -0,0 +1,373 @@
+import React, { useState } from 'react';
+import { addDays, format, isSameDay, isToday } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle, ChevronLeft, ChevronRight, GripVertical, MapPin, Truck, Users, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { usePermissions } from '@/hooks/use-permissions';
+import { getEmployeeName, useEmployees } from '@/hooks/use-employees';
+import {
+  useBookings,
+  useDeleteBooking,
+  useDispatchJobs,
+  useEquipment,
+  useSaveBooking
+} from '@/hooks/use-dispatch';
+import {
+  BOARD_END_HOUR,
+  BOARD_START_HOUR,
+  CLOSED_JOB_STATUSES,
+  EQUIPMENT_STATUS_LABELS,
+  findBookingConflicts,
+  formatBookingTime,
+  getBoardDays,
+  getBoardRange,
+  getConflictingBookingIds,
+  getDropSlot,
+  isEquipmentSchedulable,
+  moveBooking,
+  type BoardView,
+  type Booking,
+  type BookingKind
+} from '@/lib/dispatch';
+
+interface BoardResource {
+  kind: BookingKind;
+  id: string;
+  name: string;
+  detail: string | null;
+  unavailableReason: string | null; // set when the resource can't be booked
+}
+
+// What's being dragged: a job from the list or a booking already on the board
+type DragPayload = { jobId: string } | { bookingId: string };
+
+const HOURS = Array.from({ length: BOARD_END_HOUR - BOARD_START_HOUR }, (_, index) => BOARD_START_HOUR + index);
+
+const DispatchBoard = () => {
+  const [view, setView] = useState<BoardView>('week');
+  const [anchor, setAnchor] = useState(() => new Date());
+  const { toast } = useToast();
+  const { can } = usePermissions();
+  const canManage = can('schedule.manage');
+  const { data: employees = [] } = useEmployees();
+  const { data: equipment = [] } = useEquipment();
+  const { data: jobs = [] } = useDispatchJobs();
+  const days = getBoardDays(view, anchor);
+  const { bookings } = useBookings(getBoardRange(view, anchor));
+  const saveBooking = useSaveBooking();
+  const deleteBooking = useDeleteBooking();
+
+  const conflictIds = getConflictingBookingIds(bookings);
+  const openJobs = jobs.filter(job => !CLOSED_JOB_STATUSES.includes(job.status ?? ''));
+  const getJobTitle = (jobId: string) => jobs.find(job => job.id === jobId)?.title ?? 'Job';
+
+  const resources: BoardResource[] = [
+    ...employees.map(employee => ({
+      kind: 'crew' as const,
+      id: employee.id,
+      name: getEmployeeName(employee),
+      detail: employee.role,
+      unavailableReason: null,
+    })),
+    ...equipment.map(item => ({
+      kind: 'equipment' as const,
+      id: item.id,
+      name: item.name,
+      detail: item.type.replace(/_/g, ' '),
+      unavailableReason: isEquipmentSchedulable(item) ? null : EQUIPMENT_STATUS_LABELS[item.status],
+    })),
+  ];
+  const unavailableBookings = bookings.filter(booking =>
+    resources.some(resource => resource.id === booking.resourceId && resource.kind === booking.kind && resource.unavailableReason));
+
+  const shift = (direction: number) => setAnchor(addDays(anchor, direction * (view === 'day' ? 1 : 7)));
+
+  const startDrag = (event: React.DragEvent, payload: DragPayload) => {
+    event.dataTransfer.setData('text/plain', JSON.stringify(payload));
+    event.dataTransfer.effectAllowed = 'move';
+  };
+
+  // Drops are checked against the same rules the database enforces so the
+  // dispatcher hears why a booking was refused before anything is saved
+  const handleDrop = async (event: React.DragEvent, resource: BoardResource, day: Date, hour?: number) => {
+    event.preventDefault();
+    if (!canManage) return;
+
+    let payload: Partial<{ jobId: string; bookingId: string }>;
+    try {
+      payload = JSON.parse(event.dataTransfer.getData('text/plain'));
+    } catch {
+      return;
+    }
+    const existing = payload.bookingId ? bookings.find(booking => booking.id === payload.bookingId) : null;
+    const jobId = existing?.jobId ?? payload.jobId;
+    if (!jobId) return;
+
+    const refuse = (description: string) => toast({ title: "Can't book", description, variant: "destructive" });
+    if (existing && existing.kind !== resource.kind) {
+      return refuse(existing.kind === 'crew' ? 'Crew bookings can only move to another crew member' : 'Equipment bookings can only move to other equipment');
+    }
+    if (resource.unavailableReason) {
+      return refuse(`${resource.name} is ${resource.unavailableReason.toLowerCase()} and can't be scheduled`);
+    }
+
+    const slot = existing ? moveBooking(existing, day, hour) : getDropSlot(day, hour);
+    const candidate = { id: existing?.id, kind: resource.kind, resourceId: resource.id, jobId, ...slot };
+    const [conflict] = findBookingConflicts(candidate, bookings);
+    if (conflict) {
+      return refuse(`${resource.name} is already booked on ${getJobTitle(conflict.jobId)} ${format(conflict.start, 'EEE')} ${formatBookingTime(conflict)}`);
+    }
+
+    try {
+      await saveBooking.mutateAsync(candidate);
+      toast({
+        title: "Success",
+        description: `${resource.name} booked on ${getJobTitle(jobId)}`,
+      });
+    } catch (error) {
+      console.error('Error saving booking:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save booking",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const removeBooking = async (booking: Booking) => {
+    try {
+      await deleteBooking.mutateAsync(booking);
+    } catch (error) {
+      console.error('Error deleting booking:', error);
+      toast({
+        title: "Error",
+        description: "Failed to remove booking",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const dropProps = (resource: BoardResource, day: Date, hour?: number) => ({
+    onDragOver: (event: React.DragEvent) => canManage && !resource.unavailableReason && event.preventDefault(),
+    onDrop: (event: React.DragEvent) => handleDrop(event, resource, day, hour),
+  });
+
+  const renderBooking = (booking: Booking, style?: React.CSSProperties) => (
+    <div
+      key={booking.id}
+      draggable={canManage}
+      onDragStart={(event) => startDrag(event, { bookingId: booking.id })}
+      title={`${getJobTitle(booking.jobId)} ${formatBookingTime(booking)}`}
+      style={style}
+      className={`group flex items-center gap-1 rounded border px-1.5 py-0.5 text-xs ${
+        conflictIds.has(booking.id)
+          ? 'border-red-500 bg-red-500/10 text-red-400'
+          : 'border-primary/40 bg-primary/10 text-foreground'
+      } ${canManage ? 'cursor-grab' : ''}`}
+    >
+      {conflictIds.has(booking.id) && <AlertTriangle className="h-3 w-3 shrink-0" />}
+      <div className="min-w-0 flex-1">
+        <p className="truncate font-medium">{getJobTitle(booking.jobId)}</p>
+        <p className="truncate text-[10px] text-muted-foreground">{formatBookingTime(booking)}</p>
+      </div>
+      {canManage && (
+        <button
+          type="button"
+          className="opacity-0 group-hover:opacity-100"
+          onClick={() => removeBooking(booking)}
+          aria-label="Remove booking"
+        >
+          <X className="h-3 w-3" />
+        </button>
+      )}
+    </div>
+  );
+
+  const renderRow = (resource: BoardResource) => {
+    const resourceBookings = bookings
+      .filter(booking => booking.kind === resource.kind && booking.resourceId === resource.id)
+      .sort((a, b) => a.start.getTime() - b.start.getTime());
+    const cellClass = resource.unavailableReason ? 'bg-muted/50 cursor-not-allowed' : '';
+
+    return (
+      <div key={`${resource.kind}-${resource.id}`} className="flex border-b border-border min-h-[56px]">
+        <div className="w-48 shrink-0 border-r border-border px-3 py-2">
+          <p className="text-sm font-medium text-foreground truncate">{resource.name}</p>
+          {resource.unavailableReason ? (
+            <Badge variant="outline" className="mt-1 text-[10px] border-yellow-500/40 text-yellow-400">
+              {resource.unavailableReason}
+            </Badge>
+          ) : (
+            <p className="text-xs text-muted-foreground capitalize truncate">{resource.detail}</p>
+          )}
+        </div>
+
+        {view === 'week' ? (
+          days.map((day) => (
+            <div key={day.toISOString()} className={`flex-1 min-w-[120px] border-r border-border p-1 space-y-1 ${cellClass}`} {...dropProps(resource, day)}>
+              {resourceBookings.filter(booking => isSameDay(booking.start, day)).map(booking => renderBooking(booking))}
+            </div>
+          ))
+        ) : (
+          <div className={`relative flex flex-1 ${cellClass}`}>
+            {HOURS.map((hour) => (
+              <div key={hour} className="flex-1 min-w-[56px] border-r border-border/50" {...dropProps(resource, days[0], hour)} />
+            ))}
+            {resourceBookings.map((booking) => {
+              const total = (BOARD_END_HOUR - BOARD_START_HOUR) * 60;
+              const startMinutes = Math.max(0, (booking.start.getTime() - days[0].getTime()) / 60000 - BOARD_START_HOUR * 60);
+              const endMinutes = Math.min(total, (booking.end.getTime() - days[0].getTime()) / 60000 - BOARD_START_HOUR * 60);
+              if (endMinutes <= startMinutes) return null;
+              return renderBooking(booking, {
+                position: 'absolute',
+                top: 6,
+                bottom: 6,
+                left: `${(startMinutes / total) * 100}%`,
+                width: `${((endMinutes - startMinutes) / total) * 100}%`,
+              });
+            })}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderSection = (kind: BookingKind) => {
+    const sectionResources = resources.filter(resource => resource.kind === kind);
+    return (
+      <>
+        <div className="flex items-center gap-2 border-b border-border bg-muted/30 px-3 py-1.5 text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+          {kind === 'crew' ? <Users className="h-3 w-3" /> : <Truck className="h-3 w-3" />}
+          {kind === 'crew' ? 'Crew' : 'Equipment'}
+        </div>
+        {sectionResources.length === 0 ? (
+          <p className="px-3 py-3 text-sm text-muted-foreground border-b border-border">
+            {kind === 'crew' ? 'No employees yet.' : 'No equipment yet.'}
+          </p>
+        ) : (
+          sectionResources.map(renderRow)
+        )}
+      </>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap justify-between items-center gap-4">
+        <div>
+          <h2 className="text-3xl font-bold text-foreground">Dispatch Board</h2>
+          <p className="text-muted-foreground">Book crews and equipment onto jobs</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="flex rounded-md border border-border">
+            {(['day', 'week'] as BoardView[]).map((option) => (
+              <Button
+                key={option}
+                size="sm"
+                variant={view === option ? 'default' : 'ghost'}
+                onClick={() => setView(option)}
+                className="capitalize"
+              >
+                {option}
+              </Button>
+            ))}
+          </div>
+          <Button size="icon" variant="outline" onClick={() => shift(-1)} aria-label="Previous">
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => setAnchor(new Date())}>Today</Button>
+          <Button size="icon" variant="outline" onClick={() => shift(1)} aria-label="Next">
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          <span className="text-sm font-medium text-foreground min-w-[180px] text-right">
+            {view === 'day'
+              ? format(days[0], 'EEEE, MMM d')
+              : `${format(days[0], 'MMM d')} – ${format(days[days.length - 1], 'MMM d, yyyy')}`}
+          </span>
+        </div>
+      </div>
+
+      {(conflictIds.size > 0 || unavailableBookings.length > 0) && (
+        <div className="flex items-start gap-2 rounded-lg border border-red-500/30 bg-red-500/10 p-3 text-sm text-red-400">
+          <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+          <div>
+            {conflictIds.size > 0 && <p>{conflictIds.size} bookings overlap another booking of the same person or equipment.</p>}
+            {unavailableBookings.length > 0 && <p>{unavailableBookings.length} bookings are on equipment that is in maintenance or out of service.</p>}
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-[16rem_1fr] gap-6">
+        <Card className="bg-card border-border shadow-industrial h-fit">
+          <CardHeader>
+            <CardTitle className="text-foreground text-lg">Open Jobs</CardTitle>
+            {canManage && <p className="text-xs text-muted-foreground">Drag a job onto a crew member or piece of equipment.</p>}
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {openJobs.length === 0 && <p className="text-sm text-muted-foreground">No open jobs.</p>}
+            {openJobs.map((job) => {
+              const crewBooked = new Set(bookings.filter(booking => booking.jobId === job.id && booking.kind === 'crew').map(booking => booking.resourceId)).size;
+              return (
+                <div
+                  key={job.id}
+                  draggable={canManage}
+                  onDragStart={(event) => startDrag(event, { jobId: job.id })}
+                  className={`flex gap-2 rounded-lg border border-border bg-muted/30 p-2 ${canManage ? 'cursor-grab' : ''}`}
+                >
+                  {canManage && <GripVertical className="h-4 w-4 mt-0.5 shrink-0 text-muted-foreground" />}
+                  <div className="min-w-0 flex-1 space-y-1">
+                    <p className="text-sm font-medium text-foreground truncate">{job.title}</p>
+                    {job.location_address && (
+                      <p className="flex items-center gap-1 text-xs text-muted-foreground truncate">
+                        <MapPin className="h-3 w-3 shrink-0" />
+                        {job.location_address}
+                      </p>
+                    )}
+                    <div className="flex flex-wrap gap-1">
+                      <Badge variant="outline" className="text-[10px]">
+                        {crewBooked}/{job.crew_size_required ?? '—'} crew
+                      </Badge>
+                      {job.equipment_needed?.map((type) => (
+                        <Badge key={type} variant="secondary" className="text-[10px] capitalize">{type.replace(/_/g, ' ')}</Badge>
+                      ))}
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </CardContent>
+        </Card>
+
+        <Card className="bg-card border-border shadow-industrial overflow-hidden">
+          <div className="overflow-x-auto">
+            <div className="min-w-max">
+              <div className="flex border-b border-border bg-muted/30">
+                <div className="w-48 shrink-0 border-r border-border" />
+                {view === 'week'
+                  ? days.map((day) => (
+                      <div
+                        key={day.toISOString()}
+                        className={`flex-1 min-w-[120px] border-r border-border px-2 py-2 text-center text-xs font-medium ${isToday(day) ? 'text-primary' : 'text-muted-foreground'}`}
+                      >
+                        {format(day, 'EEE MMM d')}
+                      </div>
+                    ))
+                  : HOURS.map((hour) => (
+                      <div key={hour} className="flex-1 min-w-[56px] border-r border-border/50 py-2 text-center text-xs text-muted-foreground">
+                        {format(new Date(2000, 0, 1, hour), 'ha').toLowerCase()}
+                      </div>
+                    ))}
+              </div>
+              {renderSection('crew')}
+              {renderSection('equipment')}
+            </div>
+          </div>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default DispatchBoard;
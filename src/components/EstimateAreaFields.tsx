@@ -0,0 +1,223 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Trash2 } from 'lucide-react';
+import type { EstimateArea, LineWidth, PatchMixType } from '@/lib/pricing';
+
+interface EstimateAreaFieldsProps {
+  area: EstimateArea;
+  onChange: (field: keyof EstimateArea, value: EstimateArea[keyof EstimateArea]) => void;
+  onRemove?: () => void;
+}
+
+const EstimateAreaFields = ({ area, onChange, onRemove }: EstimateAreaFieldsProps) => {
+  const fieldId = (field: string) => `${area.id}-${field}`;
+
+  return (
+    <div className="space-y-6 p-4 border border-border rounded-lg">
+      <div className="flex items-end gap-4">
+        <div className="space-y-2 flex-1">
+          <Label htmlFor={fieldId('name')}>Area Name</Label>
+          <Input
+            id={fieldId('name')}
+            value={area.name}
+            onChange={(e) => onChange('name', e.target.value)}
+            placeholder="e.g. Church lot, Driveway, Access road"
+          />
+        </div>
+        {onRemove && (
+          <Button variant="outline" size="icon" onClick={onRemove} aria-label={`Remove ${area.name}`}>
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+
+      {/* Area Measurements */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor={fieldId('square-footage')}>Square Footage</Label>
+          <Input
+            id={fieldId('square-footage')}
+            type="number"
+            value={area.squareFootage || ''}
+            onChange={(e) => onChange('squareFootage', parseInt(e.target.value) || 0)}
+            placeholder="0"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor={fieldId('linear-footage')}>Linear Footage (Cracks)</Label>
+          <Input
+            id={fieldId('linear-footage')}
+            type="number"
+            value={area.linearFootage || ''}
+            onChange={(e) => onChange('linearFootage', parseInt(e.target.value) || 0)}
+            placeholder="0"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor={fieldId('coats')}>Number of Coats</Label>
+          <Select value={area.numberOfCoats.toString()} onValueChange={(value) => onChange('numberOfCoats', parseInt(value))}>
+            <SelectTrigger id={fieldId('coats')}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="1">1 Coat</SelectItem>
+              <SelectItem value="2">2 Coats</SelectItem>
+              <SelectItem value="3">3 Coats</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {/* Additional Details */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor={fieldId('crack-severity')}>Crack Severity</Label>
+          <Select value={area.crackSeverity} onValueChange={(value) => onChange('crackSeverity', value)}>
+            <SelectTrigger id={fieldId('crack-severity')}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="light">Light Cracking</SelectItem>
+              <SelectItem value="moderate">Moderate Cracking</SelectItem>
+              <SelectItem value="severe">Severe Cracking</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor={fieldId('oil-spots')}>Oil Spot Area (sq ft)</Label>
+          <Input
+            id={fieldId('oil-spots')}
+            type="number"
+            value={area.oilSpotArea || ''}
+            onChange={(e) => onChange('oilSpotArea', parseInt(e.target.value) || 0)}
+            placeholder="0"
+          />
+        </div>
+      </div>
+
+      {/* Line Striping */}
+      <div className="space-y-4">
+        <h3 className="text-sm font-semibold text-foreground">Line Striping</h3>
+        <div className="grid grid-cols-2 md:grid-cols-6 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor={fieldId('parking-stalls')}>Parking Stalls</Label>
+            <Input
+              id={fieldId('parking-stalls')}
+              type="number"
+              value={area.parkingStalls || ''}
+              onChange={(e) => onChange('parkingStalls', parseInt(e.target.value) || 0)}
+              placeholder="0"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor={fieldId('line-width')}>Line Width</Label>
+            <Select value={area.lineWidth.toString()} onValueChange={(value) => onChange('lineWidth', parseInt(value) as LineWidth)}>
+              <SelectTrigger id={fieldId('line-width')}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="4">4 inch</SelectItem>
+                <SelectItem value="6">6 inch</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor={fieldId('handicap-symbols')}>Handicap Symbols</Label>
+            <Input
+              id={fieldId('handicap-symbols')}
+              type="number"
+              value={area.handicapSymbols || ''}
+              onChange={(e) => onChange('handicapSymbols', parseInt(e.target.value) || 0)}
+              placeholder="0"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor={fieldId('arrows')}>Arrows</Label>
+            <Input
+              id={fieldId('arrows')}
+              type="number"
+              value={area.arrows || ''}
+              onChange={(e) => onChange('arrows', parseInt(e.target.value) || 0)}
+              placeholder="0"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor={fieldId('stop-bars')}>Stop Bars</Label>
+            <Input
+              id={fieldId('stop-bars')}
+              type="number"
+              value={area.stopBars || ''}
+              onChange={(e) => onChange('stopBars', parseInt(e.target.value) || 0)}
+              placeholder="0"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor={fieldId('crosswalk')}>Crosswalk (lin ft)</Label>
+            <Input
+              id={fieldId('crosswalk')}
+              type="number"
+              value={area.crosswalkLinearFeet || ''}
+              onChange={(e) => onChange('crosswalkLinearFeet', parseInt(e.target.value) || 0)}
+              placeholder="0"
+            />
+          </div>
+        </div>
+      </div>
+
+      {/* Patching */}
+      <div className="space-y-4">
+        <h3 className="text-sm font-semibold text-foreground">Asphalt Patching</h3>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor={fieldId('patch-area')}>Patch Area (sq ft)</Label>
+            <Input
+              id={fieldId('patch-area')}
+              type="number"
+              value={area.patchArea || ''}
+              onChange={(e) => onChange('patchArea', parseInt(e.target.value) || 0)}
+              placeholder="0"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor={fieldId('patch-depth')}>Depth (inches)</Label>
+            <Input
+              id={fieldId('patch-depth')}
+              type="number"
+              step="0.5"
+              value={area.patchDepth || ''}
+              onChange={(e) => onChange('patchDepth', parseFloat(e.target.value) || 0)}
+              placeholder="2"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor={fieldId('patch-mix')}>Mix Type</Label>
+            <Select value={area.patchMixType} onValueChange={(value) => onChange('patchMixType', value as PatchMixType)}>
+              <SelectTrigger id={fieldId('patch-mix')}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="hot">Hot Mix</SelectItem>
+                <SelectItem value="cold">Cold Mix</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EstimateAreaFields;
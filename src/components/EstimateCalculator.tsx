@@ -1,4 +1,5 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -7,195 +8,200 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Textarea } from '@/components/ui/textarea';
 import { Separator } from '@/components/ui/separator';
 import { Badge } from '@/components/ui/badge';
-import { Calculator, FileText, DollarSign, Truck, Users, Fuel } from 'lucide-react';
-
-// Virginia Business Configuration
-const BUSINESS_CONFIG = {
-  address: "337 Ayers Orchard Road, Stuart, VA 24171",
-  employees: { fullTime: 2, partTime: 1, hourlyWage: 12 },
-  blendedLaborRate: 45, // Including taxes, benefits, overhead
-  supplier: "SealMaster, 703 West Decatur Street, Madison, NC 27025"
-};
-
-// Material Costs (Virginia 2025)
-const MATERIAL_COSTS = {
-  sealMasterPMM: 3.79, // per gallon
-  sand50lb: 10.00, // per bag
-  prepSeal5gal: 50.00, // per bucket
-  fastDry5gal: 50.00, // per bucket
-  crackMaster30lb: 44.95 // per box
-};
+import { Calculator, FileText, DollarSign, Truck, Users, Fuel, Save, Copy, Download, Plus, MapPin, Ruler, CloudSun } from 'lucide-react';
+import EstimateAreaFields from '@/components/EstimateAreaFields';
+import AreaMeasurementTool from '@/components/AreaMeasurementTool';
+import {
+  BUSINESS_CONFIG,
+  DEFAULT_ESTIMATE_INPUT,
+  calculateEstimate,
+  createEstimateArea,
+  type EstimateArea,
+  type EstimateBreakdown,
+  type EstimateInput
+} from '@/lib/pricing';
+import { resolveRateTable } from '@/lib/price-books';
+import { usePriceBooks } from '@/hooks/use-price-books';
+import { useDuplicateEstimate, useEstimate, useSaveEstimate } from '@/hooks/use-estimates';
+import { useEstimateMeasurements, useSaveEstimateMeasurements } from '@/hooks/use-estimate-measurements';
+import { useToast } from '@/hooks/use-toast';
+import { usePermissions } from '@/hooks/use-permissions';
+import { useAuth } from '@/hooks/use-auth';
+import { useCustomers } from '@/hooks/use-customers';
+import { useWeatherForecast } from '@/hooks/use-weather';
+import { findSuitableDays, type WeatherSensitiveService } from '@/lib/weather';
+import { buildQuote, getQuoteNumber } from '@/lib/quote';
+import { downloadQuotePdf } from '@/lib/quote-pdf';
+import { applyMeasurementTotals, type Measurement } from '@/lib/measurements';
+import {
+  ESTIMATE_STATUS_LABELS,
+  ESTIMATE_VALIDITY_DAYS,
+  canEditEstimate,
+  canManageEstimate,
+  getEstimateBreakdown,
+  getEstimateInputs,
+  getEstimateStatus,
+  isPricedBreakdown,
+  serializeEstimate
+} from '@/lib/estimates';
+
+interface EstimateCalculatorProps {
+  estimateId?: string;
+}
 
-// Application Rates & Coverage
-const APPLICATION_RATES = {
-  sealcoat: {
-    firstCoat: 0.0144, // gal/sq ft
-    additionalCoats: 0.0111 // gal/sq ft
-  },
-  sandMixRatio: 300, // lbs per 100 gallons (6 bags)
-  waterRatio: 0.20, // 20% by volume
-  crackFilling: { min: 0.50, max: 3.00 }, // per linear foot
-  lineStriping: { min: 0.75, max: 1.00 }, // per linear foot
-  patchingHotMix: { min: 2.00, max: 5.00 }, // per sq ft
-  patchingColdMix: { min: 2.00, max: 4.00 } // per sq ft
-};
+const EstimateCalculator = ({ estimateId }: EstimateCalculatorProps) => {
+  const [estimateData, setEstimateData] = useState<EstimateInput>(DEFAULT_ESTIMATE_INPUT);
+
+  const [calculatedEstimate, setCalculatedEstimate] = useState<EstimateBreakdown | null>(null);
+  const [priceBookId, setPriceBookId] = useState<string>('');
+  const { data: priceBooks = [] } = usePriceBooks();
+
+  const [measurements, setMeasurements] = useState<Measurement[]>([]);
+  const [showMeasurementTool, setShowMeasurementTool] = useState(false);
+
+  const { data: savedEstimate } = useEstimate(estimateId);
+  const { data: savedMeasurements } = useEstimateMeasurements(estimateId);
+  const saveEstimate = useSaveEstimate();
+  const saveMeasurements = useSaveEstimateMeasurements();
+  const duplicateEstimate = useDuplicateEstimate();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { can } = usePermissions();
+  const canViewMargins = can('estimates.view_margins');
+  const { data: customers = [] } = useCustomers();
+  const { user } = useAuth();
+  // Sent, accepted and converted estimates are frozen; changes go into a duplicate
+  const isLocked = !!savedEstimate && !canEditEstimate(savedEstimate);
+  const isOthersEstimate = !!savedEstimate && !canManageEstimate(savedEstimate, user?.id, canViewMargins);
+  // Someone else's estimate read without margins carries no totals either
+  const showsTotals = isPricedBreakdown(calculatedEstimate);
+
+  // Reopening a saved estimate restores the quoted breakdown as-is rather than
+  // recomputing it against today's prices.
+  useEffect(() => {
+    if (!savedEstimate) return;
+    const inputs = getEstimateInputs(savedEstimate);
+    if (inputs) setEstimateData(inputs);
+    setCalculatedEstimate(getEstimateBreakdown(savedEstimate));
+  }, [savedEstimate]);
+
+  useEffect(() => {
+    if (savedMeasurements) setMeasurements(savedMeasurements);
+  }, [savedMeasurements]);
+
+  const { data: forecast } = useWeatherForecast();
+
+  const activePriceBooks = priceBooks.filter(book => book.is_active);
+  const selectedPriceBook = activePriceBooks.find(book => book.id === priceBookId) ?? activePriceBooks[0] ?? null;
 
-interface EstimateData {
-  projectType: string;
-  squareFootage: number;
-  linearFootage: number;
-  numberOfCoats: number;
-  crackSeverity: string;
-  oilSpotArea: number;
-  parkingStalls: number;
-  clientName: string;
-  jobSiteAddress: string;
-  travelDistance: number;
-  profitMargin: number;
-  additionalNotes: string;
-}
+  const generateEstimate = () => {
+    setCalculatedEstimate(calculateEstimate(estimateData, resolveRateTable(selectedPriceBook)));
+  };
 
-const EstimateCalculator = () => {
-  const [estimateData, setEstimateData] = useState<EstimateData>({
-    projectType: '',
-    squareFootage: 0,
-    linearFootage: 0,
-    numberOfCoats: 1,
-    crackSeverity: 'light',
-    oilSpotArea: 0,
-    parkingStalls: 0,
-    clientName: '',
-    jobSiteAddress: '',
-    travelDistance: 0,
-    profitMargin: 20,
-    additionalNotes: ''
-  });
-
-  const [calculatedEstimate, setCalculatedEstimate] = useState<any>(null);
-
-  const calculateMaterials = useCallback(() => {
-    const { squareFootage, numberOfCoats, linearFootage, oilSpotArea, crackSeverity } = estimateData;
-    
-    let materials = {
-      sealMasterPMM: 0,
-      sand: 0,
-      water: 0,
-      prepSeal: 0,
-      fastDry: 0,
-      crackMaster: 0,
-      totalMaterialCost: 0
-    };
-
-    // Sealcoating calculations
-    if (squareFootage > 0) {
-      // First coat
-      const firstCoatGallons = squareFootage * APPLICATION_RATES.sealcoat.firstCoat;
-      let totalPMM = firstCoatGallons;
-      
-      // Additional coats
-      if (numberOfCoats > 1) {
-        const additionalCoatsGallons = squareFootage * APPLICATION_RATES.sealcoat.additionalCoats * (numberOfCoats - 1);
-        totalPMM += additionalCoatsGallons;
+  const handleSave = async () => {
+    if (!calculatedEstimate || isLocked || isOthersEstimate) return;
+    try {
+      const saved = await saveEstimate.mutateAsync({
+        id: estimateId,
+        values: serializeEstimate(estimateData, calculatedEstimate)
+      });
+      // Skip the measurements until the saved set has loaded so a quick save
+      // cannot wipe them
+      if (!estimateId || savedMeasurements) {
+        await saveMeasurements.mutateAsync({ estimateId: saved.id, measurements });
       }
-
-      materials.sealMasterPMM = totalPMM;
-      materials.sand = (totalPMM / 100) * APPLICATION_RATES.sandMixRatio; // lbs
-      materials.water = totalPMM * APPLICATION_RATES.waterRatio;
-      
-      // Fast Dry additive (2 gal per 125 gal of concentrate)
-      materials.fastDry = (totalPMM / 125) * 2;
+      toast({
+        title: "Success",
+        description: "Estimate saved",
+      });
+      if (!estimateId) navigate(`/calculator/${saved.id}`, { replace: true });
+    } catch (error) {
+      console.error('Error saving estimate:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save estimate",
+        variant: "destructive",
+      });
     }
+  };
 
-    // Oil spot primer
-    if (oilSpotArea > 0) {
-      materials.prepSeal = Math.ceil(oilSpotArea / 175); // 175 sq ft per gallon average
+  const handleDuplicate = async () => {
+    if (!savedEstimate) return;
+    try {
+      const copy = await duplicateEstimate.mutateAsync(savedEstimate);
+      toast({
+        title: "Success",
+        description: "Estimate duplicated as a new draft",
+      });
+      navigate(`/calculator/${copy.id}`);
+    } catch (error) {
+      console.error('Error duplicating estimate:', error);
+      toast({
+        title: "Error",
+        description: "Failed to duplicate estimate",
+        variant: "destructive",
+      });
     }
+  };
 
-    // Crack filling
-    if (linearFootage > 0) {
-      const crackMultiplier = crackSeverity === 'severe' ? 1.5 : crackSeverity === 'moderate' ? 1.2 : 1.0;
-      materials.crackMaster = Math.ceil((linearFootage * crackMultiplier) / 100); // boxes needed
-    }
+  const handleDownloadQuote = () => {
+    if (!isPricedBreakdown(calculatedEstimate)) return;
+    downloadQuotePdf(buildQuote(estimateData, calculatedEstimate, {
+      quoteNumber: savedEstimate ? getQuoteNumber(savedEstimate.id) : undefined,
+      validUntil: savedEstimate?.valid_until
+    }));
+  };
 
-    // Calculate costs
-    const costs = {
-      sealMasterPMM: materials.sealMasterPMM * MATERIAL_COSTS.sealMasterPMM,
-      sand: Math.ceil(materials.sand / 50) * MATERIAL_COSTS.sand50lb, // convert lbs to bags
-      prepSeal: materials.prepSeal * MATERIAL_COSTS.prepSeal5gal,
-      fastDry: Math.ceil(materials.fastDry / 5) * MATERIAL_COSTS.fastDry5gal, // 5-gal buckets
-      crackMaster: materials.crackMaster * MATERIAL_COSTS.crackMaster30lb
-    };
-
-    materials.totalMaterialCost = Object.values(costs).reduce((sum, cost) => sum + cost, 0);
-
-    return { materials, costs };
-  }, [estimateData]);
-
-  const calculateLaborAndEquipment = useCallback(() => {
-    const { squareFootage, linearFootage, travelDistance } = estimateData;
-    
-    // Labor calculations
-    let laborHours = 0;
-    
-    // Sealcoating labor (including prep and cleanup)
-    if (squareFootage > 0) {
-      laborHours += (squareFootage / 1000) * 2; // 2 hours per 1000 sq ft
-    }
-    
-    // Crack filling labor
-    if (linearFootage > 0) {
-      laborHours += linearFootage / 100; // 1 hour per 100 linear feet
-    }
-    
-    // Minimum 4-hour job
-    laborHours = Math.max(laborHours, 4);
-    
-    const laborCost = laborHours * BUSINESS_CONFIG.blendedLaborRate * 3; // 3-person crew
-
-    // Equipment and fuel
-    const equipmentHours = laborHours;
-    const equipmentCost = equipmentHours * 50; // $50/hour for equipment operation
-    
-    // Travel costs
-    const roundTripMiles = travelDistance * 2;
-    const fuelCost = (roundTripMiles / 15) * 4.50; // 15 MPG, $4.50/gallon
-    
-    return {
-      laborHours,
-      laborCost,
-      equipmentCost,
-      fuelCost,
-      totalLabor: laborCost + equipmentCost + fuelCost
-    };
-  }, [estimateData]);
+  const handleInputChange = (field: keyof EstimateInput, value: EstimateInput[keyof EstimateInput]) => {
+    setEstimateData(prev => ({ ...prev, [field]: value }));
+  };
 
-  const generateEstimate = () => {
-    const { materials, costs } = calculateMaterials();
-    const labor = calculateLaborAndEquipment();
-    
-    const subtotal = materials.totalMaterialCost + labor.totalLabor;
-    const overhead = subtotal * 0.15; // 15% overhead
-    const profit = subtotal * (estimateData.profitMargin / 100);
-    const total = subtotal + overhead + profit;
-
-    const estimate = {
-      materials,
-      costs,
-      labor,
-      subtotal,
-      overhead,
-      profit,
-      total,
-      timestamp: new Date().toISOString()
-    };
-
-    setCalculatedEstimate(estimate);
+  // Linking a customer account shares the quote with them in the client
+  // portal once it is sent; their details fill any blank fields
+  const handleCustomerChange = (customerId: string) => {
+    const customer = customers.find(c => c.id === customerId);
+    setEstimateData(prev => ({
+      ...prev,
+      customerId: customer?.id ?? null,
+      clientName: prev.clientName || customer?.name || '',
+      jobSiteAddress: prev.jobSiteAddress || customer?.address || ''
+    }));
   };
 
-  const handleInputChange = (field: keyof EstimateData, value: any) => {
-    setEstimateData(prev => ({ ...prev, [field]: value }));
+  const handleAreaChange = (areaId: string, field: keyof EstimateArea, value: EstimateArea[keyof EstimateArea]) => {
+    setEstimateData(prev => ({
+      ...prev,
+      areas: prev.areas.map(area => (area.id === areaId ? { ...area, [field]: value } : area))
+    }));
+  };
+
+  const handleAddArea = () => {
+    setEstimateData(prev => ({ ...prev, areas: [...prev.areas, createEstimateArea(prev.areas)] }));
+  };
+
+  const handleRemoveArea = (areaId: string) => {
+    setEstimateData(prev => ({ ...prev, areas: prev.areas.filter(area => area.id !== areaId) }));
+    setMeasurements(prev => prev.filter(measurement => measurement.areaId !== areaId));
   };
 
+  const handleAddMeasurement = (measurement: Measurement) => {
+    const next = [...measurements, measurement];
+    setMeasurements(next);
+    setEstimateData(prev => ({ ...prev, areas: applyMeasurementTotals(prev.areas, next, [measurement]) }));
+  };
+
+  const handleRemoveMeasurement = (measurement: Measurement) => {
+    const next = measurements.filter(existing => existing.id !== measurement.id);
+    setMeasurements(next);
+    setEstimateData(prev => ({ ...prev, areas: applyMeasurementTotals(prev.areas, next, [measurement]) }));
+  };
+
+  // Services in this estimate that need a dry, warm window
+  const weatherServices: { service: WeatherSensitiveService; label: string }[] = [
+    ...(estimateData.areas.some(area => area.squareFootage > 0) ? [{ service: 'sealcoating' as const, label: 'Sealcoating' }] : []),
+    ...(calculatedEstimate?.labor.stripingCost > 0 ? [{ service: 'line_striping' as const, label: 'Line striping' }] : [])
+  ];
+
   return (
     <div className="space-y-6">
       <Card className="bg-card border-border shadow-industrial">
@@ -238,71 +244,19 @@ const EstimateCalculator = () => {
             </div>
           </div>
 
-          {/* Area Measurements */}
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-            <div className="space-y-2">
-              <Label htmlFor="square-footage">Square Footage</Label>
-              <Input
-                id="square-footage"
-                type="number"
-                value={estimateData.squareFootage || ''}
-                onChange={(e) => handleInputChange('squareFootage', parseInt(e.target.value) || 0)}
-                placeholder="0"
-              />
-            </div>
-
-            <div className="space-y-2">
-              <Label htmlFor="linear-footage">Linear Footage (Cracks)</Label>
-              <Input
-                id="linear-footage"
-                type="number"
-                value={estimateData.linearFootage || ''}
-                onChange={(e) => handleInputChange('linearFootage', parseInt(e.target.value) || 0)}
-                placeholder="0"
-              />
-            </div>
-
-            <div className="space-y-2">
-              <Label htmlFor="coats">Number of Coats</Label>
-              <Select value={estimateData.numberOfCoats.toString()} onValueChange={(value) => handleInputChange('numberOfCoats', parseInt(value))}>
-                <SelectTrigger>
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="1">1 Coat</SelectItem>
-                  <SelectItem value="2">2 Coats</SelectItem>
-                  <SelectItem value="3">3 Coats</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
-          </div>
-
-          {/* Additional Details */}
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            <div className="space-y-2">
-              <Label htmlFor="crack-severity">Crack Severity</Label>
-              <Select value={estimateData.crackSeverity} onValueChange={(value) => handleInputChange('crackSeverity', value)}>
-                <SelectTrigger>
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="light">Light Cracking</SelectItem>
-                  <SelectItem value="moderate">Moderate Cracking</SelectItem>
-                  <SelectItem value="severe">Severe Cracking</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
-
-            <div className="space-y-2">
-              <Label htmlFor="oil-spots">Oil Spot Area (sq ft)</Label>
-              <Input
-                id="oil-spots"
-                type="number"
-                value={estimateData.oilSpotArea || ''}
-                onChange={(e) => handleInputChange('oilSpotArea', parseInt(e.target.value) || 0)}
-                placeholder="0"
-              />
-            </div>
+          <div className="space-y-2">
+            <Label htmlFor="customer-account">Customer Account</Label>
+            <Select value={estimateData.customerId ?? 'none'} onValueChange={handleCustomerChange}>
+              <SelectTrigger id="customer-account">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">No customer account</SelectItem>
+                {customers.map((customer) => (
+                  <SelectItem key={customer.id} value={customer.id}>{customer.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
           </div>
 
           {/* Location and Distance */}
@@ -329,31 +283,66 @@ const EstimateCalculator = () => {
             </div>
           </div>
 
+          {/* Areas */}
+          <div className="space-y-4">
+            <div className="flex justify-between items-center">
+              <div>
+                <h3 className="text-sm font-semibold text-foreground">Areas</h3>
+                <p className="text-xs text-muted-foreground">Each lot, driveway or road section with its own service mix</p>
+              </div>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={() => setShowMeasurementTool(true)}>
+                  <Ruler className="h-4 w-4 mr-2" />
+                  Measure on Map
+                  {measurements.length > 0 && ` (${measurements.length})`}
+                </Button>
+                <Button variant="outline" size="sm" onClick={handleAddArea}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Area
+                </Button>
+              </div>
+            </div>
+            {estimateData.areas.map((area) => (
+              <EstimateAreaFields
+                key={area.id}
+                area={area}
+                onChange={(field, value) => handleAreaChange(area.id, field, value)}
+                onRemove={estimateData.areas.length > 1 ? () => handleRemoveArea(area.id) : undefined}
+              />
+            ))}
+          </div>
+
           {/* Profit Margin */}
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            <div className="space-y-2">
-              <Label htmlFor="profit-margin">Profit Margin (%)</Label>
-              <Input
-                id="profit-margin"
-                type="number"
-                value={estimateData.profitMargin}
-                onChange={(e) => handleInputChange('profitMargin', parseInt(e.target.value) || 20)}
-                placeholder="20"
-                min="0"
-                max="50"
-              />
-            </div>
+            {canViewMargins && (
+              <div className="space-y-2">
+                <Label htmlFor="profit-margin">Profit Margin (%)</Label>
+                <Input
+                  id="profit-margin"
+                  type="number"
+                  value={estimateData.profitMargin}
+                  onChange={(e) => handleInputChange('profitMargin', parseInt(e.target.value) || 20)}
+                  placeholder="20"
+                  min="0"
+                  max="50"
+                />
+              </div>
+            )}
 
             <div className="space-y-2">
-              <Label htmlFor="parking-stalls">Parking Stalls (if applicable)</Label>
-              <Input
-                id="parking-stalls"
-                type="number"
-                value={estimateData.parkingStalls || ''}
-                onChange={(e) => handleInputChange('parkingStalls', parseInt(e.target.value) || 0)}
-                placeholder="0"
-              />
+              <Label htmlFor="price-book">Price Book</Label>
+              <Select value={selectedPriceBook?.id ?? ''} onValueChange={setPriceBookId}>
+                <SelectTrigger id="price-book">
+                  <SelectValue placeholder="Standard rates" />
+                </SelectTrigger>
+                <SelectContent>
+                  {activePriceBooks.map((book) => (
+                    <SelectItem key={book.id} value={book.id}>{book.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
             </div>
+
           </div>
 
           {/* Additional Notes */}
@@ -379,6 +368,16 @@ const EstimateCalculator = () => {
         </CardContent>
       </Card>
 
+      {showMeasurementTool && (
+        <AreaMeasurementTool
+          areas={estimateData.areas}
+          measurements={measurements}
+          onAdd={handleAddMeasurement}
+          onRemove={handleRemoveMeasurement}
+          onClose={() => setShowMeasurementTool(false)}
+        />
+      )}
+
       {/* Estimate Results */}
       {calculatedEstimate && (
         <Card className="bg-card border-border shadow-industrial">
@@ -394,6 +393,16 @@ const EstimateCalculator = () => {
               <Badge variant="secondary">
                 {new Date(calculatedEstimate.timestamp).toLocaleDateString()}
               </Badge>
+              {savedEstimate && (
+                <Badge variant="outline">
+                  {ESTIMATE_STATUS_LABELS[getEstimateStatus(savedEstimate)]}
+                </Badge>
+              )}
+              <Badge variant="secondary">
+                {calculatedEstimate.priceBook
+                  ? `${calculatedEstimate.priceBook.priceBookName} v${calculatedEstimate.priceBook.version}`
+                  : 'Standard rates'}
+              </Badge>
             </div>
           </CardHeader>
           <CardContent className="space-y-6">
@@ -428,6 +437,24 @@ const EstimateCalculator = () => {
                     <span className="font-medium">${calculatedEstimate.costs.fastDry.toFixed(2)}</span>
                   </div>
                 )}
+                {calculatedEstimate.costs.trafficPaint > 0 && (
+                  <div className="flex justify-between items-center">
+                    <span className="text-muted-foreground">Traffic Paint ({calculatedEstimate.materials.trafficPaint} gal)</span>
+                    <span className="font-medium">${calculatedEstimate.costs.trafficPaint.toFixed(2)}</span>
+                  </div>
+                )}
+                {calculatedEstimate.costs.hotMix > 0 && (
+                  <div className="flex justify-between items-center">
+                    <span className="text-muted-foreground">Hot Mix ({calculatedEstimate.materials.hotMix.toFixed(2)} tons)</span>
+                    <span className="font-medium">${calculatedEstimate.costs.hotMix.toFixed(2)}</span>
+                  </div>
+                )}
+                {calculatedEstimate.costs.coldMix > 0 && (
+                  <div className="flex justify-between items-center">
+                    <span className="text-muted-foreground">Cold Patch ({calculatedEstimate.materials.coldMix} bags)</span>
+                    <span className="font-medium">${calculatedEstimate.costs.coldMix.toFixed(2)}</span>
+                  </div>
+                )}
                 {calculatedEstimate.costs.crackMaster > 0 && (
                   <div className="flex justify-between items-center">
                     <span className="text-muted-foreground">CrackMaster ({calculatedEstimate.materials.crackMaster} boxes)</span>
@@ -450,15 +477,27 @@ const EstimateCalculator = () => {
               </h3>
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <div className="flex justify-between items-center">
-                  <span className="text-muted-foreground">Labor ({calculatedEstimate.labor.laborHours.toFixed(1)} hrs @ 3-person crew)</span>
+                  <span className="text-muted-foreground">Labor ({calculatedEstimate.labor.laborHours.toFixed(1)} hrs @ {calculatedEstimate.labor.crewSize}-person crew)</span>
                   <span className="font-medium">${calculatedEstimate.labor.laborCost.toFixed(2)}</span>
                 </div>
                 <div className="flex justify-between items-center">
                   <span className="text-muted-foreground">Equipment Operation</span>
                   <span className="font-medium">${calculatedEstimate.labor.equipmentCost.toFixed(2)}</span>
                 </div>
+                {calculatedEstimate.labor.stripingCost > 0 && (
+                  <div className="flex justify-between items-center">
+                    <span className="text-muted-foreground">Line Striping Application</span>
+                    <span className="font-medium">${calculatedEstimate.labor.stripingCost.toFixed(2)}</span>
+                  </div>
+                )}
+                {calculatedEstimate.labor.patchingCost > 0 && (
+                  <div className="flex justify-between items-center">
+                    <span className="text-muted-foreground">Patching Application</span>
+                    <span className="font-medium">${calculatedEstimate.labor.patchingCost.toFixed(2)}</span>
+                  </div>
+                )}
                 <div className="flex justify-between items-center">
-                  <span className="text-muted-foreground">Fuel & Travel ({estimateData.travelDistance * 2} miles)</span>
+                  <span className="text-muted-foreground">Fuel & Travel ({calculatedEstimate.labor.roundTripMiles} miles)</span>
                   <span className="font-medium">${calculatedEstimate.labor.fuelCost.toFixed(2)}</span>
                 </div>
               </div>
@@ -469,6 +508,34 @@ const EstimateCalculator = () => {
               </div>
             </div>
 
+            {/* Area Subtotals */}
+            {calculatedEstimate.areas?.length > 0 && (
+              <div className="space-y-4">
+                <h3 className="text-lg font-semibold text-foreground flex items-center gap-2">
+                  <MapPin className="h-5 w-5 text-primary" />
+                  Area Subtotals
+                </h3>
+                <div className="space-y-3">
+                  {calculatedEstimate.areas.map((area) => (
+                    <div key={area.id} className="flex justify-between items-start">
+                      <div>
+                        <p className="font-medium text-foreground">{area.name || 'Unnamed area'}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {[
+                            area.hoursByService.sealcoat ? `${area.materials.sealMasterPMM.toFixed(1)} gal sealer` : null,
+                            area.hoursByService.crackFill ? `${area.materials.crackMaster} boxes crack filler` : null,
+                            area.striping ? `${area.striping.equivalentLinearFeet.toFixed(0)} lf striping @ $${area.striping.ratePerFoot.toFixed(2)}` : null,
+                            area.patching ? `${area.patching.area} sq ft patching @ $${area.patching.ratePerSqFt.toFixed(2)}` : null
+                          ].filter(Boolean).join(' · ') || 'No services'}
+                        </p>
+                      </div>
+                      {showsTotals && <span className="font-medium">${area.total.toFixed(2)}</span>}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Final Totals */}
             <div className="space-y-4 bg-secondary/30 p-4 rounded-lg">
               <h3 className="text-lg font-semibold text-foreground flex items-center gap-2">
@@ -476,32 +543,99 @@ const EstimateCalculator = () => {
                 Estimate Summary
               </h3>
               <div className="space-y-2">
-                <div className="flex justify-between items-center">
-                  <span className="text-muted-foreground">Subtotal:</span>
-                  <span className="font-medium">${calculatedEstimate.subtotal.toFixed(2)}</span>
-                </div>
-                <div className="flex justify-between items-center">
-                  <span className="text-muted-foreground">Overhead (15%):</span>
-                  <span className="font-medium">${calculatedEstimate.overhead.toFixed(2)}</span>
-                </div>
-                <div className="flex justify-between items-center">
-                  <span className="text-muted-foreground">Profit ({estimateData.profitMargin}%):</span>
-                  <span className="font-medium">${calculatedEstimate.profit.toFixed(2)}</span>
-                </div>
-                <Separator />
-                <div className="flex justify-between items-center text-xl font-bold">
-                  <span className="text-foreground">Total Estimate:</span>
-                  <span className="text-primary">${calculatedEstimate.total.toFixed(2)}</span>
-                </div>
+                {canViewMargins && (
+                  <>
+                    <div className="flex justify-between items-center">
+                      <span className="text-muted-foreground">Subtotal:</span>
+                      <span className="font-medium">${calculatedEstimate.subtotal.toFixed(2)}</span>
+                    </div>
+                    <div className="flex justify-between items-center">
+                      <span className="text-muted-foreground">Overhead ({(calculatedEstimate.overheadRate * 100).toFixed(0)}%):</span>
+                      <span className="font-medium">${calculatedEstimate.overhead.toFixed(2)}</span>
+                    </div>
+                    <div className="flex justify-between items-center">
+                      <span className="text-muted-foreground">Profit ({calculatedEstimate.profitMargin}%):</span>
+                      <span className="font-medium">${calculatedEstimate.profit.toFixed(2)}</span>
+                    </div>
+                    <Separator />
+                  </>
+                )}
+                {showsTotals ? (
+                  <div className="flex justify-between items-center text-xl font-bold">
+                    <span className="text-foreground">Total Estimate:</span>
+                    <span className="text-primary">${calculatedEstimate.total.toFixed(2)}</span>
+                  </div>
+                ) : (
+                  <p className="text-sm text-muted-foreground">
+                    The quoted total is only shown to the office and to whoever priced this estimate.
+                  </p>
+                )}
               </div>
             </div>
 
+            <div className="flex gap-2 justify-end">
+              {savedEstimate && (
+                <Button variant="outline" onClick={handleDuplicate} disabled={duplicateEstimate.isPending}>
+                  <Copy className="h-4 w-4 mr-2" />
+                  Duplicate
+                </Button>
+              )}
+              <Button variant="outline" onClick={handleDownloadQuote} disabled={!showsTotals}>
+                <Download className="h-4 w-4 mr-2" />
+                Quote PDF
+              </Button>
+              {!isLocked && !isOthersEstimate && (
+                <Button
+                  onClick={handleSave}
+                  disabled={saveEstimate.isPending}
+                  className="bg-primary hover:bg-primary/90 text-primary-foreground"
+                >
+                  <Save className="h-4 w-4 mr-2" />
+                  {estimateId ? 'Update Estimate' : 'Save Estimate'}
+                </Button>
+              )}
+            </div>
+            {isOthersEstimate && !isLocked && (
+              <p className="text-sm text-muted-foreground text-right">
+                Only the office can change an estimate someone else priced. Duplicate it to price your own version.
+              </p>
+            )}
+            {isLocked && (
+              <p className="text-sm text-muted-foreground text-right">
+                This estimate is no longer a draft ({ESTIMATE_STATUS_LABELS[getEstimateStatus(savedEstimate)]}), so its price is locked. Duplicate it to revise the quote.
+              </p>
+            )}
+
+            {/* Weather Outlook */}
+            {forecast && weatherServices.length > 0 && (
+              <div className="space-y-2 p-4 rounded-lg border border-border">
+                <h4 className="font-semibold text-foreground flex items-center gap-2">
+                  <CloudSun className="h-4 w-4 text-primary" />
+                  Weather Outlook
+                </h4>
+                {weatherServices.map(({ service, label }) => {
+                  const days = findSuitableDays(forecast, service);
+                  return days.length > 0 ? (
+                    <p key={service} className="text-sm text-muted-foreground">
+                      {label} can go down on {days.map(day => day.toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' })).join(', ')}.
+                    </p>
+                  ) : (
+                    <p key={service} className="text-sm text-yellow-400">
+                      No day in the 7-day forecast is warm and dry enough for {label.toLowerCase()}. Expect a weather delay if scheduled this week.
+                    </p>
+                  );
+                })}
+              </div>
+            )}
+
             {/* Business Information */}
             <div className="bg-muted/30 p-4 rounded-lg">
               <h4 className="font-semibold text-foreground mb-2">Business Information</h4>
               <p className="text-sm text-muted-foreground mb-1">{BUSINESS_CONFIG.address}</p>
               <p className="text-sm text-muted-foreground mb-1">Materials sourced from: {BUSINESS_CONFIG.supplier}</p>
-              <p className="text-sm text-muted-foreground">Estimate valid for 30 days. Subject to site inspection.</p>
+              <p className="text-sm text-muted-foreground">
+                Estimate valid {savedEstimate?.valid_until ? `until ${new Date(savedEstimate.valid_until).toLocaleDateString()}` : `for ${ESTIMATE_VALIDITY_DAYS} days`}. Subject to site inspection.
+              </p>
             </div>
           </CardContent>
         </Card>
@@ -0,0 +1,287 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Calculator, Copy, Download, FileText, FolderPlus, Plus, Search } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useConvertEstimate, useDuplicateEstimate, useEstimates, useUpdateEstimateStatus } from '@/hooks/use-estimates';
+import { useCustomers } from '@/hooks/use-customers';
+import { usePermissions } from '@/hooks/use-permissions';
+import { useAuth } from '@/hooks/use-auth';
+import { buildEstimateQuote } from '@/lib/quote';
+import { downloadQuotePdf } from '@/lib/quote-pdf';
+import { buildConversionPlan, getConversionProjectType, getWorkingDays } from '@/lib/estimate-conversion';
+import { PROJECT_TYPE_LABELS } from '@/lib/projects';
+import {
+  ESTIMATE_STATUS_LABELS,
+  canManageEstimate,
+  getEstimateTransitions,
+  getEstimateStatus,
+  hasMarginFigures,
+  type EstimateRecord,
+  type EstimateStatus
+} from '@/lib/estimates';
+
+const getEstimateStatusColor = (status: EstimateStatus) => {
+  switch (status) {
+    case 'accepted': return 'bg-green-500/10 text-green-400 border-green-500/20';
+    case 'sent': return 'bg-blue-500/10 text-blue-400 border-blue-500/20';
+    case 'declined': return 'bg-red-500/10 text-red-400 border-red-500/20';
+    case 'expired': return 'bg-yellow-500/10 text-yellow-400 border-yellow-500/20';
+    default: return 'bg-gray-500/10 text-gray-400 border-gray-500/20';
+  }
+};
+
+const EstimateList = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { data: estimates = [], isLoading } = useEstimates();
+  const duplicateEstimate = useDuplicateEstimate();
+  const updateStatus = useUpdateEstimateStatus();
+  const convertEstimate = useConvertEstimate();
+  const { data: customers = [] } = useCustomers();
+  const { can } = usePermissions();
+  const { user } = useAuth();
+  const [converting, setConverting] = useState<EstimateRecord | null>(null);
+  const [startDate, setStartDate] = useState('');
+  const [search, setSearch] = useState('');
+  const [statusFilter, setStatusFilter] = useState<'all' | EstimateStatus>('all');
+
+  const filteredEstimates = estimates.filter((estimate) => {
+    const status = getEstimateStatus(estimate);
+    if (statusFilter !== 'all' && status !== statusFilter) return false;
+    const term = search.trim().toLowerCase();
+    if (!term) return true;
+    return [estimate.customer, estimate.job_site_address, estimate.notes]
+      .some(value => value?.toLowerCase().includes(term));
+  });
+
+  const handleDuplicate = async (estimate: EstimateRecord) => {
+    try {
+      const copy = await duplicateEstimate.mutateAsync(estimate);
+      toast({
+        title: "Success",
+        description: "Estimate duplicated as a new draft",
+      });
+      navigate(`/calculator/${copy.id}`);
+    } catch (error) {
+      console.error('Error duplicating estimate:', error);
+      toast({
+        title: "Error",
+        description: "Failed to duplicate estimate",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleStatusChange = async (estimate: EstimateRecord, status: EstimateStatus) => {
+    try {
+      await updateStatus.mutateAsync({ estimate, status });
+      toast({
+        title: "Success",
+        description: `Estimate marked ${ESTIMATE_STATUS_LABELS[status].toLowerCase()}`,
+      });
+    } catch (error) {
+      console.error('Error updating estimate status:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update estimate status",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const openConversion = (estimate: EstimateRecord) => {
+    setConverting(estimate);
+    setStartDate(new Date().toISOString().slice(0, 10));
+  };
+
+  const handleConvert = async () => {
+    if (!converting || !startDate) return;
+    try {
+      const customer = customers.find(c => c.id === converting.customer_id);
+      await convertEstimate.mutateAsync({
+        estimateId: converting.id,
+        plan: buildConversionPlan(converting, startDate, customer),
+      });
+      toast({
+        title: "Success",
+        description: "Project, job and proposal created",
+      });
+      setConverting(null);
+      navigate('/projects');
+    } catch (error) {
+      console.error('Error converting estimate:', error);
+      toast({
+        title: "Error",
+        description: "Failed to convert estimate",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDownloadQuote = (estimate: EstimateRecord) => {
+    const quote = buildEstimateQuote(estimate);
+    if (quote) downloadQuotePdf(quote);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-3xl font-bold text-foreground">Estimates</h2>
+          <p className="text-muted-foreground">Saved quotes and their status</p>
+        </div>
+        <Button
+          onClick={() => navigate('/calculator')}
+          className="bg-primary hover:bg-primary/90 text-primary-foreground"
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          New Estimate
+        </Button>
+      </div>
+
+      <Card className="bg-card border-border shadow-industrial">
+        <CardHeader>
+          <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+            <CardTitle className="text-foreground flex items-center gap-2">
+              <FileText className="h-5 w-5 text-primary" />
+              Saved Estimates
+            </CardTitle>
+            <div className="flex gap-2">
+              <div className="relative">
+                <Search className="h-4 w-4 absolute left-3 top-3 text-muted-foreground" />
+                <Input
+                  className="pl-9"
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  placeholder="Search client or site"
+                />
+              </div>
+              <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as 'all' | EstimateStatus)}>
+                <SelectTrigger className="w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Statuses</SelectItem>
+                  {(Object.keys(ESTIMATE_STATUS_LABELS) as EstimateStatus[]).map((status) => (
+                    <SelectItem key={status} value={status}>{ESTIMATE_STATUS_LABELS[status]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-4">
+            {isLoading && <p className="text-sm text-muted-foreground">Loading estimates...</p>}
+            {!isLoading && filteredEstimates.length === 0 && (
+              <div className="text-center py-8">
+                <p className="text-muted-foreground">No estimates found. Generate one in the calculator and save it.</p>
+              </div>
+            )}
+            {filteredEstimates.map((estimate) => {
+              const status = getEstimateStatus(estimate);
+              return (
+                <div key={estimate.id} className="flex flex-col md:flex-row md:items-center justify-between gap-4 p-4 border border-border rounded-lg">
+                  <div className="flex-1">
+                    <div className="flex items-center gap-3">
+                      <h4 className="font-semibold text-foreground">{estimate.customer || 'Unnamed client'}</h4>
+                      <Badge className={getEstimateStatusColor(status)}>
+                        {ESTIMATE_STATUS_LABELS[status]}
+                      </Badge>
+                    </div>
+                    {estimate.job_site_address && (
+                      <p className="text-sm text-muted-foreground mt-1">{estimate.job_site_address}</p>
+                    )}
+                    <div className="flex items-center gap-4 mt-2 text-xs text-muted-foreground">
+                      <span>Created {estimate.created_at ? new Date(estimate.created_at).toLocaleDateString() : '—'}</span>
+                      <span>Valid until {estimate.valid_until ? new Date(estimate.valid_until).toLocaleDateString() : '—'}</span>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {estimate.amount !== null && (
+                      <span className="text-lg font-semibold text-primary mr-2">
+                        ${estimate.amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                      </span>
+                    )}
+                    {canManageEstimate(estimate, user?.id, can('estimates.view_margins')) && getEstimateTransitions(estimate).map((next) => (
+                      <Button key={next} size="sm" variant="outline" onClick={() => handleStatusChange(estimate, next)}>
+                        {next === 'draft' ? 'Reopen' : `Mark ${ESTIMATE_STATUS_LABELS[next]}`}
+                      </Button>
+                    ))}
+                    {status === 'accepted' && !estimate.job_id && can('projects.manage') && (
+                      <Button size="sm" variant="outline" onClick={() => openConversion(estimate)}>
+                        <FolderPlus className="h-4 w-4 mr-1" />
+                        Convert to Project
+                      </Button>
+                    )}
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={!hasMarginFigures(estimate)}
+                      onClick={() => handleDownloadQuote(estimate)}
+                    >
+                      <Download className="h-4 w-4" />
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => handleDuplicate(estimate)}>
+                      <Copy className="h-4 w-4" />
+                    </Button>
+                    <Button size="sm" onClick={() => navigate(`/calculator/${estimate.id}`)}>
+                      <Calculator className="h-4 w-4 mr-1" />
+                      Open
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!converting} onOpenChange={(open) => !open && setConverting(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Convert to Project</DialogTitle>
+            <DialogDescription>
+              {converting && `Creates a ${PROJECT_TYPE_LABELS[getConversionProjectType(converting)].toLowerCase()} project scheduled for ${getWorkingDays(converting)} crew day(s), its job, a proposal for the accepted amount and the default milestones.`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="conversion-start">Start Date</Label>
+            <Input
+              id="conversion-start"
+              type="date"
+              value={startDate}
+              onChange={(e) => setStartDate(e.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setConverting(null)}>Cancel</Button>
+            <Button
+              onClick={handleConvert}
+              disabled={!startDate || convertEstimate.isPending}
+              className="bg-primary hover:bg-primary/90 text-primary-foreground"
+            >
+              Create Project
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default EstimateList;
@@ -0,0 +1,95 @@
+import React from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Bell, Check } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useMarkEventsRead, useTrackingEvents } from '@/hooks/use-fleet';
+import type { FleetAsset, TrackingDevice } from '@/lib/fleet-tracking';
+import { GEOFENCE_EVENT_LABELS } from '@/lib/geofences';
+
+interface FleetAlertsProps {
+  vehicles: FleetAsset[];
+  devices: TrackingDevice[];
+}
+
+const getSeverityColor = (severity: string | null) => {
+  switch (severity) {
+    case 'critical': return 'bg-red-500/10 text-red-400 border-red-500/20';
+    case 'warning': return 'bg-yellow-500/10 text-yellow-400 border-yellow-500/20';
+    default: return 'bg-blue-500/10 text-blue-400 border-blue-500/20';
+  }
+};
+
+const FleetAlerts = ({ vehicles, devices }: FleetAlertsProps) => {
+  const { toast } = useToast();
+  const { data: events = [], isLoading } = useTrackingEvents();
+  const markEventsRead = useMarkEventsRead();
+
+  const getVehicleName = (vehicleId: string | null, deviceId: string | null) => {
+    const id = vehicleId ?? devices.find(device => device.id === deviceId)?.vehicle_id;
+    return vehicles.find(vehicle => vehicle.id === id)?.name ?? 'Unassigned tracker';
+  };
+
+  const dismiss = async (ids: string[]) => {
+    try {
+      await markEventsRead.mutateAsync(ids);
+    } catch (error) {
+      console.error('Error dismissing alerts:', error);
+      toast({
+        title: "Error",
+        description: "Failed to dismiss alerts",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card className="bg-card border-border shadow-industrial">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="text-foreground flex items-center gap-2">
+          <Bell className="h-5 w-5 text-primary" />
+          Alerts ({events.length})
+        </CardTitle>
+        {events.length > 0 && (
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => dismiss(events.map(event => event.id))}
+            disabled={markEventsRead.isPending}
+          >
+            <Check className="h-4 w-4 mr-2" />
+            Dismiss All
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading && <p className="text-sm text-muted-foreground">Loading alerts...</p>}
+        {!isLoading && events.length === 0 && <p className="text-sm text-muted-foreground">No new alerts.</p>}
+        {events.map((event) => (
+          <div key={event.id} className="flex items-start justify-between gap-3 p-3 rounded-lg border border-border">
+            <div className="space-y-1">
+              <div className="flex items-center gap-2">
+                <Badge className={getSeverityColor(event.severity)}>{event.severity ?? 'info'}</Badge>
+                {event.type && GEOFENCE_EVENT_LABELS[event.type] && <Badge variant="outline">{GEOFENCE_EVENT_LABELS[event.type]}</Badge>}
+                <span className="font-medium text-foreground">{getVehicleName(event.vehicle_id, event.device_id)}</span>
+              </div>
+              <p className="text-sm text-foreground">{event.message}</p>
+              {event.created_at && (
+                <p className="text-xs text-muted-foreground">
+                  {formatDistanceToNow(new Date(event.created_at), { addSuffix: true })}
+                </p>
+              )}
+            </div>
+            <Button variant="ghost" size="sm" onClick={() => dismiss([event.id])} disabled={markEventsRead.isPending}>
+              <Check className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default FleetAlerts;
@@ -0,0 +1,258 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import L from 'leaflet';
+import 'leaflet/dist/leaflet.css';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Battery, Gauge, MapPin, Navigation } from 'lucide-react';
+import { useLatestLocations } from '@/hooks/use-fleet';
+import { DEFAULT_MAP_CENTER, MAP_TILE_LAYERS, type TileLayerKey } from '@/lib/map-tiles';
+import {
+  VEHICLE_MARKER_COLORS,
+  VEHICLE_STATUS_COLORS,
+  buildFleetPositions,
+  clusterPoints,
+  formatBattery,
+  formatHeading,
+  formatSpeed,
+  isMoving,
+  type FleetAsset,
+  type FleetPosition,
+  type TrackingDevice,
+  type VehicleStatus
+} from '@/lib/fleet-tracking';
+
+interface FleetMapProps {
+  vehicles: FleetAsset[];
+  devices: TrackingDevice[];
+  now: Date;
+  onSelectVehicle: (vehicle: FleetAsset) => void;
+}
+
+// Markers closer than this on screen are drawn as one cluster
+const CLUSTER_RADIUS_PX = 48;
+
+const toLatLng = ({ location }: FleetPosition): L.LatLngTuple => [location.latitude, location.longitude];
+
+// Only numbers and fixed colors go into the markup; names stay in the popup
+const vehicleIcon = ({ location, status }: FleetPosition) => {
+  const color = VEHICLE_MARKER_COLORS[status];
+  const html = isMoving(location)
+    ? `<svg viewBox="0 0 24 24" width="28" height="28" style="transform: rotate(${location.heading}deg)"><path d="M12 2 L20 21 L12 16 L4 21 Z" fill="${color}" stroke="#fff" stroke-width="1.5" /></svg>`
+    : `<svg viewBox="0 0 24 24" width="28" height="28"><circle cx="12" cy="12" r="7" fill="${color}" stroke="#fff" stroke-width="2" /></svg>`;
+  return L.divIcon({ html, className: '', iconSize: [28, 28], iconAnchor: [14, 14], popupAnchor: [0, -14] });
+};
+
+const clusterIcon = (count: number) =>
+  L.divIcon({
+    html: `<div style="width: 36px; height: 36px; border-radius: 9999px; background: hsl(var(--primary)); color: hsl(var(--primary-foreground)); border: 2px solid #fff; display: flex; align-items: center; justify-content: center; font-weight: 600;">${count}</div>`,
+    className: '',
+    iconSize: [36, 36],
+    iconAnchor: [18, 18]
+  });
+
+// Built as DOM nodes so vehicle names are never parsed as HTML
+const popupContent = (position: FleetPosition, onSelect: () => void) => {
+  const { vehicle, location, status } = position;
+  const container = document.createElement('div');
+  const title = document.createElement('strong');
+  title.textContent = vehicle.name;
+  const movement = document.createElement('div');
+  movement.textContent = `${status} · ${formatSpeed(location.speed)} heading ${formatHeading(location.heading)}`;
+  const battery = document.createElement('div');
+  battery.textContent = `Battery ${formatBattery(location.battery_level)}`;
+  const seen = document.createElement('div');
+  seen.textContent = `Fix ${formatDistanceToNow(new Date(location.timestamp), { addSuffix: true })}`;
+  const details = document.createElement('button');
+  details.type = 'button';
+  details.textContent = 'View details';
+  details.style.cssText = 'margin-top: 6px; text-decoration: underline;';
+  details.addEventListener('click', onSelect);
+  container.append(title, movement, battery, seen, details);
+  return container;
+};
+
+const FleetMap = ({ vehicles, devices, now, onSelectVehicle }: FleetMapProps) => {
+  const { data: locations = [], isLoading } = useLatestLocations();
+  const [tileLayer, setTileLayer] = useState<TileLayerKey>('streets');
+  const [zoom, setZoom] = useState(12);
+  const positions = useMemo(() => buildFleetPositions(vehicles, devices, locations, now), [vehicles, devices, locations, now]);
+  const untracked = vehicles.filter(vehicle =>
+    devices.some(device => device.vehicle_id === vehicle.id) &&
+    !positions.some(position => position.vehicle.id === vehicle.id));
+
+  const containerRef = useRef<HTMLDivElement>(null);
+  const mapRef = useRef<L.Map | null>(null);
+  const hasFitRef = useRef(false);
+  // Markers are redrawn on every fix, so the open popup is put back afterwards
+  const openVehicleRef = useRef<string | null>(null);
+  // Popups outlive a render, so they call whichever handler is current
+  const onSelectRef = useRef(onSelectVehicle);
+  onSelectRef.current = onSelectVehicle;
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const map = L.map(container).setView(DEFAULT_MAP_CENTER, 12);
+    map.on('zoomend', () => setZoom(map.getZoom()));
+    mapRef.current = map;
+    return () => {
+      map.remove();
+      mapRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map) return;
+    const config = MAP_TILE_LAYERS[tileLayer];
+    const layer = L.tileLayer(config.url, { attribution: config.attribution, maxZoom: config.maxZoom }).addTo(map);
+    map.setMaxZoom(config.maxZoom);
+    return () => {
+      layer.remove();
+    };
+  }, [tileLayer]);
+
+  // Frames the fleet once, the first time positions come in
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || hasFitRef.current || positions.length === 0) return;
+    hasFitRef.current = true;
+    map.fitBounds(L.latLngBounds(positions.map(toLatLng)), { maxZoom: 15, padding: [40, 40] });
+  }, [positions]);
+
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || positions.length === 0) return;
+
+    const overlay = L.layerGroup().addTo(map);
+    // Zoomed all the way in, nothing is clustered so stacked vehicles stay reachable
+    const radius = zoom >= map.getMaxZoom() ? 0 : CLUSTER_RADIUS_PX;
+    const points = positions.map(position => {
+      const { x, y } = map.project(toLatLng(position), zoom);
+      return { item: position, x, y };
+    });
+
+    let reopened = false;
+    clusterPoints(points, radius).forEach(cluster => {
+      if (cluster.items.length === 1) {
+        const [position] = cluster.items;
+        const marker = L.marker(toLatLng(position), { icon: vehicleIcon(position), title: position.vehicle.name })
+          .bindPopup(popupContent(position, () => onSelectRef.current(position.vehicle)))
+          .on('popupopen', () => { openVehicleRef.current = position.vehicle.id; })
+          .on('popupclose', () => { openVehicleRef.current = null; })
+          .addTo(overlay);
+        if (position.vehicle.id === openVehicleRef.current) {
+          marker.openPopup();
+          reopened = true;
+        }
+        return;
+      }
+      const bounds = L.latLngBounds(cluster.items.map(toLatLng));
+      L.marker(bounds.getCenter(), { icon: clusterIcon(cluster.items.length) })
+        .on('click', () => map.fitBounds(bounds, { padding: [60, 60] }))
+        .addTo(overlay);
+    });
+    if (!reopened) openVehicleRef.current = null;
+
+    return () => {
+      const openVehicleId = openVehicleRef.current;
+      overlay.remove();
+      openVehicleRef.current = openVehicleId;
+    };
+  }, [positions, zoom]);
+
+  const focusVehicle = (position: FleetPosition) => {
+    mapRef.current?.setView(toLatLng(position), Math.max(mapRef.current.getZoom(), 16));
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <Card className="lg:col-span-2 bg-card border-border shadow-industrial overflow-hidden">
+        <div className="flex items-center justify-between gap-4 p-4 border-b border-border">
+          <div className="flex flex-wrap gap-4">
+            {(Object.keys(VEHICLE_MARKER_COLORS) as VehicleStatus[]).map((status) => (
+              <span key={status} className="flex items-center gap-2 text-xs text-muted-foreground">
+                <span className="h-3 w-3 rounded-full" style={{ backgroundColor: VEHICLE_MARKER_COLORS[status] }} />
+                {status}
+              </span>
+            ))}
+          </div>
+          <Select value={tileLayer} onValueChange={(value) => setTileLayer(value as TileLayerKey)}>
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(MAP_TILE_LAYERS) as TileLayerKey[]).map((key) => (
+                <SelectItem key={key} value={key}>{MAP_TILE_LAYERS[key].name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div ref={containerRef} className="h-[600px] w-full" />
+      </Card>
+
+      <Card className="bg-card border-border shadow-industrial">
+        <CardHeader>
+          <CardTitle className="text-foreground flex items-center gap-2">
+            <MapPin className="h-5 w-5 text-primary" />
+            Vehicles on the Map ({positions.length})
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {isLoading && <p className="text-sm text-muted-foreground">Loading positions...</p>}
+          {!isLoading && positions.length === 0 && (
+            <p className="text-sm text-muted-foreground">
+              No positions yet. Vehicles show up once their tracker reports a fix.
+            </p>
+          )}
+          {positions.map((position) => (
+            <div key={position.vehicle.id} className="p-3 rounded-lg bg-muted/50 border border-border space-y-2">
+              <button type="button" className="text-left w-full" onClick={() => focusVehicle(position)}>
+                <div className="flex items-center justify-between gap-2">
+                  <h3 className="font-medium text-foreground">{position.vehicle.name}</h3>
+                  <Badge className={VEHICLE_STATUS_COLORS[position.status]}>{position.status}</Badge>
+                </div>
+                <div className="flex flex-wrap gap-3 mt-1 text-xs text-muted-foreground">
+                  <span className="flex items-center gap-1">
+                    <Gauge className="h-3 w-3" />
+                    {formatSpeed(position.location.speed)}
+                  </span>
+                  <span className="flex items-center gap-1">
+                    <Navigation className="h-3 w-3" />
+                    {formatHeading(position.location.heading)}
+                  </span>
+                  <span className="flex items-center gap-1">
+                    <Battery className="h-3 w-3" />
+                    {formatBattery(position.location.battery_level)}
+                  </span>
+                </div>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Fix {formatDistanceToNow(new Date(position.location.timestamp), { addSuffix: true })}
+                </p>
+              </button>
+              <Button size="sm" variant="outline" onClick={() => onSelectVehicle(position.vehicle)}>
+                View Details
+              </Button>
+            </div>
+          ))}
+          {untracked.map((vehicle) => (
+            <div key={vehicle.id} className="p-3 rounded-lg border border-dashed border-border flex items-center justify-between gap-2">
+              <div>
+                <h3 className="font-medium text-foreground">{vehicle.name}</h3>
+                <p className="text-xs text-muted-foreground">Tracker hasn't reported a position</p>
+              </div>
+              <Button size="sm" variant="ghost" onClick={() => onSelectVehicle(vehicle)}>
+                Details
+              </Button>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default FleetMap;
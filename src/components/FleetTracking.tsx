@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -9,21 +9,17 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { supabase } from '@/integrations/supabase/client';
 import { Truck, MapPin, Fuel, Clock, AlertTriangle, CheckCircle, Plus, Calendar } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-
-interface FleetAsset {
-  id: string;
-  name: string;
-  type: string;
-  make: string;
-  model: string;
-  year: number;
-  vin: string;
-  license_plate: string;
-  registration_expiry: string;
-  image_url: string;
-  registration_card_url: string;
-  created_at: string;
-}
+import { usePermissions } from '@/hooks/use-permissions';
+import { useAddFleetAsset, useDevices, useFleetAssets, useFleetRealtime } from '@/hooks/use-fleet';
+import { useMaintenanceSchedules, useRecentOdometerReadings, useVehicleMeters } from '@/hooks/use-maintenance';
+import { VEHICLE_STATUS_COLORS, getDeviceStatus, type FleetAsset } from '@/lib/fleet-tracking';
+import { buildMaintenanceForecasts, isServiceDue } from '@/lib/maintenance';
+import FleetAlerts from '@/components/FleetAlerts';
+import FleetMap from '@/components/FleetMap';
+import GeofenceEditor from '@/components/GeofenceEditor';
+import MaintenanceSchedule from '@/components/MaintenanceSchedule';
+import TripHistory from '@/components/TripHistory';
+import VehicleDetailDialog from '@/components/VehicleDetailDialog';
 
 interface VehicleDetail {
   id: string;
@@ -45,21 +41,14 @@ interface VehicleDetail {
   insurance_policy_number: string;
 }
 
-interface Device {
-  id: string;
-  name: string;
-  type: string;
-  status: string;
-  last_seen: string;
-  user_id: string;
-  vehicle_id: string;
-  metadata: any;
-}
-
 const FleetTracking = () => {
-  const [fleetAssets, setFleetAssets] = useState<FleetAsset[]>([]);
+  const { data: fleetAssets = [] } = useFleetAssets();
+  const { data: devices = [] } = useDevices();
+  const { data: schedules = [] } = useMaintenanceSchedules();
+  const { data: meters = [] } = useVehicleMeters();
+  const { data: readings = [] } = useRecentOdometerReadings();
   const [vehicleDetails, setVehicleDetails] = useState<VehicleDetail[]>([]);
-  const [devices, setDevices] = useState<Device[]>([]);
+  const [now, setNow] = useState(() => new Date());
   const [selectedVehicle, setSelectedVehicle] = useState<FleetAsset | null>(null);
   const [isAddingVehicle, setIsAddingVehicle] = useState(false);
   const [newVehicle, setNewVehicle] = useState({
@@ -72,10 +61,18 @@ const FleetTracking = () => {
     license_plate: ''
   });
   const { toast } = useToast();
+  const { can } = usePermissions();
+  const addVehicle = useAddFleetAsset();
+  const isLive = useFleetRealtime();
+  const forecasts = useMemo(
+    () => buildMaintenanceForecasts(schedules, meters, readings, now),
+    [schedules, meters, readings, now]
+  );
 
+  // Vehicles go idle and offline with time, not only when a fix comes in
   useEffect(() => {
-    fetchFleetAssets();
-    fetchDevices();
+    const timer = window.setInterval(() => setNow(new Date()), 60000);
+    return () => window.clearInterval(timer);
   }, []);
 
   useEffect(() => {
@@ -84,25 +81,6 @@ const FleetTracking = () => {
     }
   }, [selectedVehicle]);
 
-  const fetchFleetAssets = async () => {
-    try {
-      const { data, error } = await supabase
-        .from('fleet_assets')
-        .select('*')
-        .order('created_at', { ascending: false });
-
-      if (error) throw error;
-      setFleetAssets(data || []);
-    } catch (error) {
-      console.error('Error fetching fleet assets:', error);
-      toast({
-        title: "Error",
-        description: "Failed to fetch fleet assets",
-        variant: "destructive",
-      });
-    }
-  };
-
   const fetchVehicleDetails = async (vehicleId: string) => {
     try {
       const { data, error } = await supabase
@@ -117,31 +95,9 @@ const FleetTracking = () => {
     }
   };
 
-  const fetchDevices = async () => {
-    try {
-      const { data, error } = await supabase
-        .from('devices')
-        .select('*')
-        .order('last_seen', { ascending: false });
-
-      if (error) throw error;
-      setDevices(data || []);
-    } catch (error) {
-      console.error('Error fetching devices:', error);
-    }
-  };
-
   const addFleetAsset = async () => {
     try {
-      const { data, error } = await supabase
-        .from('fleet_assets')
-        .insert([newVehicle])
-        .select()
-        .single();
-
-      if (error) throw error;
-
-      setFleetAssets(prev => [data, ...prev]);
+      await addVehicle.mutateAsync(newVehicle);
       setIsAddingVehicle(false);
       setNewVehicle({
         name: '',
@@ -170,32 +126,11 @@ const FleetTracking = () => {
   const getVehicleStatusColor = (vehicle: FleetAsset) => {
     const device = devices.find(d => d.vehicle_id === vehicle.id);
     if (!device) return 'bg-gray-500/10 text-gray-400 border-gray-500/20';
-    
-    const lastSeen = new Date(device.last_seen);
-    const hoursSinceLastSeen = (Date.now() - lastSeen.getTime()) / (1000 * 60 * 60);
-    
-    if (hoursSinceLastSeen < 1) return 'bg-green-500/10 text-green-400 border-green-500/20';
-    if (hoursSinceLastSeen < 24) return 'bg-yellow-500/10 text-yellow-400 border-yellow-500/20';
-    return 'bg-red-500/10 text-red-400 border-red-500/20';
+    return VEHICLE_STATUS_COLORS[getDeviceStatus(device, now)];
   };
 
   const getVehicleStatus = (vehicle: FleetAsset) => {
-    const device = devices.find(d => d.vehicle_id === vehicle.id);
-    if (!device) return 'Offline';
-    
-    const lastSeen = new Date(device.last_seen);
-    const hoursSinceLastSeen = (Date.now() - lastSeen.getTime()) / (1000 * 60 * 60);
-    
-    if (hoursSinceLastSeen < 1) return 'Active';
-    if (hoursSinceLastSeen < 24) return 'Idle';
-    return 'Offline';
-  };
-
-  const isMaintenanceDue = (details: VehicleDetail) => {
-    if (!details.next_oil_change_due_mileage) return false;
-    // For demo purposes, assume current mileage is 10% higher than last service
-    const estimatedCurrentMileage = details.last_oil_change_mileage * 1.1;
-    return estimatedCurrentMileage >= details.next_oil_change_due_mileage;
+    return getDeviceStatus(devices.find(d => d.vehicle_id === vehicle.id), now);
   };
 
   const isRegistrationExpiring = (vehicle: FleetAsset) => {
@@ -212,19 +147,32 @@ const FleetTracking = () => {
           <h2 className="text-3xl font-bold text-foreground">Fleet Management</h2>
           <p className="text-muted-foreground">Track and manage your asphalt equipment and vehicles</p>
         </div>
-        <Button 
-          onClick={() => setIsAddingVehicle(true)}
-          className="bg-primary hover:bg-primary/90 text-primary-foreground"
-        >
-          <Plus className="h-4 w-4 mr-2" />
-          Add Vehicle
-        </Button>
+        <div className="flex items-center gap-3">
+          <Badge
+            variant="outline"
+            title={isLive ? 'Positions and alerts arrive as they happen' : 'Live updates are unavailable; refreshing every 30 seconds'}
+          >
+            <span className={`h-2 w-2 rounded-full mr-2 ${isLive ? 'bg-green-500' : 'bg-yellow-500'}`} />
+            {isLive ? 'Live' : 'Polling'}
+          </Badge>
+          {can('fleet.manage') && (
+            <Button 
+              onClick={() => setIsAddingVehicle(true)}
+              className="bg-primary hover:bg-primary/90 text-primary-foreground"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add Vehicle
+            </Button>
+          )}
+        </div>
       </div>
 
       <Tabs defaultValue="overview" className="space-y-6">
-        <TabsList className="grid w-full grid-cols-4">
+        <TabsList className="grid w-full grid-cols-6">
           <TabsTrigger value="overview">Fleet Overview</TabsTrigger>
           <TabsTrigger value="tracking">Live Tracking</TabsTrigger>
+          <TabsTrigger value="history">Trip History</TabsTrigger>
+          <TabsTrigger value="geofences">Geofences</TabsTrigger>
           <TabsTrigger value="maintenance">Maintenance</TabsTrigger>
           <TabsTrigger value="compliance">Compliance</TabsTrigger>
         </TabsList>
@@ -268,7 +216,7 @@ const FleetTracking = () => {
                   <div>
                     <p className="text-sm text-muted-foreground">Maintenance Due</p>
                     <p className="text-2xl font-bold text-foreground">
-                      {vehicleDetails.filter(d => isMaintenanceDue(d)).length}
+                      {forecasts.filter(isServiceDue).length}
                     </p>
                   </div>
                   <div className="h-8 w-8 bg-yellow-500/10 rounded-full flex items-center justify-center">
@@ -352,105 +300,20 @@ const FleetTracking = () => {
         </TabsContent>
 
         <TabsContent value="tracking" className="space-y-6">
-          <Card className="bg-card border-border shadow-industrial">
-            <CardHeader>
-              <CardTitle className="text-foreground flex items-center gap-2">
-                <MapPin className="h-5 w-5 text-primary" />
-                Live Vehicle Tracking
-              </CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className="space-y-4">
-                {devices.map((device) => {
-                  const vehicle = fleetAssets.find(v => v.id === device.vehicle_id);
-                  if (!vehicle) return null;
+          <FleetAlerts vehicles={fleetAssets} devices={devices} />
+          <FleetMap vehicles={fleetAssets} devices={devices} now={now} onSelectVehicle={setSelectedVehicle} />
+        </TabsContent>
 
-                  const lastSeen = new Date(device.last_seen);
-                  const hoursAgo = Math.floor((Date.now() - lastSeen.getTime()) / (1000 * 60 * 60));
-                  
-                  return (
-                    <div key={device.id} className="flex items-center justify-between p-4 border border-border rounded-lg">
-                      <div className="flex items-center gap-4">
-                        <div className={`h-3 w-3 rounded-full ${device.status === 'active' ? 'bg-green-500' : 'bg-gray-500'}`} />
-                        <div>
-                          <h4 className="font-semibold text-foreground">{vehicle.name}</h4>
-                          <p className="text-sm text-muted-foreground">{device.name} - {device.type}</p>
-                        </div>
-                      </div>
-                      <div className="text-right">
-                        <Badge className={getVehicleStatusColor(vehicle)}>
-                          {getVehicleStatus(vehicle)}
-                        </Badge>
-                        <p className="text-xs text-muted-foreground mt-1">
-                          Last seen: {hoursAgo === 0 ? 'Now' : `${hoursAgo}h ago`}
-                        </p>
-                      </div>
-                    </div>
-                  );
-                })}
-              </div>
-            </CardContent>
-          </Card>
+        <TabsContent value="history" className="space-y-6">
+          <TripHistory vehicles={fleetAssets} devices={devices} />
         </TabsContent>
 
-        <TabsContent value="maintenance" className="space-y-6">
-          <Card className="bg-card border-border shadow-industrial">
-            <CardHeader>
-              <CardTitle className="text-foreground flex items-center gap-2">
-                <AlertTriangle className="h-5 w-5 text-primary" />
-                Maintenance Schedule
-              </CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className="space-y-4">
-                {vehicleDetails.map((detail) => {
-                  const vehicle = fleetAssets.find(v => v.id === detail.vehicle_id);
-                  if (!vehicle) return null;
+        <TabsContent value="geofences" className="space-y-6">
+          <GeofenceEditor />
+        </TabsContent>
 
-                  const maintenanceDue = isMaintenanceDue(detail);
-                  
-                  return (
-                    <div key={detail.id} className="flex items-center justify-between p-4 border border-border rounded-lg">
-                      <div className="flex-1">
-                        <h4 className="font-semibold text-foreground">{vehicle.name}</h4>
-                        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-2 text-sm">
-                          <div>
-                            <p className="text-muted-foreground">Last Oil Change</p>
-                            <p className="font-medium">
-                              {detail.last_oil_change_date ? new Date(detail.last_oil_change_date).toLocaleDateString() : 'Not recorded'}
-                            </p>
-                          </div>
-                          <div>
-                            <p className="text-muted-foreground">Mileage</p>
-                            <p className="font-medium">{detail.last_oil_change_mileage?.toLocaleString() || 'N/A'}</p>
-                          </div>
-                          <div>
-                            <p className="text-muted-foreground">Next Service Due</p>
-                            <p className="font-medium">{detail.next_oil_change_due_mileage?.toLocaleString() || 'N/A'}</p>
-                          </div>
-                          <div>
-                            <p className="text-muted-foreground">Oil Type</p>
-                            <p className="font-medium">{detail.oil_type || 'Not specified'}</p>
-                          </div>
-                        </div>
-                      </div>
-                      <div className="text-right">
-                        <Badge className={maintenanceDue ? 'bg-yellow-500/10 text-yellow-400 border-yellow-500/20' : 'bg-green-500/10 text-green-400 border-green-500/20'}>
-                          {maintenanceDue ? 'Service Due' : 'Up to Date'}
-                        </Badge>
-                      </div>
-                    </div>
-                  );
-                })}
-                
-                {vehicleDetails.length === 0 && (
-                  <div className="text-center py-8">
-                    <p className="text-muted-foreground">No maintenance records found. Add vehicle details to track maintenance schedules.</p>
-                  </div>
-                )}
-              </div>
-            </CardContent>
-          </Card>
+        <TabsContent value="maintenance" className="space-y-6">
+          <MaintenanceSchedule vehicles={fleetAssets} forecasts={forecasts} meters={meters} />
         </TabsContent>
 
         <TabsContent value="compliance" className="space-y-6">
@@ -504,8 +367,14 @@ const FleetTracking = () => {
         </TabsContent>
       </Tabs>
 
+      <VehicleDetailDialog
+        vehicle={selectedVehicle}
+        devices={devices}
+        onOpenChange={(open) => !open && setSelectedVehicle(null)}
+      />
+
       {/* Add Vehicle Modal */}
-      {isAddingVehicle && (
+      {isAddingVehicle && can('fleet.manage') && (
         <div className="fixed inset-0 bg-background/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
           <Card className="w-full max-w-2xl bg-card border-border shadow-industrial">
             <CardHeader>
@@ -0,0 +1,365 @@
+import React, { useEffect, useRef, useState } from 'react';
+import L from 'leaflet';
+import 'leaflet/dist/leaflet.css';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { Check, Circle, Hexagon, Pencil, Shapes, Trash2, Undo2, X } from 'lucide-react';
+import GeofenceForm from '@/components/GeofenceForm';
+import { useToast } from '@/hooks/use-toast';
+import { usePermissions } from '@/hooks/use-permissions';
+import { useProjects } from '@/hooks/use-projects';
+import { useDeleteGeofence, useGeofences, useUpdateGeofence } from '@/hooks/use-geofences';
+import { DEFAULT_MAP_CENTER, MAP_TILE_LAYERS, type TileLayerKey } from '@/lib/map-tiles';
+import type { Position } from '@/lib/measurements';
+import {
+  GEOFENCE_COLORS,
+  canCompleteFence,
+  formatRadius,
+  metersBetween,
+  toGeofenceGeometry,
+  type GeofenceGeometry,
+  type GeofenceRecord,
+  type GeofenceShape
+} from '@/lib/geofences';
+
+type DrawMode = 'idle' | GeofenceShape;
+
+// Leaflet works in [lat, lng]; fences are stored GeoJSON-style as [x, y]
+const toLatLng = ([x, y]: Position): L.LatLngTuple => [y, x];
+
+const fenceLayer = (geometry: GeofenceGeometry, options: L.PathOptions) =>
+  geometry.shape === 'circle'
+    ? L.circle(toLatLng(geometry.center), { ...options, radius: geometry.radius })
+    : L.polygon(geometry.ring.map(toLatLng), options);
+
+// Circles only know their bounds once they are on a map
+const fenceBounds = (geometry: GeofenceGeometry) =>
+  geometry.shape === 'circle'
+    ? L.latLng(toLatLng(geometry.center)).toBounds(geometry.radius * 2)
+    : L.latLngBounds(geometry.ring.map(toLatLng));
+
+const GeofenceEditor = () => {
+  const { toast } = useToast();
+  const { can } = usePermissions();
+  const canManage = can('geofences.manage');
+  const { data: geofences = [], isLoading } = useGeofences();
+  const { data: projects = [] } = useProjects();
+  const updateGeofence = useUpdateGeofence();
+  const deleteGeofence = useDeleteGeofence();
+
+  const [tileLayer, setTileLayer] = useState<TileLayerKey>('streets');
+  const [mode, setMode] = useState<DrawMode>('idle');
+  const [draft, setDraft] = useState<Position[]>([]);
+  // The fence being redrawn, when a drawing replaces a saved shape
+  const [redrawing, setRedrawing] = useState<GeofenceRecord | null>(null);
+  const [editing, setEditing] = useState<{ geofence: GeofenceRecord | null; geometry: GeofenceGeometry } | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<GeofenceRecord | null>(null);
+
+  const containerRef = useRef<HTMLDivElement>(null);
+  const mapRef = useRef<L.Map | null>(null);
+  const overlayRef = useRef<L.LayerGroup | null>(null);
+  const hasFitRef = useRef(false);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const map = L.map(container, { doubleClickZoom: false }).setView(DEFAULT_MAP_CENTER, 12);
+    overlayRef.current = L.layerGroup().addTo(map);
+    mapRef.current = map;
+    return () => {
+      map.remove();
+      mapRef.current = null;
+      overlayRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map) return;
+    const config = MAP_TILE_LAYERS[tileLayer];
+    const layer = L.tileLayer(config.url, { attribution: config.attribution, maxZoom: config.maxZoom }).addTo(map);
+    map.setMaxZoom(config.maxZoom);
+    return () => {
+      layer.remove();
+    };
+  }, [tileLayer]);
+
+  // Frames the saved fences once, the first time they load
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || hasFitRef.current || geofences.length === 0) return;
+    hasFitRef.current = true;
+    const bounds = L.latLngBounds([]);
+    geofences.forEach(fence => bounds.extend(fenceBounds(toGeofenceGeometry(fence))));
+    map.fitBounds(bounds, { maxZoom: 17, padding: [40, 40] });
+  }, [geofences]);
+
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || mode === 'idle') return;
+
+    const handleClick = (event: L.LeafletMouseEvent) => {
+      const point: Position = [event.latlng.lng, event.latlng.lat];
+      // A circle is its center and one point on the edge
+      setDraft(prev => (mode === 'circle' && prev.length >= 2 ? prev : [...prev, point]));
+    };
+
+    map.on('click', handleClick);
+    map.getContainer().style.cursor = 'crosshair';
+    return () => {
+      map.off('click', handleClick);
+      map.getContainer().style.cursor = '';
+    };
+  }, [mode]);
+
+  useEffect(() => {
+    const overlay = overlayRef.current;
+    if (!overlay) return;
+    overlay.clearLayers();
+
+    geofences
+      .filter(fence => fence.id !== redrawing?.id)
+      .forEach(fence => {
+        const active = fence.is_active ?? true;
+        fenceLayer(toGeofenceGeometry(fence), {
+          color: fence.color ?? GEOFENCE_COLORS[0],
+          weight: 2,
+          fillOpacity: active ? 0.2 : 0.05,
+          dashArray: active ? undefined : '4 4'
+        })
+          .bindTooltip(fence.name)
+          .addTo(overlay);
+      });
+
+    if (draft.length > 0) {
+      const color = redrawing?.color ?? GEOFENCE_COLORS[0];
+      const points = draft.map(toLatLng);
+      if (mode === 'circle' && draft.length === 2) {
+        L.circle(points[0], { color, weight: 2, dashArray: '6 4', fillOpacity: 0.15, radius: metersBetween(draft[0], draft[1]) })
+          .addTo(overlay);
+      } else if (mode === 'polygon') {
+        (draft.length >= 3 ? L.polygon(points, { color, weight: 2, dashArray: '6 4', fillOpacity: 0.15 }) : L.polyline(points, { color, weight: 3, dashArray: '6 4' }))
+          .addTo(overlay);
+      }
+      points.forEach(point => L.circleMarker(point, { radius: 4, color, fillOpacity: 1 }).addTo(overlay));
+    }
+  }, [geofences, draft, mode, redrawing]);
+
+  const startDrawing = (shape: GeofenceShape, fence: GeofenceRecord | null = null) => {
+    setRedrawing(fence);
+    setDraft([]);
+    setMode(shape);
+  };
+
+  const handleCancel = () => {
+    setDraft([]);
+    setRedrawing(null);
+    setMode('idle');
+  };
+
+  const handleFinish = () => {
+    if (mode === 'idle' || !canCompleteFence(mode, draft)) return;
+    const geometry: GeofenceGeometry = mode === 'circle'
+      ? { shape: 'circle', center: draft[0], radius: metersBetween(draft[0], draft[1]) }
+      : { shape: 'polygon', ring: draft };
+    if (geometry.shape === 'circle' && geometry.radius < 1) return;
+    setEditing({ geofence: redrawing, geometry });
+    handleCancel();
+  };
+
+  const focusFence = (fence: GeofenceRecord) => {
+    mapRef.current?.fitBounds(fenceBounds(toGeofenceGeometry(fence)), { maxZoom: 18, padding: [40, 40] });
+  };
+
+  const toggleActive = async (fence: GeofenceRecord, isActive: boolean) => {
+    try {
+      await updateGeofence.mutateAsync({ id: fence.id, values: { is_active: isActive } });
+    } catch (error) {
+      console.error('Error updating geofence:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update geofence",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const confirmDelete = async () => {
+    if (!pendingDelete) return;
+    try {
+      await deleteGeofence.mutateAsync(pendingDelete.id);
+      toast({
+        title: "Success",
+        description: "Geofence removed",
+      });
+    } catch (error) {
+      console.error('Error deleting geofence:', error);
+      toast({
+        title: "Error",
+        description: "Failed to remove geofence",
+        variant: "destructive",
+      });
+    } finally {
+      setPendingDelete(null);
+    }
+  };
+
+  const projectName = (projectId: string | null) =>
+    projects.find(project => project.id === projectId)?.name;
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <Card className="lg:col-span-2 bg-card border-border shadow-industrial overflow-hidden">
+        <div className="flex flex-wrap items-center justify-between gap-4 p-4 border-b border-border">
+          {mode === 'idle' ? (
+            canManage ? (
+              <div className="flex gap-2">
+                <Button size="sm" variant="outline" onClick={() => startDrawing('circle')}>
+                  <Circle className="h-4 w-4 mr-2" />
+                  Draw Circle
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => startDrawing('polygon')}>
+                  <Hexagon className="h-4 w-4 mr-2" />
+                  Draw Polygon
+                </Button>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">Geofences are drawn by the office</p>
+            )
+          ) : (
+            <div className="flex flex-wrap items-center gap-2">
+              <p className="text-sm text-muted-foreground">
+                {mode === 'circle'
+                  ? draft.length < 2 ? 'Click the center, then a point on the edge' : `Radius ${formatRadius(metersBetween(draft[0], draft[1]))}`
+                  : `Click each corner (${draft.length} so far)`}
+              </p>
+              <Button size="sm" variant="outline" onClick={() => setDraft(prev => prev.slice(0, -1))} disabled={draft.length === 0}>
+                <Undo2 className="h-4 w-4 mr-2" />
+                Undo
+              </Button>
+              <Button size="sm" onClick={handleFinish} disabled={!canCompleteFence(mode, draft)}>
+                <Check className="h-4 w-4 mr-2" />
+                Finish
+              </Button>
+              <Button size="sm" variant="ghost" onClick={handleCancel}>
+                <X className="h-4 w-4 mr-2" />
+                Cancel
+              </Button>
+            </div>
+          )}
+          <Select value={tileLayer} onValueChange={(value) => setTileLayer(value as TileLayerKey)}>
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(MAP_TILE_LAYERS) as TileLayerKey[]).map((key) => (
+                <SelectItem key={key} value={key}>{MAP_TILE_LAYERS[key].name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div ref={containerRef} className="h-[600px] w-full isolate" />
+      </Card>
+
+      <Card className="bg-card border-border shadow-industrial">
+        <CardHeader>
+          <CardTitle className="text-foreground flex items-center gap-2">
+            <Shapes className="h-5 w-5 text-primary" />
+            Geofences ({geofences.length})
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {isLoading && <p className="text-sm text-muted-foreground">Loading geofences...</p>}
+          {!isLoading && geofences.length === 0 && (
+            <p className="text-sm text-muted-foreground">
+              No geofences yet. Draw one around the yard or a job site to log arrivals and departures.
+            </p>
+          )}
+          {geofences.map((fence) => {
+            const geometry = toGeofenceGeometry(fence);
+            const project = projectName(fence.project_id);
+            return (
+              <div key={fence.id} className="p-3 rounded-lg bg-muted/50 border border-border space-y-2">
+                <button type="button" className="text-left w-full" onClick={() => focusFence(fence)}>
+                  <div className="flex items-center justify-between gap-2">
+                    <h3 className="font-medium text-foreground flex items-center gap-2">
+                      <span className="h-3 w-3 rounded-full" style={{ backgroundColor: fence.color ?? GEOFENCE_COLORS[0] }} />
+                      {fence.name}
+                    </h3>
+                    {!(fence.is_active ?? true) && <Badge variant="outline">Inactive</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {geometry.shape === 'circle' ? `Circle, ${formatRadius(geometry.radius)} radius` : `Polygon, ${geometry.ring.length} corners`}
+                    {fence.dwell_minutes ? ` · dwell alert after ${fence.dwell_minutes} min` : ''}
+                  </p>
+                  {project && <p className="text-xs text-muted-foreground">Job site for {project}</p>}
+                </button>
+                {canManage && (
+                  <div className="flex items-center justify-between gap-2">
+                    <label className="flex items-center gap-2 text-xs text-muted-foreground">
+                      <Switch
+                        checked={fence.is_active ?? true}
+                        onCheckedChange={(checked) => toggleActive(fence, checked)}
+                        disabled={mode !== 'idle'}
+                      />
+                      Active
+                    </label>
+                    <div className="flex gap-1">
+                      <Button size="sm" variant="ghost" onClick={() => setEditing({ geofence: fence, geometry })} disabled={mode !== 'idle'}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button size="sm" variant="ghost" onClick={() => startDrawing(geometry.shape, fence)} disabled={mode !== 'idle'}>
+                        Redraw
+                      </Button>
+                      <Button size="sm" variant="ghost" onClick={() => setPendingDelete(fence)} disabled={mode !== 'idle'}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </CardContent>
+      </Card>
+
+      <GeofenceForm
+        open={!!editing}
+        onOpenChange={(open) => !open && setEditing(null)}
+        geofence={editing?.geofence ?? null}
+        geometry={editing?.geometry ?? null}
+        projects={projects}
+      />
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remove this geofence?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Vehicles stop being checked against it. Alerts and site visits it already logged are kept.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmDelete}>Remove</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default GeofenceEditor;
@@ -0,0 +1,209 @@
+import React, { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { useToast } from '@/hooks/use-toast';
+import { useSaveGeofence } from '@/hooks/use-geofences';
+import type { ProjectRecord } from '@/lib/projects';
+import {
+  GEOFENCE_COLORS,
+  formatRadius,
+  geofenceFormSchema,
+  getGeofenceFormValues,
+  serializeGeofenceForm,
+  type GeofenceFormValues,
+  type GeofenceGeometry,
+  type GeofenceRecord
+} from '@/lib/geofences';
+
+// Select items can't have an empty value
+const NONE = 'none';
+
+interface GeofenceFormProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  geofence: GeofenceRecord | null;
+  geometry: GeofenceGeometry | null;
+  projects: ProjectRecord[];
+}
+
+const GeofenceForm = ({ open, onOpenChange, geofence, geometry, projects }: GeofenceFormProps) => {
+  const { toast } = useToast();
+  const saveGeofence = useSaveGeofence();
+  const form = useForm<GeofenceFormValues>({
+    resolver: zodResolver(geofenceFormSchema),
+    defaultValues: getGeofenceFormValues(geofence),
+  });
+
+  useEffect(() => {
+    if (open) form.reset(getGeofenceFormValues(geofence));
+  }, [open, geofence, form]);
+
+  const onSubmit = async (values: GeofenceFormValues) => {
+    if (!geometry) return;
+    try {
+      await saveGeofence.mutateAsync({ id: geofence?.id, values: serializeGeofenceForm(values, geometry) });
+      toast({
+        title: "Success",
+        description: geofence ? "Geofence updated" : "Geofence added",
+      });
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error saving geofence:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save geofence",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{geofence ? 'Edit Geofence' : 'New Geofence'}</DialogTitle>
+        </DialogHeader>
+        {geometry && (
+          <p className="text-sm text-muted-foreground">
+            {geometry.shape === 'circle'
+              ? `Circle, ${formatRadius(geometry.radius)} radius`
+              : `Polygon, ${geometry.ring.length} corners`}
+          </p>
+        )}
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g. Main yard, Oak Street lot" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="project_id"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Job Site For</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value={NONE}>Not a job site</SelectItem>
+                      {projects.map((project) => (
+                        <SelectItem key={project.id} value={project.id}>{project.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>Arrivals and departures are logged on the project</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="dwell_minutes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Dwell Alert (minutes)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min="1" step="1" {...field} value={field.value ?? ''} />
+                    </FormControl>
+                    <FormDescription>Leave blank for no dwell alert</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="color"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Color</FormLabel>
+                    <div className="flex gap-2 h-10 items-center">
+                      {GEOFENCE_COLORS.map((color) => (
+                        <button
+                          key={color}
+                          type="button"
+                          aria-label={`Use color ${color}`}
+                          className={`h-6 w-6 rounded-full border-2 ${field.value === color ? 'border-foreground' : 'border-transparent'}`}
+                          style={{ backgroundColor: color }}
+                          onClick={() => field.onChange(color)}
+                        />
+                      ))}
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="enable_notifications"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between gap-4 rounded-md border border-border p-3">
+                  <div>
+                    <FormLabel>Alerts</FormLabel>
+                    <FormDescription>Show enter, exit and dwell events in fleet alerts</FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="is_active"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between gap-4 rounded-md border border-border p-3">
+                  <div>
+                    <FormLabel>Active</FormLabel>
+                    <FormDescription>Inactive fences are kept but not checked</FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter className="pt-4 border-t border-border">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={saveGeofence.isPending || !geometry}
+                className="bg-primary hover:bg-primary/90 text-primary-foreground"
+              >
+                {geofence ? 'Save Changes' : 'Add Geofence'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default GeofenceForm;
@@ -1,21 +1,97 @@
+import { useState } from "react";
+import { Link, useLocation, useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { 
-  Settings, 
-  Bell, 
+import { Sheet, SheetContent, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu";
+import { useAuth } from "@/hooks/use-auth";
+import { usePermissions } from "@/hooks/use-permissions";
+import { isClientOnly, type Permission } from "@/lib/permissions";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import {
+  Settings,
+  Bell,
   User,
   Menu,
   Shield,
-  Zap
+  Zap,
+  LogIn,
+  LogOut,
+  UserCog
 } from "lucide-react";
 
+interface NavItem {
+  label: string;
+  to: string;
+  match: string[]; // other routes that belong to the same section
+  permission?: Permission;
+}
+
+const NAV_ITEMS: NavItem[] = [
+  { label: "Dashboard", to: "/", match: [] },
+  { label: "Projects", to: "/projects", match: [], permission: "projects.view" },
+  { label: "Dispatch", to: "/dispatch", match: [], permission: "schedule.view" },
+  { label: "Time Clock", to: "/time-clock", match: [], permission: "time_clock.use" },
+  { label: "Estimates", to: "/estimates", match: ["/calculator"], permission: "estimates.view" },
+  { label: "Fleet", to: "/fleet", match: [], permission: "fleet.view" },
+  { label: "Job Costing", to: "/costing", match: [], permission: "costing.view" },
+  { label: "Analytics", to: "/analytics", match: [], permission: "analytics.view" },
+  { label: "Mapping", to: "/mapping", match: [], permission: "mapping.view" },
+  { label: "Reports", to: "/reports", match: [], permission: "reports.view" },
+  { label: "Client Portal", to: "/portal", match: [], permission: "portal.view" },
+];
+
+// Settings live behind the gear icon on larger screens
+const MOBILE_NAV_ITEMS: NavItem[] = [
+  ...NAV_ITEMS,
+  { label: "Price Books", to: "/price-books", match: [], permission: "price_books.manage" },
+];
+
+const isActivePath = (pathname: string, item: NavItem) => {
+  if (item.to === "/") return pathname === "/";
+  return [item.to, ...item.match].some(path => pathname === path || pathname.startsWith(`${path}/`));
+};
+
 const Header = () => {
+  const location = useLocation();
+  const { pathname } = location;
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { user, signOut } = useAuth();
+  const { can, roles } = usePermissions();
+  const [menuOpen, setMenuOpen] = useState(false);
+
+  // Client accounts only get the portal, not the staff dashboard
+  const isVisible = (item: NavItem) => (item.permission ? can(item.permission) : !isClientOnly(roles));
+
+  const handleSignOut = async () => {
+    try {
+      await signOut();
+      navigate("/auth");
+    } catch (error) {
+      console.error("Error signing out:", error);
+      toast({
+        title: "Error",
+        description: "Failed to sign out",
+        variant: "destructive",
+      });
+    }
+  };
+
   return (
     <header className="bg-gradient-surface border-b border-border shadow-industrial">
       <div className="flex items-center justify-between px-6 py-4">
         {/* Logo and Title */}
         <div className="flex items-center gap-4">
-          <div className="flex items-center gap-3">
+          <Link to="/" className="flex items-center gap-3">
             <div className="p-2 bg-gradient-primary rounded-lg shadow-glow">
               <Shield className="h-6 w-6 text-industrial-dark" />
             </div>
@@ -27,7 +103,7 @@ const Header = () => {
                 Operations Management System
               </p>
             </div>
-          </div>
+          </Link>
           <Badge className="bg-industrial-orange/20 text-industrial-orange border-industrial-orange">
             <Zap className="h-3 w-3 mr-1" />
             Live
@@ -35,22 +111,22 @@ const Header = () => {
         </div>
 
         {/* Navigation */}
-        <nav className="hidden md:flex items-center gap-6">
-          <Button variant="ghost" className="text-foreground hover:text-industrial-orange">
-            Dashboard
-          </Button>
-          <Button variant="ghost" className="text-muted-foreground hover:text-foreground">
-            Projects
-          </Button>
-          <Button variant="ghost" className="text-muted-foreground hover:text-foreground">
-            Analytics
-          </Button>
-          <Button variant="ghost" className="text-muted-foreground hover:text-foreground">
-            Mapping
-          </Button>
-          <Button variant="ghost" className="text-muted-foreground hover:text-foreground">
-            Reports
-          </Button>
+        <nav className="hidden md:flex items-center gap-2">
+          {NAV_ITEMS.filter(isVisible).map((item) => {
+            const active = isActivePath(pathname, item);
+            return (
+              <Button
+                key={item.to}
+                variant="ghost"
+                asChild
+                className={active ? "text-industrial-orange hover:text-industrial-orange" : "text-muted-foreground hover:text-foreground"}
+              >
+                <Link to={item.to} aria-current={active ? "page" : undefined}>
+                  {item.label}
+                </Link>
+              </Button>
+            );
+          })}
         </nav>
 
         {/* User Actions */}
@@ -61,17 +137,81 @@ const Header = () => {
               3
             </span>
           </Button>
-          <Button variant="ghost" size="icon">
-            <Settings className="h-5 w-5 text-muted-foreground" />
-          </Button>
-          <Button variant="ghost" size="icon">
-            <User className="h-5 w-5 text-muted-foreground" />
-          </Button>
-          <Button variant="ghost" size="icon" className="md:hidden">
+          {can("price_books.manage") && (
+            <Button variant="ghost" size="icon" asChild>
+              <Link to="/price-books" title="Price Books">
+                <Settings className="h-5 w-5 text-muted-foreground" />
+              </Link>
+            </Button>
+          )}
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost" size="icon">
+                <User className={user ? "h-5 w-5 text-industrial-orange" : "h-5 w-5 text-muted-foreground"} />
+                <span className="sr-only">Account</span>
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className="w-56">
+              {user ? (
+                <>
+                  <DropdownMenuLabel className="font-normal">
+                    <p className="text-sm font-medium text-foreground">{user.user_metadata?.full_name || "Signed in"}</p>
+                    <p className="text-xs text-muted-foreground truncate">{user.email}</p>
+                  </DropdownMenuLabel>
+                  <DropdownMenuSeparator />
+                  {can("roles.manage") && (
+                    <DropdownMenuItem onSelect={() => navigate("/admin/roles")}>
+                      <UserCog className="h-4 w-4 mr-2" />
+                      User Roles
+                    </DropdownMenuItem>
+                  )}
+                  <DropdownMenuItem onSelect={handleSignOut}>
+                    <LogOut className="h-4 w-4 mr-2" />
+                    Sign Out
+                  </DropdownMenuItem>
+                </>
+              ) : (
+                <DropdownMenuItem onSelect={() => navigate("/auth", { state: { from: location } })}>
+                  <LogIn className="h-4 w-4 mr-2" />
+                  Sign In
+                </DropdownMenuItem>
+              )}
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <Button variant="ghost" size="icon" className="md:hidden" onClick={() => setMenuOpen(true)}>
             <Menu className="h-5 w-5 text-muted-foreground" />
+            <span className="sr-only">Open menu</span>
           </Button>
         </div>
       </div>
+
+      {/* Mobile Navigation */}
+      <Sheet open={menuOpen} onOpenChange={setMenuOpen}>
+        <SheetContent side="right" className="w-64">
+          <SheetHeader>
+            <SheetTitle className="text-foreground">Asphalt Overwatch</SheetTitle>
+          </SheetHeader>
+          <nav className="flex flex-col gap-1 mt-6">
+            {MOBILE_NAV_ITEMS.filter(isVisible).map((item) => {
+              const active = isActivePath(pathname, item);
+              return (
+                <Link
+                  key={item.to}
+                  to={item.to}
+                  onClick={() => setMenuOpen(false)}
+                  aria-current={active ? "page" : undefined}
+                  className={cn(
+                    "rounded-md px-3 py-2 text-sm font-medium transition-colors hover:bg-accent",
+                    active ? "text-industrial-orange bg-industrial-orange/10" : "text-muted-foreground hover:text-foreground"
+                  )}
+                >
+                  {item.label}
+                </Link>
+              );
+            })}
+          </nav>
+        </SheetContent>
+      </Sheet>
     </header>
   );
 };
@@ -0,0 +1,385 @@
+import React, { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { Calculator, DollarSign, FileText, Percent, Plus, Receipt, Trash2, TrendingDown, Users } from 'lucide-react';
+import CostEntryForm from '@/components/CostEntryForm';
+import { useToast } from '@/hooks/use-toast';
+import { useProjects } from '@/hooks/use-projects';
+import { getEmployeeName, useEmployees } from '@/hooks/use-employees';
+import {
+  getReceiptUrl,
+  useCostEntries,
+  useCostingEstimates,
+  useCostingProposals,
+  useDeleteCostEntry,
+  useInventoryItems,
+  useLaborCosts,
+  type CostEntry
+} from '@/hooks/use-job-costing';
+import { getEstimateLineItems } from '@/lib/estimates';
+import {
+  COST_CATEGORY_LABELS,
+  buildJobCostSummary,
+  getMarginSummary,
+  type CostCategory
+} from '@/lib/job-costing';
+
+const formatCurrency = (value: number) =>
+  `${value < 0 ? '-' : ''}$${Math.abs(value).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatPercent = (value: number | null) => (value === null ? '—' : `${value}%`);
+
+// Over budget is bad; a margin that shrank is bad
+const varianceClass = (value: number | null, higherIsWorse = true) => {
+  if (!value) return 'text-muted-foreground';
+  return (value > 0) === higherIsWorse ? 'text-red-400' : 'text-green-400';
+};
+
+const signed = (value: number | null, formatter: (value: number) => string) =>
+  value === null ? '—' : `${value > 0 ? '+' : ''}${formatter(value)}`;
+
+const JobCostingOverview = () => {
+  const { toast } = useToast();
+  const { data: projects = [], isLoading: projectsLoading } = useProjects();
+  const { data: entries = [], isLoading: entriesLoading } = useCostEntries();
+  const { data: labor = [], isLoading: laborLoading } = useLaborCosts();
+  const { data: proposals = [] } = useCostingProposals();
+  const { data: inventoryItems = [] } = useInventoryItems();
+  const { data: employees = [] } = useEmployees();
+  const estimateIds = projects.map(project => project.estimate_id).filter(Boolean);
+  const { data: estimates = [] } = useCostingEstimates(estimateIds);
+  const deleteCostEntry = useDeleteCostEntry();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [pendingDelete, setPendingDelete] = useState<CostEntry | null>(null);
+  const isLoading = projectsLoading || entriesLoading || laborLoading;
+
+  const summaries = projects.map(project => {
+    const estimate = estimates.find(candidate => candidate.id === project.estimate_id);
+    return buildJobCostSummary(
+      project,
+      estimate ? getEstimateLineItems(estimate) : [],
+      proposals.filter(proposal => proposal.project_id === project.id),
+      labor.filter(row => row.project_id === project.id),
+      entries.filter(entry => entry.project_id === project.id)
+    );
+  });
+
+  // Portfolio margins only count jobs that have a contract price
+  const priced = summaries.filter(summary => summary.revenue !== null);
+  const totals = getMarginSummary(
+    priced.length ? priced.reduce((sum, summary) => sum + summary.revenue, 0) : null,
+    priced.reduce((sum, summary) => sum + summary.estimatedCost, 0),
+    priced.reduce((sum, summary) => sum + summary.actualCost, 0)
+  );
+  const estimatedCost = summaries.reduce((sum, summary) => sum + summary.estimatedCost, 0);
+  const actualCost = summaries.reduce((sum, summary) => sum + summary.actualCost, 0);
+
+  const selected = summaries.find(summary => summary.project.id === selectedId) ?? null;
+  const selectedEntries = selected ? entries.filter(entry => entry.project_id === selected.project.id) : [];
+  const selectedLabor = selected ? labor.filter(row => row.project_id === selected.project.id) : [];
+
+  const stats = [
+    { title: 'Estimated Cost', value: formatCurrency(estimatedCost), caption: `${summaries.length} open projects`, icon: Calculator },
+    { title: 'Actual Cost', value: formatCurrency(actualCost), caption: 'labor, materials, fuel and receipts', icon: DollarSign },
+    { title: 'Cost Variance', value: signed(actualCost - estimatedCost, formatCurrency), caption: 'over (+) or under the estimate', icon: TrendingDown },
+    { title: 'Margin', value: formatPercent(totals.actualMargin), caption: `${formatPercent(totals.estimatedMargin)} estimated on priced jobs`, icon: Percent },
+  ];
+
+  const openReceipt = async (path: string) => {
+    try {
+      window.open(await getReceiptUrl(path), '_blank', 'noopener');
+    } catch (error) {
+      console.error('Error opening receipt:', error);
+      toast({
+        title: "Error",
+        description: "Failed to open receipt",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const confirmDelete = async () => {
+    if (!pendingDelete) return;
+    try {
+      await deleteCostEntry.mutateAsync(pendingDelete);
+      toast({
+        title: "Success",
+        description: "Cost removed",
+      });
+    } catch (error) {
+      console.error('Error deleting cost:', error);
+      toast({
+        title: "Error",
+        description: "Failed to remove cost",
+        variant: "destructive",
+      });
+    } finally {
+      setPendingDelete(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-3xl font-bold text-foreground">Job Costing</h2>
+        <p className="text-muted-foreground">Actual cost against the estimate and margin for every open project</p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+        {stats.map((stat) => (
+          <Card key={stat.title} className="bg-card border-border">
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground">{stat.title}</CardTitle>
+              <stat.icon className="h-4 w-4 text-industrial-orange" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold text-foreground">{isLoading ? '—' : stat.value}</div>
+              <p className="text-xs text-muted-foreground">{stat.caption}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card className="bg-card border-border shadow-industrial">
+        <CardHeader>
+          <CardTitle className="text-foreground">Projects</CardTitle>
+          <p className="text-sm text-muted-foreground">Select a project to see where its money went</p>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading costs...</p>
+          ) : summaries.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No open projects.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Project</TableHead>
+                  <TableHead className="text-right">Contract</TableHead>
+                  <TableHead className="text-right">Estimated</TableHead>
+                  <TableHead className="text-right">Actual</TableHead>
+                  <TableHead className="text-right">Variance</TableHead>
+                  <TableHead className="text-right">Est. Margin</TableHead>
+                  <TableHead className="text-right">Margin</TableHead>
+                  <TableHead className="text-right">Margin Change</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {summaries.map((summary) => (
+                  <TableRow
+                    key={summary.project.id}
+                    className={`cursor-pointer ${summary.project.id === selectedId ? 'bg-muted/50' : ''}`}
+                    onClick={() => setSelectedId(summary.project.id)}
+                  >
+                    <TableCell className="font-medium text-foreground">{summary.project.name}</TableCell>
+                    <TableCell className="text-right">{summary.revenue === null ? '—' : formatCurrency(summary.revenue)}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(summary.estimatedCost)}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(summary.actualCost)}</TableCell>
+                    <TableCell className={`text-right ${varianceClass(summary.costVariance)}`}>
+                      {signed(summary.costVariance, formatCurrency)}
+                    </TableCell>
+                    <TableCell className="text-right">{formatPercent(summary.estimatedMargin)}</TableCell>
+                    <TableCell className="text-right">{formatPercent(summary.actualMargin)}</TableCell>
+                    <TableCell className={`text-right ${varianceClass(summary.marginVariance, false)}`}>
+                      {signed(summary.marginVariance, value => `${value} pts`)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {selected && (
+        <>
+          <Card className="bg-card border-border shadow-industrial">
+            <CardHeader className="flex flex-row items-start justify-between space-y-0">
+              <div>
+                <CardTitle className="text-foreground flex items-center gap-2">
+                  <FileText className="h-5 w-5 text-primary" />
+                  {selected.project.name}
+                </CardTitle>
+                <p className="text-sm text-muted-foreground">
+                  {selected.itemized
+                    ? 'Actual cost by category against the estimate line items'
+                    : 'This project has no itemized estimate, so only its total estimate is compared'}
+                </p>
+              </div>
+              <Button
+                size="sm"
+                onClick={() => setIsFormOpen(true)}
+                className="bg-primary hover:bg-primary/90 text-primary-foreground"
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Cost
+              </Button>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Category</TableHead>
+                    <TableHead className="text-right">Estimated</TableHead>
+                    <TableHead className="text-right">Actual</TableHead>
+                    <TableHead className="text-right">Variance</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {selected.comparison.map((row) => (
+                    <TableRow key={row.category}>
+                      <TableCell>{COST_CATEGORY_LABELS[row.category]}</TableCell>
+                      <TableCell className="text-right">{selected.itemized ? formatCurrency(row.estimated) : '—'}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(row.actual)}</TableCell>
+                      <TableCell className={`text-right ${selected.itemized ? varianceClass(row.variance) : 'text-muted-foreground'}`}>
+                        {selected.itemized ? signed(row.variance, formatCurrency) : '—'}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                  <TableRow className="font-semibold">
+                    <TableCell>Total</TableCell>
+                    <TableCell className="text-right">{formatCurrency(selected.estimatedCost)}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(selected.actualCost)}</TableCell>
+                    <TableCell className={`text-right ${varianceClass(selected.costVariance)}`}>
+                      {signed(selected.costVariance, formatCurrency)}
+                    </TableCell>
+                  </TableRow>
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <Card className="bg-card border-border shadow-industrial">
+              <CardHeader>
+                <CardTitle className="text-foreground flex items-center gap-2">
+                  <Users className="h-5 w-5 text-primary" />
+                  Labor
+                </CardTitle>
+                <p className="text-sm text-muted-foreground">From time records; overtime at time and a half</p>
+              </CardHeader>
+              <CardContent>
+                {selectedLabor.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No time recorded on this project.</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Employee</TableHead>
+                        <TableHead className="text-right">Hours</TableHead>
+                        <TableHead className="text-right">Overtime</TableHead>
+                        <TableHead className="text-right">Cost</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {selectedLabor.map((row) => {
+                        const employee = employees.find(candidate => candidate.id === row.employee_id);
+                        return (
+                          <TableRow key={row.employee_id ?? 'unassigned'}>
+                            <TableCell>{employee ? getEmployeeName(employee) : 'Unknown employee'}</TableCell>
+                            <TableCell className="text-right">{row.hours ?? 0}</TableCell>
+                            <TableCell className="text-right">{row.overtime_hours ?? 0}</TableCell>
+                            <TableCell className="text-right">{formatCurrency(row.cost ?? 0)}</TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card className="bg-card border-border shadow-industrial">
+              <CardHeader>
+                <CardTitle className="text-foreground flex items-center gap-2">
+                  <Receipt className="h-5 w-5 text-primary" />
+                  Costs Logged
+                </CardTitle>
+                <p className="text-sm text-muted-foreground">Materials, equipment, fuel and receipts</p>
+              </CardHeader>
+              <CardContent>
+                {selectedEntries.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No costs logged yet.</p>
+                ) : (
+                  <div className="space-y-3">
+                    {selectedEntries.map((entry) => (
+                      <div key={entry.id} className="flex items-start justify-between gap-3 border-b border-border pb-3 last:border-0 last:pb-0">
+                        <div className="space-y-1">
+                          <div className="flex items-center gap-2">
+                            <span className="font-medium text-foreground">{entry.description}</span>
+                            <Badge variant="outline">{COST_CATEGORY_LABELS[entry.category as CostCategory] ?? entry.category}</Badge>
+                          </div>
+                          <p className="text-xs text-muted-foreground">
+                            {format(parseISO(entry.incurred_on), 'MMM d, yyyy')}
+                            {entry.quantity !== null && ` · ${entry.quantity}${entry.unit ? ` ${entry.unit}` : ''}`}
+                            {entry.inventory_item_id && ' · from inventory'}
+                          </p>
+                          {entry.receipts.map((receipt) => receipt.file_url && (
+                            <button
+                              key={receipt.id}
+                              type="button"
+                              className="text-xs text-primary hover:underline"
+                              onClick={() => openReceipt(receipt.file_url)}
+                            >
+                              View receipt
+                            </button>
+                          ))}
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium text-foreground whitespace-nowrap">{formatCurrency(entry.amount)}</span>
+                          <Button variant="ghost" size="sm" onClick={() => setPendingDelete(entry)}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          <CostEntryForm
+            open={isFormOpen}
+            onOpenChange={setIsFormOpen}
+            projectId={selected.project.id}
+            inventoryItems={inventoryItems}
+          />
+        </>
+      )}
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remove this cost?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingDelete?.inventory_item_id
+                ? 'The material goes back into inventory and the project cost is reduced.'
+                : 'The project cost is reduced and any receipt attached to it is deleted.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmDelete}>Remove</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default JobCostingOverview;
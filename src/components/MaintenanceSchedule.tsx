@@ -0,0 +1,241 @@
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { Gauge, Pencil, Plus, Timer, Trash2, Wrench } from 'lucide-react';
+import MaintenanceScheduleForm from '@/components/MaintenanceScheduleForm';
+import MeterReadingForm from '@/components/MeterReadingForm';
+import ServiceLogForm from '@/components/ServiceLogForm';
+import { useToast } from '@/hooks/use-toast';
+import { usePermissions } from '@/hooks/use-permissions';
+import { useDeleteMaintenanceSchedule } from '@/hooks/use-maintenance';
+import type { FleetAsset } from '@/lib/fleet-tracking';
+import {
+  MAINTENANCE_STATUS_COLORS,
+  MAINTENANCE_STATUS_LABELS,
+  formatInterval,
+  formatRemaining,
+  getCurrentMiles,
+  getServiceName,
+  type MaintenanceScheduleRecord,
+  type ScheduleForecast,
+  type VehicleMeter
+} from '@/lib/maintenance';
+
+interface MaintenanceScheduleProps {
+  vehicles: FleetAsset[];
+  forecasts: ScheduleForecast[];
+  meters: VehicleMeter[];
+}
+
+const MaintenanceSchedule = ({ vehicles, forecasts, meters }: MaintenanceScheduleProps) => {
+  const { toast } = useToast();
+  const { can } = usePermissions();
+  const canManage = can('fleet.manage');
+  const canLog = can('maintenance.log');
+  const deleteSchedule = useDeleteMaintenanceSchedule();
+  const [editing, setEditing] = useState<{ vehicle: FleetAsset; schedule: MaintenanceScheduleRecord | null } | null>(null);
+  const [readingVehicle, setReadingVehicle] = useState<FleetAsset | null>(null);
+  const [servicing, setServicing] = useState<MaintenanceScheduleRecord | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<MaintenanceScheduleRecord | null>(null);
+
+  const getMeter = (vehicleId: string | undefined) => meters.find(meter => meter.vehicle_id === vehicleId);
+
+  const confirmDelete = async () => {
+    if (!pendingDelete) return;
+    try {
+      await deleteSchedule.mutateAsync(pendingDelete.id);
+      toast({
+        title: "Success",
+        description: "Service interval removed",
+      });
+    } catch (error) {
+      console.error('Error deleting service interval:', error);
+      toast({
+        title: "Error",
+        description: "Failed to remove service interval",
+        variant: "destructive",
+      });
+    } finally {
+      setPendingDelete(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {vehicles.length === 0 && (
+        <Card className="bg-card border-border">
+          <CardContent className="py-8 text-center">
+            <p className="text-muted-foreground">Add vehicles to the fleet to schedule their maintenance.</p>
+          </CardContent>
+        </Card>
+      )}
+
+      {vehicles.map((vehicle) => {
+        const meter = getMeter(vehicle.id);
+        const currentMiles = getCurrentMiles(meter);
+        // Whatever is furthest along comes first
+        const vehicleForecasts = forecasts
+          .filter(({ schedule }) => schedule.vehicle_id === vehicle.id)
+          .sort((a, b) => b.forecast.progress - a.forecast.progress);
+
+        return (
+          <Card key={vehicle.id} className="bg-card border-border shadow-industrial">
+            <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+              <div>
+                <CardTitle className="text-foreground flex items-center gap-2">
+                  <Wrench className="h-5 w-5 text-primary" />
+                  {vehicle.name}
+                </CardTitle>
+                <div className="flex flex-wrap gap-4 mt-2 text-sm text-muted-foreground">
+                  <span className="flex items-center gap-1">
+                    <Gauge className="h-4 w-4" />
+                    {currentMiles !== null ? `${Math.round(currentMiles).toLocaleString()} mi` : 'No odometer reading'}
+                  </span>
+                  {meter?.engine_hours !== null && meter?.engine_hours !== undefined && (
+                    <span className="flex items-center gap-1">
+                      <Timer className="h-4 w-4" />
+                      {meter.engine_hours.toLocaleString()} h
+                    </span>
+                  )}
+                  {meter && meter.gps_miles > 0 && (
+                    <span>
+                      {meter.odometer_read_at
+                        ? `incl. ${Math.round(meter.gps_miles).toLocaleString()} mi by GPS since ${format(new Date(meter.odometer_read_at), 'MMM d')}`
+                        : `${Math.round(meter.gps_miles).toLocaleString()} mi by GPS`}
+                    </span>
+                  )}
+                </div>
+              </div>
+              <div className="flex gap-2">
+                {canLog && (
+                  <Button size="sm" variant="outline" onClick={() => setReadingVehicle(vehicle)}>
+                    <Gauge className="h-4 w-4 mr-2" />
+                    Record Reading
+                  </Button>
+                )}
+                {canManage && (
+                  <Button size="sm" variant="outline" onClick={() => setEditing({ vehicle, schedule: null })}>
+                    <Plus className="h-4 w-4 mr-2" />
+                    Add Interval
+                  </Button>
+                )}
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {vehicleForecasts.length === 0 && (
+                <p className="text-sm text-muted-foreground">No service intervals set up.</p>
+              )}
+              {vehicleForecasts.map(({ schedule, forecast }) => (
+                <div key={schedule.id} className="p-4 border border-border rounded-lg space-y-3">
+                  <div className="flex flex-wrap items-start justify-between gap-3">
+                    <div>
+                      <h4 className="font-semibold text-foreground">{getServiceName(schedule)}</h4>
+                      <p className="text-xs text-muted-foreground">
+                        Every {formatInterval(schedule)}
+                        {schedule.last_service_on ? ` · last done ${new Date(`${schedule.last_service_on}T00:00`).toLocaleDateString()}` : ''}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Badge className={MAINTENANCE_STATUS_COLORS[forecast.status]}>
+                        {MAINTENANCE_STATUS_LABELS[forecast.status]}
+                      </Badge>
+                      {canLog && (
+                        <Button size="sm" variant="outline" onClick={() => setServicing(schedule)}>
+                          Log Service
+                        </Button>
+                      )}
+                      {canManage && (
+                        <>
+                          <Button size="sm" variant="ghost" onClick={() => setEditing({ vehicle, schedule })}>
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button size="sm" variant="ghost" onClick={() => setPendingDelete(schedule)}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                  </div>
+                  {forecast.status === 'unknown' ? (
+                    <p className="text-sm text-muted-foreground">
+                      Record a reading or log this service to start tracking it.
+                    </p>
+                  ) : (
+                    <>
+                      <Progress value={Math.min(100, forecast.progress * 100)} />
+                      <div className="flex flex-wrap justify-between gap-2 text-sm">
+                        <span className="text-muted-foreground">{formatRemaining(forecast)}</span>
+                        <span className="text-foreground">
+                          {forecast.status === 'overdue'
+                            ? 'Due now'
+                            : forecast.dueDate
+                              ? `Projected due ${forecast.dueDate.toLocaleDateString()}`
+                              : 'Not enough recent use to project a date'}
+                        </span>
+                      </div>
+                    </>
+                  )}
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        );
+      })}
+
+      {editing && (
+        <MaintenanceScheduleForm
+          open={!!editing}
+          onOpenChange={(open) => !open && setEditing(null)}
+          vehicle={editing.vehicle}
+          schedule={editing.schedule}
+          meter={getMeter(editing.vehicle.id)}
+        />
+      )}
+
+      {readingVehicle && (
+        <MeterReadingForm
+          open={!!readingVehicle}
+          onOpenChange={(open) => !open && setReadingVehicle(null)}
+          vehicle={readingVehicle}
+        />
+      )}
+
+      <ServiceLogForm
+        open={!!servicing}
+        onOpenChange={(open) => !open && setServicing(null)}
+        schedule={servicing}
+        meter={getMeter(servicing?.vehicle_id)}
+      />
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remove this service interval?</AlertDialogTitle>
+            <AlertDialogDescription>
+              It stops being tracked. Services already logged against it stay in the vehicle's maintenance log.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmDelete}>Remove</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default MaintenanceSchedule;
@@ -0,0 +1,249 @@
+import React, { useEffect } from 'react';
+import { format } from 'date-fns';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { useToast } from '@/hooks/use-toast';
+import { useSaveMaintenanceSchedule } from '@/hooks/use-maintenance';
+import type { FleetAsset } from '@/lib/fleet-tracking';
+import {
+  DEFAULT_SERVICE_INTERVALS,
+  MAINTENANCE_SERVICE_LABELS,
+  MAINTENANCE_SERVICE_TYPES,
+  getCurrentMiles,
+  getMaintenanceScheduleFormValues,
+  maintenanceScheduleFormSchema,
+  serializeMaintenanceScheduleForm,
+  type MaintenanceScheduleFormValues,
+  type MaintenanceScheduleRecord,
+  type MaintenanceServiceType,
+  type VehicleMeter
+} from '@/lib/maintenance';
+
+interface MaintenanceScheduleFormProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  vehicle: FleetAsset;
+  schedule: MaintenanceScheduleRecord | null;
+  meter: VehicleMeter | undefined;
+}
+
+const MaintenanceScheduleForm = ({ open, onOpenChange, vehicle, schedule, meter }: MaintenanceScheduleFormProps) => {
+  const { toast } = useToast();
+  const saveSchedule = useSaveMaintenanceSchedule();
+  const currentMiles = getCurrentMiles(meter);
+  const currentHours = meter?.engine_hours ?? null;
+  const form = useForm<MaintenanceScheduleFormValues>({
+    resolver: zodResolver(maintenanceScheduleFormSchema),
+    defaultValues: getMaintenanceScheduleFormValues(schedule, format(new Date(), 'yyyy-MM-dd'), currentMiles, currentHours),
+  });
+
+  useEffect(() => {
+    if (open) form.reset(getMaintenanceScheduleFormValues(schedule, format(new Date(), 'yyyy-MM-dd'), currentMiles, currentHours));
+  }, [open, schedule, currentMiles, currentHours, form]);
+
+  // Picking a service fills in its usual interval
+  const handleServiceTypeChange = (serviceType: MaintenanceServiceType) => {
+    const defaults = DEFAULT_SERVICE_INTERVALS[serviceType];
+    form.setValue('service_type', serviceType);
+    form.setValue('interval_miles', defaults.miles);
+    form.setValue('interval_hours', defaults.hours);
+    form.setValue('interval_days', defaults.days);
+  };
+
+  const onSubmit = async (values: MaintenanceScheduleFormValues) => {
+    try {
+      await saveSchedule.mutateAsync({ id: schedule?.id, values: serializeMaintenanceScheduleForm(values, vehicle.id) });
+      toast({
+        title: "Success",
+        description: schedule ? "Service interval updated" : "Service interval added",
+      });
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error saving service interval:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save service interval",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{schedule ? 'Edit' : 'Add'} Service Interval: {vehicle.name}</DialogTitle>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="service_type"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Service</FormLabel>
+                    <Select
+                      value={field.value}
+                      onValueChange={(value) => (schedule ? field.onChange(value) : handleServiceTypeChange(value as MaintenanceServiceType))}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {MAINTENANCE_SERVICE_TYPES.map((option) => (
+                          <SelectItem key={option} value={option}>{MAINTENANCE_SERVICE_LABELS[option]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Optional, e.g. Tire rotation" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <div className="grid grid-cols-3 gap-4">
+                <FormField
+                  control={form.control}
+                  name="interval_miles"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Every (miles)</FormLabel>
+                      <FormControl>
+                        <Input type="number" min="0" step="1" {...field} value={field.value ?? ''} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="interval_hours"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Every (hours)</FormLabel>
+                      <FormControl>
+                        <Input type="number" min="0" step="1" {...field} value={field.value ?? ''} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="interval_days"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Every (days)</FormLabel>
+                      <FormControl>
+                        <Input type="number" min="0" step="1" {...field} value={field.value ?? ''} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <p className="text-sm text-muted-foreground">Due at whichever comes first. Leave the others blank.</p>
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="last_service_on"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Last Done</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="last_service_miles"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>At (miles)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min="0" step="1" {...field} value={field.value ?? ''} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="last_service_hours"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>At (hours)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min="0" step="0.1" {...field} value={field.value ?? ''} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            {!schedule && (
+              <p className="text-sm text-muted-foreground">Starts from the vehicle's current meters unless it was done earlier.</p>
+            )}
+
+            <FormField
+              control={form.control}
+              name="notes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Notes</FormLabel>
+                  <FormControl>
+                    <Textarea rows={2} placeholder="e.g. 15W-40, 12 qt, filter LF3000" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter className="pt-4 border-t border-border">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={saveSchedule.isPending}
+                className="bg-primary hover:bg-primary/90 text-primary-foreground"
+              >
+                {schedule ? 'Save Changes' : 'Add Interval'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MaintenanceScheduleForm;
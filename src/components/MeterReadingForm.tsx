@@ -0,0 +1,128 @@
+import React, { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { useToast } from '@/hooks/use-toast';
+import { useAddMeterReading } from '@/hooks/use-maintenance';
+import type { FleetAsset } from '@/lib/fleet-tracking';
+import {
+  getMeterReadingFormValues,
+  meterReadingFormSchema,
+  type MeterReadingFormValues
+} from '@/lib/maintenance';
+
+interface MeterReadingFormProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  vehicle: FleetAsset;
+}
+
+const MeterReadingForm = ({ open, onOpenChange, vehicle }: MeterReadingFormProps) => {
+  const { toast } = useToast();
+  const addReading = useAddMeterReading();
+  const form = useForm<MeterReadingFormValues>({
+    resolver: zodResolver(meterReadingFormSchema),
+    defaultValues: getMeterReadingFormValues(),
+  });
+
+  useEffect(() => {
+    if (open) form.reset(getMeterReadingFormValues());
+  }, [open, form]);
+
+  const onSubmit = async (values: MeterReadingFormValues) => {
+    try {
+      await addReading.mutateAsync({
+        vehicle_id: vehicle.id,
+        odometer_miles: values.odometer_miles,
+        engine_hours: values.engine_hours,
+        notes: values.notes || null,
+      });
+      toast({
+        title: "Success",
+        description: "Reading recorded",
+      });
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error recording reading:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to record reading",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Record Reading: {vehicle.name}</DialogTitle>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="odometer_miles"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Odometer (miles)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min="0" step="1" {...field} value={field.value ?? ''} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="engine_hours"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Hour Meter</FormLabel>
+                    <FormControl>
+                      <Input type="number" min="0" step="0.1" {...field} value={field.value ?? ''} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="notes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Notes</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Optional" {...field} />
+                  </FormControl>
+                  <FormDescription>GPS keeps adding the miles driven from here.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter className="pt-4 border-t border-border">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={addReading.isPending}
+                className="bg-primary hover:bg-primary/90 text-primary-foreground"
+              >
+                Record Reading
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MeterReadingForm;
@@ -0,0 +1,126 @@
+import React, { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { useToast } from '@/hooks/use-toast';
+import { useSaveMilestone } from '@/hooks/use-project-tasks';
+import {
+  getMilestoneFormValues,
+  milestoneFormSchema,
+  serializeMilestoneForm,
+  type MilestoneFormValues,
+  type MilestoneRecord
+} from '@/lib/project-tasks';
+
+interface MilestoneFormProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  projectId: string;
+  milestone?: MilestoneRecord | null; // edits this milestone; adds a new one when omitted
+}
+
+const MilestoneForm = ({ open, onOpenChange, projectId, milestone }: MilestoneFormProps) => {
+  const { toast } = useToast();
+  const saveMilestone = useSaveMilestone();
+  const form = useForm<MilestoneFormValues>({
+    resolver: zodResolver(milestoneFormSchema),
+    defaultValues: getMilestoneFormValues(milestone),
+  });
+
+  useEffect(() => {
+    if (open) form.reset(getMilestoneFormValues(milestone));
+  }, [open, milestone, form]);
+
+  const onSubmit = async (values: MilestoneFormValues) => {
+    try {
+      await saveMilestone.mutateAsync({
+        id: milestone?.id,
+        values: { ...serializeMilestoneForm(values), project_id: projectId },
+      });
+      toast({
+        title: "Success",
+        description: milestone ? "Milestone updated" : "Milestone added",
+      });
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error saving milestone:', error);
+      toast({
+        title: "Error",
+        description: milestone ? "Failed to update milestone" : "Failed to add milestone",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{milestone ? 'Edit Milestone' : 'Add Milestone'}</DialogTitle>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="title"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Title</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g. Base Preparation" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Description</FormLabel>
+                  <FormControl>
+                    <Textarea rows={2} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="target_date"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Target Date</FormLabel>
+                  <FormControl>
+                    <Input type="date" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter className="pt-4 border-t border-border">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={saveMilestone.isPending}
+                className="bg-primary hover:bg-primary/90 text-primary-foreground"
+              >
+                {milestone ? 'Save Changes' : 'Add Milestone'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MilestoneForm;
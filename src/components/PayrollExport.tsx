@@ -0,0 +1,141 @@
+import React, { useState } from 'react';
+import { addWeeks } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertTriangle, Download } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useMarkExported, useTimesheets } from '@/hooks/use-time-clock';
+import { downloadCsv, getReportFileName, toCsv } from '@/lib/reports';
+import { PAYROLL_COLUMNS, buildPayrollRows, getWorkweekRange } from '@/lib/time-clock';
+
+const formatCurrency = (value: number) =>
+  `$${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const PayrollExport = () => {
+  const { toast } = useToast();
+  const [range, setRange] = useState(() => getWorkweekRange(addWeeks(new Date(), -1)));
+  const [includeExported, setIncludeExported] = useState(false);
+  const { data: shifts = [], isLoading } = useTimesheets(range);
+  const markExported = useMarkExported();
+
+  const approved = shifts.filter(shift => shift.status === 'approved' && (includeExported || !shift.exported_at));
+  const awaitingReview = shifts.filter(shift => shift.status === 'open' || shift.status === 'pending').length;
+  const rows = buildPayrollRows(approved, shifts.map(shift => ({ id: shift.employee_id, ...shift.employees })));
+  const totalPay = rows.reduce((sum, row) => sum + row.grossPay, 0);
+
+  // Downloads first so a failed lock never loses the file
+  const exportPayroll = async () => {
+    downloadCsv(getReportFileName('payroll', range), toCsv(PAYROLL_COLUMNS, rows));
+    const ids = approved.filter(shift => !shift.exported_at).map(shift => shift.id);
+    if (ids.length === 0) return;
+
+    try {
+      await markExported.mutateAsync(ids);
+      toast({
+        title: "Success",
+        description: `${ids.length} ${ids.length === 1 ? 'shift' : 'shifts'} exported and locked`,
+      });
+    } catch (error) {
+      console.error('Error marking time exported:', error);
+      toast({
+        title: "Error",
+        description: "The file downloaded, but the shifts couldn't be marked as exported",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card className="bg-card border-border shadow-industrial">
+      <CardHeader className="space-y-4">
+        <div>
+          <CardTitle className="text-foreground">Payroll Export</CardTitle>
+          <p className="text-sm text-muted-foreground">Approved hours per employee, with overtime already split out by workweek</p>
+        </div>
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="payroll-from">From</Label>
+            <Input
+              id="payroll-from"
+              type="date"
+              value={range.from}
+              onChange={(event) => setRange({ ...range, from: event.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="payroll-to">To</Label>
+            <Input
+              id="payroll-to"
+              type="date"
+              value={range.to}
+              onChange={(event) => setRange({ ...range, to: event.target.value })}
+            />
+          </div>
+          <div className="flex items-center gap-2 pb-2">
+            <Switch id="payroll-exported" checked={includeExported} onCheckedChange={setIncludeExported} />
+            <Label htmlFor="payroll-exported">Include shifts already exported</Label>
+          </div>
+          <Button
+            onClick={exportPayroll}
+            disabled={rows.length === 0 || markExported.isPending}
+            className="bg-primary hover:bg-primary/90 text-primary-foreground"
+          >
+            <Download className="h-4 w-4 mr-2" />
+            Download CSV
+          </Button>
+        </div>
+        {awaitingReview > 0 && (
+          <Alert className="border-yellow-500/30 bg-yellow-500/10">
+            <AlertTriangle className="h-4 w-4 text-yellow-400" />
+            <AlertDescription className="text-foreground">
+              {awaitingReview} {awaitingReview === 1 ? 'shift' : 'shifts'} in this period {awaitingReview === 1 ? "hasn't" : "haven't"} been approved yet and won't be exported.
+            </AlertDescription>
+          </Alert>
+        )}
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading hours...</p>
+        ) : rows.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No approved hours to export for these dates.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Employee</TableHead>
+                <TableHead className="text-right">Shifts</TableHead>
+                <TableHead className="text-right">Regular Hours</TableHead>
+                <TableHead className="text-right">Overtime Hours</TableHead>
+                <TableHead className="text-right">Rate</TableHead>
+                <TableHead className="text-right">Gross Pay</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row) => (
+                <TableRow key={row.employeeId}>
+                  <TableCell className="font-medium text-foreground">{row.employee}</TableCell>
+                  <TableCell className="text-right">{row.shifts}</TableCell>
+                  <TableCell className="text-right">{row.regularHours}</TableCell>
+                  <TableCell className="text-right">{row.overtimeHours}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(row.hourlyRate)}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(row.grossPay)}</TableCell>
+                </TableRow>
+              ))}
+              <TableRow className="font-semibold">
+                <TableCell colSpan={5}>Total</TableCell>
+                <TableCell className="text-right">{formatCurrency(totalPay)}</TableCell>
+              </TableRow>
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PayrollExport;
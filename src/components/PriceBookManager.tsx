@@ -0,0 +1,348 @@
+import React, { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Separator } from '@/components/ui/separator';
+import { BookOpen, History, Plus, Save } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  useCreatePriceBook,
+  usePriceBooks,
+  usePublishPriceBookVersion,
+  type PriceBookItemDraft
+} from '@/hooks/use-price-books';
+import {
+  PRICE_BOOK_CATALOG,
+  PRICE_BOOK_ITEM_KEYS,
+  buildPriceBookHistory,
+  getLatestVersion,
+  getMissingItemKeys,
+  selectEffectiveVersion,
+  type PriceBookWithVersions
+} from '@/lib/price-books';
+import { MATERIAL_COSTS } from '@/lib/pricing';
+
+const today = () => format(new Date(), 'yyyy-MM-dd');
+
+const draftItemsFor = (book: PriceBookWithVersions | null): PriceBookItemDraft[] => {
+  const latest = book ? getLatestVersion(book.price_book_versions) : null;
+  return PRICE_BOOK_ITEM_KEYS.map(key => {
+    const existing = latest?.price_book_items.find(item => item.item_key === key);
+    return {
+      item_key: key,
+      description: existing?.description ?? PRICE_BOOK_CATALOG[key].label,
+      supplier: existing?.supplier ?? '',
+      unit: existing?.unit ?? PRICE_BOOK_CATALOG[key].unit,
+      unit_price: existing ? Number(existing.unit_price) : MATERIAL_COSTS[key]
+    };
+  });
+};
+
+const PriceBookManager = () => {
+  const { data: priceBooks = [], isLoading } = usePriceBooks();
+  const createPriceBook = useCreatePriceBook();
+  const publishVersion = usePublishPriceBookVersion();
+  const { toast } = useToast();
+
+  const [selectedBookId, setSelectedBookId] = useState<string | null>(null);
+  const [draftItems, setDraftItems] = useState<PriceBookItemDraft[]>(draftItemsFor(null));
+  const [effectiveDate, setEffectiveDate] = useState(today());
+  const [versionNotes, setVersionNotes] = useState('');
+  const [isCreatingBook, setIsCreatingBook] = useState(false);
+  const [newBook, setNewBook] = useState({ name: '', description: '' });
+
+  const selectedBook = priceBooks.find(book => book.id === selectedBookId) ?? null;
+
+  useEffect(() => {
+    if (!selectedBookId && priceBooks.length > 0) {
+      setSelectedBookId(priceBooks[0].id);
+    }
+  }, [priceBooks, selectedBookId]);
+
+  useEffect(() => {
+    setDraftItems(draftItemsFor(selectedBook));
+    setEffectiveDate(today());
+    setVersionNotes('');
+  }, [selectedBook]);
+
+  const updateDraftItem = (itemKey: string, field: keyof PriceBookItemDraft, value: string | number) => {
+    setDraftItems(prev => prev.map(item => item.item_key === itemKey ? { ...item, [field]: value } : item));
+  };
+
+  const handleCreateBook = async () => {
+    try {
+      const book = await createPriceBook.mutateAsync(newBook);
+      setSelectedBookId(book.id);
+      setIsCreatingBook(false);
+      setNewBook({ name: '', description: '' });
+      toast({
+        title: "Success",
+        description: "Price book created",
+      });
+    } catch (error) {
+      console.error('Error creating price book:', error);
+      toast({
+        title: "Error",
+        description: "Failed to create price book",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handlePublish = async () => {
+    if (!selectedBook) return;
+    try {
+      const version = await publishVersion.mutateAsync({
+        priceBookId: selectedBook.id,
+        effectiveDate,
+        notes: versionNotes,
+        items: draftItems.map(item => ({ ...item, supplier: item.supplier || null }))
+      });
+      toast({
+        title: "Success",
+        description: `Published ${selectedBook.name} v${version.version}`,
+      });
+    } catch (error) {
+      console.error('Error publishing price book version:', error);
+      toast({
+        title: "Error",
+        description: "Failed to publish price book version",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const effectiveVersion = selectedBook ? selectEffectiveVersion(selectedBook.price_book_versions) : null;
+  const history = selectedBook ? buildPriceBookHistory(selectedBook.price_book_versions) : [];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-3xl font-bold text-foreground">Price Books</h2>
+          <p className="text-muted-foreground">Supplier material pricing used by the estimate calculator</p>
+        </div>
+        <Button
+          onClick={() => setIsCreatingBook(true)}
+          className="bg-primary hover:bg-primary/90 text-primary-foreground"
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          New Price Book
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <Card className="bg-card border-border shadow-industrial">
+          <CardHeader>
+            <CardTitle className="text-foreground flex items-center gap-2">
+              <BookOpen className="h-5 w-5 text-primary" />
+              Books
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {isLoading && <p className="text-sm text-muted-foreground">Loading price books...</p>}
+            {!isLoading && priceBooks.length === 0 && (
+              <p className="text-sm text-muted-foreground">No price books yet. Create one to start tracking supplier prices.</p>
+            )}
+            {priceBooks.map((book) => {
+              const current = selectEffectiveVersion(book.price_book_versions);
+              return (
+                <div
+                  key={book.id}
+                  className={`p-3 border rounded-lg cursor-pointer transition-colors ${book.id === selectedBookId ? 'border-primary bg-primary/5' : 'border-border hover:bg-secondary/30'}`}
+                  onClick={() => setSelectedBookId(book.id)}
+                >
+                  <div className="flex items-center justify-between">
+                    <h4 className="font-semibold text-foreground">{book.name}</h4>
+                    <Badge variant="outline">{current ? `v${current.version}` : 'No versions'}</Badge>
+                  </div>
+                  {book.description && <p className="text-sm text-muted-foreground mt-1">{book.description}</p>}
+                </div>
+              );
+            })}
+          </CardContent>
+        </Card>
+
+        <div className="lg:col-span-2 space-y-6">
+          {selectedBook && (
+            <Card className="bg-card border-border shadow-industrial">
+              <CardHeader>
+                <CardTitle className="text-foreground">{selectedBook.name}</CardTitle>
+                <p className="text-sm text-muted-foreground">
+                  {effectiveVersion
+                    ? `In force: v${effectiveVersion.version}, effective ${new Date(`${effectiveVersion.effective_date}T00:00`).toLocaleDateString()}`
+                    : 'No version in force yet'}
+                </p>
+                {effectiveVersion && getMissingItemKeys(effectiveVersion).length > 0 && (
+                  <p className="text-sm text-destructive">
+                    This version has no price for {getMissingItemKeys(effectiveVersion).map(key => PRICE_BOOK_CATALOG[key].label).join(', ')}.
+                    Estimates use the built-in rates and are not tied to it until a complete version is published.
+                  </p>
+                )}
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="hidden md:grid grid-cols-12 gap-3 text-xs font-medium text-muted-foreground">
+                  <span className="col-span-5">Item</span>
+                  <span className="col-span-4">Supplier</span>
+                  <span className="col-span-3">Price per unit</span>
+                </div>
+                {draftItems.map((item) => (
+                  <div key={item.item_key} className="grid grid-cols-1 md:grid-cols-12 gap-3 items-center">
+                    <div className="md:col-span-5">
+                      <p className="font-medium text-foreground">{item.description}</p>
+                      <p className="text-xs text-muted-foreground">per {item.unit}</p>
+                    </div>
+                    <Input
+                      className="md:col-span-4"
+                      value={item.supplier ?? ''}
+                      onChange={(e) => updateDraftItem(item.item_key, 'supplier', e.target.value)}
+                      placeholder="Supplier"
+                    />
+                    <Input
+                      className="md:col-span-3"
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={item.unit_price}
+                      onChange={(e) => updateDraftItem(item.item_key, 'unit_price', parseFloat(e.target.value) || 0)}
+                    />
+                  </div>
+                ))}
+
+                <Separator />
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="effective-date">Effective Date</Label>
+                    <Input
+                      id="effective-date"
+                      type="date"
+                      value={effectiveDate}
+                      onChange={(e) => setEffectiveDate(e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="version-notes">Change Notes</Label>
+                    <Textarea
+                      id="version-notes"
+                      value={versionNotes}
+                      onChange={(e) => setVersionNotes(e.target.value)}
+                      placeholder="e.g., Spring supplier price increase"
+                      rows={1}
+                    />
+                  </div>
+                </div>
+
+                <Button
+                  onClick={handlePublish}
+                  disabled={publishVersion.isPending}
+                  className="w-full bg-primary hover:bg-primary/90 text-primary-foreground"
+                >
+                  <Save className="h-4 w-4 mr-2" />
+                  Publish New Version
+                </Button>
+              </CardContent>
+            </Card>
+          )}
+
+          {selectedBook && (
+            <Card className="bg-card border-border shadow-industrial">
+              <CardHeader>
+                <CardTitle className="text-foreground flex items-center gap-2">
+                  <History className="h-5 w-5 text-primary" />
+                  Price History
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {history.length === 0 && (
+                  <p className="text-sm text-muted-foreground">No versions have been published for this book.</p>
+                )}
+                {history.map((entry) => (
+                  <div key={entry.version} className="p-3 border border-border rounded-lg space-y-2">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center gap-2">
+                        <Badge variant="secondary">v{entry.version}</Badge>
+                        <span className="text-sm text-muted-foreground">
+                          Effective {new Date(`${entry.effectiveDate}T00:00`).toLocaleDateString()}
+                        </span>
+                      </div>
+                      {entry.createdAt && (
+                        <span className="text-xs text-muted-foreground">{new Date(entry.createdAt).toLocaleString()}</span>
+                      )}
+                    </div>
+                    {entry.notes && <p className="text-sm text-foreground">{entry.notes}</p>}
+                    {entry.changes.map((change) => (
+                      <div key={change.itemKey} className="flex justify-between text-sm">
+                        <span className="text-muted-foreground">
+                          {PRICE_BOOK_CATALOG[change.itemKey as keyof typeof PRICE_BOOK_CATALOG]?.label ?? change.itemKey}
+                          {change.supplier && ` (${change.supplier})`}
+                        </span>
+                        <span className="font-medium">
+                          {change.previousPrice !== null ? `$${change.previousPrice.toFixed(2)}` : 'new'}
+                          {' → '}
+                          {change.newPrice !== null ? `$${change.newPrice.toFixed(2)}` : 'removed'}
+                        </span>
+                      </div>
+                    ))}
+                    {entry.changes.length === 0 && (
+                      <p className="text-xs text-muted-foreground">No price changes from the previous version.</p>
+                    )}
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+
+      {/* Create Price Book Modal */}
+      {isCreatingBook && (
+        <div className="fixed inset-0 bg-background/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+          <Card className="w-full max-w-lg bg-card border-border shadow-industrial">
+            <CardHeader>
+              <CardTitle className="text-foreground">Create Price Book</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="book-name">Name</Label>
+                <Input
+                  id="book-name"
+                  value={newBook.name}
+                  onChange={(e) => setNewBook(prev => ({ ...prev, name: e.target.value }))}
+                  placeholder="e.g., SealMaster 2026"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="book-description">Description</Label>
+                <Textarea
+                  id="book-description"
+                  value={newBook.description}
+                  onChange={(e) => setNewBook(prev => ({ ...prev, description: e.target.value }))}
+                  rows={2}
+                />
+              </div>
+              <div className="flex gap-2 justify-end pt-4 border-t border-border">
+                <Button variant="outline" onClick={() => setIsCreatingBook(false)}>
+                  Cancel
+                </Button>
+                <Button
+                  onClick={handleCreateBook}
+                  disabled={!newBook.name || createPriceBook.isPending}
+                  className="bg-primary hover:bg-primary/90 text-primary-foreground"
+                >
+                  Create Price Book
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PriceBookManager;
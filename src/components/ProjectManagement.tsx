@@ -1,186 +1,107 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
-import { Label } from '@/components/ui/label';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Textarea } from '@/components/ui/textarea';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Progress } from '@/components/ui/progress';
-import { supabase } from '@/integrations/supabase/client';
-import { Plus, Calendar, MapPin, DollarSign, Clock, Users, CheckCircle, AlertCircle } from 'lucide-react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { Plus, Calendar, MapPin, DollarSign, Clock, Users, CheckCircle, AlertCircle, Archive, History, Pencil, RotateCcw } from 'lucide-react';
+import ProjectForm from '@/components/ProjectForm';
+import ProjectMilestones from '@/components/ProjectMilestones';
+import ProjectSiteVisits from '@/components/ProjectSiteVisits';
+import ProjectTimeline from '@/components/ProjectTimeline';
 import { useToast } from '@/hooks/use-toast';
-
-interface Project {
-  id: string;
-  name: string;
-  description: string;
-  status: 'pending' | 'in_progress' | 'completed' | 'cancelled';
-  project_type: 'sealcoating' | 'asphalt_paving' | 'line_striping' | 'crack_sealing' | 'pothole_repair' | 'overlay' | 'maintenance';
-  start_date: string;
-  end_date: string;
-  site_address: string;
-  client_name: string;
-  client_phone: string;
-  client_email: string;
-  estimated_cost: number;
-  actual_cost: number;
-  created_at: string;
-  created_by: string;
-}
-
-interface Milestone {
-  id: string;
-  project_id: string;
-  title: string;
-  description: string;
-  status: string;
-  target_date: string;
-  completed_date: string;
-  tasks: string[];
-}
+import { usePermissions } from '@/hooks/use-permissions';
+import { useProjectMilestones, useProjectTasks } from '@/hooks/use-project-tasks';
+import {
+  useArchiveProject,
+  useProjectHistory,
+  useProjects,
+  useUpdateProjectStatus
+} from '@/hooks/use-projects';
+import {
+  PROJECT_STATUS_ACTIONS,
+  PROJECT_STATUS_LABELS,
+  PROJECT_STATUS_TRANSITIONS,
+  PROJECT_TYPE_LABELS,
+  describeProjectChange,
+  type ProjectRecord,
+  type ProjectStatus
+} from '@/lib/projects';
+import { getProjectProgress } from '@/lib/project-tasks';
+
+const formatDate = (value: string | null) => (value ? new Date(value).toLocaleDateString() : '—');
 
 const ProjectManagement = () => {
-  const [projects, setProjects] = useState<Project[]>([]);
-  const [milestones, setMilestones] = useState<Milestone[]>([]);
-  const [selectedProject, setSelectedProject] = useState<Project | null>(null);
+  const { data: projects = [] } = useProjects();
+  const { data: archivedProjects = [] } = useProjects({ archived: true });
+  const { data: milestones = [] } = useProjectMilestones();
+  const { data: tasks = [] } = useProjectTasks();
+  // Links from the dashboard open a specific project with ?project=<id>
+  const [searchParams] = useSearchParams();
+  const linkedProjectId = searchParams.get('project');
+  const [selectedProjectId, setSelectedProjectId] = useState<string | null>(linkedProjectId);
+  const [activeTab, setActiveTab] = useState(linkedProjectId ? 'details' : 'overview');
   const [isCreatingProject, setIsCreatingProject] = useState(false);
-  const [newProject, setNewProject] = useState({
-    name: '',
-    description: '',
-    project_type: 'asphalt_paving' as const,
-    start_date: '',
-    end_date: '',
-    site_address: '',
-    client_name: '',
-    client_phone: '',
-    client_email: '',
-    estimated_cost: 0
-  });
+  const [editingProject, setEditingProject] = useState<ProjectRecord | null>(null);
+  const [archivingProject, setArchivingProject] = useState<ProjectRecord | null>(null);
   const { toast } = useToast();
+  const { can } = usePermissions();
+  const canManage = can('projects.manage');
+  const updateStatus = useUpdateProjectStatus();
+  const archiveProject = useArchiveProject();
 
-  useEffect(() => {
-    fetchProjects();
-  }, []);
-
-  useEffect(() => {
-    if (selectedProject) {
-      fetchMilestones(selectedProject.id);
-    }
-  }, [selectedProject]);
-
-  const fetchProjects = async () => {
-    try {
-      const { data, error } = await supabase
-        .from('projects')
-        .select('*')
-        .order('created_at', { ascending: false });
-
-      if (error) throw error;
-      setProjects(data || []);
-    } catch (error) {
-      console.error('Error fetching projects:', error);
-      toast({
-        title: "Error",
-        description: "Failed to fetch projects",
-        variant: "destructive",
-      });
-    }
-  };
+  const selectedProject = [...projects, ...archivedProjects].find(project => project.id === selectedProjectId) ?? null;
+  const { data: history = [] } = useProjectHistory(selectedProject?.id);
 
-  const fetchMilestones = async (projectId: string) => {
-    try {
-      const { data, error } = await supabase
-        .from('project_milestones')
-        .select('*')
-        .eq('project_id', projectId)
-        .order('target_date', { ascending: true });
-
-      if (error) throw error;
-      setMilestones(data || []);
-    } catch (error) {
-      console.error('Error fetching milestones:', error);
-    }
+  const selectProject = (project: ProjectRecord) => {
+    setSelectedProjectId(project.id);
+    setActiveTab('details');
   };
 
-  const createProject = async () => {
+  const updateProjectStatus = async (project: ProjectRecord, status: ProjectStatus) => {
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) {
-        toast({
-          title: "Authentication required",
-          description: "Please log in to create projects",
-          variant: "destructive",
-        });
-        return;
-      }
-
-      const { data, error } = await supabase
-        .from('projects')
-        .insert([{ ...newProject, created_by: user.id }])
-        .select()
-        .single();
-
-      if (error) throw error;
-
-      setProjects(prev => [data, ...prev]);
-      setIsCreatingProject(false);
-      setNewProject({
-        name: '',
-        description: '',
-        project_type: 'asphalt_paving',
-        start_date: '',
-        end_date: '',
-        site_address: '',
-        client_name: '',
-        client_phone: '',
-        client_email: '',
-        estimated_cost: 0
-      });
-
+      await updateStatus.mutateAsync({ project, status });
       toast({
         title: "Success",
-        description: "Project created successfully",
+        description: `Project marked ${PROJECT_STATUS_LABELS[status].toLowerCase()}`,
       });
     } catch (error) {
-      console.error('Error creating project:', error);
+      console.error('Error updating project status:', error);
       toast({
         title: "Error",
-        description: "Failed to create project",
+        description: "Failed to update project status",
         variant: "destructive",
       });
     }
   };
 
-  const updateProjectStatus = async (projectId: string, status: string) => {
+  const setArchived = async (project: ProjectRecord, archived: boolean) => {
     try {
-      const { error } = await supabase
-        .from('projects')
-        .update({ status })
-        .eq('id', projectId);
-
-      if (error) throw error;
-
-      setProjects(prev => prev.map(p => 
-        p.id === projectId ? { ...p, status } : p
-      ));
-
-      if (selectedProject?.id === projectId) {
-        setSelectedProject(prev => prev ? { ...prev, status } : null);
-      }
-
+      await archiveProject.mutateAsync({ id: project.id, archived });
       toast({
         title: "Success",
-        description: "Project status updated",
+        description: archived ? "Project archived" : "Project restored",
       });
     } catch (error) {
-      console.error('Error updating project status:', error);
+      console.error('Error archiving project:', error);
       toast({
         title: "Error",
-        description: "Failed to update project status",
+        description: archived ? "Failed to archive project" : "Failed to restore project",
         variant: "destructive",
       });
+    } finally {
+      setArchivingProject(null);
     }
   };
 
@@ -194,24 +115,26 @@ const ProjectManagement = () => {
     }
   };
 
-  const getProjectTypeLabel = (type: string) => {
-    switch (type) {
-      case 'asphalt_paving': return 'Asphalt Paving';
-      case 'sealcoating': return 'Sealcoating';
-      case 'crack_filling': return 'Crack Filling';
-      case 'line_striping': return 'Line Striping';
-      case 'patching': return 'Patching';
-      default: return type;
-    }
-  };
-
-  const calculateProgress = (project: Project) => {
-    const projectMilestones = milestones.filter(m => m.project_id === project.id);
-    if (projectMilestones.length === 0) return 0;
-    
-    const completedMilestones = projectMilestones.filter(m => m.status === 'completed');
-    return (completedMilestones.length / projectMilestones.length) * 100;
-  };
+  const getStatusLabel = (status: ProjectStatus | null) => PROJECT_STATUS_LABELS[status ?? 'pending'];
+
+  const calculateProgress = (project: ProjectRecord) => getProjectProgress(project.id, tasks, milestones).progress;
+
+  // Only statuses the project can legally move to are offered
+  const renderStatusActions = (project: ProjectRecord) =>
+    canManage && !project.archived_at && PROJECT_STATUS_TRANSITIONS[project.status ?? 'pending'].map((status) => (
+      <Button
+        key={status}
+        size="sm"
+        variant="outline"
+        disabled={updateStatus.isPending}
+        onClick={(e) => {
+          e.stopPropagation();
+          updateProjectStatus(project, status);
+        }}
+      >
+        {PROJECT_STATUS_ACTIONS[status]}
+      </Button>
+    ));
 
   return (
     <div className="space-y-6">
@@ -220,20 +143,24 @@ const ProjectManagement = () => {
           <h2 className="text-3xl font-bold text-foreground">Project Management</h2>
           <p className="text-muted-foreground">Manage asphalt projects from start to finish</p>
         </div>
-        <Button 
-          onClick={() => setIsCreatingProject(true)}
-          className="bg-primary hover:bg-primary/90 text-primary-foreground"
-        >
-          <Plus className="h-4 w-4 mr-2" />
-          New Project
-        </Button>
+        {canManage && (
+          <Button 
+            onClick={() => setIsCreatingProject(true)}
+            className="bg-primary hover:bg-primary/90 text-primary-foreground"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            New Project
+          </Button>
+        )}
       </div>
 
-      <Tabs defaultValue="overview" className="space-y-6">
-        <TabsList className="grid w-full grid-cols-3">
+      <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
+        <TabsList className="grid w-full grid-cols-5">
           <TabsTrigger value="overview">Project Overview</TabsTrigger>
           <TabsTrigger value="active">Active Projects</TabsTrigger>
+          <TabsTrigger value="timeline">Timeline</TabsTrigger>
           <TabsTrigger value="details">Project Details</TabsTrigger>
+          <TabsTrigger value="archived">Archived ({archivedProjects.length})</TabsTrigger>
         </TabsList>
 
         <TabsContent value="overview" className="space-y-6">
@@ -310,15 +237,15 @@ const ProjectManagement = () => {
             <CardContent>
               <div className="space-y-4">
                 {projects.slice(0, 5).map((project) => (
-                  <div key={project.id} className="flex items-center justify-between p-4 border border-border rounded-lg hover:bg-secondary/30 transition-colors cursor-pointer" onClick={() => setSelectedProject(project)}>
+                  <div key={project.id} className="flex items-center justify-between p-4 border border-border rounded-lg hover:bg-secondary/30 transition-colors cursor-pointer" onClick={() => selectProject(project)}>
                     <div className="flex-1">
                       <div className="flex items-center gap-3">
                         <h4 className="font-semibold text-foreground">{project.name}</h4>
                         <Badge className={getStatusColor(project.status)}>
-                          {project.status.replace('_', ' ')}
+                          {getStatusLabel(project.status)}
                         </Badge>
                         <Badge variant="outline" className="text-xs">
-                          {getProjectTypeLabel(project.project_type)}
+                          {PROJECT_TYPE_LABELS[project.project_type] ?? project.project_type}
                         </Badge>
                       </div>
                       <p className="text-sm text-muted-foreground mt-1">{project.client_name}</p>
@@ -348,8 +275,8 @@ const ProjectManagement = () => {
 
         <TabsContent value="active" className="space-y-6">
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-            {projects.filter(p => p.status === 'in_progress').map((project) => (
-              <Card key={project.id} className="bg-card border-border shadow-industrial hover:shadow-glow transition-shadow cursor-pointer" onClick={() => setSelectedProject(project)}>
+            {projects.filter(p => p.status === 'in_progress' || p.status === 'on_hold').map((project) => (
+              <Card key={project.id} className="bg-card border-border shadow-industrial hover:shadow-glow transition-shadow cursor-pointer" onClick={() => selectProject(project)}>
                 <CardHeader>
                   <div className="flex items-start justify-between">
                     <div>
@@ -357,7 +284,7 @@ const ProjectManagement = () => {
                       <p className="text-sm text-muted-foreground">{project.client_name}</p>
                     </div>
                     <Badge className={getStatusColor(project.status)}>
-                      {project.status.replace('_', ' ')}
+                      {getStatusLabel(project.status)}
                     </Badge>
                   </div>
                 </CardHeader>
@@ -373,11 +300,11 @@ const ProjectManagement = () => {
                   <div className="grid grid-cols-2 gap-4 text-sm">
                     <div>
                       <p className="text-muted-foreground">Start Date</p>
-                      <p className="font-medium">{new Date(project.start_date).toLocaleDateString()}</p>
+                      <p className="font-medium">{formatDate(project.start_date)}</p>
                     </div>
                     <div>
                       <p className="text-muted-foreground">End Date</p>
-                      <p className="font-medium">{new Date(project.end_date).toLocaleDateString()}</p>
+                      <p className="font-medium">{formatDate(project.end_date)}</p>
                     </div>
                   </div>
 
@@ -386,27 +313,8 @@ const ProjectManagement = () => {
                     <span className="font-semibold text-primary">${project.estimated_cost?.toLocaleString()}</span>
                   </div>
 
-                  <div className="flex gap-2">
-                    <Button 
-                      size="sm" 
-                      variant="outline"
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        updateProjectStatus(project.id, 'completed');
-                      }}
-                    >
-                      Mark Complete
-                    </Button>
-                    <Button 
-                      size="sm" 
-                      variant="outline"
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        updateProjectStatus(project.id, 'on_hold');
-                      }}
-                    >
-                      Hold
-                    </Button>
+                  <div className="flex flex-wrap gap-2">
+                    {renderStatusActions(project)}
                   </div>
                 </CardContent>
               </Card>
@@ -414,6 +322,10 @@ const ProjectManagement = () => {
           </div>
         </TabsContent>
 
+        <TabsContent value="timeline" className="space-y-6">
+          <ProjectTimeline canManage={canManage} onSelectProject={selectProject} />
+        </TabsContent>
+
         <TabsContent value="details" className="space-y-6">
           {selectedProject ? (
             <div className="space-y-6">
@@ -426,13 +338,40 @@ const ProjectManagement = () => {
                     </div>
                     <div className="flex gap-2">
                       <Badge className={getStatusColor(selectedProject.status)}>
-                        {selectedProject.status.replace('_', ' ')}
+                        {getStatusLabel(selectedProject.status)}
                       </Badge>
                       <Badge variant="outline">
-                        {getProjectTypeLabel(selectedProject.project_type)}
+                        {PROJECT_TYPE_LABELS[selectedProject.project_type] ?? selectedProject.project_type}
                       </Badge>
                     </div>
                   </div>
+                  {selectedProject.archived_at && (
+                    <p className="text-sm text-yellow-400">
+                      Archived {formatDate(selectedProject.archived_at)}. Restore it to make changes.
+                    </p>
+                  )}
+                  {canManage && (
+                    <div className="flex flex-wrap gap-2 pt-2">
+                      {renderStatusActions(selectedProject)}
+                      {!selectedProject.archived_at && (
+                        <Button size="sm" variant="outline" onClick={() => setEditingProject(selectedProject)}>
+                          <Pencil className="h-4 w-4 mr-1" />
+                          Edit
+                        </Button>
+                      )}
+                      {selectedProject.archived_at ? (
+                        <Button size="sm" variant="outline" onClick={() => setArchived(selectedProject, false)}>
+                          <RotateCcw className="h-4 w-4 mr-1" />
+                          Restore
+                        </Button>
+                      ) : (
+                        <Button size="sm" variant="outline" onClick={() => setArchivingProject(selectedProject)}>
+                          <Archive className="h-4 w-4 mr-1" />
+                          Archive
+                        </Button>
+                      )}
+                    </div>
+                  )}
                 </CardHeader>
                 <CardContent className="space-y-6">
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
@@ -455,8 +394,8 @@ const ProjectManagement = () => {
                       </h3>
                       <div className="space-y-2">
                         <p><span className="text-muted-foreground">Site Address:</span> {selectedProject.site_address}</p>
-                        <p><span className="text-muted-foreground">Start Date:</span> {new Date(selectedProject.start_date).toLocaleDateString()}</p>
-                        <p><span className="text-muted-foreground">End Date:</span> {new Date(selectedProject.end_date).toLocaleDateString()}</p>
+                        <p><span className="text-muted-foreground">Start Date:</span> {formatDate(selectedProject.start_date)}</p>
+                        <p><span className="text-muted-foreground">End Date:</span> {formatDate(selectedProject.end_date)}</p>
                       </div>
                     </div>
                   </div>
@@ -484,26 +423,38 @@ const ProjectManagement = () => {
                       </div>
                     </div>
                   </div>
+                </CardContent>
+              </Card>
 
-                  {/* Milestones */}
-                  {milestones.length > 0 && (
-                    <div className="space-y-4">
-                      <h3 className="font-semibold text-foreground">Project Milestones</h3>
-                      <div className="space-y-3">
-                        {milestones.map((milestone) => (
-                          <div key={milestone.id} className="flex items-center gap-3 p-3 border border-border rounded-lg">
-                            <div className={`h-3 w-3 rounded-full ${milestone.status === 'completed' ? 'bg-green-500' : milestone.status === 'in_progress' ? 'bg-blue-500' : 'bg-gray-500'}`} />
-                            <div className="flex-1">
-                              <p className="font-medium text-foreground">{milestone.title}</p>
-                              <p className="text-sm text-muted-foreground">{milestone.description}</p>
-                              <p className="text-xs text-muted-foreground">Target: {new Date(milestone.target_date).toLocaleDateString()}</p>
-                            </div>
-                            <Badge variant={milestone.status === 'completed' ? 'default' : 'secondary'}>
-                              {milestone.status.replace('_', ' ')}
-                            </Badge>
+              <ProjectMilestones project={selectedProject} canManage={canManage} />
+
+              <ProjectSiteVisits project={selectedProject} />
+
+              <Card className="bg-card border-border shadow-industrial">
+                <CardHeader>
+                  <CardTitle className="text-foreground flex items-center gap-2">
+                    <History className="h-5 w-5 text-primary" />
+                    History
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {history.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No changes recorded yet.</p>
+                  ) : (
+                    <div className="space-y-3">
+                      {history.map((entry) => (
+                        <div key={entry.id} className="flex items-start justify-between gap-4 text-sm">
+                          <div>
+                            <p className="text-foreground">{describeProjectChange(entry)}</p>
+                            <p className="text-xs text-muted-foreground">
+                              {entry.profiles?.full_name || entry.profiles?.email || 'System'}
+                            </p>
                           </div>
-                        ))}
-                      </div>
+                          <span className="text-xs text-muted-foreground whitespace-nowrap">
+                            {new Date(entry.changed_at).toLocaleString()}
+                          </span>
+                        </div>
+                      ))}
                     </div>
                   )}
                 </CardContent>
@@ -521,143 +472,79 @@ const ProjectManagement = () => {
             </Card>
           )}
         </TabsContent>
-      </Tabs>
 
-      {/* Create Project Modal */}
-      {isCreatingProject && (
-        <div className="fixed inset-0 bg-background/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
-          <Card className="w-full max-w-2xl bg-card border-border shadow-industrial">
+        <TabsContent value="archived" className="space-y-6">
+          <Card className="bg-card border-border shadow-industrial">
             <CardHeader>
-              <CardTitle className="text-foreground">Create New Project</CardTitle>
+              <CardTitle className="text-foreground">Archived Projects</CardTitle>
             </CardHeader>
-            <CardContent className="space-y-4">
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <div className="space-y-2">
-                  <Label htmlFor="project-name">Project Name</Label>
-                  <Input
-                    id="project-name"
-                    value={newProject.name}
-                    onChange={(e) => setNewProject(prev => ({ ...prev, name: e.target.value }))}
-                    placeholder="Enter project name"
-                  />
-                </div>
-
-                <div className="space-y-2">
-                  <Label htmlFor="project-type">Project Type</Label>
-                  <Select value={newProject.project_type} onValueChange={(value) => setNewProject(prev => ({ ...prev, project_type: value }))}>
-                    <SelectTrigger>
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="asphalt_paving">Asphalt Paving</SelectItem>
-                      <SelectItem value="sealcoating">Sealcoating</SelectItem>
-                      <SelectItem value="crack_filling">Crack Filling</SelectItem>
-                      <SelectItem value="line_striping">Line Striping</SelectItem>
-                      <SelectItem value="patching">Patching</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
-              </div>
-
-              <div className="space-y-2">
-                <Label htmlFor="description">Description</Label>
-                <Textarea
-                  id="description"
-                  value={newProject.description}
-                  onChange={(e) => setNewProject(prev => ({ ...prev, description: e.target.value }))}
-                  placeholder="Project description"
-                  rows={3}
-                />
-              </div>
-
-              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                <div className="space-y-2">
-                  <Label htmlFor="client-name">Client Name</Label>
-                  <Input
-                    id="client-name"
-                    value={newProject.client_name}
-                    onChange={(e) => setNewProject(prev => ({ ...prev, client_name: e.target.value }))}
-                    placeholder="Client name"
-                  />
-                </div>
-
-                <div className="space-y-2">
-                  <Label htmlFor="client-phone">Client Phone</Label>
-                  <Input
-                    id="client-phone"
-                    value={newProject.client_phone}
-                    onChange={(e) => setNewProject(prev => ({ ...prev, client_phone: e.target.value }))}
-                    placeholder="Phone number"
-                  />
-                </div>
-
-                <div className="space-y-2">
-                  <Label htmlFor="client-email">Client Email</Label>
-                  <Input
-                    id="client-email"
-                    type="email"
-                    value={newProject.client_email}
-                    onChange={(e) => setNewProject(prev => ({ ...prev, client_email: e.target.value }))}
-                    placeholder="Email address"
-                  />
-                </div>
-              </div>
-
-              <div className="space-y-2">
-                <Label htmlFor="site-address">Site Address</Label>
-                <Input
-                  id="site-address"
-                  value={newProject.site_address}
-                  onChange={(e) => setNewProject(prev => ({ ...prev, site_address: e.target.value }))}
-                  placeholder="Project site address"
-                />
-              </div>
-
-              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                <div className="space-y-2">
-                  <Label htmlFor="start-date">Start Date</Label>
-                  <Input
-                    id="start-date"
-                    type="date"
-                    value={newProject.start_date}
-                    onChange={(e) => setNewProject(prev => ({ ...prev, start_date: e.target.value }))}
-                  />
-                </div>
-
-                <div className="space-y-2">
-                  <Label htmlFor="end-date">End Date</Label>
-                  <Input
-                    id="end-date"
-                    type="date"
-                    value={newProject.end_date}
-                    onChange={(e) => setNewProject(prev => ({ ...prev, end_date: e.target.value }))}
-                  />
-                </div>
-
-                <div className="space-y-2">
-                  <Label htmlFor="estimated-cost">Estimated Cost</Label>
-                  <Input
-                    id="estimated-cost"
-                    type="number"
-                    value={newProject.estimated_cost || ''}
-                    onChange={(e) => setNewProject(prev => ({ ...prev, estimated_cost: parseFloat(e.target.value) || 0 }))}
-                    placeholder="0"
-                  />
+            <CardContent>
+              {archivedProjects.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No archived projects.</p>
+              ) : (
+                <div className="space-y-4">
+                  {archivedProjects.map((project) => (
+                    <div key={project.id} className="flex items-center justify-between p-4 border border-border rounded-lg hover:bg-secondary/30 transition-colors cursor-pointer" onClick={() => selectProject(project)}>
+                      <div>
+                        <div className="flex items-center gap-3">
+                          <h4 className="font-semibold text-foreground">{project.name}</h4>
+                          <Badge className={getStatusColor(project.status)}>
+                            {getStatusLabel(project.status)}
+                          </Badge>
+                        </div>
+                        <p className="text-sm text-muted-foreground mt-1">
+                          {project.client_name} · Archived {formatDate(project.archived_at)}
+                        </p>
+                      </div>
+                      {canManage && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setArchived(project, false);
+                          }}
+                        >
+                          <RotateCcw className="h-4 w-4 mr-1" />
+                          Restore
+                        </Button>
+                      )}
+                    </div>
+                  ))}
                 </div>
-              </div>
-
-              <div className="flex gap-2 justify-end pt-4 border-t border-border">
-                <Button variant="outline" onClick={() => setIsCreatingProject(false)}>
-                  Cancel
-                </Button>
-                <Button onClick={createProject} className="bg-primary hover:bg-primary/90 text-primary-foreground">
-                  Create Project
-                </Button>
-              </div>
+              )}
             </CardContent>
           </Card>
-        </div>
-      )}
+        </TabsContent>
+      </Tabs>
+
+      <ProjectForm
+        open={isCreatingProject}
+        onOpenChange={setIsCreatingProject}
+        onSaved={selectProject}
+      />
+      <ProjectForm
+        open={!!editingProject}
+        onOpenChange={(open) => !open && setEditingProject(null)}
+        project={editingProject}
+      />
+
+      <AlertDialog open={!!archivingProject} onOpenChange={(open) => !open && setArchivingProject(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Archive {archivingProject?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The project leaves every list and the client portal. Its milestones and history are kept, and it can be restored from the Archived tab.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => archivingProject && setArchived(archivingProject, true)}>
+              Archive
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 };
@@ -0,0 +1,312 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Progress } from '@/components/ui/progress';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { Calendar, Clock, ListChecks, Lock, Pencil, Plus, Trash2, User } from 'lucide-react';
+import MilestoneForm from '@/components/MilestoneForm';
+import TaskForm from '@/components/TaskForm';
+import { useToast } from '@/hooks/use-toast';
+import { getEmployeeName, useEmployees } from '@/hooks/use-employees';
+import {
+  useDeleteMilestone,
+  useDeleteTask,
+  useProjectMilestones,
+  useProjectTasks,
+  useUpdateTask
+} from '@/hooks/use-project-tasks';
+import {
+  TASK_STATUS_LABELS,
+  calculateTaskProgress,
+  getBlockingTasks,
+  getTaskCompletionUpdate,
+  sortTasks,
+  type MilestoneRecord,
+  type ProjectTaskRecord,
+  type TaskStatus
+} from '@/lib/project-tasks';
+import type { ProjectRecord } from '@/lib/projects';
+
+interface ProjectMilestonesProps {
+  project: ProjectRecord;
+  canManage: boolean; // adds, edits and deletes; any staff member can tick tasks off
+}
+
+type PendingDelete = { milestone: MilestoneRecord } | { task: ProjectTaskRecord };
+
+const formatDate = (value: string | null) => (value ? new Date(`${value}T00:00:00`).toLocaleDateString() : null);
+
+const getStatusColor = (status: string | null) => {
+  switch (status) {
+    case 'completed': return 'bg-green-500/10 text-green-400 border-green-500/20';
+    case 'in_progress': return 'bg-blue-500/10 text-blue-400 border-blue-500/20';
+    default: return 'bg-gray-500/10 text-gray-400 border-gray-500/20';
+  }
+};
+
+const ProjectMilestones = ({ project, canManage }: ProjectMilestonesProps) => {
+  const { data: milestones = [] } = useProjectMilestones(project.id);
+  const { data: tasks = [] } = useProjectTasks(project.id);
+  const { data: employees = [] } = useEmployees();
+  const [editingMilestone, setEditingMilestone] = useState<MilestoneRecord | null>(null);
+  const [isAddingMilestone, setIsAddingMilestone] = useState(false);
+  // undefined while the task dialog is closed, null when adding a task
+  const [editingTask, setEditingTask] = useState<ProjectTaskRecord | null | undefined>(undefined);
+  const [newTaskMilestoneId, setNewTaskMilestoneId] = useState<string | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<PendingDelete | null>(null);
+  const { toast } = useToast();
+  const updateTask = useUpdateTask();
+  const deleteTask = useDeleteTask();
+  const deleteMilestone = useDeleteMilestone();
+
+  const isArchived = !!project.archived_at;
+  const canEdit = canManage && !isArchived;
+  const completedCount = tasks.filter(task => task.status === 'completed').length;
+  const unassignedTasks = sortTasks(tasks.filter(task => !task.milestone_id));
+  const isDeletingMilestone = !!pendingDelete && 'milestone' in pendingDelete;
+
+  const getAssigneeName = (employeeId: string | null) => {
+    const employee = employees.find(candidate => candidate.id === employeeId);
+    return employee ? getEmployeeName(employee) : 'Unassigned';
+  };
+
+  const openNewTask = (milestoneId: string | null) => {
+    setNewTaskMilestoneId(milestoneId);
+    setEditingTask(null);
+  };
+
+  const toggleTask = async (task: ProjectTaskRecord, completed: boolean) => {
+    try {
+      await updateTask.mutateAsync({ id: task.id, values: getTaskCompletionUpdate(completed) });
+    } catch (error) {
+      console.error('Error updating task:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update task",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const confirmDelete = async () => {
+    if (!pendingDelete) return;
+    try {
+      if ('milestone' in pendingDelete) {
+        await deleteMilestone.mutateAsync(pendingDelete.milestone.id);
+      } else {
+        await deleteTask.mutateAsync({ task: pendingDelete.task, tasks });
+      }
+      toast({
+        title: "Success",
+        description: 'milestone' in pendingDelete ? "Milestone deleted" : "Task deleted",
+      });
+    } catch (error) {
+      console.error('Error deleting:', error);
+      toast({
+        title: "Error",
+        description: 'milestone' in pendingDelete ? "Failed to delete milestone" : "Failed to delete task",
+        variant: "destructive",
+      });
+    } finally {
+      setPendingDelete(null);
+    }
+  };
+
+  const renderTask = (task: ProjectTaskRecord) => {
+    const isCompleted = task.status === 'completed';
+    const blockers = isCompleted ? [] : getBlockingTasks(task, tasks);
+
+    return (
+      <div key={task.id} className="flex items-start gap-3 py-2">
+        <Checkbox
+          className="mt-1"
+          checked={isCompleted}
+          disabled={isArchived || blockers.length > 0 || updateTask.isPending}
+          onCheckedChange={(checked) => toggleTask(task, checked === true)}
+        />
+        <div className="flex-1 min-w-0">
+          <p className={`text-sm font-medium ${isCompleted ? 'line-through text-muted-foreground' : 'text-foreground'}`}>
+            {task.title}
+          </p>
+          <div className="flex flex-wrap items-center gap-3 text-xs text-muted-foreground mt-1">
+            <span className="flex items-center gap-1">
+              <User className="h-3 w-3" />
+              {getAssigneeName(task.assigned_to)}
+            </span>
+            {task.due_date && (
+              <span className="flex items-center gap-1">
+                <Calendar className="h-3 w-3" />
+                {formatDate(task.due_date)}
+              </span>
+            )}
+            {!!(task.estimated_hours || task.actual_hours) && (
+              <span className="flex items-center gap-1">
+                <Clock className="h-3 w-3" />
+                {task.actual_hours ?? 0} / {task.estimated_hours ?? '—'} hrs
+              </span>
+            )}
+            {task.status === 'in_progress' && <span>{task.progress ?? 0}% done</span>}
+            {task.priority === 'high' && <Badge variant="destructive" className="text-[10px] px-1.5 py-0">High</Badge>}
+          </div>
+          {blockers.length > 0 && (
+            <p className="flex items-center gap-1 text-xs text-yellow-400 mt-1">
+              <Lock className="h-3 w-3" />
+              Waiting on {blockers.map(blocker => blocker.title).join(', ')}
+            </p>
+          )}
+        </div>
+        {canEdit && (
+          <div className="flex gap-1">
+            <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => setEditingTask(task)}>
+              <Pencil className="h-3 w-3" />
+            </Button>
+            <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => setPendingDelete({ task })}>
+              <Trash2 className="h-3 w-3" />
+            </Button>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Card className="bg-card border-border shadow-industrial">
+      <CardHeader>
+        <div className="flex items-start justify-between">
+          <div>
+            <CardTitle className="text-foreground flex items-center gap-2">
+              <ListChecks className="h-5 w-5 text-primary" />
+              Milestones & Tasks
+            </CardTitle>
+            <p className="text-sm text-muted-foreground mt-1">
+              {completedCount} of {tasks.length} tasks complete
+            </p>
+          </div>
+          {canEdit && (
+            <div className="flex gap-2">
+              <Button size="sm" variant="outline" onClick={() => openNewTask(null)}>
+                <Plus className="h-4 w-4 mr-1" />
+                Task
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => setIsAddingMilestone(true)}>
+                <Plus className="h-4 w-4 mr-1" />
+                Milestone
+              </Button>
+            </div>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {milestones.length === 0 && tasks.length === 0 && (
+          <p className="text-sm text-muted-foreground">No milestones or tasks yet.</p>
+        )}
+
+        {milestones.map((milestone) => {
+          const milestoneTasks = sortTasks(tasks.filter(task => task.milestone_id === milestone.id));
+          const progress = milestoneTasks.length > 0
+            ? calculateTaskProgress(milestoneTasks)
+            : milestone.status === 'completed' ? 100 : 0;
+
+          return (
+            <div key={milestone.id} className="p-4 border border-border rounded-lg space-y-3">
+              <div className="flex items-start justify-between gap-4">
+                <div className="flex-1">
+                  <div className="flex items-center gap-2">
+                    <p className="font-medium text-foreground">{milestone.title}</p>
+                    <Badge className={getStatusColor(milestone.status)}>
+                      {TASK_STATUS_LABELS[milestone.status as TaskStatus] ?? milestone.status}
+                    </Badge>
+                  </div>
+                  {milestone.description && <p className="text-sm text-muted-foreground">{milestone.description}</p>}
+                  {milestone.target_date && (
+                    <p className="text-xs text-muted-foreground">Target: {formatDate(milestone.target_date)}</p>
+                  )}
+                </div>
+                {canEdit && (
+                  <div className="flex gap-1">
+                    <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => openNewTask(milestone.id)}>
+                      <Plus className="h-4 w-4" />
+                    </Button>
+                    <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => setEditingMilestone(milestone)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => setPendingDelete({ milestone })}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+              <div className="flex items-center gap-3">
+                <Progress value={progress} className="flex-1" />
+                <span className="text-xs text-muted-foreground w-10 text-right">{progress}%</span>
+              </div>
+              {milestoneTasks.length > 0 && (
+                <div className="divide-y divide-border">{milestoneTasks.map(renderTask)}</div>
+              )}
+            </div>
+          );
+        })}
+
+        {unassignedTasks.length > 0 && (
+          <div className="p-4 border border-border rounded-lg space-y-3">
+            <p className="font-medium text-foreground">Other Tasks</p>
+            <div className="divide-y divide-border">{unassignedTasks.map(renderTask)}</div>
+          </div>
+        )}
+      </CardContent>
+
+      <MilestoneForm
+        open={isAddingMilestone || !!editingMilestone}
+        onOpenChange={(open) => {
+          if (!open) {
+            setIsAddingMilestone(false);
+            setEditingMilestone(null);
+          }
+        }}
+        projectId={project.id}
+        milestone={editingMilestone}
+      />
+
+      <TaskForm
+        open={editingTask !== undefined}
+        onOpenChange={(open) => !open && setEditingTask(undefined)}
+        projectId={project.id}
+        task={editingTask}
+        milestoneId={newTaskMilestoneId}
+        milestones={milestones}
+        tasks={tasks}
+        employees={employees}
+      />
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{isDeletingMilestone ? 'Delete milestone?' : 'Delete task?'}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {isDeletingMilestone
+                ? 'The milestone and all of its tasks are deleted. This cannot be undone.'
+                : 'The task is deleted and removed from any task that depends on it. This cannot be undone.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
+
+export default ProjectMilestones;
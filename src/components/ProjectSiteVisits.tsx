@@ -0,0 +1,60 @@
+import React from 'react';
+import { formatDistanceStrict } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Truck } from 'lucide-react';
+import { useProjectSiteVisits } from '@/hooks/use-geofences';
+import { VEHICLE_STATUS_COLORS } from '@/lib/fleet-tracking';
+import type { ProjectRecord } from '@/lib/projects';
+
+interface ProjectSiteVisitsProps {
+  project: ProjectRecord;
+}
+
+// Logged by the geofence engine when a tracked vehicle enters or leaves a
+// fence drawn as this project's job site
+const ProjectSiteVisits = ({ project }: ProjectSiteVisitsProps) => {
+  const { data: visits = [], isLoading } = useProjectSiteVisits(project.id);
+
+  return (
+    <Card className="bg-card border-border shadow-industrial">
+      <CardHeader>
+        <CardTitle className="text-foreground flex items-center gap-2">
+          <Truck className="h-5 w-5 text-primary" />
+          Site Visits
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading site visits...</p>
+        ) : visits.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No vehicles logged on site yet. Draw a geofence for this project under Fleet to record arrivals and departures.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {visits.map((visit) => (
+              <div key={visit.id} className="flex items-start justify-between gap-4 text-sm">
+                <div>
+                  <p className="text-foreground">{visit.fleet_assets?.name || 'Unassigned tracker'}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {visit.geofences?.name || 'Removed geofence'} · arrived {new Date(visit.arrived_at).toLocaleString()}
+                  </p>
+                </div>
+                {visit.departed_at ? (
+                  <span className="text-xs text-muted-foreground whitespace-nowrap">
+                    {formatDistanceStrict(new Date(visit.departed_at), new Date(visit.arrived_at))} on site
+                  </span>
+                ) : (
+                  <Badge className={VEHICLE_STATUS_COLORS.Active}>On site</Badge>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ProjectSiteVisits;
@@ -0,0 +1,395 @@
+import React, { useState } from 'react';
+import { addDays, differenceInCalendarDays, format, isWeekend, parseISO } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { AlertTriangle, GanttChart } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useProjects } from '@/hooks/use-projects';
+import { useProjectMilestones, useProjectTasks, useUpdateTask } from '@/hooks/use-project-tasks';
+import {
+  findDependencyConflicts,
+  getCriticalTaskIds,
+  getDependencyLinks,
+  getTaskSpan,
+  getTimelineRange,
+  shiftSpan,
+  toDateValue,
+  type DependencyConflict,
+  type DragMode,
+  type TaskSpan
+} from '@/lib/gantt';
+import type { ProjectTaskRecord } from '@/lib/project-tasks';
+import type { ProjectRecord } from '@/lib/projects';
+
+const DAY_WIDTH = 28;
+const ROW_HEIGHT = 36;
+const BAR_HEIGHT = 20;
+const ALL_PROJECTS = 'all';
+
+type TimelineRow =
+  | { kind: 'project'; project: ProjectRecord }
+  | { kind: 'task'; task: ProjectTaskRecord };
+
+interface DragState {
+  task: ProjectTaskRecord;
+  mode: DragMode;
+  originX: number;
+  days: number;
+}
+
+interface PendingMove {
+  task: ProjectTaskRecord;
+  span: TaskSpan;
+  conflicts: DependencyConflict[];
+}
+
+interface ProjectTimelineProps {
+  canManage: boolean; // drag to reschedule
+  onSelectProject?: (project: ProjectRecord) => void;
+}
+
+const ProjectTimeline = ({ canManage, onSelectProject }: ProjectTimelineProps) => {
+  const { data: projects = [] } = useProjects();
+  const { data: allTasks = [] } = useProjectTasks();
+  const { data: milestones = [] } = useProjectMilestones();
+  const [projectFilter, setProjectFilter] = useState(ALL_PROJECTS);
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [pendingMove, setPendingMove] = useState<PendingMove | null>(null);
+  const { toast } = useToast();
+  const updateTask = useUpdateTask();
+
+  const visibleProjects = projects.filter(project => projectFilter === ALL_PROJECTS || project.id === projectFilter);
+  const projectIds = new Set(visibleProjects.map(project => project.id));
+  const tasks = allTasks.filter(task => task.project_id && projectIds.has(task.project_id));
+  const undatedCount = tasks.filter(task => !getTaskSpan(task)).length;
+
+  // Saved spans, with the task being dragged shown where it would land
+  const spans = new Map<string, TaskSpan>();
+  tasks.forEach(task => {
+    const span = getTaskSpan(task);
+    if (span) spans.set(task.id, drag?.task.id === task.id ? shiftSpan(span, drag.days, drag.mode) : span);
+  });
+
+  const rows: TimelineRow[] = visibleProjects.flatMap(project => {
+    const projectTasks = tasks
+      .filter(task => task.project_id === project.id && spans.has(task.id))
+      .sort((a, b) => spans.get(a.id).start.getTime() - spans.get(b.id).start.getTime());
+    return projectTasks.length || project.start_date
+      ? [{ kind: 'project' as const, project }, ...projectTasks.map(task => ({ kind: 'task' as const, task }))]
+      : [];
+  });
+  const rowIndex = new Map(rows.flatMap((row, index) => (row.kind === 'task' ? [[row.task.id, index] as const] : [])));
+
+  const range = getTimelineRange([
+    ...[...spans.values()].flatMap(span => [span.start, span.end]),
+    ...visibleProjects.flatMap(project => [project.start_date, project.end_date].filter(Boolean).map(value => parseISO(value))),
+  ]);
+  const dayX = (date: Date) => differenceInCalendarDays(date, range.start) * DAY_WIDTH;
+  const days = Array.from({ length: range.days }, (_, index) => addDays(range.start, index));
+  const todayX = dayX(new Date());
+
+  const critical = getCriticalTaskIds(tasks, spans);
+  const links = getDependencyLinks(tasks, spans);
+  const violatedTaskIds = new Set(links.filter(link => link.violated).flatMap(link => [link.from, link.to]));
+
+  const saveSpan = async (task: ProjectTaskRecord, span: TaskSpan) => {
+    try {
+      await updateTask.mutateAsync({
+        id: task.id,
+        values: { start_date: toDateValue(span.start), due_date: toDateValue(span.end) },
+      });
+      toast({
+        title: "Success",
+        description: `${task.title} rescheduled to ${format(span.start, 'MMM d')} – ${format(span.end, 'MMM d')}`,
+      });
+    } catch (error) {
+      console.error('Error rescheduling task:', error);
+      toast({
+        title: "Error",
+        description: "Failed to reschedule task",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const startDrag = (event: React.PointerEvent, task: ProjectTaskRecord, mode: DragMode) => {
+    if (!canManage) return;
+    event.stopPropagation();
+    (event.currentTarget as HTMLElement).setPointerCapture(event.pointerId);
+    setDrag({ task, mode, originX: event.clientX, days: 0 });
+  };
+
+  const moveDrag = (event: React.PointerEvent) => {
+    if (!drag) return;
+    const days = Math.round((event.clientX - drag.originX) / DAY_WIDTH);
+    if (days !== drag.days) setDrag({ ...drag, days });
+  };
+
+  // Moves that break a dependency are confirmed first
+  const endDrag = () => {
+    if (!drag) return;
+    const { task, mode, days } = drag;
+    setDrag(null);
+    if (days === 0) return;
+
+    const span = shiftSpan(getTaskSpan(task), days, mode);
+    const conflicts = findDependencyConflicts(task, span, allTasks);
+    if (conflicts.length > 0) {
+      setPendingMove({ task, span, conflicts });
+    } else {
+      saveSpan(task, span);
+    }
+  };
+
+  const getBarColor = (task: ProjectTaskRecord) => {
+    if (task.status === 'completed') return 'bg-green-500/70';
+    if (critical.has(task.id)) return 'bg-orange-500';
+    return 'bg-primary/70';
+  };
+
+  const width = range.days * DAY_WIDTH;
+  const height = rows.length * ROW_HEIGHT;
+
+  return (
+    <Card className="bg-card border-border shadow-industrial">
+      <CardHeader>
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <CardTitle className="text-foreground flex items-center gap-2">
+              <GanttChart className="h-5 w-5 text-primary" />
+              Project Timeline
+            </CardTitle>
+            <p className="text-sm text-muted-foreground mt-1">
+              {canManage ? 'Drag a task to move it, or drag its right edge to change the due date.' : 'Tasks and milestones by date.'}
+              {undatedCount > 0 && ` ${undatedCount} task${undatedCount === 1 ? '' : 's'} without dates not shown.`}
+            </p>
+          </div>
+          <Select value={projectFilter} onValueChange={setProjectFilter}>
+            <SelectTrigger className="w-64">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_PROJECTS}>All active projects</SelectItem>
+              {projects.map((project) => (
+                <SelectItem key={project.id} value={project.id}>{project.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex flex-wrap gap-4 text-xs text-muted-foreground pt-2">
+          <span className="flex items-center gap-1"><span className="h-3 w-5 rounded-sm bg-primary/70" /> Task</span>
+          <span className="flex items-center gap-1"><span className="h-3 w-5 rounded-sm bg-orange-500" /> Critical path</span>
+          <span className="flex items-center gap-1"><span className="h-3 w-5 rounded-sm bg-green-500/70" /> Completed</span>
+          <span className="flex items-center gap-1"><span className="h-3 w-3 rotate-45 bg-yellow-400" /> Milestone</span>
+          <span className="flex items-center gap-1"><span className="h-0.5 w-5 bg-red-500" /> Broken dependency</span>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {rows.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No scheduled projects or tasks. Give tasks a start or due date to place them on the timeline.</p>
+        ) : (
+          <div className="flex border border-border rounded-lg overflow-hidden">
+            <div className="w-56 shrink-0 border-r border-border bg-muted/30">
+              <div className="h-12 border-b border-border" />
+              {rows.map((row) => row.kind === 'project' ? (
+                <button
+                  key={row.project.id}
+                  type="button"
+                  className="flex w-full items-center px-3 text-left text-sm font-semibold text-foreground truncate hover:text-primary"
+                  style={{ height: ROW_HEIGHT }}
+                  onClick={() => onSelectProject?.(row.project)}
+                >
+                  {row.project.name}
+                </button>
+              ) : (
+                <div
+                  key={row.task.id}
+                  className="flex items-center gap-1 pl-6 pr-3 text-sm text-muted-foreground truncate"
+                  style={{ height: ROW_HEIGHT }}
+                >
+                  {violatedTaskIds.has(row.task.id) && <AlertTriangle className="h-3 w-3 shrink-0 text-red-500" />}
+                  <span className="truncate">{row.task.title}</span>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex-1 overflow-x-auto">
+              <div style={{ width }}>
+                <div className="flex h-12 border-b border-border">
+                  {days.map((day) => (
+                    <div
+                      key={day.toISOString()}
+                      className={`shrink-0 flex flex-col items-center justify-center text-[10px] border-r border-border/50 ${isWeekend(day) ? 'bg-muted/40' : ''}`}
+                      style={{ width: DAY_WIDTH }}
+                    >
+                      {(day.getDate() === 1 || day.getTime() === range.start.getTime()) && (
+                        <span className="font-semibold text-foreground">{format(day, 'MMM')}</span>
+                      )}
+                      <span className="text-muted-foreground">{format(day, 'd')}</span>
+                    </div>
+                  ))}
+                </div>
+
+                <div
+                  className="relative select-none"
+                  style={{ height }}
+                  onPointerMove={moveDrag}
+                  onPointerUp={endDrag}
+                  onPointerCancel={() => setDrag(null)}
+                >
+                  {days.map((day, index) => isWeekend(day) && (
+                    <div key={index} className="absolute top-0 bottom-0 bg-muted/30" style={{ left: index * DAY_WIDTH, width: DAY_WIDTH }} />
+                  ))}
+                  {todayX >= 0 && todayX < width && (
+                    <div className="absolute top-0 bottom-0 w-px bg-primary" style={{ left: todayX + DAY_WIDTH / 2 }} />
+                  )}
+
+                  {rows.map((row, index) => {
+                    const top = index * ROW_HEIGHT;
+                    if (row.kind === 'project') {
+                      const project = row.project;
+                      const start = project.start_date ? parseISO(project.start_date) : null;
+                      const end = project.end_date ? parseISO(project.end_date) : start;
+                      return (
+                        <div key={project.id} className="absolute left-0 right-0 border-b border-border/50" style={{ top, height: ROW_HEIGHT }}>
+                          {start && (
+                            <div
+                              className="absolute rounded-sm bg-muted-foreground/20"
+                              style={{ left: dayX(start), width: (differenceInCalendarDays(end, start) + 1) * DAY_WIDTH, top: ROW_HEIGHT / 2 - 3, height: 6 }}
+                            />
+                          )}
+                          {milestones.filter(milestone => milestone.project_id === project.id && milestone.target_date).map((milestone) => (
+                            <div
+                              key={milestone.id}
+                              title={`${milestone.title} – ${format(parseISO(milestone.target_date), 'MMM d')}`}
+                              className={`absolute h-3 w-3 rotate-45 ${milestone.status === 'completed' ? 'bg-green-500' : 'bg-yellow-400'}`}
+                              style={{ left: dayX(parseISO(milestone.target_date)) + DAY_WIDTH / 2 - 6, top: ROW_HEIGHT / 2 - 6 }}
+                            />
+                          ))}
+                        </div>
+                      );
+                    }
+
+                    const task = row.task;
+                    const span = spans.get(task.id);
+                    const isDragging = drag?.task.id === task.id;
+                    return (
+                      <div key={task.id} className="absolute left-0 right-0" style={{ top, height: ROW_HEIGHT }}>
+                        <div
+                          title={`${task.title}: ${format(span.start, 'MMM d')} – ${format(span.end, 'MMM d')}`}
+                          className={`absolute rounded-sm ${getBarColor(task)} ${violatedTaskIds.has(task.id) ? 'ring-2 ring-red-500' : ''} ${canManage ? 'cursor-grab' : ''} ${isDragging ? 'opacity-80 cursor-grabbing' : ''}`}
+                          style={{
+                            left: dayX(span.start) + 2,
+                            width: (differenceInCalendarDays(span.end, span.start) + 1) * DAY_WIDTH - 4,
+                            top: (ROW_HEIGHT - BAR_HEIGHT) / 2,
+                            height: BAR_HEIGHT,
+                          }}
+                          onPointerDown={(event) => startDrag(event, task, 'move')}
+                        >
+                          {task.status !== 'completed' && (task.progress ?? 0) > 0 && (
+                            <div className="h-full rounded-sm bg-black/20" style={{ width: `${task.progress}%` }} />
+                          )}
+                          {canManage && (
+                            <div
+                              className="absolute right-0 top-0 h-full w-2 cursor-ew-resize"
+                              onPointerDown={(event) => startDrag(event, task, 'resize')}
+                            />
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })}
+
+                  <svg className="absolute inset-0 pointer-events-none" width={width} height={height}>
+                    <defs>
+                      {['muted', 'critical', 'violated'].map((kind) => (
+                        <marker key={kind} id={`gantt-arrow-${kind}`} markerWidth="6" markerHeight="6" refX="5" refY="3" orient="auto">
+                          <path
+                            d="M0,0 L6,3 L0,6 Z"
+                            className={kind === 'violated' ? 'fill-red-500' : kind === 'critical' ? 'fill-orange-500' : 'fill-muted-foreground'}
+                          />
+                        </marker>
+                      ))}
+                    </defs>
+                    {links.map((link) => {
+                      const from = spans.get(link.from);
+                      const to = spans.get(link.to);
+                      const fromRow = rowIndex.get(link.from);
+                      const toRow = rowIndex.get(link.to);
+                      if (fromRow === undefined || toRow === undefined) return null;
+
+                      const kind = link.violated ? 'violated' : critical.has(link.from) && critical.has(link.to) ? 'critical' : 'muted';
+                      const x1 = dayX(from.end) + DAY_WIDTH - 2;
+                      const y1 = fromRow * ROW_HEIGHT + ROW_HEIGHT / 2;
+                      const x2 = dayX(to.start) + 2;
+                      const y2 = toRow * ROW_HEIGHT + ROW_HEIGHT / 2;
+                      const bend = x1 + 8;
+                      return (
+                        <path
+                          key={`${link.from}-${link.to}`}
+                          d={`M${x1},${y1} H${bend} V${y2} H${x2}`}
+                          fill="none"
+                          strokeWidth={1.5}
+                          strokeDasharray={link.violated ? '4 2' : undefined}
+                          markerEnd={`url(#gantt-arrow-${kind})`}
+                          className={kind === 'violated' ? 'stroke-red-500' : kind === 'critical' ? 'stroke-orange-500' : 'stroke-muted-foreground'}
+                        />
+                      );
+                    })}
+                  </svg>
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+      </CardContent>
+
+      <AlertDialog open={!!pendingMove} onOpenChange={(open) => !open && setPendingMove(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>This move breaks a dependency</AlertDialogTitle>
+            <AlertDialogDescription asChild>
+              <div className="space-y-2">
+                <p>
+                  Moving {pendingMove?.task.title} to {pendingMove && format(pendingMove.span.start, 'MMM d')} – {pendingMove && format(pendingMove.span.end, 'MMM d')} means:
+                </p>
+                <ul className="list-disc pl-5">
+                  {pendingMove?.conflicts.map(({ task, kind }) => (
+                    <li key={`${kind}-${task.id}`}>
+                      {kind === 'depends_on'
+                        ? `It starts before ${task.title} is due`
+                        : `${task.title} starts before it is due`}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep Dates</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (pendingMove) saveSpan(pendingMove.task, pendingMove.span);
+                setPendingMove(null);
+              }}
+            >
+              Move Anyway
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
+
+export default ProjectTimeline;
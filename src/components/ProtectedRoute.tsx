@@ -0,0 +1,55 @@
+import React from 'react';
+import { Link, Navigate, useLocation } from 'react-router-dom';
+import { Loader2, ShieldAlert } from 'lucide-react';
+import Header from '@/components/Header';
+import { useAuth } from '@/hooks/use-auth';
+import { usePermissions } from '@/hooks/use-permissions';
+import type { Permission } from '@/lib/permissions';
+
+interface ProtectedRouteProps {
+  children: React.ReactNode;
+  permission?: Permission;
+}
+
+// Sends signed-out visitors to the sign-in page, which brings them back here
+// afterwards. Signed-in users without the permission get an explanation
+// instead of the page.
+const ProtectedRoute = ({ children, permission }: ProtectedRouteProps) => {
+  const { session } = useAuth();
+  const { can, isLoading } = usePermissions();
+  const location = useLocation();
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-industrial-orange" />
+      </div>
+    );
+  }
+
+  if (!session) {
+    return <Navigate to="/auth" state={{ from: location }} replace />;
+  }
+
+  if (permission && !can(permission)) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Header />
+        <div className="container mx-auto px-6 py-24 text-center space-y-4">
+          <ShieldAlert className="h-12 w-12 text-industrial-orange mx-auto" />
+          <h2 className="text-2xl font-bold text-foreground">Access Restricted</h2>
+          <p className="text-muted-foreground">
+            Your account does not have access to this page. Ask an administrator to update your role.
+          </p>
+          <Link to="/" className="text-industrial-orange hover:underline">
+            Back to the dashboard
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+};
+
+export default ProtectedRoute;
@@ -0,0 +1,263 @@
+import React, { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertTriangle, Clock, Coffee, LogIn, LogOut, MapPin } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useProjects } from '@/hooks/use-projects';
+import {
+  useClockIn,
+  useClockOut,
+  useCurrentEmployee,
+  useOpenShift,
+  useSetOnBreak,
+  useTimesheets
+} from '@/hooks/use-time-clock';
+import {
+  CLOCKABLE_PROJECT_STATUSES,
+  MEAL_BREAK_AFTER_HOURS,
+  MEAL_BREAK_MINUTES,
+  TIME_RECORD_STATUS_LABELS,
+  WEEKLY_OVERTIME_HOURS,
+  formatMinutes,
+  getBreakMinutes,
+  getPunchLocation,
+  getWeeklyHours,
+  getWeeklyOvertime,
+  getWorkedMinutes,
+  getWorkweekRange,
+  needsMealBreak,
+  type TimeRecordStatus
+} from '@/lib/time-clock';
+
+const getStatusColor = (status: string) => {
+  switch (status) {
+    case 'open': return 'bg-blue-500/20 text-blue-300 border-blue-500/30';
+    case 'approved': return 'bg-green-500/20 text-green-300 border-green-500/30';
+    case 'rejected': return 'bg-red-500/20 text-red-300 border-red-500/30';
+    default: return 'bg-yellow-500/20 text-yellow-300 border-yellow-500/30';
+  }
+};
+
+const PunchClock = () => {
+  const { toast } = useToast();
+  const [now, setNow] = useState(() => new Date());
+  const [projectId, setProjectId] = useState('');
+  const [isLocating, setIsLocating] = useState(false);
+  const week = getWorkweekRange(now);
+  const { data: employee, isLoading: employeeLoading } = useCurrentEmployee();
+  const { data: projects = [] } = useProjects();
+  const { data: shifts = [] } = useTimesheets(week, { employeeId: employee?.id });
+  const { data: openShift = null } = useOpenShift(employee?.id);
+  const clockIn = useClockIn();
+  const clockOut = useClockOut();
+  const setOnBreak = useSetOnBreak();
+
+  // Keeps the running totals ticking over
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(new Date()), 30000);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  const onBreak = !!openShift?.break_started_at;
+  const clockableProjects = projects.filter(project => CLOCKABLE_PROJECT_STATUSES.includes(project.status));
+  const weeklyHours = getWeeklyHours(shifts, now);
+  const weeklyOvertime = getWeeklyOvertime(weeklyHours);
+  const mealBreakDue = openShift ? needsMealBreak(openShift, now) : false;
+  const isBusy = isLocating || clockIn.isPending || clockOut.isPending || setOnBreak.isPending;
+
+  const punch = async (action: 'in' | 'out') => {
+    setIsLocating(true);
+    const location = await getPunchLocation();
+    setIsLocating(false);
+
+    try {
+      if (action === 'in') {
+        await clockIn.mutateAsync({ employeeId: employee.id, projectId, location });
+      } else {
+        await clockOut.mutateAsync({ record: openShift, location });
+      }
+      toast({
+        title: action === 'in' ? "Clocked in" : "Clocked out",
+        description: location
+          ? `Location recorded to within ${location.accuracy} m`
+          : "Your location couldn't be read, so this punch has none",
+      });
+    } catch (error) {
+      console.error('Error recording punch:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to record punch",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const toggleBreak = async () => {
+    try {
+      await setOnBreak.mutateAsync({ record: openShift, onBreak: !onBreak });
+    } catch (error) {
+      console.error('Error updating break:', error);
+      toast({
+        title: "Error",
+        description: onBreak ? "Failed to end break" : "Failed to start break",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (!employeeLoading && !employee) {
+    return (
+      <Card className="bg-card border-border shadow-industrial max-w-xl mx-auto">
+        <CardContent className="py-12 text-center">
+          <Clock className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+          <p className="text-muted-foreground">Your login isn't linked to an employee record yet. Ask the office to link it before using the time clock.</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6 max-w-xl mx-auto">
+      <Card className="bg-card border-border shadow-industrial">
+        <CardHeader>
+          <CardTitle className="text-foreground flex items-center justify-between">
+            <span className="flex items-center gap-2">
+              <Clock className="h-5 w-5 text-primary" />
+              {format(now, 'EEEE, MMM d')}
+            </span>
+            <span className="text-2xl font-bold">{format(now, 'h:mm a')}</span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {openShift ? (
+            <>
+              <div className="rounded-lg border border-border p-4 space-y-2">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-muted-foreground">Project</span>
+                  <span className="font-medium text-foreground">{openShift.projects?.name ?? '—'}</span>
+                </div>
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-muted-foreground">Clocked in</span>
+                  <span className="font-medium text-foreground">{format(new Date(openShift.clock_in), 'h:mm a')}</span>
+                </div>
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-muted-foreground">Worked</span>
+                  <span className="font-medium text-foreground">{formatMinutes(getWorkedMinutes(openShift, now))}</span>
+                </div>
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-muted-foreground">Break</span>
+                  <span className="font-medium text-foreground">
+                    {formatMinutes(getBreakMinutes(openShift, now))}
+                    {onBreak && <Badge className="ml-2 bg-yellow-500/20 text-yellow-300 border-yellow-500/30">On break</Badge>}
+                  </span>
+                </div>
+              </div>
+
+              {mealBreakDue && !onBreak && (
+                <Alert className="border-yellow-500/30 bg-yellow-500/10">
+                  <AlertTriangle className="h-4 w-4 text-yellow-400" />
+                  <AlertDescription className="text-foreground">
+                    Shifts over {MEAL_BREAK_AFTER_HOURS} hours need a {MEAL_BREAK_MINUTES}-minute meal break. Take it before you clock out.
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              <div className="grid grid-cols-2 gap-3">
+                <Button
+                  variant="outline"
+                  className="h-14 text-base"
+                  disabled={isBusy}
+                  onClick={toggleBreak}
+                >
+                  <Coffee className="h-5 w-5 mr-2" />
+                  {onBreak ? 'End Break' : 'Start Break'}
+                </Button>
+                <Button
+                  className="h-14 text-base bg-primary hover:bg-primary/90 text-primary-foreground"
+                  disabled={isBusy || onBreak || mealBreakDue}
+                  onClick={() => punch('out')}
+                >
+                  <LogOut className="h-5 w-5 mr-2" />
+                  Clock Out
+                </Button>
+              </div>
+            </>
+          ) : (
+            <>
+              <div className="space-y-2">
+                <Label>Project</Label>
+                <Select value={projectId} onValueChange={setProjectId}>
+                  <SelectTrigger className="h-12">
+                    <SelectValue placeholder="Choose the job you're on" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {clockableProjects.map((project) => (
+                      <SelectItem key={project.id} value={project.id}>{project.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button
+                className="w-full h-14 text-base bg-primary hover:bg-primary/90 text-primary-foreground"
+                disabled={isBusy || !projectId || !employee}
+                onClick={() => punch('in')}
+              >
+                <LogIn className="h-5 w-5 mr-2" />
+                Clock In
+              </Button>
+            </>
+          )}
+
+          <p className="text-xs text-muted-foreground flex items-center gap-1">
+            <MapPin className="h-3 w-3" />
+            {isLocating ? 'Getting your location...' : 'Your location is recorded when you clock in and out'}
+          </p>
+        </CardContent>
+      </Card>
+
+      <Card className="bg-card border-border shadow-industrial">
+        <CardHeader>
+          <CardTitle className="text-foreground">This Week</CardTitle>
+          <p className="text-sm text-muted-foreground">
+            {weeklyHours} hours worked
+            {weeklyOvertime > 0
+              ? `, ${weeklyOvertime} of them overtime`
+              : `, ${Math.max(0, WEEKLY_OVERTIME_HOURS - weeklyHours).toFixed(2)} until overtime`}
+          </p>
+        </CardHeader>
+        <CardContent>
+          {shifts.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No shifts yet this week.</p>
+          ) : (
+            <div className="space-y-3">
+              {shifts.map((shift) => (
+                <div key={shift.id} className="flex items-center justify-between gap-3 border-b border-border pb-3 last:border-0 last:pb-0">
+                  <div>
+                    <div className="font-medium text-foreground">{shift.projects?.name ?? '—'}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {shift.clock_in && format(new Date(shift.clock_in), 'EEE MMM d, h:mm a')}
+                      {shift.clock_out && ` – ${format(new Date(shift.clock_out), 'h:mm a')}`}
+                    </div>
+                  </div>
+                  <div className="text-right space-y-1">
+                    <div className="font-medium text-foreground">{formatMinutes(getWorkedMinutes(shift, now))}</div>
+                    <Badge className={getStatusColor(shift.status ?? 'pending')}>
+                      {TIME_RECORD_STATUS_LABELS[shift.status as TimeRecordStatus] ?? shift.status}
+                    </Badge>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default PunchClock;
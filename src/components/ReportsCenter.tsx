@@ -0,0 +1,154 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Download, FileSpreadsheet } from 'lucide-react';
+import { useEstimates } from '@/hooks/use-estimates';
+import { useProjects } from '@/hooks/use-projects';
+import {
+  ESTIMATE_REPORT_COLUMNS,
+  PROJECT_REPORT_COLUMNS,
+  downloadCsv,
+  getReportFileName,
+  isInRange,
+  toCsv,
+  type ReportColumn,
+  type ReportRange
+} from '@/lib/reports';
+
+const PREVIEW_ROWS = 10;
+
+interface ReportCardProps<T> {
+  title: string;
+  description: string;
+  fileName: string;
+  range: ReportRange;
+  columns: ReportColumn<T>[];
+  rows: T[];
+  rowKey: (row: T) => string;
+  isLoading: boolean;
+}
+
+const ReportCard = <T,>({ title, description, fileName, range, columns, rows, rowKey, isLoading }: ReportCardProps<T>) => (
+  <Card className="bg-card border-border shadow-industrial">
+    <CardHeader>
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <CardTitle className="text-foreground flex items-center gap-2">
+            <FileSpreadsheet className="h-5 w-5 text-primary" />
+            {title}
+          </CardTitle>
+          <p className="text-sm text-muted-foreground">{description}</p>
+        </div>
+        <Button
+          variant="outline"
+          disabled={rows.length === 0}
+          onClick={() => downloadCsv(getReportFileName(fileName, range), toCsv(columns, rows))}
+        >
+          <Download className="h-4 w-4 mr-2" />
+          Download CSV ({rows.length})
+        </Button>
+      </div>
+    </CardHeader>
+    <CardContent>
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading...</p>
+      ) : rows.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No records in this date range.</p>
+      ) : (
+        <>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                {columns.map((column) => (
+                  <TableHead key={column.header}>{column.header}</TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.slice(0, PREVIEW_ROWS).map((row) => (
+                <TableRow key={rowKey(row)}>
+                  {columns.map((column) => (
+                    <TableCell key={column.header}>{column.value(row) ?? '—'}</TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          {rows.length > PREVIEW_ROWS && (
+            <p className="text-xs text-muted-foreground mt-2">
+              Showing {PREVIEW_ROWS} of {rows.length} rows; the download includes all of them.
+            </p>
+          )}
+        </>
+      )}
+    </CardContent>
+  </Card>
+);
+
+const ReportsCenter = () => {
+  const { data: estimates = [], isLoading: estimatesLoading } = useEstimates();
+  const { data: projects = [], isLoading: projectsLoading } = useProjects();
+  const [range, setRange] = useState<ReportRange>({ from: null, to: null });
+
+  const handleRangeChange = (field: keyof ReportRange, value: string) => {
+    setRange(prev => ({ ...prev, [field]: value || null }));
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row md:items-end justify-between gap-4">
+        <div>
+          <h2 className="text-3xl font-bold text-foreground">Reports</h2>
+          <p className="text-muted-foreground">Export estimates and projects for a date range</p>
+        </div>
+        <div className="flex gap-4">
+          <div>
+            <Label htmlFor="report-from">From</Label>
+            <Input
+              id="report-from"
+              type="date"
+              value={range.from ?? ''}
+              onChange={(e) => handleRangeChange('from', e.target.value)}
+            />
+          </div>
+          <div>
+            <Label htmlFor="report-to">To</Label>
+            <Input
+              id="report-to"
+              type="date"
+              value={range.to ?? ''}
+              onChange={(e) => handleRangeChange('to', e.target.value)}
+            />
+          </div>
+        </div>
+      </div>
+
+      <ReportCard
+        title="Estimate Register"
+        description="Every estimate written in the range, by creation date"
+        fileName="estimate-register"
+        range={range}
+        columns={ESTIMATE_REPORT_COLUMNS}
+        rows={estimates.filter(estimate => isInRange(estimate.created_at, range))}
+        rowKey={(estimate) => estimate.id}
+        isLoading={estimatesLoading}
+      />
+
+      <ReportCard
+        title="Project Summary"
+        description="Projects starting in the range, with estimated and actual cost"
+        fileName="project-summary"
+        range={range}
+        columns={PROJECT_REPORT_COLUMNS}
+        rows={projects.filter(project => isInRange(project.start_date ?? project.created_at, range))}
+        rowKey={(project) => project.id}
+        isLoading={projectsLoading}
+      />
+    </div>
+  );
+};
+
+export default ReportsCenter;
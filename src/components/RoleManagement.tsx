@@ -0,0 +1,165 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Search, UserCog } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/use-auth';
+import { usePermissions, useRoleAssignments, useSetUserRole, type RoleAssignment } from '@/hooks/use-permissions';
+import { useCustomers, useLinkPortalCustomer } from '@/hooks/use-customers';
+import { APP_ROLES, PERMISSIONS, getAssignableRoles, type AppRole } from '@/lib/permissions';
+
+const RoleManagement = () => {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const { roles: myRoles } = usePermissions();
+  const { data: assignments = [], isLoading } = useRoleAssignments();
+  const setUserRole = useSetUserRole();
+  const { data: customers = [] } = useCustomers();
+  const linkPortalCustomer = useLinkPortalCustomer();
+  const [search, setSearch] = useState('');
+
+  const assignable = getAssignableRoles(myRoles);
+
+  const filteredAssignments = assignments.filter(({ profile }) => {
+    const term = search.trim().toLowerCase();
+    if (!term) return true;
+    return [profile.full_name, profile.email].some(value => value?.toLowerCase().includes(term));
+  });
+
+  // Admins cannot take their own admin access away and lock themselves out
+  const isLocked = (assignment: RoleAssignment, role: AppRole) => {
+    if (!assignable.includes(role)) return true;
+    if (assignment.profile.id !== user?.id || !assignment.roles.includes(role)) return false;
+    return !assignment.roles.some(other => other !== role && PERMISSIONS['roles.manage'].includes(other));
+  };
+
+  const handleToggle = async (assignment: RoleAssignment, role: AppRole, granted: boolean) => {
+    try {
+      await setUserRole.mutateAsync({ userId: assignment.profile.id, role, granted });
+      toast({
+        title: "Success",
+        description: `${granted ? 'Granted' : 'Removed'} ${role} for ${assignment.profile.full_name || assignment.profile.email}`,
+      });
+    } catch (error) {
+      console.error('Error updating user role:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update role",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleLinkCustomer = async (assignment: RoleAssignment, customerId: string | null) => {
+    try {
+      await linkPortalCustomer.mutateAsync({ userId: assignment.profile.id, customerId });
+      toast({
+        title: "Success",
+        description: customerId
+          ? `${assignment.profile.full_name || assignment.profile.email} can now see ${customers.find(customer => customer.id === customerId)?.name} in the client portal`
+          : `Unlinked ${assignment.profile.full_name || assignment.profile.email} from the client portal`,
+      });
+    } catch (error) {
+      console.error('Error linking portal customer:', error);
+      toast({
+        title: "Error",
+        description: "Failed to link customer account",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-3xl font-bold text-foreground">User Roles</h2>
+        <p className="text-muted-foreground">Control what each account can see and change</p>
+      </div>
+
+      <Card className="bg-card border-border shadow-industrial">
+        <CardHeader>
+          <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+            <CardTitle className="text-foreground flex items-center gap-2">
+              <UserCog className="h-5 w-5 text-primary" />
+              Accounts ({assignments.length})
+            </CardTitle>
+            <div className="relative">
+              <Search className="h-4 w-4 absolute left-3 top-3 text-muted-foreground" />
+              <Input
+                className="pl-9"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Search name or email"
+              />
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading accounts...</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Account</TableHead>
+                  {APP_ROLES.map((role) => (
+                    <TableHead key={role} className="text-center">{role}</TableHead>
+                  ))}
+                  <TableHead>Customer Account</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredAssignments.map((assignment) => (
+                  <TableRow key={assignment.profile.id}>
+                    <TableCell>
+                      <div className="font-medium text-foreground">{assignment.profile.full_name || 'Unnamed'}</div>
+                      <div className="text-xs text-muted-foreground">{assignment.profile.email}</div>
+                      {assignment.roles.length === 0 && (
+                        <div className="text-xs text-yellow-400">No role yet; can only see the dashboard</div>
+                      )}
+                    </TableCell>
+                    {APP_ROLES.map((role) => (
+                      <TableCell key={role} className="text-center">
+                        <Checkbox
+                          checked={assignment.roles.includes(role)}
+                          disabled={isLocked(assignment, role) || setUserRole.isPending}
+                          onCheckedChange={(checked) => handleToggle(assignment, role, checked === true)}
+                          aria-label={`${role} for ${assignment.profile.email}`}
+                        />
+                      </TableCell>
+                    ))}
+                    <TableCell>
+                      {/* Client accounts see the records of the customer they are linked to */}
+                      {assignment.roles.includes('Client') && (
+                        <Select
+                          value={customers.find(customer => customer.portal_user_id === assignment.profile.id)?.id ?? 'none'}
+                          onValueChange={(value) => handleLinkCustomer(assignment, value === 'none' ? null : value)}
+                          disabled={assignable.length === 0 || linkPortalCustomer.isPending}
+                        >
+                          <SelectTrigger className="w-48">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="none">Not linked</SelectItem>
+                            {customers.map((customer) => (
+                              <SelectItem key={customer.id} value={customer.id}>{customer.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default RoleManagement;
@@ -0,0 +1,145 @@
+import React, { useEffect } from 'react';
+import { format } from 'date-fns';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { useToast } from '@/hooks/use-toast';
+import { useLogMaintenanceService } from '@/hooks/use-maintenance';
+import {
+  getCurrentMiles,
+  getServiceLogFormValues,
+  getServiceName,
+  serializeServiceLogForm,
+  serviceLogFormSchema,
+  type MaintenanceScheduleRecord,
+  type ServiceLogFormValues,
+  type VehicleMeter
+} from '@/lib/maintenance';
+
+interface ServiceLogFormProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  schedule: MaintenanceScheduleRecord | null;
+  meter: VehicleMeter | undefined;
+}
+
+const ServiceLogForm = ({ open, onOpenChange, schedule, meter }: ServiceLogFormProps) => {
+  const { toast } = useToast();
+  const logService = useLogMaintenanceService();
+  const currentMiles = getCurrentMiles(meter);
+  const currentHours = meter?.engine_hours ?? null;
+  const form = useForm<ServiceLogFormValues>({
+    resolver: zodResolver(serviceLogFormSchema),
+    defaultValues: getServiceLogFormValues(format(new Date(), 'yyyy-MM-dd'), currentMiles, currentHours),
+  });
+
+  useEffect(() => {
+    if (open) form.reset(getServiceLogFormValues(format(new Date(), 'yyyy-MM-dd'), currentMiles, currentHours));
+  }, [open, currentMiles, currentHours, form]);
+
+  const onSubmit = async (values: ServiceLogFormValues) => {
+    if (!schedule) return;
+    try {
+      await logService.mutateAsync(serializeServiceLogForm(values, schedule));
+      toast({
+        title: "Success",
+        description: `${getServiceName(schedule)} logged`,
+      });
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error logging service:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to log service",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Log Service{schedule ? `: ${getServiceName(schedule)}` : ''}</DialogTitle>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="performed_on"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Done On</FormLabel>
+                  <FormControl>
+                    <Input type="date" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="odometer_miles"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Odometer (miles)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min="0" step="1" {...field} value={field.value ?? ''} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="engine_hours"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Hour Meter</FormLabel>
+                    <FormControl>
+                      <Input type="number" min="0" step="0.1" {...field} value={field.value ?? ''} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="notes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Notes</FormLabel>
+                  <FormControl>
+                    <Textarea rows={2} placeholder="Parts, fluids, who did the work" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter className="pt-4 border-t border-border">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={logService.isPending || !schedule}
+                className="bg-primary hover:bg-primary/90 text-primary-foreground"
+              >
+                Log Service
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ServiceLogForm;
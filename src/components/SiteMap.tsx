@@ -0,0 +1,167 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import L from 'leaflet';
+import 'leaflet/dist/leaflet.css';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Map as MapIcon, MapPin } from 'lucide-react';
+import { useTracedSites } from '@/hooks/use-estimate-measurements';
+import { DEFAULT_MAP_CENTER, MAP_TILE_LAYERS, type TileLayerKey } from '@/lib/map-tiles';
+import {
+  MEASUREMENT_TARGETS,
+  MEASUREMENT_TARGET_COLORS,
+  MEASUREMENT_TARGET_KEYS,
+  type Position,
+  type TracedSite
+} from '@/lib/measurements';
+
+const toLatLng = ([x, y]: Position): L.LatLngTuple => [y, x];
+
+const siteBounds = (site: TracedSite) =>
+  L.latLngBounds(site.measurements.flatMap(measurement => measurement.coordinates.map(toLatLng)));
+
+// Built as DOM nodes so customer text is never parsed as HTML
+const popupContent = (site: TracedSite, label: string) => {
+  const container = document.createElement('div');
+  const title = document.createElement('strong');
+  title.textContent = site.customer || 'Unnamed estimate';
+  const detail = document.createElement('div');
+  detail.textContent = label;
+  container.append(title, detail);
+  return container;
+};
+
+const SiteMap = () => {
+  const navigate = useNavigate();
+  const { data: sites = [], isLoading } = useTracedSites();
+  const [tileLayer, setTileLayer] = useState<TileLayerKey>('satellite');
+
+  const containerRef = useRef<HTMLDivElement>(null);
+  const mapRef = useRef<L.Map | null>(null);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const map = L.map(container).setView(DEFAULT_MAP_CENTER, 12);
+    mapRef.current = map;
+    return () => {
+      map.remove();
+      mapRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map) return;
+    const config = MAP_TILE_LAYERS[tileLayer];
+    const layer = L.tileLayer(config.url, { attribution: config.attribution, maxZoom: config.maxZoom }).addTo(map);
+    map.setMaxZoom(config.maxZoom);
+    return () => {
+      layer.remove();
+    };
+  }, [tileLayer]);
+
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || sites.length === 0) return;
+
+    const overlay = L.layerGroup().addTo(map);
+    sites.forEach(site => {
+      site.measurements.forEach(measurement => {
+        const points = measurement.coordinates.map(toLatLng);
+        const color = MEASUREMENT_TARGET_COLORS[measurement.target];
+        const { label, shape, unit } = MEASUREMENT_TARGETS[measurement.target];
+        const layer = shape === 'polygon'
+          ? L.polygon(points, { color, weight: 2, fillOpacity: 0.25 })
+          : L.polyline(points, { color, weight: 4 });
+        layer
+          .bindPopup(popupContent(site, `${measurement.label || label}: ${Math.round(measurement.quantity).toLocaleString()} ${unit}`))
+          .addTo(overlay);
+      });
+    });
+    map.fitBounds(
+      L.latLngBounds(sites.flatMap(site => site.measurements.flatMap(measurement => measurement.coordinates.map(toLatLng)))),
+      { maxZoom: 18 }
+    );
+
+    return () => {
+      overlay.remove();
+    };
+  }, [sites]);
+
+  const focusSite = (site: TracedSite) => {
+    mapRef.current?.fitBounds(siteBounds(site), { maxZoom: 19 });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-3xl font-bold text-foreground">Mapping</h2>
+          <p className="text-muted-foreground">Job sites traced in the estimate calculator</p>
+        </div>
+        <Select value={tileLayer} onValueChange={(value) => setTileLayer(value as TileLayerKey)}>
+          <SelectTrigger className="w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(MAP_TILE_LAYERS) as TileLayerKey[]).map((key) => (
+              <SelectItem key={key} value={key}>{MAP_TILE_LAYERS[key].name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <Card className="lg:col-span-2 bg-card border-border shadow-industrial overflow-hidden">
+          <div ref={containerRef} className="h-[600px] w-full" />
+          <div className="flex flex-wrap gap-4 p-4 border-t border-border">
+            {MEASUREMENT_TARGET_KEYS.map((target) => (
+              <span key={target} className="flex items-center gap-2 text-xs text-muted-foreground">
+                <span className="h-3 w-3 rounded-full" style={{ backgroundColor: MEASUREMENT_TARGET_COLORS[target] }} />
+                {MEASUREMENT_TARGETS[target].label}
+              </span>
+            ))}
+          </div>
+        </Card>
+
+        <Card className="bg-card border-border shadow-industrial">
+          <CardHeader>
+            <CardTitle className="text-foreground flex items-center gap-2">
+              <MapIcon className="h-5 w-5 text-primary" />
+              Traced Sites ({sites.length})
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {isLoading && <p className="text-sm text-muted-foreground">Loading sites...</p>}
+            {!isLoading && sites.length === 0 && (
+              <p className="text-sm text-muted-foreground">
+                No traced sites yet. Use Measure on Map in the calculator to trace a lot.
+              </p>
+            )}
+            {sites.map((site) => (
+              <div key={site.estimateId} className="p-3 rounded-lg bg-muted/50 border border-border space-y-2">
+                <button type="button" className="text-left w-full" onClick={() => focusSite(site)}>
+                  <h3 className="font-medium text-foreground">{site.customer || 'Unnamed estimate'}</h3>
+                  <p className="text-sm text-muted-foreground flex items-center gap-1">
+                    <MapPin className="h-3 w-3" />
+                    {site.address || 'No site address'}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {site.measurements.length} measurement{site.measurements.length === 1 ? '' : 's'}
+                  </p>
+                </button>
+                <Button variant="outline" size="sm" onClick={() => navigate(`/calculator/${site.estimateId}`)}>
+                  Open Estimate
+                </Button>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default SiteMap;
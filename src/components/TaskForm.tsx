@@ -0,0 +1,330 @@
+import React, { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { useToast } from '@/hooks/use-toast';
+import { getEmployeeName, type EmployeeRecord } from '@/hooks/use-employees';
+import { useSaveTask } from '@/hooks/use-project-tasks';
+import {
+  TASK_PRIORITY_LABELS,
+  TASK_STATUS_LABELS,
+  getDependentTaskIds,
+  getTaskFormValues,
+  serializeTaskForm,
+  taskFormSchema,
+  type MilestoneRecord,
+  type ProjectTaskRecord,
+  type TaskFormValues,
+  type TaskPriority,
+  type TaskStatus
+} from '@/lib/project-tasks';
+
+// Select items can't have an empty value
+const NONE = 'none';
+
+interface TaskFormProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  projectId: string;
+  task?: ProjectTaskRecord | null; // edits this task; adds a new one when omitted
+  milestoneId?: string | null; // milestone a new task starts in
+  milestones: MilestoneRecord[];
+  tasks: ProjectTaskRecord[]; // the project's tasks, offered as dependencies
+  employees: EmployeeRecord[];
+}
+
+const TaskForm = ({ open, onOpenChange, projectId, task, milestoneId, milestones, tasks, employees }: TaskFormProps) => {
+  const { toast } = useToast();
+  const saveTask = useSaveTask();
+  const form = useForm<TaskFormValues>({
+    resolver: zodResolver(taskFormSchema),
+    defaultValues: getTaskFormValues(task, milestoneId),
+  });
+
+  useEffect(() => {
+    if (open) form.reset(getTaskFormValues(task, milestoneId));
+  }, [open, task, milestoneId, form]);
+
+  // A task can't wait on itself or on anything already waiting on it
+  const excluded = task ? getDependentTaskIds(task.id, tasks).add(task.id) : new Set<string>();
+  const dependencyOptions = tasks.filter(candidate => !excluded.has(candidate.id));
+
+  const onSubmit = async (values: TaskFormValues) => {
+    try {
+      await saveTask.mutateAsync({
+        id: task?.id,
+        values: { ...serializeTaskForm(values, task), project_id: projectId },
+      });
+      toast({
+        title: "Success",
+        description: task ? "Task updated" : "Task added",
+      });
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error saving task:', error);
+      toast({
+        title: "Error",
+        description: task ? "Failed to update task" : "Failed to add task",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{task ? 'Edit Task' : 'Add Task'}</DialogTitle>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="title"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Title</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g. Compact base stone" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Description</FormLabel>
+                  <FormControl>
+                    <Textarea rows={2} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="milestone_id"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Milestone</FormLabel>
+                    <Select value={field.value || NONE} onValueChange={(value) => field.onChange(value === NONE ? '' : value)}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={NONE}>No milestone</SelectItem>
+                        {milestones.map((milestone) => (
+                          <SelectItem key={milestone.id} value={milestone.id}>{milestone.title}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="assigned_to"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Assigned To</FormLabel>
+                    <Select value={field.value || NONE} onValueChange={(value) => field.onChange(value === NONE ? '' : value)}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={NONE}>Unassigned</SelectItem>
+                        {employees.map((employee) => (
+                          <SelectItem key={employee.id} value={employee.id}>
+                            {getEmployeeName(employee)}{employee.role ? ` (${employee.role})` : ''}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="status"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Status</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {(Object.keys(TASK_STATUS_LABELS) as TaskStatus[]).map((status) => (
+                          <SelectItem key={status} value={status}>{TASK_STATUS_LABELS[status]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="priority"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Priority</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {(Object.keys(TASK_PRIORITY_LABELS) as TaskPriority[]).map((priority) => (
+                          <SelectItem key={priority} value={priority}>{TASK_PRIORITY_LABELS[priority]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="progress"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Progress (%)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min="0" max="100" step="5" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="start_date"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Start Date</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="due_date"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Due Date</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="estimated_hours"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Estimated Hours</FormLabel>
+                    <FormControl>
+                      <Input type="number" min="0" step="0.5" {...field} value={field.value ?? ''} />
+                    </FormControl>
+                    <FormDescription>Weights the task in project progress</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="actual_hours"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Actual Hours</FormLabel>
+                    <FormControl>
+                      <Input type="number" min="0" step="0.5" {...field} value={field.value ?? ''} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            {dependencyOptions.length > 0 && (
+              <FormField
+                control={form.control}
+                name="dependencies"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Depends On</FormLabel>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-2 max-h-40 overflow-y-auto rounded-md border border-border p-3">
+                      {dependencyOptions.map((option) => (
+                        <label key={option.id} className="flex items-center gap-2 text-sm">
+                          <Checkbox
+                            checked={field.value.includes(option.id)}
+                            onCheckedChange={(checked) =>
+                              field.onChange(checked
+                                ? [...field.value, option.id]
+                                : field.value.filter(id => id !== option.id))}
+                          />
+                          {option.title}
+                        </label>
+                      ))}
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            <DialogFooter className="pt-4 border-t border-border">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={saveTask.isPending}
+                className="bg-primary hover:bg-primary/90 text-primary-foreground"
+              >
+                {task ? 'Save Changes' : 'Add Task'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TaskForm;
@@ -0,0 +1,49 @@
+import React from 'react';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import PunchClock from '@/components/PunchClock';
+import TimesheetApprovals from '@/components/TimesheetApprovals';
+import PayrollExport from '@/components/PayrollExport';
+import { usePermissions } from '@/hooks/use-permissions';
+
+// Crew only ever see the clock; leads and the office also review and export
+const TimeTracking = () => {
+  const { can } = usePermissions();
+  const canApprove = can('timesheets.approve');
+  const canExport = can('payroll.export');
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-3xl font-bold text-foreground">Time Clock</h2>
+        <p className="text-muted-foreground">Clock in and out of jobs, review timesheets and export hours for payroll</p>
+      </div>
+
+      {canApprove || canExport ? (
+        <Tabs defaultValue="clock" className="space-y-6">
+          <TabsList>
+            <TabsTrigger value="clock">My Time</TabsTrigger>
+            {canApprove && <TabsTrigger value="approvals">Approvals</TabsTrigger>}
+            {canExport && <TabsTrigger value="payroll">Payroll</TabsTrigger>}
+          </TabsList>
+          <TabsContent value="clock">
+            <PunchClock />
+          </TabsContent>
+          {canApprove && (
+            <TabsContent value="approvals">
+              <TimesheetApprovals />
+            </TabsContent>
+          )}
+          {canExport && (
+            <TabsContent value="payroll">
+              <PayrollExport />
+            </TabsContent>
+          )}
+        </Tabs>
+      ) : (
+        <PunchClock />
+      )}
+    </div>
+  );
+};
+
+export default TimeTracking;
@@ -0,0 +1,223 @@
+import React, { useState } from 'react';
+import { addWeeks, format, parseISO } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Check, ChevronLeft, ChevronRight, MapPin, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  useCurrentEmployee,
+  useReviewTimesheets,
+  useTimesheets,
+  type TimesheetEntry
+} from '@/hooks/use-time-clock';
+import {
+  TIME_RECORD_STATUS_LABELS,
+  getLocationLink,
+  getWorkweekRange,
+  type TimeRecordStatus
+} from '@/lib/time-clock';
+
+// Select items can't have an empty value
+const ALL = 'all';
+
+const PunchLocationLink = ({ latitude, longitude, accuracy }: { latitude: number | null; longitude: number | null; accuracy: number | null }) =>
+  latitude === null || longitude === null ? (
+    <span className="text-xs text-yellow-400">No location</span>
+  ) : (
+    <a
+      href={getLocationLink(latitude, longitude)}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="text-xs text-primary hover:underline inline-flex items-center gap-1"
+    >
+      <MapPin className="h-3 w-3" />
+      ±{accuracy ?? '?'} m
+    </a>
+  );
+
+const TimesheetApprovals = () => {
+  const { toast } = useToast();
+  const [weekOffset, setWeekOffset] = useState(0);
+  const [status, setStatus] = useState<TimeRecordStatus | typeof ALL>('pending');
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const week = getWorkweekRange(addWeeks(new Date(), weekOffset));
+  const { data: employee } = useCurrentEmployee();
+  const { data: shifts = [], isLoading } = useTimesheets(week, { status: status === ALL ? undefined : status });
+  const reviewTimesheets = useReviewTimesheets();
+
+  // Nobody signs off on their own hours, and exported time is settled
+  const canReview = (shift: TimesheetEntry) =>
+    shift.employee_id !== employee?.id && !!shift.clock_out && !shift.exported_at;
+  const reviewable = shifts.filter(canReview);
+  const selected = selectedIds.filter(id => reviewable.some(shift => shift.id === id));
+
+  const review = async (ids: string[], nextStatus: 'approved' | 'rejected') => {
+    try {
+      await reviewTimesheets.mutateAsync({ ids, status: nextStatus });
+      setSelectedIds(current => current.filter(id => !ids.includes(id)));
+      toast({
+        title: "Success",
+        description: `${ids.length} ${ids.length === 1 ? 'shift' : 'shifts'} ${nextStatus}`,
+      });
+    } catch (error) {
+      console.error('Error reviewing time:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to review time",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card className="bg-card border-border shadow-industrial">
+      <CardHeader className="space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <CardTitle className="text-foreground">Timesheet Approvals</CardTitle>
+            <p className="text-sm text-muted-foreground">
+              Week of {format(parseISO(week.from), 'MMM d')} – {format(parseISO(week.to), 'MMM d, yyyy')}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={() => setWeekOffset(weekOffset - 1)}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setWeekOffset(0)} disabled={weekOffset === 0}>
+              This Week
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setWeekOffset(weekOffset + 1)} disabled={weekOffset >= 0}>
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+            <Select value={status} onValueChange={(value) => setStatus(value as TimeRecordStatus | typeof ALL)}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All shifts</SelectItem>
+                {(Object.keys(TIME_RECORD_STATUS_LABELS) as TimeRecordStatus[]).map((option) => (
+                  <SelectItem key={option} value={option}>{TIME_RECORD_STATUS_LABELS[option]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        {selected.length > 0 && (
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-muted-foreground">{selected.length} selected</span>
+            <Button
+              size="sm"
+              onClick={() => review(selected, 'approved')}
+              disabled={reviewTimesheets.isPending}
+              className="bg-primary hover:bg-primary/90 text-primary-foreground"
+            >
+              <Check className="h-4 w-4 mr-2" />
+              Approve
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => review(selected, 'rejected')} disabled={reviewTimesheets.isPending}>
+              <X className="h-4 w-4 mr-2" />
+              Reject
+            </Button>
+          </div>
+        )}
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading timesheets...</p>
+        ) : shifts.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No shifts to show for this week.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-8">
+                  <Checkbox
+                    checked={reviewable.length > 0 && selected.length === reviewable.length}
+                    onCheckedChange={(checked) => setSelectedIds(checked ? reviewable.map(shift => shift.id) : [])}
+                  />
+                </TableHead>
+                <TableHead>Employee</TableHead>
+                <TableHead>Project</TableHead>
+                <TableHead>Shift</TableHead>
+                <TableHead className="text-right">Break</TableHead>
+                <TableHead className="text-right">Hours</TableHead>
+                <TableHead className="text-right">Overtime</TableHead>
+                <TableHead>Punches</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {shifts.map((shift) => (
+                <TableRow key={shift.id}>
+                  <TableCell>
+                    <Checkbox
+                      checked={selected.includes(shift.id)}
+                      disabled={!canReview(shift)}
+                      onCheckedChange={(checked) =>
+                        setSelectedIds(current => (checked ? [...current, shift.id] : current.filter(id => id !== shift.id)))}
+                    />
+                  </TableCell>
+                  <TableCell className="font-medium text-foreground">
+                    {shift.employees ? `${shift.employees.first_name} ${shift.employees.last_name}` : '—'}
+                  </TableCell>
+                  <TableCell>{shift.projects?.name ?? '—'}</TableCell>
+                  <TableCell className="whitespace-nowrap">
+                    {shift.clock_in ? format(new Date(shift.clock_in), 'EEE MMM d, h:mm a') : shift.date}
+                    {shift.clock_out && ` – ${format(new Date(shift.clock_out), 'h:mm a')}`}
+                  </TableCell>
+                  <TableCell className="text-right">{shift.break_duration ?? 0} min</TableCell>
+                  <TableCell className="text-right">{shift.total_hours ?? '—'}</TableCell>
+                  <TableCell className="text-right">{shift.overtime_hours || '—'}</TableCell>
+                  <TableCell>
+                    <div className="flex flex-col gap-1">
+                      <PunchLocationLink
+                        latitude={shift.clock_in_latitude}
+                        longitude={shift.clock_in_longitude}
+                        accuracy={shift.clock_in_accuracy}
+                      />
+                      {shift.clock_out && (
+                        <PunchLocationLink
+                          latitude={shift.clock_out_latitude}
+                          longitude={shift.clock_out_longitude}
+                          accuracy={shift.clock_out_accuracy}
+                        />
+                      )}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline">
+                      {shift.exported_at ? 'Exported' : TIME_RECORD_STATUS_LABELS[shift.status as TimeRecordStatus] ?? shift.status}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-right whitespace-nowrap">
+                    {canReview(shift) && (
+                      <>
+                        {shift.status !== 'approved' && (
+                          <Button variant="ghost" size="sm" onClick={() => review([shift.id], 'approved')} disabled={reviewTimesheets.isPending}>
+                            <Check className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {shift.status !== 'rejected' && (
+                          <Button variant="ghost" size="sm" onClick={() => review([shift.id], 'rejected')} disabled={reviewTimesheets.isPending}>
+                            <X className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TimesheetApprovals;
@@ -0,0 +1,302 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { format } from 'date-fns';
+import L from 'leaflet';
+import 'leaflet/dist/leaflet.css';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Clock, Gauge, Pause, Play, Route, Square } from 'lucide-react';
+import { useVehicleTrack } from '@/hooks/use-fleet';
+import { DEFAULT_MAP_CENTER, MAP_TILE_LAYERS, type TileLayerKey } from '@/lib/map-tiles';
+import { formatMinutes } from '@/lib/time-clock';
+import { formatSpeed, type FleetAsset, type TrackingDevice } from '@/lib/fleet-tracking';
+import { getPositionAt, segmentTrips, summarizeTrips, type TrackPoint, type TripSegment } from '@/lib/trip-history';
+
+interface TripHistoryProps {
+  vehicles: FleetAsset[];
+  devices: TrackingDevice[];
+}
+
+// Track seconds played back per real second
+const PLAYBACK_SPEEDS = [30, 120, 600];
+
+const PLAYBACK_TICK_MS = 200;
+
+// Shared so an empty track doesn't redraw the map on every render
+const NO_POINTS: TrackPoint[] = [];
+
+const TRIP_COLORS = ['#3b82f6', '#f97316', '#a855f7', '#14b8a6', '#ec4899'];
+
+const toTime = (timestamp: string) => new Date(timestamp).getTime();
+
+const segmentBounds = (segment: TripSegment) =>
+  segment.kind === 'trip'
+    ? L.latLngBounds(segment.points.map(point => [point.latitude, point.longitude] as L.LatLngTuple))
+    : L.latLngBounds([[segment.latitude, segment.longitude]]);
+
+// Built as DOM nodes to match the other maps' popups
+const stopPopup = (start: string, end: string, minutes: number) => {
+  const container = document.createElement('div');
+  const title = document.createElement('strong');
+  title.textContent = `Stopped ${formatMinutes(minutes)}`;
+  const detail = document.createElement('div');
+  detail.textContent = `${format(new Date(start), 'h:mm a')} – ${format(new Date(end), 'h:mm a')}`;
+  container.append(title, detail);
+  return container;
+};
+
+const TripHistory = ({ vehicles, devices }: TripHistoryProps) => {
+  const trackedVehicles = vehicles.filter(vehicle => devices.some(device => device.vehicle_id === vehicle.id));
+  const [vehicleId, setVehicleId] = useState('');
+  const [day, setDay] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+  const [tileLayer, setTileLayer] = useState<TileLayerKey>('streets');
+  const [playhead, setPlayhead] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [playbackSpeed, setPlaybackSpeed] = useState(PLAYBACK_SPEEDS[1]);
+  const { data: points = NO_POINTS, isLoading } = useVehicleTrack(vehicleId || undefined, day);
+
+  const segments = useMemo(() => segmentTrips(points), [points]);
+  const summary = summarizeTrips(segments);
+  const dayStart = points.length > 0 ? toTime(points[0].timestamp) : 0;
+  const dayEnd = points.length > 0 ? toTime(points[points.length - 1].timestamp) : 0;
+  const position = getPositionAt(points, playhead);
+
+  const containerRef = useRef<HTMLDivElement>(null);
+  const mapRef = useRef<L.Map | null>(null);
+  const playbackMarkerRef = useRef<L.CircleMarker | null>(null);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const map = L.map(container).setView(DEFAULT_MAP_CENTER, 12);
+    mapRef.current = map;
+    return () => {
+      map.remove();
+      mapRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map) return;
+    const config = MAP_TILE_LAYERS[tileLayer];
+    const layer = L.tileLayer(config.url, { attribution: config.attribution, maxZoom: config.maxZoom }).addTo(map);
+    map.setMaxZoom(config.maxZoom);
+    return () => {
+      layer.remove();
+    };
+  }, [tileLayer]);
+
+  // A new day or vehicle rewinds to the first fix
+  useEffect(() => {
+    setIsPlaying(false);
+    setPlayhead(dayStart);
+  }, [dayStart]);
+
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || points.length === 0) return;
+
+    const overlay = L.layerGroup().addTo(map);
+    let tripNumber = 0;
+    segments.forEach(segment => {
+      if (segment.kind === 'trip') {
+        L.polyline(segment.points.map(point => [point.latitude, point.longitude] as L.LatLngTuple), {
+          color: TRIP_COLORS[tripNumber++ % TRIP_COLORS.length],
+          weight: 4
+        }).addTo(overlay);
+      } else {
+        L.circleMarker([segment.latitude, segment.longitude], { radius: 7, color: '#ef4444', fillOpacity: 0.8 })
+          .bindPopup(stopPopup(segment.start, segment.end, segment.minutes))
+          .addTo(overlay);
+      }
+    });
+    playbackMarkerRef.current = L.circleMarker([points[0].latitude, points[0].longitude], {
+      radius: 9,
+      color: '#ffffff',
+      weight: 3,
+      fillColor: '#22c55e',
+      fillOpacity: 1
+    }).addTo(overlay);
+    map.fitBounds(L.latLngBounds(points.map(point => [point.latitude, point.longitude] as L.LatLngTuple)), { padding: [40, 40] });
+
+    return () => {
+      overlay.remove();
+      playbackMarkerRef.current = null;
+    };
+  }, [points, segments]);
+
+  useEffect(() => {
+    if (position) playbackMarkerRef.current?.setLatLng([position.latitude, position.longitude]);
+  }, [position]);
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    const timer = window.setInterval(() => {
+      setPlayhead(current => Math.min(current + playbackSpeed * PLAYBACK_TICK_MS, dayEnd));
+    }, PLAYBACK_TICK_MS);
+    return () => window.clearInterval(timer);
+  }, [isPlaying, playbackSpeed, dayEnd]);
+
+  useEffect(() => {
+    if (isPlaying && playhead >= dayEnd) setIsPlaying(false);
+  }, [isPlaying, playhead, dayEnd]);
+
+  const togglePlayback = () => {
+    if (!isPlaying && playhead >= dayEnd) setPlayhead(dayStart);
+    setIsPlaying(!isPlaying);
+  };
+
+  const focusSegment = (segment: TripSegment) => {
+    setIsPlaying(false);
+    setPlayhead(toTime(segment.start));
+    mapRef.current?.fitBounds(segmentBounds(segment), { padding: [40, 40], maxZoom: 17 });
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card className="bg-card border-border shadow-industrial">
+        <CardContent className="pt-6">
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="space-y-2">
+              <Label>Vehicle</Label>
+              <Select value={vehicleId} onValueChange={setVehicleId}>
+                <SelectTrigger className="w-56">
+                  <SelectValue placeholder="Choose a vehicle" />
+                </SelectTrigger>
+                <SelectContent>
+                  {trackedVehicles.map((vehicle) => (
+                    <SelectItem key={vehicle.id} value={vehicle.id}>{vehicle.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="trip-day">Day</Label>
+              <Input
+                id="trip-day"
+                type="date"
+                value={day}
+                max={format(new Date(), 'yyyy-MM-dd')}
+                onChange={(event) => setDay(event.target.value)}
+              />
+            </div>
+            <Select value={tileLayer} onValueChange={(value) => setTileLayer(value as TileLayerKey)}>
+              <SelectTrigger className="w-36 ml-auto">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(MAP_TILE_LAYERS) as TileLayerKey[]).map((key) => (
+                  <SelectItem key={key} value={key}>{MAP_TILE_LAYERS[key].name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        {[
+          { label: 'Miles', value: summary.miles.toLocaleString() },
+          { label: 'Driving', value: formatMinutes(summary.drivingMinutes) },
+          { label: 'Idle', value: formatMinutes(summary.idleMinutes) },
+          { label: 'Stopped', value: `${formatMinutes(summary.stoppedMinutes)} (${summary.stops})` },
+          { label: 'Max Speed', value: formatSpeed(points.length > 0 ? summary.maxSpeed : null) },
+        ].map((stat) => (
+          <Card key={stat.label} className="bg-card border-border">
+            <CardContent className="pt-6">
+              <p className="text-sm text-muted-foreground">{stat.label}</p>
+              <p className="text-2xl font-bold text-foreground">{stat.value}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <Card className="lg:col-span-2 bg-card border-border shadow-industrial overflow-hidden">
+          <div ref={containerRef} className="h-[500px] w-full" />
+          <div className="p-4 border-t border-border space-y-3">
+            <div className="flex items-center gap-3">
+              <Button size="sm" variant="outline" onClick={togglePlayback} disabled={points.length < 2}>
+                {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+              </Button>
+              <Slider
+                value={[playhead]}
+                min={dayStart}
+                max={dayEnd}
+                step={1000}
+                disabled={points.length < 2}
+                onValueChange={([value]) => setPlayhead(value)}
+                className="flex-1"
+              />
+              <Select value={String(playbackSpeed)} onValueChange={(value) => setPlaybackSpeed(Number(value))}>
+                <SelectTrigger className="w-24">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PLAYBACK_SPEEDS.map((speed) => (
+                    <SelectItem key={speed} value={String(speed)}>{speed}×</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex flex-wrap gap-4 text-sm text-muted-foreground">
+              <span className="flex items-center gap-1">
+                <Clock className="h-4 w-4" />
+                {position ? format(new Date(position.timestamp), 'h:mm:ss a') : '—'}
+              </span>
+              <span className="flex items-center gap-1">
+                <Gauge className="h-4 w-4" />
+                {position ? formatSpeed(position.speed) : '—'}
+              </span>
+            </div>
+          </div>
+        </Card>
+
+        <Card className="bg-card border-border shadow-industrial">
+          <CardHeader>
+            <CardTitle className="text-foreground flex items-center gap-2">
+              <Route className="h-5 w-5 text-primary" />
+              Trips and Stops
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3 max-h-[560px] overflow-y-auto">
+            {!vehicleId && <p className="text-sm text-muted-foreground">Choose a vehicle to see where it went.</p>}
+            {vehicleId && isLoading && <p className="text-sm text-muted-foreground">Loading the day's track...</p>}
+            {vehicleId && !isLoading && points.length === 0 && (
+              <p className="text-sm text-muted-foreground">No positions were recorded that day.</p>
+            )}
+            {segments.map((segment) => (
+              <button
+                key={`${segment.kind}-${segment.start}`}
+                type="button"
+                onClick={() => focusSegment(segment)}
+                className="w-full text-left p-3 rounded-lg bg-muted/50 border border-border space-y-1"
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-medium text-foreground flex items-center gap-2">
+                    {segment.kind === 'trip' ? <Route className="h-4 w-4" /> : <Square className="h-4 w-4 text-red-400" />}
+                    {segment.kind === 'trip' ? `${segment.miles} mi` : `Stopped ${formatMinutes(segment.minutes)}`}
+                  </span>
+                  <span className="text-xs text-muted-foreground">
+                    {format(new Date(segment.start), 'h:mm a')} – {format(new Date(segment.end), 'h:mm a')}
+                  </span>
+                </div>
+                {segment.kind === 'trip' && (
+                  <p className="text-xs text-muted-foreground">
+                    {formatMinutes(segment.drivingMinutes)} driving, {formatMinutes(segment.idleMinutes)} idle, top speed {formatSpeed(segment.maxSpeed)}
+                  </p>
+                )}
+              </button>
+            ))}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default TripHistory;
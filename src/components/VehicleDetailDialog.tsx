@@ -0,0 +1,123 @@
+import React from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useLatestLocations, useVehicleDetail } from '@/hooks/use-fleet';
+import { getLocationLink } from '@/lib/time-clock';
+import {
+  VEHICLE_STATUS_COLORS,
+  formatBattery,
+  formatHeading,
+  formatSpeed,
+  getDeviceStatus,
+  type FleetAsset,
+  type TrackingDevice
+} from '@/lib/fleet-tracking';
+
+interface VehicleDetailDialogProps {
+  vehicle: FleetAsset | null;
+  devices: TrackingDevice[];
+  onOpenChange: (open: boolean) => void;
+}
+
+const formatDate = (value: string | null | undefined) =>
+  value ? new Date(value).toLocaleDateString() : 'Not set';
+
+const DetailRow = ({ label, value }: { label: string; value: React.ReactNode }) => (
+  <div>
+    <p className="text-muted-foreground">{label}</p>
+    <p className="font-medium text-foreground">{value}</p>
+  </div>
+);
+
+const VehicleDetailDialog = ({ vehicle, devices, onOpenChange }: VehicleDetailDialogProps) => {
+  const { data: detail, isLoading } = useVehicleDetail(vehicle?.id);
+  const { data: locations = [] } = useLatestLocations();
+  const trackers = devices.filter(device => vehicle && device.vehicle_id === vehicle.id);
+
+  return (
+    <Dialog open={!!vehicle} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{vehicle?.name}</DialogTitle>
+          <DialogDescription>
+            {[vehicle?.year, vehicle?.make, vehicle?.model].filter(Boolean).join(' ') || 'No make or model recorded'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {vehicle && (
+          <div className="space-y-6 text-sm">
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+              <DetailRow label="Type" value={<span className="capitalize">{vehicle.type}</span>} />
+              <DetailRow label="License Plate" value={vehicle.license_plate || 'Not set'} />
+              <DetailRow label="VIN" value={vehicle.vin || 'Not set'} />
+              <DetailRow label="Registration Expiry" value={formatDate(vehicle.registration_expiry)} />
+              <DetailRow label="Insurance Expiry" value={formatDate(detail?.insurance_expiry)} />
+              <DetailRow label="Insurance Company" value={detail?.insurance_company || 'Not specified'} />
+            </div>
+
+            <div className="space-y-3">
+              <h4 className="font-semibold text-foreground">Tracking</h4>
+              {trackers.length === 0 && <p className="text-muted-foreground">No tracker is fitted to this vehicle.</p>}
+              {trackers.map((device) => {
+                const status = getDeviceStatus(device);
+                const location = locations.find(candidate => candidate.device_id === device.id);
+                return (
+                  <div key={device.id} className="p-3 rounded-lg border border-border space-y-2">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-medium text-foreground">{device.name} - {device.type}</span>
+                      <Badge className={VEHICLE_STATUS_COLORS[status]}>{status}</Badge>
+                    </div>
+                    {location ? (
+                      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                        <DetailRow label="Speed" value={formatSpeed(location.speed)} />
+                        <DetailRow label="Heading" value={formatHeading(location.heading)} />
+                        <DetailRow label="Battery" value={formatBattery(location.battery_level)} />
+                        <DetailRow
+                          label="Last Fix"
+                          value={
+                            <a
+                              href={getLocationLink(location.latitude, location.longitude)}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="text-primary hover:underline"
+                            >
+                              {formatDistanceToNow(new Date(location.timestamp), { addSuffix: true })}
+                            </a>
+                          }
+                        />
+                      </div>
+                    ) : (
+                      <p className="text-muted-foreground">No position reported yet.</p>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+
+            <div className="space-y-3">
+              <h4 className="font-semibold text-foreground">Service</h4>
+              {isLoading ? (
+                <p className="text-muted-foreground">Loading service details...</p>
+              ) : !detail ? (
+                <p className="text-muted-foreground">No service details recorded for this vehicle.</p>
+              ) : (
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  <DetailRow label="Last Oil Change" value={formatDate(detail.last_oil_change_date)} />
+                  <DetailRow label="Mileage" value={detail.last_oil_change_mileage?.toLocaleString() || 'N/A'} />
+                  <DetailRow label="Next Service Due" value={detail.next_oil_change_due_mileage?.toLocaleString() || 'N/A'} />
+                  <DetailRow label="Oil Type" value={detail.oil_type || 'Not specified'} />
+                  <DetailRow label="Engine" value={detail.engine_type || 'Not specified'} />
+                  <DetailRow label="Front Tire Pressure" value={detail.tire_pressure_front ? `${detail.tire_pressure_front} psi` : 'N/A'} />
+                  <DetailRow label="Rear Tire Pressure" value={detail.tire_pressure_rear ? `${detail.tire_pressure_rear} psi` : 'N/A'} />
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default VehicleDetailDialog;
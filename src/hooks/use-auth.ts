@@ -0,0 +1,24 @@
+import { createContext, useContext } from 'react';
+import type { Session, User } from '@supabase/supabase-js';
+
+export interface AuthContextValue {
+  session: Session | null;
+  user: User | null;
+  loading: boolean; // true until the stored session has been checked
+  signOut: () => Promise<void>;
+}
+
+export const AuthContext = createContext<AuthContextValue | null>(null);
+
+export const useAuth = () => {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+};
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+// Where auth emails send people back to
+export const getAuthRedirectUrl = (path: string = '/') => `${window.location.origin}${path}`;
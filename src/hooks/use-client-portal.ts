@@ -0,0 +1,92 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/use-auth';
+import type {
+  PortalContract,
+  PortalEstimate,
+  PortalMilestone,
+  PortalPayment,
+  PortalProject,
+  PortalProposal
+} from '@/lib/client-portal';
+
+export const CLIENT_PORTAL_QUERY_KEY = ['client_portal'];
+
+export interface ClientPortalData {
+  projects: PortalProject[];
+  milestones: PortalMilestone[];
+  estimates: PortalEstimate[];
+  proposals: PortalProposal[];
+  payments: PortalPayment[];
+  contracts: PortalContract[];
+}
+
+// The views already limit rows to the signed-in customer's records
+export const useClientPortal = () => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: [...CLIENT_PORTAL_QUERY_KEY, user?.id],
+    enabled: !!user,
+    queryFn: async (): Promise<ClientPortalData> => {
+      const [projects, milestones, estimates, proposals, payments, contracts] = await Promise.all([
+        supabase.from('client_portal_projects').select('*').order('start_date', { ascending: false }),
+        supabase.from('client_portal_milestones').select('*').order('target_date', { ascending: true }),
+        supabase.from('client_portal_estimates').select('*').order('sent_at', { ascending: false }),
+        supabase.from('client_portal_proposals').select('*').order('created_at', { ascending: false }),
+        supabase.from('client_portal_payments').select('*').order('payment_date', { ascending: false }),
+        supabase.from('client_portal_contracts').select('*').order('signed_at', { ascending: false }),
+      ]);
+
+      for (const result of [projects, milestones, estimates, proposals, payments, contracts]) {
+        if (result.error) throw result.error;
+      }
+      return {
+        projects: projects.data || [],
+        milestones: milestones.data || [],
+        estimates: estimates.data || [],
+        proposals: proposals.data || [],
+        payments: payments.data || [],
+        contracts: contracts.data || [],
+      };
+    },
+  });
+};
+
+export const useAcceptPortalEstimate = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (estimateId: string) => {
+      const { error } = await supabase.rpc('client_accept_estimate', { _estimate_id: estimateId });
+      if (error) throw error;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: CLIENT_PORTAL_QUERY_KEY }),
+  });
+};
+
+export const useAcceptPortalProposal = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (proposalId: string) => {
+      const { error } = await supabase.rpc('client_accept_proposal', { _proposal_id: proposalId });
+      if (error) throw error;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: CLIENT_PORTAL_QUERY_KEY }),
+  });
+};
+
+// Records a pending payment and returns its id, used as the payment reference
+export const useStartPortalPayment = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ proposalId, amount }: { proposalId: string; amount: number }) => {
+      const { data, error } = await supabase.rpc('client_start_payment', { _proposal_id: proposalId, _amount: amount });
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: CLIENT_PORTAL_QUERY_KEY }),
+  });
+};
@@ -0,0 +1,47 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export const CUSTOMERS_QUERY_KEY = ['customers'];
+
+export type CustomerRecord = Tables<'customers'>;
+
+export const useCustomers = () =>
+  useQuery({
+    queryKey: CUSTOMERS_QUERY_KEY,
+    queryFn: async (): Promise<CustomerRecord[]> => {
+      const { data, error } = await supabase
+        .from('customers')
+        .select('*')
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+// A portal account sees one customer's records; linking a new customer
+// unlinks whichever one the account had before
+export const useLinkPortalCustomer = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ userId, customerId }: { userId: string; customerId: string | null }) => {
+      const { error: unlinkError } = await supabase
+        .from('customers')
+        .update({ portal_user_id: null })
+        .eq('portal_user_id', userId);
+
+      if (unlinkError) throw unlinkError;
+      if (!customerId) return;
+
+      const { error } = await supabase
+        .from('customers')
+        .update({ portal_user_id: userId })
+        .eq('id', customerId);
+
+      if (error) throw error;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: CUSTOMERS_QUERY_KEY }),
+  });
+};
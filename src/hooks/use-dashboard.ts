@@ -0,0 +1,127 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  buildDashboardMetrics,
+  type DashboardDevice,
+  type DashboardJob,
+  type DashboardMilestone,
+  type DashboardProject,
+  type DashboardSchedule,
+  type DashboardTask
+} from '@/lib/dashboard';
+
+// Keys start with the table name so invalidating a table elsewhere also
+// refreshes the dashboard
+const dashboardKey = (table: string) => [table, 'dashboard'];
+
+const DASHBOARD_REFRESH_MS = 5 * 60 * 1000;
+
+const useDashboardProjects = () =>
+  useQuery({
+    queryKey: dashboardKey('projects'),
+    refetchInterval: DASHBOARD_REFRESH_MS,
+    queryFn: async (): Promise<DashboardProject[]> => {
+      const { data, error } = await supabase
+        .from('projects')
+        .select('id, name, status, project_type, start_date, end_date, site_address, created_at')
+        .is('archived_at', null);
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+const useDashboardMilestones = () =>
+  useQuery({
+    queryKey: dashboardKey('project_milestones'),
+    refetchInterval: DASHBOARD_REFRESH_MS,
+    queryFn: async (): Promise<DashboardMilestone[]> => {
+      const { data, error } = await supabase
+        .from('project_milestones')
+        .select('id, project_id, status, target_date, completed_date');
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+const useDashboardTasks = () =>
+  useQuery({
+    queryKey: dashboardKey('project_tasks'),
+    refetchInterval: DASHBOARD_REFRESH_MS,
+    queryFn: async (): Promise<DashboardTask[]> => {
+      const { data, error } = await supabase
+        .from('project_tasks')
+        .select('id, project_id, status, progress, estimated_hours');
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+const useDashboardJobs = () =>
+  useQuery({
+    queryKey: dashboardKey('jobs'),
+    refetchInterval: DASHBOARD_REFRESH_MS,
+    queryFn: async (): Promise<DashboardJob[]> => {
+      const { data, error } = await supabase
+        .from('jobs')
+        .select('id, status, created_at');
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+const useDashboardSchedules = () =>
+  useQuery({
+    queryKey: dashboardKey('work_schedules'),
+    refetchInterval: DASHBOARD_REFRESH_MS,
+    queryFn: async (): Promise<DashboardSchedule[]> => {
+      const { data, error } = await supabase
+        .from('work_schedules')
+        .select('id, status, scheduled_start');
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+const useDashboardDevices = () =>
+  useQuery({
+    queryKey: dashboardKey('devices'),
+    refetchInterval: DASHBOARD_REFRESH_MS,
+    queryFn: async (): Promise<DashboardDevice[]> => {
+      const { data, error } = await supabase
+        .from('devices')
+        .select('id, status, last_seen');
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+export const useDashboardMetrics = () => {
+  const queries = [
+    useDashboardProjects(),
+    useDashboardMilestones(),
+    useDashboardTasks(),
+    useDashboardJobs(),
+    useDashboardSchedules(),
+    useDashboardDevices(),
+  ] as const;
+  const [projects, milestones, tasks, jobs, schedules, devices] = queries;
+
+  return {
+    metrics: buildDashboardMetrics({
+      projects: projects.data ?? [],
+      milestones: milestones.data ?? [],
+      tasks: tasks.data ?? [],
+      jobs: jobs.data ?? [],
+      schedules: schedules.data ?? [],
+      devices: devices.data ?? [],
+    }),
+    isLoading: queries.some(query => query.isLoading),
+    error: queries.find(query => query.error)?.error ?? null,
+  };
+};
@@ -0,0 +1,141 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import {
+  fromSchedulingEntry,
+  fromWorkSchedule,
+  type Booking,
+  type BookingKind,
+  type EquipmentRecord
+} from '@/lib/dispatch';
+
+// Keys start with the table name, like the dashboard's, so a change made on
+// the board refreshes everything that reads the same table
+export const EQUIPMENT_QUERY_KEY = ['equipment'];
+export const CREW_BOOKINGS_QUERY_KEY = ['work_schedules'];
+export const EQUIPMENT_BOOKINGS_QUERY_KEY = ['scheduling_entries'];
+
+export type DispatchJob = Pick<Tables<'jobs'>, 'id' | 'title' | 'status' | 'priority' | 'location_address' | 'crew_size_required' | 'equipment_needed'>;
+
+export const useEquipment = () =>
+  useQuery({
+    queryKey: EQUIPMENT_QUERY_KEY,
+    queryFn: async (): Promise<EquipmentRecord[]> => {
+      const { data, error } = await supabase
+        .from('equipment')
+        .select('*')
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+export const useDispatchJobs = () =>
+  useQuery({
+    queryKey: ['jobs', 'dispatch'],
+    queryFn: async (): Promise<DispatchJob[]> => {
+      const { data, error } = await supabase
+        .from('jobs')
+        .select('id, title, status, priority, location_address, crew_size_required, equipment_needed')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+// Crew and equipment bookings that overlap the range
+export const useBookings = (range: { start: Date; end: Date }) => {
+  const from = range.start.toISOString();
+  const to = range.end.toISOString();
+
+  const crew = useQuery({
+    queryKey: [...CREW_BOOKINGS_QUERY_KEY, from, to],
+    queryFn: async (): Promise<Booking[]> => {
+      const { data, error } = await supabase
+        .from('work_schedules')
+        .select('*')
+        .lt('scheduled_start', to)
+        .gt('scheduled_end', from);
+
+      if (error) throw error;
+      return (data || []).map(fromWorkSchedule).filter(Boolean);
+    },
+  });
+
+  const equipment = useQuery({
+    queryKey: [...EQUIPMENT_BOOKINGS_QUERY_KEY, from, to],
+    queryFn: async (): Promise<Booking[]> => {
+      const { data, error } = await supabase
+        .from('scheduling_entries')
+        .select('*')
+        .lt('start_time', to)
+        .gt('end_time', from);
+
+      if (error) throw error;
+      return (data || []).map(fromSchedulingEntry).filter(Boolean);
+    },
+  });
+
+  return {
+    bookings: [...(crew.data ?? []), ...(equipment.data ?? [])],
+    isLoading: crew.isLoading || equipment.isLoading,
+  };
+};
+
+const bookingsKey = (kind: BookingKind) => (kind === 'crew' ? CREW_BOOKINGS_QUERY_KEY : EQUIPMENT_BOOKINGS_QUERY_KEY);
+
+// Inserts a booking when no id is given, otherwise moves the saved one
+export const useSaveBooking = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (booking: Omit<Booking, 'id'> & { id?: string }) => {
+      if (booking.kind === 'crew') {
+        const values = {
+          crew_member_id: booking.resourceId,
+          job_id: booking.jobId,
+          scheduled_start: booking.start.toISOString(),
+          scheduled_end: booking.end.toISOString(),
+        };
+        const { error } = await (booking.id
+          ? supabase.from('work_schedules').update(values).eq('id', booking.id)
+          : supabase.from('work_schedules').insert([{ ...values, status: 'scheduled' }]));
+
+        if (error) throw error;
+        return;
+      }
+
+      const { data: { user } } = await supabase.auth.getUser();
+      const values = {
+        resource_id: booking.resourceId,
+        job_id: booking.jobId,
+        start_time: booking.start.toISOString(),
+        end_time: booking.end.toISOString(),
+      };
+      const { error } = await (booking.id
+        ? supabase.from('scheduling_entries').update(values).eq('id', booking.id)
+        : supabase.from('scheduling_entries').insert([{ ...values, status: 'scheduled', created_by: user?.id ?? null }]));
+
+      if (error) throw error;
+    },
+    onSuccess: (_, booking) => queryClient.invalidateQueries({ queryKey: bookingsKey(booking.kind) }),
+  });
+};
+
+export const useDeleteBooking = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (booking: Booking) => {
+      const { error } = await supabase
+        .from(booking.kind === 'crew' ? 'work_schedules' : 'scheduling_entries')
+        .delete()
+        .eq('id', booking.id);
+
+      if (error) throw error;
+    },
+    onSuccess: (_, booking) => queryClient.invalidateQueries({ queryKey: bookingsKey(booking.kind) }),
+  });
+};
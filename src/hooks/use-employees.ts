@@ -0,0 +1,24 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export const EMPLOYEES_QUERY_KEY = ['employees'];
+
+export type EmployeeRecord = Tables<'employees'>;
+
+export const getEmployeeName = (employee: Pick<EmployeeRecord, 'first_name' | 'last_name'>) =>
+  `${employee.first_name} ${employee.last_name}`.trim();
+
+export const useEmployees = () =>
+  useQuery({
+    queryKey: EMPLOYEES_QUERY_KEY,
+    queryFn: async (): Promise<EmployeeRecord[]> => {
+      const { data, error } = await supabase
+        .from('employees')
+        .select('*')
+        .order('first_name', { ascending: true });
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
@@ -0,0 +1,73 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  groupTracedSites,
+  parseMeasurementRecord,
+  serializeMeasurement,
+  type Measurement,
+  type TracedSite
+} from '@/lib/measurements';
+
+export const ESTIMATE_MEASUREMENTS_QUERY_KEY = ['estimate_measurements'];
+
+export const useEstimateMeasurements = (estimateId: string | undefined) =>
+  useQuery({
+    queryKey: [...ESTIMATE_MEASUREMENTS_QUERY_KEY, estimateId],
+    enabled: !!estimateId,
+    queryFn: async (): Promise<Measurement[]> => {
+      const { data, error } = await supabase
+        .from('estimate_measurements')
+        .select('*')
+        .eq('estimate_id', estimateId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return (data || []).map(parseMeasurementRecord);
+    },
+  });
+
+// Every map trace across all estimates, for the site map
+export const useTracedSites = () =>
+  useQuery({
+    queryKey: [...ESTIMATE_MEASUREMENTS_QUERY_KEY, 'sites'],
+    queryFn: async (): Promise<TracedSite[]> => {
+      const { data, error } = await supabase
+        .from('estimate_measurements')
+        .select('*, estimates(customer, job_site_address)')
+        .eq('source', 'map')
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return groupTracedSites(data || []);
+    },
+  });
+
+// Measurements are saved as a set alongside their estimate, replacing
+// whatever was saved before
+export const useSaveEstimateMeasurements = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ estimateId, measurements }: { estimateId: string; measurements: Measurement[] }) => {
+      const { error: deleteError } = await supabase
+        .from('estimate_measurements')
+        .delete()
+        .eq('estimate_id', estimateId);
+
+      if (deleteError) throw deleteError;
+      if (measurements.length === 0) return;
+
+      const { data: { user } } = await supabase.auth.getUser();
+      const { error } = await supabase
+        .from('estimate_measurements')
+        .insert(measurements.map(measurement => ({
+          ...serializeMeasurement(measurement, estimateId),
+          created_by: user?.id ?? null,
+        })));
+
+      if (error) throw error;
+    },
+    onSuccess: (_data, { estimateId }) =>
+      queryClient.invalidateQueries({ queryKey: [...ESTIMATE_MEASUREMENTS_QUERY_KEY, estimateId] }),
+  });
+};
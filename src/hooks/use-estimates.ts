@@ -0,0 +1,191 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json, TablesInsert } from '@/integrations/supabase/types';
+import { PROJECTS_QUERY_KEY } from '@/hooks/use-projects';
+import { usePermissions } from '@/hooks/use-permissions';
+import { getValidUntil, hasMarginFigures, type EstimateRecord, type EstimateStatus } from '@/lib/estimates';
+import { buildEstimateQuote } from '@/lib/quote';
+import type { ConversionPlan } from '@/lib/estimate-conversion';
+
+export const ESTIMATES_QUERY_KEY = ['estimates'];
+
+// Anyone who may not see margins reads estimates through the field_estimates
+// view, which strips overhead and profit from estimates other people priced
+const useEstimateSource = () => {
+  const { can, isLoading } = usePermissions();
+  return { withMargins: can('estimates.view_margins'), ready: !isLoading };
+};
+
+export const useEstimates = () => {
+  const { withMargins, ready } = useEstimateSource();
+
+  return useQuery({
+    queryKey: [...ESTIMATES_QUERY_KEY, withMargins ? 'all' : 'field'],
+    enabled: ready,
+    queryFn: async (): Promise<EstimateRecord[]> => {
+      const { data, error } = withMargins
+        ? await supabase.from('estimates').select('*').order('created_at', { ascending: false })
+        : await supabase.from('field_estimates').select('*').order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return (data || []) as EstimateRecord[];
+    },
+  });
+};
+
+export const useEstimate = (estimateId: string | undefined) => {
+  const { withMargins, ready } = useEstimateSource();
+
+  return useQuery({
+    queryKey: [...ESTIMATES_QUERY_KEY, estimateId, withMargins ? 'all' : 'field'],
+    enabled: !!estimateId && ready,
+    queryFn: async (): Promise<EstimateRecord> => {
+      const { data, error } = withMargins
+        ? await supabase.from('estimates').select('*').eq('id', estimateId).single()
+        : await supabase.from('field_estimates').select('*').eq('id', estimateId).single();
+
+      if (error) throw error;
+      return data as EstimateRecord;
+    },
+  });
+};
+
+// Inserts a new draft when no id is given, otherwise overwrites the saved
+// draft. Estimates past draft are left untouched and the update fails; the
+// validity window is only set when the draft is first created.
+export const useSaveEstimate = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, values }: { id?: string; values: TablesInsert<'estimates'> }) => {
+      if (id) {
+        const { data, error } = await supabase
+          .from('estimates')
+          .update(values)
+          .eq('id', id)
+          .eq('status', 'draft')
+          .select()
+          .maybeSingle();
+
+        if (error) throw error;
+        if (!data) throw new Error('Only draft estimates can be updated. Duplicate it to make changes.');
+        return data;
+      }
+
+      const { data: { user } } = await supabase.auth.getUser();
+      const { data, error } = await supabase
+        .from('estimates')
+        .insert([{ ...values, status: 'draft', valid_until: getValidUntil(new Date()), created_by: user?.id ?? null }])
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ESTIMATES_QUERY_KEY }),
+  });
+};
+
+export const useDuplicateEstimate = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (estimate: EstimateRecord) => {
+      const { id, created_at, created_by, status, sent_at, job_id, client_quote, ...rest } = estimate;
+      const { data: { user } } = await supabase.auth.getUser();
+      const now = new Date();
+
+      const { data, error } = await supabase
+        .from('estimates')
+        .insert([{
+          ...rest,
+          // A copy of someone else's margin-free estimate starts uncalculated
+          ...(hasMarginFigures(estimate) ? {} : { amount: null, breakdown: null, line_items: null }),
+          status: 'draft',
+          created_by: user?.id ?? null,
+          valid_until: getValidUntil(now),
+          updated_at: now.toISOString(),
+        }])
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      // The copy keeps the traced takeoff geometry
+      const { data: measurements, error: measurementsError } = await supabase
+        .from('estimate_measurements')
+        .select('*')
+        .eq('estimate_id', id);
+
+      if (measurementsError) throw measurementsError;
+      if (measurements && measurements.length > 0) {
+        const { error: copyError } = await supabase
+          .from('estimate_measurements')
+          .insert(measurements.map(({ id: _id, geom: _geom, created_at: _createdAt, ...measurement }) => ({
+            ...measurement,
+            estimate_id: data.id,
+            created_by: user?.id ?? null,
+          })));
+
+        if (copyError) throw copyError;
+      }
+
+      return data;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ESTIMATES_QUERY_KEY }),
+  });
+};
+
+export const useUpdateEstimateStatus = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ estimate, status }: { estimate: EstimateRecord; status: EstimateStatus }) => {
+      const now = new Date();
+      // Sending freezes the customer-facing quote the client portal shows
+      const clientQuote = status === 'sent' ? buildEstimateQuote(estimate) : null;
+      if (status === 'sent' && !clientQuote) throw new Error('Estimate has no calculation to send');
+
+      const { data, error } = await supabase
+        .from('estimates')
+        .update({
+          status,
+          updated_at: now.toISOString(),
+          ...(status === 'sent' ? { sent_at: now.toISOString(), client_quote: clientQuote as unknown as Json } : {}),
+          // Re-opening an expired estimate as a draft gives it a fresh validity window
+          ...(status === 'draft' ? { valid_until: getValidUntil(now) } : {}),
+        })
+        .eq('id', estimate.id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ESTIMATES_QUERY_KEY }),
+  });
+};
+
+// Creates the project, job, proposal and milestones in one transaction and
+// returns the new project's id
+export const useConvertEstimate = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ estimateId, plan }: { estimateId: string; plan: ConversionPlan }) => {
+      const { data, error } = await supabase.rpc('convert_estimate', {
+        _estimate_id: estimateId,
+        _project: plan.project as unknown as Json,
+        _job: plan.job as unknown as Json,
+        _milestones: plan.milestones as unknown as Json,
+      });
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ESTIMATES_QUERY_KEY });
+      queryClient.invalidateQueries({ queryKey: PROJECTS_QUERY_KEY });
+    },
+  });
+};
@@ -0,0 +1,239 @@
+import { useEffect, useState } from 'react';
+import { endOfDay, parseISO, startOfDay } from 'date-fns';
+import { useMutation, useQuery, useQueryClient, type QueryClient } from '@tanstack/react-query';
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import type { TablesInsert } from '@/integrations/supabase/types';
+import {
+  mergeLatestLocation,
+  type FleetAsset,
+  type GpsLocation,
+  type TrackingDevice,
+  type TrackingEvent,
+  type VehicleDetail
+} from '@/lib/fleet-tracking';
+import type { TrackPoint } from '@/lib/trip-history';
+
+// Keys start with the table name so anything reading the same rows refreshes
+// together
+export const FLEET_ASSETS_QUERY_KEY = ['fleet_assets'];
+export const DEVICES_QUERY_KEY = ['devices'];
+export const GPS_LOCATIONS_QUERY_KEY = ['gps_locations'];
+export const TRACKING_EVENTS_QUERY_KEY = ['tracking_events'];
+export const VEHICLE_DETAILS_QUERY_KEY = ['vehicle_details'];
+
+const LATEST_LOCATIONS_QUERY_KEY = [...GPS_LOCATIONS_QUERY_KEY, 'latest'];
+
+// How often the fleet is re-read while realtime is unavailable
+const FLEET_POLL_MS = 30 * 1000;
+
+// Alerts older than the newest this many are left for the history view
+const TRACKING_EVENTS_LIMIT = 50;
+
+// The API returns at most this many rows per request
+const TRACK_PAGE_SIZE = 1000;
+
+export const useFleetAssets = () =>
+  useQuery({
+    queryKey: FLEET_ASSETS_QUERY_KEY,
+    queryFn: async (): Promise<FleetAsset[]> => {
+      const { data, error } = await supabase
+        .from('fleet_assets')
+        .select('*')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+export const useDevices = () =>
+  useQuery({
+    queryKey: DEVICES_QUERY_KEY,
+    queryFn: async (): Promise<TrackingDevice[]> => {
+      const { data, error } = await supabase
+        .from('devices')
+        .select('*')
+        .order('last_seen', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+// The latest fix from every tracker
+export const useLatestLocations = () =>
+  useQuery({
+    queryKey: LATEST_LOCATIONS_QUERY_KEY,
+    queryFn: async (): Promise<GpsLocation[]> => {
+      const { data, error } = await supabase
+        .from('latest_gps_locations')
+        .select('*');
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+// Alerts nobody has dismissed yet, newest first
+export const useTrackingEvents = () =>
+  useQuery({
+    queryKey: TRACKING_EVENTS_QUERY_KEY,
+    queryFn: async (): Promise<TrackingEvent[]> => {
+      const { data, error } = await supabase
+        .from('tracking_events')
+        .select('*')
+        .or('is_read.is.null,is_read.eq.false')
+        .order('created_at', { ascending: false })
+        .limit(TRACKING_EVENTS_LIMIT);
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+// Every fix from a vehicle's trackers on the given day (yyyy-MM-dd, local
+// time), oldest first. A tracker reporting every few seconds sends thousands
+// of fixes a day, so they are read a page at a time.
+export const useVehicleTrack = (vehicleId: string | undefined, day: string) =>
+  useQuery({
+    queryKey: [...GPS_LOCATIONS_QUERY_KEY, 'track', vehicleId, day],
+    enabled: !!vehicleId && !!day,
+    queryFn: async (): Promise<TrackPoint[]> => {
+      const from = startOfDay(parseISO(day)).toISOString();
+      const to = endOfDay(parseISO(day)).toISOString();
+      const points: TrackPoint[] = [];
+
+      for (let offset = 0; ; offset += TRACK_PAGE_SIZE) {
+        const { data, error } = await supabase
+          .from('gps_locations')
+          .select('id, latitude, longitude, speed, heading, timestamp, devices!inner(vehicle_id)')
+          .eq('devices.vehicle_id', vehicleId)
+          .gte('timestamp', from)
+          .lte('timestamp', to)
+          .order('timestamp', { ascending: true })
+          .order('id', { ascending: true })
+          .range(offset, offset + TRACK_PAGE_SIZE - 1);
+
+        if (error) throw error;
+        points.push(...(data || []).map(({ devices, ...point }) => point));
+        if (!data || data.length < TRACK_PAGE_SIZE) return points;
+      }
+    },
+  });
+
+export const useVehicleDetail = (vehicleId: string | undefined) =>
+  useQuery({
+    queryKey: [...VEHICLE_DETAILS_QUERY_KEY, vehicleId],
+    enabled: !!vehicleId,
+    queryFn: async (): Promise<VehicleDetail | null> => {
+      const { data, error } = await supabase
+        .from('vehicle_details')
+        .select('*')
+        .eq('vehicle_id', vehicleId)
+        .order('updated_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+  });
+
+export const useAddFleetAsset = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (values: TablesInsert<'fleet_assets'>) => {
+      const { error } = await supabase
+        .from('fleet_assets')
+        .insert([values]);
+
+      if (error) throw error;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: FLEET_ASSETS_QUERY_KEY }),
+  });
+};
+
+export const useMarkEventsRead = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (ids: string[]) => {
+      const { error } = await supabase
+        .from('tracking_events')
+        .update({ is_read: true })
+        .in('id', ids);
+
+      if (error) throw error;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: TRACKING_EVENTS_QUERY_KEY }),
+  });
+};
+
+const refreshFleet = (queryClient: QueryClient) => Promise.all([
+  queryClient.invalidateQueries({ queryKey: DEVICES_QUERY_KEY }),
+  queryClient.invalidateQueries({ queryKey: LATEST_LOCATIONS_QUERY_KEY }),
+  queryClient.invalidateQueries({ queryKey: TRACKING_EVENTS_QUERY_KEY }),
+]);
+
+// Device rows change on every fix (last_seen), so they are patched in place
+// rather than re-read
+const applyDeviceChange = (devices: TrackingDevice[] | undefined, payload: RealtimePostgresChangesPayload<TrackingDevice>) => {
+  if (!devices) return devices;
+  if (payload.eventType === 'DELETE') return devices.filter(device => device.id !== payload.old.id);
+  const exists = devices.some(device => device.id === payload.new.id);
+  return exists
+    ? devices.map(device => (device.id === payload.new.id ? payload.new : device))
+    : [payload.new, ...devices];
+};
+
+// Keeps the fleet queries current while mounted. New fixes and device changes
+// are written straight into the cache; when the realtime connection can't be
+// made or drops, the same queries are polled instead. Returns whether updates
+// are arriving live.
+export const useFleetRealtime = () => {
+  const queryClient = useQueryClient();
+  const [isLive, setIsLive] = useState(false);
+
+  useEffect(() => {
+    const channel = supabase
+      .channel('fleet-tracking')
+      .on<GpsLocation>(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'gps_locations' },
+        payload => queryClient.setQueryData<GpsLocation[]>(
+          LATEST_LOCATIONS_QUERY_KEY,
+          locations => locations && mergeLatestLocation(locations, payload.new)
+        )
+      )
+      .on<TrackingDevice>(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'devices' },
+        payload => queryClient.setQueryData<TrackingDevice[]>(DEVICES_QUERY_KEY, devices => applyDeviceChange(devices, payload))
+      )
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'tracking_events' },
+        () => queryClient.invalidateQueries({ queryKey: TRACKING_EVENTS_QUERY_KEY })
+      )
+      .subscribe(status => {
+        const subscribed = status === 'SUBSCRIBED';
+        setIsLive(subscribed);
+        // Catches up on anything missed while disconnected
+        if (subscribed) refreshFleet(queryClient);
+      });
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [queryClient]);
+
+  useEffect(() => {
+    if (isLive) return;
+    const timer = window.setInterval(() => refreshFleet(queryClient), FLEET_POLL_MS);
+    return () => window.clearInterval(timer);
+  }, [isLive, queryClient]);
+
+  return isLive;
+};
@@ -0,0 +1,103 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { TablesInsert } from '@/integrations/supabase/types';
+import type { GeofenceRecord, SiteVisitRecord } from '@/lib/geofences';
+
+export const GEOFENCES_QUERY_KEY = ['geofences'];
+export const SITE_VISITS_QUERY_KEY = ['project_site_visits'];
+
+export type SiteVisit = SiteVisitRecord & {
+  fleet_assets: { name: string } | null;
+  geofences: { name: string } | null;
+};
+
+export const useGeofences = () =>
+  useQuery({
+    queryKey: GEOFENCES_QUERY_KEY,
+    queryFn: async (): Promise<GeofenceRecord[]> => {
+      const { data, error } = await supabase
+        .from('geofences')
+        .select('*')
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+// Arrivals and departures logged at the project's job-site fences, newest first
+export const useProjectSiteVisits = (projectId: string | undefined) =>
+  useQuery({
+    queryKey: [...SITE_VISITS_QUERY_KEY, projectId],
+    enabled: !!projectId,
+    queryFn: async (): Promise<SiteVisit[]> => {
+      const { data, error } = await supabase
+        .from('project_site_visits')
+        .select('*, fleet_assets(name), geofences(name)')
+        .eq('project_id', projectId)
+        .order('arrived_at', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+// Inserts a new fence when no id is given, otherwise updates the saved one
+export const useSaveGeofence = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, values }: { id?: string; values: TablesInsert<'geofences'> }) => {
+      if (id) {
+        const { error } = await supabase
+          .from('geofences')
+          .update({ ...values, updated_at: new Date().toISOString() })
+          .eq('id', id);
+
+        if (error) throw error;
+        return;
+      }
+
+      const { data: { user } } = await supabase.auth.getUser();
+      const { error } = await supabase
+        .from('geofences')
+        .insert([{ ...values, created_by: user?.id ?? null }]);
+
+      if (error) throw error;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: GEOFENCES_QUERY_KEY }),
+  });
+};
+
+export const useUpdateGeofence = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, values }: { id: string; values: Partial<TablesInsert<'geofences'>> }) => {
+      const { error } = await supabase
+        .from('geofences')
+        .update({ ...values, updated_at: new Date().toISOString() })
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: GEOFENCES_QUERY_KEY }),
+  });
+};
+
+// Events and site visits keep their history; the database clears the link
+export const useDeleteGeofence = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('geofences')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: GEOFENCES_QUERY_KEY }),
+  });
+};
@@ -0,0 +1,166 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables, TablesInsert } from '@/integrations/supabase/types';
+import type { EstimateRecord } from '@/lib/estimates';
+import type { CostEntryRecord, InventoryItemRecord, LaborCostRecord } from '@/lib/job-costing';
+import { PROJECTS_QUERY_KEY } from '@/hooks/use-projects';
+
+// Keys are the table names so anything else reading these tables refreshes
+// along with the costing screen
+export const COST_ENTRIES_QUERY_KEY = ['job_cost_entries'];
+export const LABOR_COSTS_QUERY_KEY = ['project_labor_costs'];
+export const INVENTORY_QUERY_KEY = ['inventory_items'];
+
+const RECEIPTS_BUCKET = 'receipts';
+
+export type CostEntry = CostEntryRecord & {
+  receipts: Pick<Tables<'receipts'>, 'id' | 'file_url'>[];
+};
+
+export type CostingProposal = Pick<Tables<'proposals'>, 'id' | 'project_id' | 'amount' | 'status'>;
+
+export const useCostEntries = () =>
+  useQuery({
+    queryKey: COST_ENTRIES_QUERY_KEY,
+    queryFn: async (): Promise<CostEntry[]> => {
+      const { data, error } = await supabase
+        .from('job_cost_entries')
+        .select('*, receipts(id, file_url)')
+        .order('incurred_on', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+export const useLaborCosts = () =>
+  useQuery({
+    queryKey: LABOR_COSTS_QUERY_KEY,
+    queryFn: async (): Promise<LaborCostRecord[]> => {
+      const { data, error } = await supabase
+        .from('project_labor_costs')
+        .select('*');
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+export const useInventoryItems = () =>
+  useQuery({
+    queryKey: INVENTORY_QUERY_KEY,
+    queryFn: async (): Promise<InventoryItemRecord[]> => {
+      const { data, error } = await supabase
+        .from('inventory_items')
+        .select('*')
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+export const useCostingProposals = () =>
+  useQuery({
+    queryKey: ['proposals', 'costing'],
+    queryFn: async (): Promise<CostingProposal[]> => {
+      const { data, error } = await supabase
+        .from('proposals')
+        .select('id, project_id, amount, status')
+        .not('project_id', 'is', null);
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+// The estimates the given projects were converted from, for their line items
+export const useCostingEstimates = (estimateIds: string[]) =>
+  useQuery({
+    queryKey: ['estimates', 'costing', ...estimateIds],
+    enabled: estimateIds.length > 0,
+    queryFn: async (): Promise<EstimateRecord[]> => {
+      const { data, error } = await supabase
+        .from('estimates')
+        .select('*')
+        .in('id', estimateIds);
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+// Entries change actual cost (sync_project_actual_cost) and inventory
+// usage changes stock, so all three are refreshed after any write
+const useInvalidateCosts = () => {
+  const queryClient = useQueryClient();
+  return () => Promise.all([
+    queryClient.invalidateQueries({ queryKey: COST_ENTRIES_QUERY_KEY }),
+    queryClient.invalidateQueries({ queryKey: INVENTORY_QUERY_KEY }),
+    queryClient.invalidateQueries({ queryKey: PROJECTS_QUERY_KEY }),
+  ]);
+};
+
+// Saves the entry, then files its receipt under the project's folder
+export const useAddCostEntry = () => {
+  const invalidate = useInvalidateCosts();
+
+  return useMutation({
+    mutationFn: async ({ values, receipt }: { values: TablesInsert<'job_cost_entries'>; receipt?: File | null }) => {
+      const { data: { user } } = await supabase.auth.getUser();
+      const { data: entry, error } = await supabase
+        .from('job_cost_entries')
+        .insert([{ ...values, created_by: user?.id ?? null }])
+        .select()
+        .single();
+
+      if (error) throw error;
+      if (!receipt) return entry;
+
+      const path = `${entry.project_id}/${entry.id}-${receipt.name}`;
+      const { error: uploadError } = await supabase.storage
+        .from(RECEIPTS_BUCKET)
+        .upload(path, receipt);
+
+      if (uploadError) throw uploadError;
+
+      const { error: receiptError } = await supabase
+        .from('receipts')
+        .insert([{ cost_id: entry.id, file_url: path, uploaded_by: user?.id ?? null }]);
+
+      if (receiptError) throw receiptError;
+      return entry;
+    },
+    onSuccess: invalidate,
+  });
+};
+
+// Receipts go with the entry; inventory it drew is put back by the database
+export const useDeleteCostEntry = () => {
+  const invalidate = useInvalidateCosts();
+
+  return useMutation({
+    mutationFn: async (entry: CostEntry) => {
+      const { error } = await supabase
+        .from('job_cost_entries')
+        .delete()
+        .eq('id', entry.id);
+
+      if (error) throw error;
+
+      const paths = entry.receipts.map(receipt => receipt.file_url).filter(Boolean);
+      if (paths.length) await supabase.storage.from(RECEIPTS_BUCKET).remove(paths);
+    },
+    onSuccess: invalidate,
+  });
+};
+
+// Receipts are private; links are signed for a minute at a time
+export const getReceiptUrl = async (path: string) => {
+  const { data, error } = await supabase.storage
+    .from(RECEIPTS_BUCKET)
+    .createSignedUrl(path, 60);
+
+  if (error) throw error;
+  return data.signedUrl;
+};
@@ -0,0 +1,142 @@
+import { addDays } from 'date-fns';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { TablesInsert } from '@/integrations/supabase/types';
+import {
+  USAGE_WINDOW_DAYS,
+  type MaintenanceScheduleRecord,
+  type OdometerReading,
+  type VehicleMeter
+} from '@/lib/maintenance';
+
+export const MAINTENANCE_SCHEDULES_QUERY_KEY = ['maintenance_schedules'];
+export const VEHICLE_METERS_QUERY_KEY = ['vehicle_meters'];
+export const ODOMETER_READINGS_QUERY_KEY = ['odometer_readings'];
+
+export const useMaintenanceSchedules = () =>
+  useQuery({
+    queryKey: MAINTENANCE_SCHEDULES_QUERY_KEY,
+    queryFn: async (): Promise<MaintenanceScheduleRecord[]> => {
+      const { data, error } = await supabase
+        .from('maintenance_schedules')
+        .select('*')
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+export const useVehicleMeters = () =>
+  useQuery({
+    queryKey: VEHICLE_METERS_QUERY_KEY,
+    queryFn: async (): Promise<VehicleMeter[]> => {
+      const { data, error } = await supabase
+        .from('vehicle_meters')
+        .select('*');
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+// Only the window due dates are projected from; GPS keeps one row per vehicle
+// per day, so this stays small
+export const useRecentOdometerReadings = () =>
+  useQuery({
+    queryKey: [...ODOMETER_READINGS_QUERY_KEY, 'recent'],
+    queryFn: async (): Promise<OdometerReading[]> => {
+      const { data, error } = await supabase
+        .from('odometer_readings')
+        .select('*')
+        .gte('recorded_at', addDays(new Date(), -USAGE_WINDOW_DAYS).toISOString())
+        .order('recorded_at', { ascending: true });
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+const useInvalidateMaintenance = () => {
+  const queryClient = useQueryClient();
+  return () => Promise.all([
+    queryClient.invalidateQueries({ queryKey: MAINTENANCE_SCHEDULES_QUERY_KEY }),
+    queryClient.invalidateQueries({ queryKey: VEHICLE_METERS_QUERY_KEY }),
+    queryClient.invalidateQueries({ queryKey: ODOMETER_READINGS_QUERY_KEY }),
+  ]);
+};
+
+// Inserts a new interval when no id is given, otherwise updates the saved one
+export const useSaveMaintenanceSchedule = () => {
+  const invalidate = useInvalidateMaintenance();
+
+  return useMutation({
+    mutationFn: async ({ id, values }: { id?: string; values: TablesInsert<'maintenance_schedules'> }) => {
+      if (id) {
+        const { error } = await supabase
+          .from('maintenance_schedules')
+          .update({ ...values, updated_at: new Date().toISOString() })
+          .eq('id', id);
+
+        if (error) throw error;
+        return;
+      }
+
+      const { error } = await supabase
+        .from('maintenance_schedules')
+        .insert([values]);
+
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+  });
+};
+
+// Services already logged against it stay in the maintenance log
+export const useDeleteMaintenanceSchedule = () => {
+  const invalidate = useInvalidateMaintenance();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('maintenance_schedules')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+  });
+};
+
+// The database moves the vehicle's meters to the new reading
+export const useAddMeterReading = () => {
+  const invalidate = useInvalidateMaintenance();
+
+  return useMutation({
+    mutationFn: async (values: TablesInsert<'odometer_readings'>) => {
+      const { data: { user } } = await supabase.auth.getUser();
+      const { error } = await supabase
+        .from('odometer_readings')
+        .insert([{ ...values, source: 'manual', recorded_by: user?.id ?? null }]);
+
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+  });
+};
+
+export const useLogMaintenanceService = () => {
+  const invalidate = useInvalidateMaintenance();
+
+  return useMutation({
+    mutationFn: async (values: TablesInsert<'vehicle_maintenance_records'>) => {
+      const { error } = await supabase
+        .from('vehicle_maintenance_records')
+        .insert([values]);
+
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+  });
+};
@@ -0,0 +1,76 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { useAuth } from '@/hooks/use-auth';
+import { hasPermission, type AppRole, type Permission } from '@/lib/permissions';
+
+export const USER_ROLES_QUERY_KEY = ['user_roles'];
+
+export interface RoleAssignment {
+  profile: Pick<Tables<'profiles'>, 'id' | 'full_name' | 'email'>;
+  roles: AppRole[];
+}
+
+export const useCurrentRoles = () => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: [...USER_ROLES_QUERY_KEY, user?.id],
+    enabled: !!user,
+    queryFn: async (): Promise<AppRole[]> => {
+      const { data, error } = await supabase
+        .from('user_roles')
+        .select('role')
+        .eq('user_id', user.id);
+
+      if (error) throw error;
+      return (data || []).map(row => row.role);
+    },
+  });
+};
+
+// isLoading stays true until both the session and the roles are known, so
+// guards never flash an "access denied" at someone who does have access
+export const usePermissions = () => {
+  const { user, loading } = useAuth();
+  const { data: roles = [], isLoading } = useCurrentRoles();
+
+  return {
+    roles,
+    can: (permission: Permission) => hasPermission(roles, permission),
+    isLoading: loading || (!!user && isLoading),
+  };
+};
+
+export const useRoleAssignments = () =>
+  useQuery({
+    queryKey: [...USER_ROLES_QUERY_KEY, 'assignments'],
+    queryFn: async (): Promise<RoleAssignment[]> => {
+      const [profiles, userRoles] = await Promise.all([
+        supabase.from('profiles').select('id, full_name, email').order('full_name', { ascending: true }),
+        supabase.from('user_roles').select('user_id, role'),
+      ]);
+
+      if (profiles.error) throw profiles.error;
+      if (userRoles.error) throw userRoles.error;
+      return (profiles.data || []).map(profile => ({
+        profile,
+        roles: (userRoles.data || []).filter(row => row.user_id === profile.id).map(row => row.role),
+      }));
+    },
+  });
+
+export const useSetUserRole = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ userId, role, granted }: { userId: string; role: AppRole; granted: boolean }) => {
+      const { error } = granted
+        ? await supabase.from('user_roles').insert([{ user_id: userId, role }])
+        : await supabase.from('user_roles').delete().eq('user_id', userId).eq('role', role);
+
+      if (error) throw error;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: USER_ROLES_QUERY_KEY }),
+  });
+};
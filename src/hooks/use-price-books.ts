@@ -0,0 +1,76 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import type { PriceBookWithVersions } from '@/lib/price-books';
+
+export const PRICE_BOOKS_QUERY_KEY = ['price-books'];
+
+export interface PriceBookItemDraft {
+  item_key: string;
+  description: string | null;
+  supplier: string | null;
+  unit: string;
+  unit_price: number;
+}
+
+export interface PublishPriceBookVersionInput {
+  priceBookId: string;
+  effectiveDate: string;
+  notes: string;
+  items: PriceBookItemDraft[];
+}
+
+export const usePriceBooks = () =>
+  useQuery({
+    queryKey: PRICE_BOOKS_QUERY_KEY,
+    queryFn: async (): Promise<PriceBookWithVersions[]> => {
+      const { data, error } = await supabase
+        .from('price_books')
+        .select('*, price_book_versions(*, price_book_items(*))')
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+export const useCreatePriceBook = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ name, description }: { name: string; description: string }) => {
+      const { data: { user } } = await supabase.auth.getUser();
+      const { data, error } = await supabase
+        .from('price_books')
+        .insert([{ name, description, created_by: user?.id ?? null }])
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: PRICE_BOOKS_QUERY_KEY }),
+  });
+};
+
+// Prices are never edited in place: every change publishes the next version
+// with a full copy of the items so earlier versions stay reproducible. The
+// version and its items are written together by one database function.
+export const usePublishPriceBookVersion = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ priceBookId, effectiveDate, notes, items }: PublishPriceBookVersionInput) => {
+      const { data, error } = await supabase.rpc('publish_price_book_version', {
+        _price_book_id: priceBookId,
+        _effective_date: effectiveDate,
+        _notes: notes,
+        _items: items as unknown as Json,
+      });
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: PRICE_BOOKS_QUERY_KEY }),
+  });
+};
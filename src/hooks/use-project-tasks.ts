@@ -0,0 +1,143 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { TablesInsert, TablesUpdate } from '@/integrations/supabase/types';
+import type { MilestoneRecord, ProjectTaskRecord } from '@/lib/project-tasks';
+
+// Keys are the table names so the dashboard's queries refresh along with
+// these
+export const MILESTONES_QUERY_KEY = ['project_milestones'];
+
+export const PROJECT_TASKS_QUERY_KEY = ['project_tasks'];
+
+// One project's milestones, or every project's when no id is given
+export const useProjectMilestones = (projectId?: string) =>
+  useQuery({
+    queryKey: [...MILESTONES_QUERY_KEY, projectId ?? 'all'],
+    queryFn: async (): Promise<MilestoneRecord[]> => {
+      const query = supabase.from('project_milestones').select('*');
+      const { data, error } = await (projectId ? query.eq('project_id', projectId) : query)
+        .order('target_date', { ascending: true, nullsFirst: false });
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+export const useProjectTasks = (projectId?: string) =>
+  useQuery({
+    queryKey: [...PROJECT_TASKS_QUERY_KEY, projectId ?? 'all'],
+    queryFn: async (): Promise<ProjectTaskRecord[]> => {
+      const query = supabase.from('project_tasks').select('*');
+      const { data, error } = await (projectId ? query.eq('project_id', projectId) : query)
+        .order('due_date', { ascending: true, nullsFirst: false });
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+// Task changes move milestone status (sync_milestone_status), so both lists
+// are refreshed after any write
+const useInvalidateProjectTasks = () => {
+  const queryClient = useQueryClient();
+  return () => Promise.all([
+    queryClient.invalidateQueries({ queryKey: MILESTONES_QUERY_KEY }),
+    queryClient.invalidateQueries({ queryKey: PROJECT_TASKS_QUERY_KEY }),
+  ]);
+};
+
+export const useSaveMilestone = () => {
+  const invalidate = useInvalidateProjectTasks();
+
+  return useMutation({
+    mutationFn: async ({ id, values }: { id?: string; values: TablesInsert<'project_milestones'> }) => {
+      const { data, error } = await (id
+        ? supabase.from('project_milestones').update(values).eq('id', id)
+        : supabase.from('project_milestones').insert([{ ...values, status: 'pending' }]))
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: invalidate,
+  });
+};
+
+// The milestone's tasks are deleted with it
+export const useDeleteMilestone = () => {
+  const invalidate = useInvalidateProjectTasks();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('project_milestones')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+  });
+};
+
+export const useSaveTask = () => {
+  const invalidate = useInvalidateProjectTasks();
+
+  return useMutation({
+    mutationFn: async ({ id, values }: { id?: string; values: TablesInsert<'project_tasks'> }) => {
+      const { data, error } = await (id
+        ? supabase.from('project_tasks').update(values).eq('id', id)
+        : supabase.from('project_tasks').insert([values]))
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: invalidate,
+  });
+};
+
+export const useUpdateTask = () => {
+  const invalidate = useInvalidateProjectTasks();
+
+  return useMutation({
+    mutationFn: async ({ id, values }: { id: string; values: TablesUpdate<'project_tasks'> }) => {
+      const { error } = await supabase
+        .from('project_tasks')
+        .update(values)
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+  });
+};
+
+// Other tasks stop depending on the deleted one
+export const useDeleteTask = () => {
+  const invalidate = useInvalidateProjectTasks();
+
+  return useMutation({
+    mutationFn: async ({ task, tasks }: { task: ProjectTaskRecord; tasks: ProjectTaskRecord[] }) => {
+      const dependents = tasks.filter(candidate => candidate.dependencies?.includes(task.id));
+      for (const dependent of dependents) {
+        const { error } = await supabase
+          .from('project_tasks')
+          .update({ dependencies: dependent.dependencies.filter(id => id !== task.id) })
+          .eq('id', dependent.id);
+
+        if (error) throw error;
+      }
+
+      const { error } = await supabase
+        .from('project_tasks')
+        .delete()
+        .eq('id', task.id);
+
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+  });
+};
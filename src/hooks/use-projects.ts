@@ -0,0 +1,125 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { TablesInsert } from '@/integrations/supabase/types';
+import {
+  PROJECT_STATUS_LABELS,
+  canTransitionProject,
+  type ProjectAuditEntry,
+  type ProjectRecord,
+  type ProjectStatus
+} from '@/lib/projects';
+
+export const PROJECTS_QUERY_KEY = ['projects'];
+
+export type ProjectHistoryEntry = ProjectAuditEntry & {
+  profiles: { full_name: string | null; email: string | null } | null;
+};
+
+// Archived projects stay out of every list but this one
+export const useProjects = ({ archived = false }: { archived?: boolean } = {}) =>
+  useQuery({
+    queryKey: [...PROJECTS_QUERY_KEY, archived ? 'archived' : 'active'],
+    queryFn: async (): Promise<ProjectRecord[]> => {
+      const query = supabase.from('projects').select('*');
+      const { data, error } = await (archived ? query.not('archived_at', 'is', null) : query.is('archived_at', null))
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+export const useProjectHistory = (projectId: string | undefined) =>
+  useQuery({
+    queryKey: [...PROJECTS_QUERY_KEY, projectId, 'history'],
+    enabled: !!projectId,
+    queryFn: async (): Promise<ProjectHistoryEntry[]> => {
+      const { data, error } = await supabase
+        .from('project_audit_log')
+        .select('*, profiles(full_name, email)')
+        .eq('project_id', projectId)
+        .order('changed_at', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+// Inserts a new project when no id is given, otherwise updates the saved one
+export const useSaveProject = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, values }: { id?: string; values: TablesInsert<'projects'> }) => {
+      if (id) {
+        const { data, error } = await supabase
+          .from('projects')
+          .update(values)
+          .eq('id', id)
+          .select()
+          .single();
+
+        if (error) throw error;
+        return data;
+      }
+
+      const { data: { user } } = await supabase.auth.getUser();
+      const { data, error } = await supabase
+        .from('projects')
+        .insert([{ ...values, status: 'pending', created_by: user?.id ?? null }])
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: PROJECTS_QUERY_KEY }),
+  });
+};
+
+export const useUpdateProjectStatus = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ project, status }: { project: ProjectRecord; status: ProjectStatus }) => {
+      const from = project.status ?? 'pending';
+      if (!canTransitionProject(from, status)) {
+        throw new Error(`A ${PROJECT_STATUS_LABELS[from].toLowerCase()} project cannot be marked ${PROJECT_STATUS_LABELS[status].toLowerCase()}`);
+      }
+
+      const { data, error } = await supabase
+        .from('projects')
+        .update({ status })
+        .eq('id', project.id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: PROJECTS_QUERY_KEY }),
+  });
+};
+
+// Soft delete: archiving hides the project, restoring brings it back
+export const useArchiveProject = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, archived }: { id: string; archived: boolean }) => {
+      const { data: { user } } = await supabase.auth.getUser();
+      const { data, error } = await supabase
+        .from('projects')
+        .update(archived
+          ? { archived_at: new Date().toISOString(), archived_by: user?.id ?? null }
+          : { archived_at: null, archived_by: null })
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: PROJECTS_QUERY_KEY }),
+  });
+};
@@ -0,0 +1,187 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { useAuth } from '@/hooks/use-auth';
+import { EMPLOYEES_QUERY_KEY, type EmployeeRecord } from '@/hooks/use-employees';
+import { LABOR_COSTS_QUERY_KEY } from '@/hooks/use-job-costing';
+import { PROJECTS_QUERY_KEY } from '@/hooks/use-projects';
+import type { PunchLocation, TimeRecord, TimeRecordStatus } from '@/lib/time-clock';
+
+// Keys start with the table name so the dashboard and job costing refresh too
+export const TIME_RECORDS_QUERY_KEY = ['time_records'];
+
+export type TimesheetEntry = TimeRecord & {
+  employees: Pick<Tables<'employees'>, 'first_name' | 'last_name' | 'hourly_rate'> | null;
+  projects: Pick<Tables<'projects'>, 'name'> | null;
+};
+
+// The employee record linked to the signed-in user; crew without one can't
+// use the clock
+export const useCurrentEmployee = () => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: [...EMPLOYEES_QUERY_KEY, 'current', user?.id],
+    enabled: !!user,
+    queryFn: async (): Promise<EmployeeRecord | null> => {
+      const { data, error } = await supabase
+        .from('employees')
+        .select('*')
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+  });
+};
+
+// Shifts worked on the given payroll days (yyyy-MM-dd, inclusive), newest
+// first; RLS limits crew members to their own
+export const useTimesheets = (
+  range: { from: string; to: string },
+  { employeeId, status }: { employeeId?: string; status?: TimeRecordStatus } = {}
+) =>
+  useQuery({
+    queryKey: [...TIME_RECORDS_QUERY_KEY, range.from, range.to, employeeId ?? 'all', status ?? 'any'],
+    queryFn: async (): Promise<TimesheetEntry[]> => {
+      let query = supabase
+        .from('time_records')
+        .select('*, employees(first_name, last_name, hourly_rate), projects(name)')
+        .gte('date', range.from)
+        .lte('date', range.to);
+      if (employeeId) query = query.eq('employee_id', employeeId);
+      if (status) query = query.eq('status', status);
+      const { data, error } = await query.order('clock_in', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+// The shift the employee is clocked in to, whichever week it started in
+export const useOpenShift = (employeeId: string | undefined) =>
+  useQuery({
+    queryKey: [...TIME_RECORDS_QUERY_KEY, 'open', employeeId],
+    enabled: !!employeeId,
+    queryFn: async (): Promise<TimesheetEntry | null> => {
+      const { data, error } = await supabase
+        .from('time_records')
+        .select('*, employees(first_name, last_name, hourly_rate), projects(name)')
+        .eq('employee_id', employeeId)
+        .is('clock_out', null)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+  });
+
+// Hours feed overtime and job costing, so both are refreshed after a punch
+const useInvalidateTimesheets = () => {
+  const queryClient = useQueryClient();
+  return () => Promise.all([
+    queryClient.invalidateQueries({ queryKey: TIME_RECORDS_QUERY_KEY }),
+    queryClient.invalidateQueries({ queryKey: LABOR_COSTS_QUERY_KEY }),
+    queryClient.invalidateQueries({ queryKey: PROJECTS_QUERY_KEY }),
+  ]);
+};
+
+// Punch times are stamped by the database; the client's clock isn't trusted
+export const useClockIn = () => {
+  const invalidate = useInvalidateTimesheets();
+
+  return useMutation({
+    mutationFn: async ({ employeeId, projectId, location }: {
+      employeeId: string;
+      projectId: string;
+      location: PunchLocation | null;
+    }) => {
+      const { error } = await supabase
+        .from('time_records')
+        .insert([{
+          employee_id: employeeId,
+          project_id: projectId,
+          clock_in: new Date().toISOString(),
+          status: 'open',
+          clock_in_latitude: location?.latitude ?? null,
+          clock_in_longitude: location?.longitude ?? null,
+          clock_in_accuracy: location?.accuracy ?? null,
+        }]);
+
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+  });
+};
+
+export const useClockOut = () => {
+  const invalidate = useInvalidateTimesheets();
+
+  return useMutation({
+    mutationFn: async ({ record, location }: { record: TimeRecord; location: PunchLocation | null }) => {
+      const { error } = await supabase
+        .from('time_records')
+        .update({
+          clock_out: new Date().toISOString(),
+          clock_out_latitude: location?.latitude ?? null,
+          clock_out_longitude: location?.longitude ?? null,
+          clock_out_accuracy: location?.accuracy ?? null,
+        })
+        .eq('id', record.id);
+
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+  });
+};
+
+// Starting a break stamps it; ending one adds it to the shift's break time
+export const useSetOnBreak = () => {
+  const invalidate = useInvalidateTimesheets();
+
+  return useMutation({
+    mutationFn: async ({ record, onBreak }: { record: TimeRecord; onBreak: boolean }) => {
+      const { error } = await supabase
+        .from('time_records')
+        .update({ break_started_at: onBreak ? new Date().toISOString() : null })
+        .eq('id', record.id);
+
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+  });
+};
+
+export const useReviewTimesheets = () => {
+  const invalidate = useInvalidateTimesheets();
+
+  return useMutation({
+    mutationFn: async ({ ids, status }: { ids: string[]; status: Extract<TimeRecordStatus, 'approved' | 'rejected' | 'pending'> }) => {
+      const { error } = await supabase
+        .from('time_records')
+        .update({ status })
+        .in('id', ids);
+
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+  });
+};
+
+// Exported time is locked against further changes
+export const useMarkExported = () => {
+  const invalidate = useInvalidateTimesheets();
+
+  return useMutation({
+    mutationFn: async (ids: string[]) => {
+      const { error } = await supabase
+        .from('time_records')
+        .update({ exported_at: new Date().toISOString() })
+        .in('id', ids);
+
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+  });
+};
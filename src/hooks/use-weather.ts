@@ -0,0 +1,99 @@
+import { useQuery } from '@tanstack/react-query';
+import { addHours, format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { getWeatherProvider } from '@/lib/weather-providers';
+import {
+  FORECAST_HORIZON_HOURS,
+  SERVICE_AREA_LOCATION,
+  WEATHER_SENSITIVE_SERVICES,
+  checkScheduledProjects,
+  parseForecastRecord,
+  serializeForecast,
+  type ForecastHour,
+  type ScheduledProject
+} from '@/lib/weather';
+
+export const WEATHER_FORECAST_QUERY_KEY = ['weather_forecast'];
+
+// Stored forecasts younger than this are used instead of calling the provider
+const FORECAST_REFRESH_MS = 60 * 60 * 1000;
+
+export const useWeatherForecast = () =>
+  useQuery({
+    queryKey: WEATHER_FORECAST_QUERY_KEY,
+    staleTime: FORECAST_REFRESH_MS / 2,
+    queryFn: async (): Promise<ForecastHour[]> => {
+      const provider = getWeatherProvider();
+      const now = new Date();
+      const fromHour = new Date(now);
+      fromHour.setMinutes(0, 0, 0);
+
+      const { data: stored, error } = await supabase
+        .from('weather_data')
+        .select('*')
+        .eq('source', provider.id)
+        .gte('forecast_for', fromHour.toISOString())
+        .gte('recorded_at', new Date(now.getTime() - FORECAST_REFRESH_MS).toISOString())
+        .order('forecast_for', { ascending: true });
+
+      if (error) console.error('Error loading stored forecast:', error);
+      if (stored && stored.length > 0) return stored.map(parseForecastRecord);
+
+      const forecast = await provider.getForecast(SERVICE_AREA_LOCATION, FORECAST_HORIZON_HOURS);
+
+      // Replace this provider's outstanding forecast hours. A failed write
+      // still leaves the fresh forecast usable for this session.
+      try {
+        const { error: deleteError } = await supabase
+          .from('weather_data')
+          .delete()
+          .eq('source', provider.id)
+          .gte('forecast_for', fromHour.toISOString());
+        if (deleteError) throw deleteError;
+
+        const { error: insertError } = await supabase
+          .from('weather_data')
+          .insert(serializeForecast(forecast, provider.id, now));
+        if (insertError) throw insertError;
+      } catch (ingestError) {
+        console.error('Error storing forecast:', ingestError);
+      }
+
+      return forecast;
+    },
+  });
+
+export const useScheduledWeatherChecks = () => {
+  const forecastQuery = useWeatherForecast();
+
+  const projectsQuery = useQuery({
+    queryKey: ['projects', 'weather_sensitive'],
+    queryFn: async (): Promise<ScheduledProject[]> => {
+      const now = new Date();
+      const today = format(now, 'yyyy-MM-dd');
+      const horizon = format(addHours(now, FORECAST_HORIZON_HOURS), 'yyyy-MM-dd');
+      const { data, error } = await supabase
+        .from('projects')
+        .select('id, name, project_type, start_date, end_date, site_address')
+        .in('project_type', WEATHER_SENSITIVE_SERVICES)
+        .in('status', ['pending', 'in_progress'])
+        .is('archived_at', null)
+        .lte('start_date', horizon)
+        .or(`end_date.gte.${today},start_date.gte.${today}`);
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+  const checks = forecastQuery.data && projectsQuery.data
+    ? checkScheduledProjects(projectsQuery.data, forecastQuery.data)
+    : [];
+
+  return {
+    checks,
+    delayCount: checks.filter(check => check.status === 'unsuitable').length,
+    isLoading: forecastQuery.isLoading || projectsQuery.isLoading,
+    error: forecastQuery.error ?? projectsQuery.error,
+  };
+};
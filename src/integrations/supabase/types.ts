@@ -664,6 +664,7 @@ export type Database = {
           id: string
           name: string
           phone: string | null
+          portal_user_id: string | null
           updated_at: string | null
         }
         Insert: {
@@ -674,6 +675,7 @@ export type Database = {
           id?: string
           name: string
           phone?: string | null
+          portal_user_id?: string | null
           updated_at?: string | null
         }
         Update: {
@@ -684,9 +686,18 @@ export type Database = {
           id?: string
           name?: string
           phone?: string | null
+          portal_user_id?: string | null
           updated_at?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "customers_portal_user_id_fkey"
+            columns: ["portal_user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       debriefs: {
         Row: {
@@ -763,7 +774,7 @@ export type Database = {
             foreignKeyName: "devices_vehicle_id_fkey"
             columns: ["vehicle_id"]
             isOneToOne: false
-            referencedRelation: "fleet_vehicles"
+            referencedRelation: "fleet_assets"
             referencedColumns: ["id"]
           },
         ]
@@ -1529,7 +1540,7 @@ export type Database = {
           next_maintenance: string | null
           purchase_date: string | null
           serial_number: string | null
-          status: string | null
+          status: Database["public"]["Enums"]["equipment_status"] | null
           type: string
           warranty_expiry: string | null
         }
@@ -1543,7 +1554,7 @@ export type Database = {
           next_maintenance?: string | null
           purchase_date?: string | null
           serial_number?: string | null
-          status?: string | null
+          status?: Database["public"]["Enums"]["equipment_status"] | null
           type: string
           warranty_expiry?: string | null
         }
@@ -1557,47 +1568,131 @@ export type Database = {
           next_maintenance?: string | null
           purchase_date?: string | null
           serial_number?: string | null
-          status?: string | null
+          status?: Database["public"]["Enums"]["equipment_status"] | null
           type?: string
           warranty_expiry?: string | null
         }
         Relationships: []
       }
+      estimate_measurements: {
+        Row: {
+          area_id: string
+          created_at: string | null
+          created_by: string | null
+          estimate_id: string
+          feet_per_pixel: number | null
+          geom: unknown | null
+          geometry: Json
+          id: string
+          label: string | null
+          quantity: number
+          source: string
+          target: string
+        }
+        Insert: {
+          area_id: string
+          created_at?: string | null
+          created_by?: string | null
+          estimate_id: string
+          feet_per_pixel?: number | null
+          geom?: never
+          geometry: Json
+          id?: string
+          label?: string | null
+          quantity: number
+          source?: string
+          target: string
+        }
+        Update: {
+          area_id?: string
+          created_at?: string | null
+          created_by?: string | null
+          estimate_id?: string
+          feet_per_pixel?: number | null
+          geom?: never
+          geometry?: Json
+          id?: string
+          label?: string | null
+          quantity?: number
+          source?: string
+          target?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "estimate_measurements_estimate_id_fkey"
+            columns: ["estimate_id"]
+            isOneToOne: false
+            referencedRelation: "estimates"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "estimate_measurements_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       estimates: {
         Row: {
           amount: number | null
+          breakdown: Json | null
+          client_quote: Json | null
           created_at: string | null
           created_by: string | null
           customer: string | null
+          customer_id: string | null
           id: string
+          inputs: Json | null
           job_id: string | null
+          job_site_address: string | null
           line_items: Json | null
           notes: string | null
+          price_book_version_id: string | null
+          sent_at: string | null
           status: string | null
+          updated_at: string | null
           valid_until: string | null
         }
         Insert: {
           amount?: number | null
+          breakdown?: Json | null
+          client_quote?: Json | null
           created_at?: string | null
           created_by?: string | null
           customer?: string | null
+          customer_id?: string | null
           id?: string
+          inputs?: Json | null
           job_id?: string | null
+          job_site_address?: string | null
           line_items?: Json | null
           notes?: string | null
+          price_book_version_id?: string | null
+          sent_at?: string | null
           status?: string | null
+          updated_at?: string | null
           valid_until?: string | null
         }
         Update: {
           amount?: number | null
+          breakdown?: Json | null
+          client_quote?: Json | null
           created_at?: string | null
           created_by?: string | null
           customer?: string | null
+          customer_id?: string | null
           id?: string
+          inputs?: Json | null
           job_id?: string | null
+          job_site_address?: string | null
           line_items?: Json | null
           notes?: string | null
+          price_book_version_id?: string | null
+          sent_at?: string | null
           status?: string | null
+          updated_at?: string | null
           valid_until?: string | null
         }
         Relationships: [
@@ -1608,6 +1703,20 @@ export type Database = {
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "estimates_price_book_version_id_fkey"
+            columns: ["price_book_version_id"]
+            isOneToOne: false
+            referencedRelation: "price_book_versions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "estimates_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
         ]
       }
       expense_categories: {
@@ -1835,6 +1944,45 @@ export type Database = {
           },
         ]
       }
+      geofence_presence: {
+        Row: {
+          device_id: string
+          dwell_notified_at: string | null
+          entered_at: string
+          geofence_id: string
+          last_seen_at: string
+        }
+        Insert: {
+          device_id: string
+          dwell_notified_at?: string | null
+          entered_at: string
+          geofence_id: string
+          last_seen_at: string
+        }
+        Update: {
+          device_id?: string
+          dwell_notified_at?: string | null
+          entered_at?: string
+          geofence_id?: string
+          last_seen_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "geofence_presence_device_id_fkey"
+            columns: ["device_id"]
+            isOneToOne: false
+            referencedRelation: "devices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "geofence_presence_geofence_id_fkey"
+            columns: ["geofence_id"]
+            isOneToOne: false
+            referencedRelation: "geofences"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       geofences: {
         Row: {
           center_latitude: number
@@ -1842,11 +1990,16 @@ export type Database = {
           color: string | null
           created_at: string | null
           created_by: string | null
+          dwell_minutes: number | null
           enable_notifications: boolean | null
+          geom: unknown | null
+          geometry: Json | null
           id: string
           is_active: boolean | null
           name: string
+          project_id: string | null
           radius: number
+          shape: string
           type: string | null
           updated_at: string | null
         }
@@ -1856,11 +2009,16 @@ export type Database = {
           color?: string | null
           created_at?: string | null
           created_by?: string | null
+          dwell_minutes?: number | null
           enable_notifications?: boolean | null
+          geom?: unknown | null
+          geometry?: Json | null
           id?: string
           is_active?: boolean | null
           name: string
+          project_id?: string | null
           radius: number
+          shape?: string
           type?: string | null
           updated_at?: string | null
         }
@@ -1870,15 +2028,28 @@ export type Database = {
           color?: string | null
           created_at?: string | null
           created_by?: string | null
+          dwell_minutes?: number | null
           enable_notifications?: boolean | null
+          geom?: unknown | null
+          geometry?: Json | null
           id?: string
           is_active?: boolean | null
           name?: string
+          project_id?: string | null
           radius?: number
+          shape?: string
           type?: string | null
           updated_at?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "geofences_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       gps_locations: {
         Row: {
@@ -2015,6 +2186,8 @@ export type Database = {
           name: string
           quantity: number | null
           sku: string | null
+          unit: string | null
+          unit_cost: number
           updated_at: string | null
         }
         Insert: {
@@ -2024,6 +2197,8 @@ export type Database = {
           name: string
           quantity?: number | null
           sku?: string | null
+          unit?: string | null
+          unit_cost?: number
           updated_at?: string | null
         }
         Update: {
@@ -2033,10 +2208,79 @@ export type Database = {
           name?: string
           quantity?: number | null
           sku?: string | null
+          unit?: string | null
+          unit_cost?: number
           updated_at?: string | null
         }
         Relationships: []
       }
+      job_cost_entries: {
+        Row: {
+          amount: number
+          category: string
+          created_at: string
+          created_by: string | null
+          description: string
+          id: string
+          incurred_on: string
+          inventory_item_id: string | null
+          project_id: string
+          quantity: number | null
+          unit: string | null
+          unit_cost: number | null
+        }
+        Insert: {
+          amount: number
+          category: string
+          created_at?: string
+          created_by?: string | null
+          description: string
+          id?: string
+          incurred_on?: string
+          inventory_item_id?: string | null
+          project_id: string
+          quantity?: number | null
+          unit?: string | null
+          unit_cost?: number | null
+        }
+        Update: {
+          amount?: number
+          category?: string
+          created_at?: string
+          created_by?: string | null
+          description?: string
+          id?: string
+          incurred_on?: string
+          inventory_item_id?: string | null
+          project_id?: string
+          quantity?: number | null
+          unit?: string | null
+          unit_cost?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "job_cost_entries_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "job_cost_entries_inventory_item_id_fkey"
+            columns: ["inventory_item_id"]
+            isOneToOne: false
+            referencedRelation: "inventory_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "job_cost_entries_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       jobs: {
         Row: {
           assigned_to: string | null
@@ -2049,6 +2293,7 @@ export type Database = {
           id: string
           location_address: string | null
           priority: string | null
+          project_id: string | null
           status: string | null
           title: string
           updated_at: string | null
@@ -2064,6 +2309,7 @@ export type Database = {
           id?: string
           location_address?: string | null
           priority?: string | null
+          project_id?: string | null
           status?: string | null
           title: string
           updated_at?: string | null
@@ -2079,6 +2325,7 @@ export type Database = {
           id?: string
           location_address?: string | null
           priority?: string | null
+          project_id?: string | null
           status?: string | null
           title?: string
           updated_at?: string | null
@@ -2091,6 +2338,13 @@ export type Database = {
             referencedRelation: "customers"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "jobs_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
         ]
       }
       leaderboard: {
@@ -2234,6 +2488,62 @@ export type Database = {
           },
         ]
       }
+      maintenance_schedules: {
+        Row: {
+          created_at: string
+          id: string
+          interval_days: number | null
+          interval_hours: number | null
+          interval_miles: number | null
+          last_service_hours: number | null
+          last_service_miles: number | null
+          last_service_on: string | null
+          name: string | null
+          notes: string | null
+          service_type: string
+          updated_at: string
+          vehicle_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          interval_days?: number | null
+          interval_hours?: number | null
+          interval_miles?: number | null
+          last_service_hours?: number | null
+          last_service_miles?: number | null
+          last_service_on?: string | null
+          name?: string | null
+          notes?: string | null
+          service_type: string
+          updated_at?: string
+          vehicle_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          interval_days?: number | null
+          interval_hours?: number | null
+          interval_miles?: number | null
+          last_service_hours?: number | null
+          last_service_miles?: number | null
+          last_service_on?: string | null
+          name?: string | null
+          notes?: string | null
+          service_type?: string
+          updated_at?: string
+          vehicle_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "maintenance_schedules_vehicle_id_fkey"
+            columns: ["vehicle_id"]
+            isOneToOne: false
+            referencedRelation: "fleet_assets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       mobile_app_errors: {
         Row: {
           app_version: string | null
@@ -2456,6 +2766,60 @@ export type Database = {
         }
         Relationships: []
       }
+      odometer_readings: {
+        Row: {
+          created_at: string
+          engine_hours: number | null
+          id: string
+          notes: string | null
+          odometer_miles: number | null
+          reading_date: string
+          recorded_at: string
+          recorded_by: string | null
+          source: string
+          vehicle_id: string
+        }
+        Insert: {
+          created_at?: string
+          engine_hours?: number | null
+          id?: string
+          notes?: string | null
+          odometer_miles?: number | null
+          reading_date?: string
+          recorded_at?: string
+          recorded_by?: string | null
+          source?: string
+          vehicle_id: string
+        }
+        Update: {
+          created_at?: string
+          engine_hours?: number | null
+          id?: string
+          notes?: string | null
+          odometer_miles?: number | null
+          reading_date?: string
+          recorded_at?: string
+          recorded_by?: string | null
+          source?: string
+          vehicle_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "odometer_readings_recorded_by_fkey"
+            columns: ["recorded_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "odometer_readings_vehicle_id_fkey"
+            columns: ["vehicle_id"]
+            isOneToOne: false
+            referencedRelation: "fleet_assets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       payments: {
         Row: {
           amount: number
@@ -2604,6 +2968,127 @@ export type Database = {
           },
         ]
       }
+      price_book_items: {
+        Row: {
+          description: string | null
+          id: string
+          item_key: string
+          price_book_version_id: string
+          supplier: string | null
+          unit: string
+          unit_price: number
+        }
+        Insert: {
+          description?: string | null
+          id?: string
+          item_key: string
+          price_book_version_id: string
+          supplier?: string | null
+          unit: string
+          unit_price: number
+        }
+        Update: {
+          description?: string | null
+          id?: string
+          item_key?: string
+          price_book_version_id?: string
+          supplier?: string | null
+          unit?: string
+          unit_price?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "price_book_items_price_book_version_id_fkey"
+            columns: ["price_book_version_id"]
+            isOneToOne: false
+            referencedRelation: "price_book_versions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      price_book_versions: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          effective_date: string
+          id: string
+          notes: string | null
+          price_book_id: string
+          version: number
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          effective_date?: string
+          id?: string
+          notes?: string | null
+          price_book_id: string
+          version: number
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          effective_date?: string
+          id?: string
+          notes?: string | null
+          price_book_id?: string
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "price_book_versions_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "price_book_versions_price_book_id_fkey"
+            columns: ["price_book_id"]
+            isOneToOne: false
+            referencedRelation: "price_books"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      price_books: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          description: string | null
+          id: string
+          is_active: boolean
+          name: string
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          name: string
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          name?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "price_books_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           avatar_url: string | null
@@ -2664,6 +3149,48 @@ export type Database = {
         }
         Relationships: []
       }
+      project_audit_log: {
+        Row: {
+          action: string
+          changed_at: string
+          changed_by: string | null
+          changes: Json
+          id: string
+          project_id: string
+        }
+        Insert: {
+          action: string
+          changed_at?: string
+          changed_by?: string | null
+          changes?: Json
+          id?: string
+          project_id: string
+        }
+        Update: {
+          action?: string
+          changed_at?: string
+          changed_by?: string | null
+          changes?: Json
+          id?: string
+          project_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_audit_log_changed_by_fkey"
+            columns: ["changed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "project_audit_log_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       project_documents: {
         Row: {
           id: string
@@ -2724,33 +3251,92 @@ export type Database = {
           title: string | null
         }
         Insert: {
-          completed_date?: string | null
-          description?: string | null
+          completed_date?: string | null
+          description?: string | null
+          id?: string
+          project_id?: string | null
+          status?: string | null
+          target_date?: string | null
+          tasks?: string[] | null
+          title?: string | null
+        }
+        Update: {
+          completed_date?: string | null
+          description?: string | null
+          id?: string
+          project_id?: string | null
+          status?: string | null
+          target_date?: string | null
+          tasks?: string[] | null
+          title?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_milestones_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      project_site_visits: {
+        Row: {
+          arrived_at: string
+          departed_at: string | null
+          device_id: string | null
+          geofence_id: string | null
+          id: string
+          project_id: string
+          vehicle_id: string | null
+        }
+        Insert: {
+          arrived_at: string
+          departed_at?: string | null
+          device_id?: string | null
+          geofence_id?: string | null
           id?: string
-          project_id?: string | null
-          status?: string | null
-          target_date?: string | null
-          tasks?: string[] | null
-          title?: string | null
+          project_id: string
+          vehicle_id?: string | null
         }
         Update: {
-          completed_date?: string | null
-          description?: string | null
+          arrived_at?: string
+          departed_at?: string | null
+          device_id?: string | null
+          geofence_id?: string | null
           id?: string
-          project_id?: string | null
-          status?: string | null
-          target_date?: string | null
-          tasks?: string[] | null
-          title?: string | null
+          project_id?: string
+          vehicle_id?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "project_milestones_project_id_fkey"
+            foreignKeyName: "project_site_visits_device_id_fkey"
+            columns: ["device_id"]
+            isOneToOne: false
+            referencedRelation: "devices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "project_site_visits_geofence_id_fkey"
+            columns: ["geofence_id"]
+            isOneToOne: false
+            referencedRelation: "geofences"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "project_site_visits_project_id_fkey"
             columns: ["project_id"]
             isOneToOne: false
             referencedRelation: "projects"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "project_site_visits_vehicle_id_fkey"
+            columns: ["vehicle_id"]
+            isOneToOne: false
+            referencedRelation: "fleet_assets"
+            referencedColumns: ["id"]
+          },
         ]
       }
       project_tasks: {
@@ -2763,6 +3349,7 @@ export type Database = {
           due_date: string | null
           estimated_hours: number | null
           id: string
+          milestone_id: string | null
           priority: string | null
           progress: number | null
           project_id: string | null
@@ -2780,6 +3367,7 @@ export type Database = {
           due_date?: string | null
           estimated_hours?: number | null
           id?: string
+          milestone_id?: string | null
           priority?: string | null
           progress?: number | null
           project_id?: string | null
@@ -2797,6 +3385,7 @@ export type Database = {
           due_date?: string | null
           estimated_hours?: number | null
           id?: string
+          milestone_id?: string | null
           priority?: string | null
           progress?: number | null
           project_id?: string | null
@@ -2820,11 +3409,20 @@ export type Database = {
             referencedRelation: "projects"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "project_tasks_milestone_id_fkey"
+            columns: ["milestone_id"]
+            isOneToOne: false
+            referencedRelation: "project_milestones"
+            referencedColumns: ["id"]
+          },
         ]
       }
       projects: {
         Row: {
           actual_cost: number | null
+          archived_at: string | null
+          archived_by: string | null
           client_email: string | null
           client_name: string | null
           client_phone: string | null
@@ -2833,6 +3431,7 @@ export type Database = {
           customer_id: string | null
           description: string | null
           end_date: string | null
+          estimate_id: string | null
           estimated_cost: number | null
           id: string
           name: string
@@ -2844,6 +3443,8 @@ export type Database = {
         }
         Insert: {
           actual_cost?: number | null
+          archived_at?: string | null
+          archived_by?: string | null
           client_email?: string | null
           client_name?: string | null
           client_phone?: string | null
@@ -2852,6 +3453,7 @@ export type Database = {
           customer_id?: string | null
           description?: string | null
           end_date?: string | null
+          estimate_id?: string | null
           estimated_cost?: number | null
           id?: string
           name: string
@@ -2863,6 +3465,8 @@ export type Database = {
         }
         Update: {
           actual_cost?: number | null
+          archived_at?: string | null
+          archived_by?: string | null
           client_email?: string | null
           client_name?: string | null
           client_phone?: string | null
@@ -2871,6 +3475,7 @@ export type Database = {
           customer_id?: string | null
           description?: string | null
           end_date?: string | null
+          estimate_id?: string | null
           estimated_cost?: number | null
           id?: string
           name?: string
@@ -2895,6 +3500,20 @@ export type Database = {
             referencedRelation: "customers"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "projects_estimate_id_fkey"
+            columns: ["estimate_id"]
+            isOneToOne: true
+            referencedRelation: "estimates"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "projects_archived_by_fkey"
+            columns: ["archived_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
         ]
       }
       proposals: {
@@ -2903,6 +3522,7 @@ export type Database = {
           client_name: string
           created_at: string | null
           created_by: string | null
+          estimate_id: string | null
           id: string
           project_id: string | null
           status: string | null
@@ -2913,6 +3533,7 @@ export type Database = {
           client_name: string
           created_at?: string | null
           created_by?: string | null
+          estimate_id?: string | null
           id?: string
           project_id?: string | null
           status?: string | null
@@ -2923,6 +3544,7 @@ export type Database = {
           client_name?: string
           created_at?: string | null
           created_by?: string | null
+          estimate_id?: string | null
           id?: string
           project_id?: string | null
           status?: string | null
@@ -2943,6 +3565,13 @@ export type Database = {
             referencedRelation: "projects"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "proposals_estimate_id_fkey"
+            columns: ["estimate_id"]
+            isOneToOne: false
+            referencedRelation: "estimates"
+            referencedColumns: ["id"]
+          },
         ]
       }
       rate_limits: {
@@ -3002,6 +3631,13 @@ export type Database = {
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "receipts_cost_id_fkey"
+            columns: ["cost_id"]
+            isOneToOne: false
+            referencedRelation: "job_cost_entries"
+            referencedColumns: ["id"]
+          },
         ]
       }
       resource_allocations: {
@@ -3185,6 +3821,7 @@ export type Database = {
           job_id: string | null
           resource_id: string | null
           start_time: string | null
+          status: string | null
         }
         Insert: {
           created_at?: string | null
@@ -3194,6 +3831,7 @@ export type Database = {
           job_id?: string | null
           resource_id?: string | null
           start_time?: string | null
+          status?: string | null
         }
         Update: {
           created_at?: string | null
@@ -3203,6 +3841,7 @@ export type Database = {
           job_id?: string | null
           resource_id?: string | null
           start_time?: string | null
+          status?: string | null
         }
         Relationships: [
           {
@@ -3212,6 +3851,20 @@ export type Database = {
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "scheduling_entries_resource_id_fkey"
+            columns: ["resource_id"]
+            isOneToOne: false
+            referencedRelation: "equipment"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "scheduling_entries_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
         ]
       }
       security_access_logs: {
@@ -3623,11 +4276,21 @@ export type Database = {
       }
       time_records: {
         Row: {
+          approved_at: string | null
+          approved_by: string | null
           break_duration: number | null
+          break_started_at: string | null
           clock_in: string | null
+          clock_in_accuracy: number | null
+          clock_in_latitude: number | null
+          clock_in_longitude: number | null
           clock_out: string | null
+          clock_out_accuracy: number | null
+          clock_out_latitude: number | null
+          clock_out_longitude: number | null
           date: string | null
           employee_id: string | null
+          exported_at: string | null
           id: string
           notes: string | null
           overtime_hours: number | null
@@ -3636,11 +4299,21 @@ export type Database = {
           total_hours: number | null
         }
         Insert: {
+          approved_at?: string | null
+          approved_by?: string | null
           break_duration?: number | null
+          break_started_at?: string | null
           clock_in?: string | null
+          clock_in_accuracy?: number | null
+          clock_in_latitude?: number | null
+          clock_in_longitude?: number | null
           clock_out?: string | null
+          clock_out_accuracy?: number | null
+          clock_out_latitude?: number | null
+          clock_out_longitude?: number | null
           date?: string | null
           employee_id?: string | null
+          exported_at?: string | null
           id?: string
           notes?: string | null
           overtime_hours?: number | null
@@ -3649,11 +4322,21 @@ export type Database = {
           total_hours?: number | null
         }
         Update: {
+          approved_at?: string | null
+          approved_by?: string | null
           break_duration?: number | null
+          break_started_at?: string | null
           clock_in?: string | null
+          clock_in_accuracy?: number | null
+          clock_in_latitude?: number | null
+          clock_in_longitude?: number | null
           clock_out?: string | null
+          clock_out_accuracy?: number | null
+          clock_out_latitude?: number | null
+          clock_out_longitude?: number | null
           date?: string | null
           employee_id?: string | null
+          exported_at?: string | null
           id?: string
           notes?: string | null
           overtime_hours?: number | null
@@ -3662,6 +4345,13 @@ export type Database = {
           total_hours?: number | null
         }
         Relationships: [
+          {
+            foreignKeyName: "time_records_approved_by_fkey"
+            columns: ["approved_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "time_records_employee_id_fkey"
             columns: ["employee_id"]
@@ -3744,7 +4434,7 @@ export type Database = {
             foreignKeyName: "tracking_events_vehicle_id_fkey"
             columns: ["vehicle_id"]
             isOneToOne: false
-            referencedRelation: "fleet_vehicles"
+            referencedRelation: "fleet_assets"
             referencedColumns: ["id"]
           },
         ]
@@ -4072,6 +4762,7 @@ export type Database = {
           cost: number | null
           created_at: string | null
           description: string
+          engine_hours: number | null
           fluids_added: Json | null
           id: string
           maintenance_type: string | null
@@ -4081,6 +4772,7 @@ export type Database = {
           parts_used: Json | null
           performed_at: string
           performed_by: string | null
+          schedule_id: string | null
           type: string | null
           vehicle_id: string | null
         }
@@ -4090,6 +4782,7 @@ export type Database = {
           cost?: number | null
           created_at?: string | null
           description: string
+          engine_hours?: number | null
           fluids_added?: Json | null
           id?: string
           maintenance_type?: string | null
@@ -4099,6 +4792,7 @@ export type Database = {
           parts_used?: Json | null
           performed_at: string
           performed_by?: string | null
+          schedule_id?: string | null
           type?: string | null
           vehicle_id?: string | null
         }
@@ -4108,6 +4802,7 @@ export type Database = {
           cost?: number | null
           created_at?: string | null
           description?: string
+          engine_hours?: number | null
           fluids_added?: Json | null
           id?: string
           maintenance_type?: string | null
@@ -4117,15 +4812,70 @@ export type Database = {
           parts_used?: Json | null
           performed_at?: string
           performed_by?: string | null
+          schedule_id?: string | null
           type?: string | null
           vehicle_id?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "vehicle_maintenance_records_schedule_id_fkey"
+            columns: ["schedule_id"]
+            isOneToOne: false
+            referencedRelation: "maintenance_schedules"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "vehicle_maintenance_records_vehicle_id_fkey"
             columns: ["vehicle_id"]
             isOneToOne: false
-            referencedRelation: "fleet_vehicles"
+            referencedRelation: "fleet_assets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      vehicle_meters: {
+        Row: {
+          anchor_at: string | null
+          anchor_latitude: number | null
+          anchor_longitude: number | null
+          engine_hours: number | null
+          gps_miles: number
+          odometer_miles: number
+          odometer_read_at: string | null
+          reading_at: string | null
+          updated_at: string
+          vehicle_id: string
+        }
+        Insert: {
+          anchor_at?: string | null
+          anchor_latitude?: number | null
+          anchor_longitude?: number | null
+          engine_hours?: number | null
+          gps_miles?: number
+          odometer_miles?: number
+          odometer_read_at?: string | null
+          reading_at?: string | null
+          updated_at?: string
+          vehicle_id: string
+        }
+        Update: {
+          anchor_at?: string | null
+          anchor_latitude?: number | null
+          anchor_longitude?: number | null
+          engine_hours?: number | null
+          gps_miles?: number
+          odometer_miles?: number
+          odometer_read_at?: string | null
+          reading_at?: string | null
+          updated_at?: string
+          vehicle_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "vehicle_meters_vehicle_id_fkey"
+            columns: ["vehicle_id"]
+            isOneToOne: false
+            referencedRelation: "fleet_assets"
             referencedColumns: ["id"]
           },
         ]
@@ -4238,28 +4988,40 @@ export type Database = {
       weather_data: {
         Row: {
           condition: Database["public"]["Enums"]["weather_condition"] | null
+          forecast_for: string | null
           humidity: number | null
           id: string
           location_id: string | null
+          precipitation_inches: number | null
+          precipitation_probability: number | null
           recorded_at: string | null
+          source: string | null
           temperature: number | null
           wind_speed: number | null
         }
         Insert: {
           condition?: Database["public"]["Enums"]["weather_condition"] | null
+          forecast_for?: string | null
           humidity?: number | null
           id?: string
           location_id?: string | null
+          precipitation_inches?: number | null
+          precipitation_probability?: number | null
           recorded_at?: string | null
+          source?: string | null
           temperature?: number | null
           wind_speed?: number | null
         }
         Update: {
           condition?: Database["public"]["Enums"]["weather_condition"] | null
+          forecast_for?: string | null
           humidity?: number | null
           id?: string
           location_id?: string | null
+          precipitation_inches?: number | null
+          precipitation_probability?: number | null
           recorded_at?: string | null
+          source?: string | null
           temperature?: number | null
           wind_speed?: number | null
         }
@@ -4310,10 +5072,119 @@ export type Database = {
           scheduled_start?: string | null
           status?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "work_schedules_crew_member_id_fkey"
+            columns: ["crew_member_id"]
+            isOneToOne: false
+            referencedRelation: "employees"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "work_schedules_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+        ]
       }
     }
     Views: {
+      client_portal_contracts: {
+        Row: {
+          contract_url: string | null
+          id: string | null
+          job_id: string | null
+          job_title: string | null
+          signed: boolean | null
+          signed_at: string | null
+        }
+        Relationships: []
+      }
+      client_portal_estimates: {
+        Row: {
+          amount: number | null
+          client_quote: Json | null
+          id: string | null
+          job_site_address: string | null
+          sent_at: string | null
+          status: string | null
+          valid_until: string | null
+        }
+        Relationships: []
+      }
+      client_portal_milestones: {
+        Row: {
+          completed_date: string | null
+          description: string | null
+          id: string | null
+          project_id: string | null
+          status: string | null
+          target_date: string | null
+          title: string | null
+        }
+        Relationships: []
+      }
+      client_portal_payments: {
+        Row: {
+          amount: number | null
+          id: string | null
+          payment_date: string | null
+          proposal_id: string | null
+          status: string | null
+        }
+        Relationships: []
+      }
+      client_portal_projects: {
+        Row: {
+          description: string | null
+          end_date: string | null
+          id: string | null
+          name: string | null
+          project_type: Database["public"]["Enums"]["project_type"] | null
+          site_address: string | null
+          start_date: string | null
+          status: Database["public"]["Enums"]["project_status"] | null
+        }
+        Relationships: []
+      }
+      client_portal_proposals: {
+        Row: {
+          amount: number | null
+          amount_paid: number | null
+          client_name: string | null
+          created_at: string | null
+          id: string | null
+          project_id: string | null
+          project_name: string | null
+          status: string | null
+        }
+        Relationships: []
+      }
+      field_estimates: {
+        Row: {
+          amount: number | null
+          breakdown: Json | null
+          client_quote: Json | null
+          created_at: string | null
+          created_by: string | null
+          customer: string | null
+          customer_id: string | null
+          id: string | null
+          inputs: Json | null
+          job_id: string | null
+          job_site_address: string | null
+          line_items: Json | null
+          notes: string | null
+          price_book_version_id: string | null
+          sent_at: string | null
+          status: string | null
+          updated_at: string | null
+          valid_until: string | null
+        }
+        Relationships: []
+      }
       geography_columns: {
         Row: {
           coord_dimension: number | null
@@ -4356,6 +5227,33 @@ export type Database = {
         }
         Relationships: []
       }
+      latest_gps_locations: {
+        Row: {
+          accuracy: number | null
+          altitude: number | null
+          battery_level: number | null
+          created_at: string | null
+          device_id: string | null
+          heading: number | null
+          id: string | null
+          latitude: number | null
+          longitude: number | null
+          signal_strength: number | null
+          speed: number | null
+          timestamp: string | null
+        }
+        Relationships: []
+      }
+      project_labor_costs: {
+        Row: {
+          cost: number | null
+          employee_id: string | null
+          hours: number | null
+          overtime_hours: number | null
+          project_id: string | null
+        }
+        Relationships: []
+      }
       spatial_reference_systems: {
         Row: {
           auth_name: string | null
@@ -4598,10 +5496,42 @@ export type Database = {
           | { user_id: string; allowed_roles: string[] }
         Returns: boolean
       }
+      client_accept_estimate: {
+        Args: {
+          _estimate_id: string
+        }
+        Returns: undefined
+      }
+      client_accept_proposal: {
+        Args: {
+          _proposal_id: string
+        }
+        Returns: undefined
+      }
+      client_start_payment: {
+        Args: {
+          _proposal_id: string
+          _amount: number
+        }
+        Returns: string
+      }
+      convert_estimate: {
+        Args: {
+          _estimate_id: string
+          _job: Json
+          _milestones: Json
+          _project: Json
+        }
+        Returns: string
+      }
       create_violation: {
         Args: { emp_id: string; rule_id: string; description_text?: string }
         Returns: string
       }
+      current_employee_id: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
       disablelongtransactions: {
         Args: Record<PropertyKey, never>
         Returns: string
@@ -4905,6 +5835,13 @@ export type Database = {
         Args: { "": unknown[] }
         Returns: number
       }
+      has_any_role: {
+        Args: {
+          _user_id: string
+          _roles: Database["public"]["Enums"]["app_role"][]
+        }
+        Returns: boolean
+      }
       has_role: {
         Args: {
           _user_id: string
@@ -5039,6 +5976,10 @@ export type Database = {
           | { use_typmod?: boolean }
         Returns: number
       }
+      portal_customer_ids: {
+        Args: Record<PropertyKey, never>
+        Returns: string[]
+      }
       postgis_addbbox: {
         Args: { "": unknown }
         Returns: unknown
@@ -5167,6 +6108,42 @@ export type Database = {
         Args: Record<PropertyKey, never>
         Returns: string
       }
+      publish_price_book_version: {
+        Args: {
+          _effective_date: string
+          _items: Json
+          _notes: string
+          _price_book_id: string
+        }
+        Returns: {
+          created_at: string | null
+          created_by: string | null
+          effective_date: string
+          id: string
+          notes: string | null
+          price_book_id: string
+          version: number
+        }
+      }
+      recalculate_weekly_overtime: {
+        Args: {
+          _employee_id: string
+          _week_start: string
+        }
+        Returns: undefined
+      }
+      refresh_milestone_status: {
+        Args: {
+          _milestone_id: string
+        }
+        Returns: undefined
+      }
+      refresh_project_actual_cost: {
+        Args: {
+          _project_id: string
+        }
+        Returns: undefined
+      }
       sparsevec_out: {
         Args: { "": unknown }
         Returns: unknown
@@ -6248,6 +7225,10 @@ export type Database = {
         Args: { "": unknown }
         Returns: number
       }
+      strip_estimate_margins: {
+        Args: { _breakdown: Json }
+        Returns: Json
+      }
       text: {
         Args: { "": unknown }
         Returns: string
@@ -6318,7 +7299,12 @@ export type Database = {
         | "line_striper"
         | "crack_sealer"
         | "tools"
-      project_status: "pending" | "in_progress" | "completed" | "cancelled"
+      project_status:
+        | "pending"
+        | "in_progress"
+        | "completed"
+        | "cancelled"
+        | "on_hold"
       project_type:
         | "asphalt_paving"
         | "sealcoating"
@@ -6489,7 +7475,13 @@ export const Constants = {
         "crack_sealer",
         "tools",
       ],
-      project_status: ["pending", "in_progress", "completed", "cancelled"],
+      project_status: [
+        "pending",
+        "in_progress",
+        "completed",
+        "cancelled",
+        "on_hold",
+      ],
       project_type: [
         "asphalt_paving",
         "sealcoating",
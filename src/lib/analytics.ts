@@ -0,0 +1,110 @@
+// Longer-range figures for the analytics page: how much work is being quoted
+// and won, and how jobs are tracking against their estimates.
+import { format, startOfMonth, subMonths } from 'date-fns';
+import { getEstimateStatus, type EstimateRecord } from '@/lib/estimates';
+import { PROJECT_TYPE_LABELS, type ProjectRecord, type ProjectType } from '@/lib/projects';
+
+export interface PipelineMonth {
+  month: string; // yyyy-MM
+  label: string;
+  quoted: number; // value of estimates written in the month
+  accepted: number; // part of that value the customer accepted
+  count: number;
+}
+
+export interface EstimateSummary {
+  count: number;
+  quotedValue: number;
+  acceptedValue: number;
+  averageValue: number;
+  winRate: number | null; // percent of decided estimates that were accepted
+}
+
+export interface ProjectTypeCount {
+  type: ProjectType;
+  label: string;
+  count: number;
+  estimatedCost: number;
+}
+
+export interface CostPerformance {
+  projectCount: number;
+  estimatedCost: number;
+  actualCost: number;
+  variancePercent: number | null; // positive means over estimate
+}
+
+export const DEFAULT_PIPELINE_MONTHS = 6;
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+const monthKey = (value: string | null) => (value ? format(new Date(value), 'yyyy-MM') : null);
+
+export const buildEstimatePipeline = (
+  estimates: EstimateRecord[],
+  months: number = DEFAULT_PIPELINE_MONTHS,
+  now: Date = new Date()
+): PipelineMonth[] => {
+  const pipeline = Array.from({ length: months }, (_, index) => {
+    const month = subMonths(startOfMonth(now), months - 1 - index);
+    return { month: format(month, 'yyyy-MM'), label: format(month, 'MMM yyyy'), quoted: 0, accepted: 0, count: 0 };
+  });
+
+  estimates.forEach(estimate => {
+    const row = pipeline.find(entry => entry.month === monthKey(estimate.created_at));
+    if (!row) return;
+    const amount = estimate.amount ?? 0;
+    row.quoted = roundCurrency(row.quoted + amount);
+    row.count += 1;
+    if (getEstimateStatus(estimate, now) === 'accepted') row.accepted = roundCurrency(row.accepted + amount);
+  });
+
+  return pipeline;
+};
+
+export const summarizeEstimates = (estimates: EstimateRecord[], now: Date = new Date()): EstimateSummary => {
+  const statuses = estimates.map(estimate => getEstimateStatus(estimate, now));
+  const quotedValue = estimates.reduce((sum, estimate) => sum + (estimate.amount ?? 0), 0);
+  const acceptedValue = estimates.reduce(
+    (sum, estimate, index) => sum + (statuses[index] === 'accepted' ? estimate.amount ?? 0 : 0),
+    0
+  );
+  const accepted = statuses.filter(status => status === 'accepted').length;
+  const declined = statuses.filter(status => status === 'declined').length;
+
+  return {
+    count: estimates.length,
+    quotedValue: roundCurrency(quotedValue),
+    acceptedValue: roundCurrency(acceptedValue),
+    averageValue: estimates.length > 0 ? roundCurrency(quotedValue / estimates.length) : 0,
+    winRate: accepted + declined > 0 ? Math.round((accepted / (accepted + declined)) * 100) : null
+  };
+};
+
+export const countProjectsByType = (projects: ProjectRecord[]): ProjectTypeCount[] => {
+  const counts = new Map<ProjectType, ProjectTypeCount>();
+  projects.forEach(project => {
+    if (!project.project_type) return;
+    const entry = counts.get(project.project_type)
+      ?? { type: project.project_type, label: PROJECT_TYPE_LABELS[project.project_type], count: 0, estimatedCost: 0 };
+    entry.count += 1;
+    entry.estimatedCost = roundCurrency(entry.estimatedCost + (project.estimated_cost ?? 0));
+    counts.set(project.project_type, entry);
+  });
+  return Array.from(counts.values()).sort((a, b) => b.count - a.count);
+};
+
+// Only completed projects with both figures recorded are compared
+export const getCostPerformance = (projects: ProjectRecord[]): CostPerformance => {
+  const costed = projects.filter(project =>
+    project.status === 'completed' && project.estimated_cost != null && project.actual_cost != null);
+  const estimatedCost = costed.reduce((sum, project) => sum + project.estimated_cost, 0);
+  const actualCost = costed.reduce((sum, project) => sum + project.actual_cost, 0);
+
+  return {
+    projectCount: costed.length,
+    estimatedCost: roundCurrency(estimatedCost),
+    actualCost: roundCurrency(actualCost),
+    variancePercent: estimatedCost > 0 ? Math.round(((actualCost - estimatedCost) / estimatedCost) * 1000) / 10 : null
+  };
+};
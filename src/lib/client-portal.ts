@@ -0,0 +1,73 @@
+// What a signed-in customer sees. Everything here comes from the
+// client_portal_* views, which only carry customer-facing columns; cost,
+// margin and crew data never reach the portal.
+import type { Tables } from '@/integrations/supabase/types';
+import { BUSINESS_CONFIG } from '@/lib/pricing';
+import type { Quote } from '@/lib/quote';
+
+export type PortalProject = Tables<'client_portal_projects'>;
+export type PortalMilestone = Tables<'client_portal_milestones'>;
+export type PortalEstimate = Tables<'client_portal_estimates'>;
+export type PortalProposal = Tables<'client_portal_proposals'>;
+export type PortalPayment = Tables<'client_portal_payments'>;
+export type PortalContract = Tables<'client_portal_contracts'>;
+
+export interface Invoice {
+  invoiceNumber: string;
+  issuedOn: string;
+  clientName: string;
+  projectName: string;
+  amount: number;
+  payments: { date: string | null; amount: number }[];
+  amountPaid: number;
+  balanceDue: number;
+}
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+export const getPortalQuote = (estimate: PortalEstimate) =>
+  (estimate.client_quote as unknown as Quote | null) ?? null;
+
+export const canAcceptEstimate = (estimate: PortalEstimate, today: Date = new Date()) =>
+  estimate.status === 'sent' && (!estimate.valid_until || estimate.valid_until >= today.toISOString().slice(0, 10));
+
+export const getBalanceDue = (proposal: PortalProposal) =>
+  roundCurrency(Math.max(0, (proposal.amount ?? 0) - (proposal.amount_paid ?? 0)));
+
+export const getInvoiceNumber = (proposalId: string) => `INV-${proposalId.slice(0, 8).toUpperCase()}`;
+
+// Only completed payments count towards the balance; pending ones are listed
+// on the proposal but not on the invoice
+export const buildInvoice = (proposal: PortalProposal, payments: PortalPayment[], issuedOn: Date = new Date()): Invoice => {
+  const completed = payments.filter(payment => payment.proposal_id === proposal.id && payment.status === 'completed');
+  return {
+    invoiceNumber: getInvoiceNumber(proposal.id),
+    issuedOn: issuedOn.toISOString().slice(0, 10),
+    clientName: proposal.client_name ?? '',
+    projectName: proposal.project_name ?? '',
+    amount: roundCurrency(proposal.amount ?? 0),
+    payments: completed.map(payment => ({ date: payment.payment_date, amount: roundCurrency(payment.amount ?? 0) })),
+    amountPaid: roundCurrency(proposal.amount_paid ?? 0),
+    balanceDue: getBalanceDue(proposal)
+  };
+};
+
+// VITE_CLIENT_PAYMENT_URL points at the hosted payment page, with {reference}
+// and {amount} filled in per payment. Without one, clients get mailing
+// instructions instead.
+export const getPaymentUrl = (
+  reference: string,
+  amount: number,
+  template: string | undefined = import.meta.env.VITE_CLIENT_PAYMENT_URL
+) => {
+  if (!template) return null;
+  return template
+    .replace('{reference}', encodeURIComponent(reference))
+    .replace('{amount}', amount.toFixed(2));
+};
+
+export const isOnlinePaymentEnabled = () => !!import.meta.env.VITE_CLIENT_PAYMENT_URL;
+
+export const PAYMENT_INSTRUCTIONS =
+  `Make checks payable to ${BUSINESS_CONFIG.name} and mail them to ${BUSINESS_CONFIG.address}. ` +
+  'Write the invoice number on the check.';
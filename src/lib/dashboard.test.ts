@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { buildDashboardMetrics, type DashboardData, type DashboardProject } from '@/lib/dashboard';
+
+const project = (id: string, overrides: Partial<DashboardProject>): DashboardProject => ({
+  id,
+  name: id,
+  status: 'in_progress',
+  project_type: null,
+  start_date: null,
+  end_date: null,
+  site_address: null,
+  created_at: '2026-01-05T12:00:00Z',
+  ...overrides
+});
+
+const data = (projects: DashboardProject[]): DashboardData => ({
+  projects,
+  milestones: [],
+  tasks: [],
+  jobs: [],
+  schedules: [],
+  devices: []
+});
+
+const NOW = new Date(2026, 2, 15, 12);
+
+describe('buildDashboardMetrics activeProjects', () => {
+  it('counts both months by the same rule', () => {
+    const metrics = buildDashboardMetrics(data([
+      project('running', {}),
+      project('finished-last-month', { status: 'completed', end_date: '2026-02-10' }),
+      project('finished-this-month', { status: 'completed', end_date: '2026-03-10' }),
+      project('started-this-month', { status: 'pending', created_at: '2026-03-02T12:00:00Z' }),
+      project('cancelled', { status: 'cancelled' })
+    ]), NOW);
+
+    // Feb 28: running, finished-this-month. Today: running, started-this-month.
+    expect(metrics.activeProjects).toEqual({ current: 2, previous: 2, change: 0 });
+  });
+
+  it('keeps an open project active past its planned end date in both months', () => {
+    const metrics = buildDashboardMetrics(data([project('overdue', { end_date: '2026-01-31' })]), NOW);
+    expect(metrics.activeProjects).toEqual({ current: 1, previous: 1, change: 0 });
+  });
+});
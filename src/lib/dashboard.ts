@@ -0,0 +1,135 @@
+// Dashboard metrics computed from live records. Every figure is paired with
+// the same figure for the previous calendar month so the cards can show a
+// month-over-month trend.
+import { differenceInCalendarDays, endOfMonth, isWithinInterval, startOfMonth, subMonths } from 'date-fns';
+import type { Tables } from '@/integrations/supabase/types';
+import { getProjectProgress } from '@/lib/project-tasks';
+
+export type DashboardProject = Pick<Tables<'projects'>, 'id' | 'name' | 'status' | 'project_type' | 'start_date' | 'end_date' | 'site_address' | 'created_at'>;
+export type DashboardMilestone = Pick<Tables<'project_milestones'>, 'id' | 'project_id' | 'status' | 'target_date' | 'completed_date'>;
+export type DashboardTask = Pick<Tables<'project_tasks'>, 'id' | 'project_id' | 'status' | 'progress' | 'estimated_hours'>;
+export type DashboardJob = Pick<Tables<'jobs'>, 'id' | 'status' | 'created_at'>;
+export type DashboardSchedule = Pick<Tables<'work_schedules'>, 'id' | 'status' | 'scheduled_start'>;
+export type DashboardDevice = Pick<Tables<'devices'>, 'id' | 'status' | 'last_seen'>;
+
+export interface DashboardData {
+  projects: DashboardProject[];
+  milestones: DashboardMilestone[];
+  tasks: DashboardTask[];
+  jobs: DashboardJob[];
+  schedules: DashboardSchedule[];
+  devices: DashboardDevice[];
+}
+
+export interface Trend {
+  current: number;
+  previous: number;
+  change: number; // current - previous
+}
+
+export interface ActiveProjectSummary {
+  project: DashboardProject;
+  progress: number; // hours-weighted percent of tasks completed
+  taskCount: number;
+  milestoneCount: number;
+}
+
+export interface DashboardMetrics {
+  activeProjects: Trend;
+  completionRate: Trend; // percent of milestones due in the month that are done
+  scheduledTasks: Trend;
+  projectsStarted: Trend;
+  averageCompletionDays: Trend;
+  openJobs: number;
+  devicesOnline: number;
+  deviceCount: number;
+  activeProjectList: ActiveProjectSummary[];
+}
+
+const ACTIVE_PROJECT_STATUSES = ['pending', 'in_progress'];
+
+// Same threshold the fleet page uses for an "Active" tracker
+const DEVICE_ONLINE_MS = 60 * 60 * 1000;
+
+const OPEN_JOB_STATUSES_EXCLUDED = ['completed', 'cancelled'];
+
+const toDate = (value: string | null) => (value ? new Date(value.length === 10 ? `${value}T00:00:00` : value) : null);
+
+const trend = (current: number, previous: number): Trend => ({ current, previous, change: current - previous });
+
+const monthRange = (reference: Date) => ({ start: startOfMonth(reference), end: endOfMonth(reference) });
+
+const inMonth = (value: string | null, reference: Date) => {
+  const date = toDate(value);
+  return !!date && isWithinInterval(date, monthRange(reference));
+};
+
+// A project counts as active on a day once it has been created, unless it was
+// cancelled. Projects that are still open today were open on every day since;
+// finished or paused ones only until their end date. This month and last are
+// both counted this way so the trend compares like with like.
+const wasActiveOn = (project: DashboardProject, day: Date) => {
+  if (project.status === 'cancelled') return false;
+  const created = toDate(project.created_at);
+  if (created && created > day) return false;
+  if (ACTIVE_PROJECT_STATUSES.includes(project.status ?? '')) return true;
+  const end = toDate(project.end_date);
+  return !!end && end >= day;
+};
+
+const completionRateFor = (milestones: DashboardMilestone[], reference: Date) => {
+  const due = milestones.filter(milestone => inMonth(milestone.target_date, reference));
+  if (due.length === 0) return 0;
+  const done = due.filter(milestone => milestone.status === 'completed');
+  return Math.round((done.length / due.length) * 100);
+};
+
+const averageCompletionDaysFor = (projects: DashboardProject[], reference: Date) => {
+  const finished = projects.filter(project =>
+    project.status === 'completed' && project.start_date && inMonth(project.end_date, reference));
+  if (finished.length === 0) return 0;
+  const totalDays = finished.reduce(
+    (sum, project) => sum + differenceInCalendarDays(toDate(project.end_date), toDate(project.start_date)) + 1,
+    0
+  );
+  return Math.round((totalDays / finished.length) * 10) / 10;
+};
+
+export const buildDashboardMetrics = (data: DashboardData, now: Date = new Date()): DashboardMetrics => {
+  const lastMonth = subMonths(now, 1);
+  const { projects, milestones, tasks, jobs, schedules, devices } = data;
+
+  const activeProjects = projects.filter(project => ACTIVE_PROJECT_STATUSES.includes(project.status ?? ''));
+
+  return {
+    activeProjects: trend(
+      projects.filter(project => wasActiveOn(project, now)).length,
+      projects.filter(project => wasActiveOn(project, endOfMonth(lastMonth))).length
+    ),
+    completionRate: trend(completionRateFor(milestones, now), completionRateFor(milestones, lastMonth)),
+    scheduledTasks: trend(
+      schedules.filter(schedule => inMonth(schedule.scheduled_start, now)).length,
+      schedules.filter(schedule => inMonth(schedule.scheduled_start, lastMonth)).length
+    ),
+    projectsStarted: trend(
+      projects.filter(project => inMonth(project.start_date, now)).length,
+      projects.filter(project => inMonth(project.start_date, lastMonth)).length
+    ),
+    averageCompletionDays: trend(averageCompletionDaysFor(projects, now), averageCompletionDaysFor(projects, lastMonth)),
+    openJobs: jobs.filter(job => !OPEN_JOB_STATUSES_EXCLUDED.includes(job.status ?? '')).length,
+    devicesOnline: devices.filter(device => {
+      const lastSeen = toDate(device.last_seen);
+      return !!lastSeen && now.getTime() - lastSeen.getTime() < DEVICE_ONLINE_MS;
+    }).length,
+    deviceCount: devices.length,
+    activeProjectList: activeProjects
+      .map(project => ({ project, ...getProjectProgress(project.id, tasks, milestones) }))
+      .sort((a, b) => (toDate(a.project.start_date)?.getTime() ?? Infinity) - (toDate(b.project.start_date)?.getTime() ?? Infinity))
+  };
+};
+
+// "+3", "-1", "0"; percentages and days keep their unit
+export const formatTrendChange = (value: Trend, unit: string = '') => {
+  const change = Math.round(value.change * 10) / 10;
+  return `${change > 0 ? '+' : ''}${change}${unit}`;
+};
@@ -0,0 +1,115 @@
+// Dispatch board rules. Crew bookings are work_schedules rows, equipment
+// bookings are scheduling_entries rows; both become a Booking here so the
+// board can lay them out and check them the same way. The database enforces
+// the same rules (check_crew_booking, check_equipment_booking).
+import { addDays, addHours, addMinutes, areIntervalsOverlapping, differenceInMinutes, format, startOfDay, startOfWeek } from 'date-fns';
+import type { Database, Tables } from '@/integrations/supabase/types';
+
+export type EquipmentRecord = Tables<'equipment'>;
+
+export type EquipmentStatus = Database['public']['Enums']['equipment_status'];
+
+export type BookingKind = 'crew' | 'equipment';
+
+export type BoardView = 'day' | 'week';
+
+export interface Booking {
+  id: string;
+  kind: BookingKind;
+  resourceId: string; // employee id for crew, equipment id for equipment
+  jobId: string;
+  start: Date;
+  end: Date;
+}
+
+export const EQUIPMENT_STATUS_LABELS: Record<EquipmentStatus, string> = {
+  available: 'Available',
+  in_use: 'In Use',
+  maintenance: 'Maintenance',
+  out_of_service: 'Out of Service'
+};
+
+// Jobs that are no longer offered for booking
+export const CLOSED_JOB_STATUSES = ['completed', 'cancelled'];
+
+const UNSCHEDULABLE_STATUSES: EquipmentStatus[] = ['maintenance', 'out_of_service'];
+
+// Day view hours; bookings dropped on the week view start at the top of the
+// workday and run one shift
+export const BOARD_START_HOUR = 6;
+export const BOARD_END_HOUR = 20;
+export const WORKDAY_START_HOUR = 7;
+export const SHIFT_HOURS = 8;
+
+export const isEquipmentSchedulable = (equipment: Pick<EquipmentRecord, 'status'>) =>
+  !UNSCHEDULABLE_STATUSES.includes(equipment.status ?? 'available');
+
+export const fromWorkSchedule = (schedule: Tables<'work_schedules'>): Booking | null =>
+  schedule.crew_member_id && schedule.job_id && schedule.scheduled_start && schedule.scheduled_end && schedule.status !== 'cancelled'
+    ? {
+        id: schedule.id,
+        kind: 'crew',
+        resourceId: schedule.crew_member_id,
+        jobId: schedule.job_id,
+        start: new Date(schedule.scheduled_start),
+        end: new Date(schedule.scheduled_end)
+      }
+    : null;
+
+export const fromSchedulingEntry = (entry: Tables<'scheduling_entries'>): Booking | null =>
+  entry.resource_id && entry.job_id && entry.start_time && entry.end_time && entry.status !== 'cancelled'
+    ? {
+        id: entry.id,
+        kind: 'equipment',
+        resourceId: entry.resource_id,
+        jobId: entry.job_id,
+        start: new Date(entry.start_time),
+        end: new Date(entry.end_time)
+      }
+    : null;
+
+const overlaps = (a: Pick<Booking, 'start' | 'end'>, b: Pick<Booking, 'start' | 'end'>) =>
+  areIntervalsOverlapping({ start: a.start, end: a.end }, { start: b.start, end: b.end });
+
+// Other bookings of the same person or machine that overlap this one
+export const findBookingConflicts = (booking: Omit<Booking, 'id'> & { id?: string }, bookings: Booking[]) =>
+  bookings.filter(other =>
+    other.id !== booking.id &&
+    other.kind === booking.kind &&
+    other.resourceId === booking.resourceId &&
+    overlaps(other, booking));
+
+// Every booking that is double-booked with another
+export const getConflictingBookingIds = (bookings: Booking[]) =>
+  new Set(bookings.filter(booking => findBookingConflicts(booking, bookings).length > 0).map(booking => booking.id));
+
+// The days a board view covers; weeks start on Monday
+export const getBoardDays = (view: BoardView, anchor: Date) => {
+  if (view === 'day') return [startOfDay(anchor)];
+  const monday = startOfWeek(anchor, { weekStartsOn: 1 });
+  return Array.from({ length: 7 }, (_, index) => addDays(monday, index));
+};
+
+export const getBoardRange = (view: BoardView, anchor: Date) => {
+  const days = getBoardDays(view, anchor);
+  return { start: days[0], end: addDays(days[days.length - 1], 1) };
+};
+
+// Where a job dropped on the board lands: at the hour it was dropped on in
+// the day view, at the start of the workday in the week view
+export const getDropSlot = (day: Date, hour: number = WORKDAY_START_HOUR) => {
+  const start = addHours(startOfDay(day), hour);
+  return { start, end: addHours(start, SHIFT_HOURS) };
+};
+
+// Moves a booking to another day, keeping its length. It starts at the given
+// hour (day view) or at the same time of day it had before (week view).
+export const moveBooking = (booking: Booking, day: Date, hour?: number) => {
+  const start = hour === undefined
+    ? addMinutes(startOfDay(day), differenceInMinutes(booking.start, startOfDay(booking.start)))
+    : addHours(startOfDay(day), hour);
+  return { start, end: addMinutes(start, differenceInMinutes(booking.end, booking.start)) };
+};
+
+export const formatBookingTime = (booking: Pick<Booking, 'start' | 'end'>) =>
+  `${format(booking.start, 'h:mma')}–${format(booking.end, 'h:mma')}`.toLowerCase();
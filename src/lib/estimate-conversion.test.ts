@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import type { Json } from '@/integrations/supabase/types';
+import { getConversionProjectType } from '@/lib/estimate-conversion';
+import type { EstimateRecord } from '@/lib/estimates';
+import type { ServiceKey } from '@/lib/pricing';
+
+const estimate = (hoursByService: Partial<Record<ServiceKey, number>>, striping = false): EstimateRecord => ({
+  id: 'estimate-1',
+  amount: 1000,
+  breakdown: {
+    labor: { hoursByService },
+    areas: [{ id: 'area-1', striping: striping ? { applicationCost: 100 } : null, patching: null }]
+  } as unknown as Json,
+  client_quote: null,
+  created_at: null,
+  created_by: null,
+  customer: null,
+  customer_id: null,
+  inputs: null,
+  job_id: null,
+  job_site_address: null,
+  line_items: null,
+  notes: null,
+  price_book_version_id: null,
+  sent_at: null,
+  status: 'accepted',
+  updated_at: null,
+  valid_until: null
+});
+
+describe('getConversionProjectType', () => {
+  it('types a single-service estimate by its service', () => {
+    expect(getConversionProjectType(estimate({ crackFill: 2 }))).toBe('crack_sealing');
+  });
+
+  it('types a mixed job by its most weather-sensitive service', () => {
+    expect(getConversionProjectType(estimate({ sealcoat: 6, crackFill: 2 }, true))).toBe('sealcoating');
+    expect(getConversionProjectType(estimate({ crackFill: 2 }, true))).toBe('line_striping');
+  });
+
+  it('falls back to maintenance when no service depends on the weather', () => {
+    expect(getConversionProjectType(estimate({ crackFill: 2, patching: 3 }))).toBe('maintenance');
+  });
+});
@@ -0,0 +1,133 @@
+// Turns an accepted estimate into the rows convert_estimate() writes: the
+// project, the crew job and the project's starting milestones. Kept free of
+// Supabase so the mapping can be checked without a database.
+import { addDays, format, parseISO } from 'date-fns';
+import type { Database, Tables, TablesInsert } from '@/integrations/supabase/types';
+import type { ServiceKey } from '@/lib/pricing';
+import { getEstimateBreakdown, getEstimateInputs, type EstimateRecord } from '@/lib/estimates';
+import { DEFAULT_PROJECT_MILESTONES, PROJECT_TYPE_LABELS, type ProjectType } from '@/lib/projects';
+import { WEATHER_REQUIREMENTS, WEATHER_SENSITIVE_SERVICES } from '@/lib/weather';
+
+export type EquipmentType = Database['public']['Enums']['equipment_type'];
+
+export interface ConversionPlan {
+  project: TablesInsert<'projects'>;
+  job: TablesInsert<'jobs'>;
+  milestones: Omit<TablesInsert<'project_milestones'>, 'project_id'>[];
+}
+
+export const WORKDAY_HOURS = 8;
+
+const SERVICE_PROJECT_TYPES: Record<ServiceKey, ProjectType> = {
+  sealcoat: 'sealcoating',
+  crackFill: 'crack_sealing',
+  striping: 'line_striping',
+  patching: 'pothole_repair'
+};
+
+// Estimates saved with a project type but no measured services
+const ESTIMATE_PROJECT_TYPES: Record<string, ProjectType> = {
+  sealcoating: 'sealcoating',
+  'crack-filling': 'crack_sealing',
+  patching: 'pothole_repair',
+  'line-striping': 'line_striping',
+  combination: 'maintenance'
+};
+
+const SERVICE_EQUIPMENT: Record<ServiceKey, EquipmentType[]> = {
+  sealcoat: ['seal_coating_tank', 'truck', 'trailer'],
+  crackFill: ['crack_sealer', 'truck'],
+  striping: ['line_striper', 'truck'],
+  patching: ['compactor', 'truck', 'trailer']
+};
+
+// Services with quantities on the estimate. Striping and patching are priced
+// per unit and may carry no crew hours, so their takeoffs count too.
+export const getEstimateServices = (estimate: EstimateRecord): ServiceKey[] => {
+  const breakdown = getEstimateBreakdown(estimate);
+  if (!breakdown) return [];
+  const services = new Set<ServiceKey>(
+    (Object.entries(breakdown.labor.hoursByService) as [ServiceKey, number][])
+      .filter(([, hours]) => hours > 0)
+      .map(([service]) => service)
+  );
+  if (breakdown.areas.some(area => area.striping)) services.add('striping');
+  if (breakdown.areas.some(area => area.patching)) services.add('patching');
+  return (Object.keys(SERVICE_PROJECT_TYPES) as ServiceKey[]).filter(service => services.has(service));
+};
+
+// A job with several services is typed by the one most at the mercy of the
+// weather, so the scheduled weather checks still cover a sealcoat, crack fill
+// and striping job. Its requirements are the strictest of the lot.
+const mostWeatherSensitive = (types: ProjectType[]) =>
+  WEATHER_SENSITIVE_SERVICES
+    .filter(service => types.includes(service))
+    .sort((a, b) => WEATHER_REQUIREMENTS[b].rainFreeHours - WEATHER_REQUIREMENTS[a].rainFreeHours)[0];
+
+export const getConversionProjectType = (estimate: EstimateRecord): ProjectType => {
+  const services = getEstimateServices(estimate);
+  if (services.length === 1) return SERVICE_PROJECT_TYPES[services[0]];
+  if (services.length > 1) return mostWeatherSensitive(services.map(service => SERVICE_PROJECT_TYPES[service])) ?? 'maintenance';
+  return ESTIMATE_PROJECT_TYPES[getEstimateInputs(estimate)?.projectType ?? ''] ?? 'maintenance';
+};
+
+export const getEquipmentNeeded = (services: ServiceKey[]): EquipmentType[] =>
+  Array.from(new Set(services.flatMap(service => SERVICE_EQUIPMENT[service])));
+
+// Whole crew days; per-unit-only jobs still take the crew out for a day
+export const getWorkingDays = (estimate: EstimateRecord) => {
+  const laborHours = getEstimateBreakdown(estimate)?.labor.laborHours ?? 0;
+  return Math.max(1, Math.ceil(laborHours / WORKDAY_HOURS));
+};
+
+const toDateString = (date: Date) => format(date, 'yyyy-MM-dd');
+
+export const buildConversionPlan = (
+  estimate: EstimateRecord,
+  startDate: string,
+  customer?: Pick<Tables<'customers'>, 'email' | 'phone'> | null
+): ConversionPlan => {
+  const breakdown = getEstimateBreakdown(estimate);
+  const services = getEstimateServices(estimate);
+  const projectType = getConversionProjectType(estimate);
+  const workingDays = getWorkingDays(estimate);
+  const start = parseISO(startDate);
+  const end = addDays(start, workingDays - 1);
+  const clientName = estimate.customer || 'Client';
+  const name = `${clientName} – ${PROJECT_TYPE_LABELS[projectType]}`;
+
+  // Everything the job costs us before profit
+  const estimatedCost = breakdown
+    ? Math.round((breakdown.total - breakdown.profit) * 100) / 100
+    : estimate.amount;
+
+  return {
+    project: {
+      name,
+      description: estimate.notes,
+      project_type: projectType,
+      client_name: estimate.customer,
+      client_email: customer?.email ?? null,
+      client_phone: customer?.phone ?? null,
+      site_address: estimate.job_site_address,
+      start_date: toDateString(start),
+      end_date: toDateString(end),
+      estimated_cost: estimatedCost
+    },
+    job: {
+      title: name,
+      description: estimate.notes,
+      priority: 'normal',
+      location_address: estimate.job_site_address,
+      crew_size_required: breakdown?.labor.crewSize ?? null,
+      equipment_needed: getEquipmentNeeded(services),
+      estimated_duration: `${workingDays} days`
+    },
+    milestones: DEFAULT_PROJECT_MILESTONES[projectType].map(template => ({
+      title: template.title,
+      description: template.description,
+      tasks: template.tasks,
+      target_date: toDateString(addDays(template.anchor === 'start' ? start : end, template.offsetDays))
+    }))
+  };
+};
@@ -0,0 +1,38 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getEstimateStatus, getEstimateTransitions, getValidUntil } from '@/lib/estimates';
+
+// Evening in the US is already the next day in UTC, which is where a UTC date
+// would put the validity date a day out
+describe('estimate validity in local time', () => {
+  beforeEach(() => {
+    vi.stubEnv('TZ', 'America/New_York');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('counts the validity period from the local calendar day', () => {
+    expect(getValidUntil(new Date(2026, 2, 1, 21, 30))).toBe('2026-03-31');
+  });
+
+  it('keeps an estimate valid through the evening of its last day', () => {
+    const estimate = { status: 'sent', valid_until: '2026-03-31' };
+
+    expect(getEstimateStatus(estimate, new Date(2026, 2, 31, 21, 30))).toBe('sent');
+    expect(getEstimateStatus(estimate, new Date(2026, 3, 1, 0, 5))).toBe('expired');
+  });
+});
+
+describe('getEstimateTransitions', () => {
+  const now = new Date(2026, 3, 15, 12);
+
+  it('never reopens a sent estimate, even once it has expired', () => {
+    expect(getEstimateTransitions({ status: 'sent', valid_until: '2026-04-30' }, now)).toEqual(['accepted', 'declined']);
+    expect(getEstimateTransitions({ status: 'sent', valid_until: '2026-03-31' }, now)).toEqual([]);
+  });
+
+  it('reopens an expired draft with a fresh validity window', () => {
+    expect(getEstimateTransitions({ status: 'draft', valid_until: '2026-03-31' }, now)).toEqual(['draft']);
+  });
+});
@@ -0,0 +1,228 @@
+// Serialization and status rules for saved estimates.
+import { format } from 'date-fns';
+import type { Json, Tables, TablesInsert } from '@/integrations/supabase/types';
+import {
+  DEFAULT_ESTIMATE_AREA,
+  DEFAULT_ESTIMATE_INPUT,
+  type EstimateArea,
+  type EstimateBreakdown,
+  type EstimateInput
+} from '@/lib/pricing';
+
+export type EstimateRecord = Tables<'estimates'>;
+
+export type EstimateStatus = 'draft' | 'sent' | 'accepted' | 'declined' | 'expired';
+
+export type LineItemCategory = 'material' | 'labor' | 'equipment' | 'application' | 'fuel' | 'overhead' | 'profit';
+
+export interface EstimateLineItem {
+  key: string;
+  category: LineItemCategory;
+  description: string;
+  quantity: number;
+  unit: string;
+  unitPrice: number;
+  amount: number;
+}
+
+export const ESTIMATE_VALIDITY_DAYS = 30;
+
+export const ESTIMATE_STATUS_LABELS: Record<EstimateStatus, string> = {
+  draft: 'Draft',
+  sent: 'Sent',
+  accepted: 'Accepted',
+  declined: 'Declined',
+  expired: 'Expired'
+};
+
+// Statuses a user may move an estimate to. Expiry is never set by hand; it is
+// derived from valid_until. A sent estimate is never reopened; it is changed by
+// duplicating it.
+export const ESTIMATE_STATUS_TRANSITIONS: Record<EstimateStatus, EstimateStatus[]> = {
+  draft: ['sent'],
+  sent: ['accepted', 'declined'],
+  accepted: [],
+  declined: ['draft'],
+  expired: ['draft']
+};
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+const lineItem = (
+  key: string,
+  category: LineItemCategory,
+  description: string,
+  quantity: number,
+  unit: string,
+  amount: number
+): EstimateLineItem => ({
+  key,
+  category,
+  description,
+  quantity: Math.round(quantity * 100) / 100,
+  unit,
+  unitPrice: quantity > 0 ? roundCurrency(amount / quantity) : roundCurrency(amount),
+  amount: roundCurrency(amount)
+});
+
+export const buildLineItems = (breakdown: EstimateBreakdown): EstimateLineItem[] => {
+  const { materials, costs, labor } = breakdown;
+  const items: EstimateLineItem[] = [];
+
+  if (costs.sealMasterPMM > 0) {
+    items.push(lineItem('sealMasterPMM', 'material', 'SealMaster PMM', materials.sealMasterPMM, 'gal', costs.sealMasterPMM));
+  }
+  if (costs.sand > 0) {
+    items.push(lineItem('sand', 'material', 'Sand', Math.ceil(materials.sand / 50), 'bag', costs.sand));
+  }
+  if (costs.prepSeal > 0) {
+    items.push(lineItem('prepSeal', 'material', 'Prep Seal', materials.prepSeal, 'bucket', costs.prepSeal));
+  }
+  if (costs.fastDry > 0) {
+    items.push(lineItem('fastDry', 'material', 'Fast Dry', Math.ceil(materials.fastDry / 5), 'bucket', costs.fastDry));
+  }
+  if (costs.crackMaster > 0) {
+    items.push(lineItem('crackMaster', 'material', 'CrackMaster', materials.crackMaster, 'box', costs.crackMaster));
+  }
+  if (costs.trafficPaint > 0) {
+    items.push(lineItem('trafficPaint', 'material', 'Traffic Paint', materials.trafficPaint, 'gal', costs.trafficPaint));
+  }
+  if (costs.hotMix > 0) {
+    items.push(lineItem('hotMix', 'material', 'Hot Mix Asphalt', materials.hotMix, 'ton', costs.hotMix));
+  }
+  if (costs.coldMix > 0) {
+    items.push(lineItem('coldMix', 'material', 'Cold Patch Mix', materials.coldMix, 'bag', costs.coldMix));
+  }
+
+  if (labor.laborHours > 0) {
+    items.push(lineItem('labor', 'labor', `Labor (${labor.crewSize}-person crew)`, labor.laborHours, 'hr', labor.laborCost));
+    items.push(lineItem('equipment', 'equipment', 'Equipment Operation', labor.laborHours, 'hr', labor.equipmentCost));
+  }
+  // Application charges are rated per area, so each area keeps its own line
+  const areaSuffix = (name: string) => (breakdown.areas.length > 1 ? ` - ${name}` : '');
+  for (const area of breakdown.areas) {
+    if (area.striping) {
+      items.push(lineItem(`striping:${area.id}`, 'application', `Line Striping Application${areaSuffix(area.name)}`, area.striping.equivalentLinearFeet, 'lf', area.striping.applicationCost));
+    }
+    if (area.patching) {
+      items.push(lineItem(`patching:${area.id}`, 'application', `Patching Application (${area.patching.mixType} mix)${areaSuffix(area.name)}`, area.patching.area, 'sq ft', area.patching.applicationCost));
+    }
+  }
+  if (labor.fuelCost > 0) {
+    items.push(lineItem('fuel', 'fuel', 'Fuel & Travel', labor.roundTripMiles, 'mi', labor.fuelCost));
+  }
+
+  items.push(lineItem('overhead', 'overhead', `Overhead (${(breakdown.overheadRate * 100).toFixed(0)}%)`, 1, 'ls', breakdown.overhead));
+  items.push(lineItem('profit', 'profit', `Profit (${breakdown.profitMargin}%)`, 1, 'ls', breakdown.profit));
+
+  return items;
+};
+
+export const getValidUntil = (from: Date, days: number = ESTIMATE_VALIDITY_DAYS) => {
+  const validUntil = new Date(from);
+  validUntil.setDate(validUntil.getDate() + days);
+  return format(validUntil, 'yyyy-MM-dd');
+};
+
+// Outstanding estimates past their validity date read as expired without
+// anyone having to update the row. Both dates are local calendar days, so an
+// estimate expires at the office's midnight rather than UTC's.
+export const getEstimateStatus = (
+  estimate: Pick<EstimateRecord, 'status' | 'valid_until'>,
+  now: Date = new Date()
+): EstimateStatus => {
+  const status = (estimate.status as EstimateStatus) || 'draft';
+  if ((status === 'draft' || status === 'sent') && estimate.valid_until) {
+    if (estimate.valid_until < format(now, 'yyyy-MM-dd')) return 'expired';
+  }
+  return status;
+};
+
+// Transitions for a saved estimate. One that expired after it was sent is
+// still a sent estimate, so it can't be reopened either.
+export const getEstimateTransitions = (
+  estimate: Pick<EstimateRecord, 'status' | 'valid_until'>,
+  now: Date = new Date()
+): EstimateStatus[] => {
+  const status = getEstimateStatus(estimate, now);
+  if (status === 'expired' && estimate.status === 'sent') return [];
+  return ESTIMATE_STATUS_TRANSITIONS[status];
+};
+
+export const canTransitionEstimate = (from: EstimateStatus, to: EstimateStatus) =>
+  ESTIMATE_STATUS_TRANSITIONS[from].includes(to);
+
+// Only drafts can be re-priced. Anything the customer has already been sent is
+// changed by duplicating it into a new draft.
+export const canEditEstimate = (estimate: Pick<EstimateRecord, 'status'>) =>
+  (estimate.status || 'draft') === 'draft';
+
+// The office changes any estimate; crew leads only the ones they priced
+// themselves, which mirrors the RLS policies on estimates.
+export const canManageEstimate = (
+  estimate: Pick<EstimateRecord, 'created_by'>,
+  userId: string | undefined,
+  canViewMargins: boolean
+) => canViewMargins || (!!userId && estimate.created_by === userId);
+
+export const serializeEstimate = (
+  input: EstimateInput,
+  breakdown: EstimateBreakdown,
+  now: Date = new Date()
+): TablesInsert<'estimates'> => ({
+  customer: input.clientName || null,
+  customer_id: input.customerId ?? null,
+  job_site_address: input.jobSiteAddress || null,
+  notes: input.additionalNotes || null,
+  amount: roundCurrency(breakdown.total),
+  line_items: buildLineItems(breakdown) as unknown as Json,
+  inputs: input as unknown as Json,
+  breakdown: breakdown as unknown as Json,
+  price_book_version_id: breakdown.priceBook?.versionId ?? null,
+  updated_at: now.toISOString()
+});
+
+// Inputs saved before a field existed pick up its default. Estimates saved
+// before multi-area takeoffs kept their measurements at the top level and
+// become a single area.
+export const getEstimateInputs = (estimate: EstimateRecord): EstimateInput | null => {
+  const inputs = estimate.inputs as unknown as (Partial<EstimateInput> & Partial<EstimateArea>) | null;
+  if (!inputs) return null;
+
+  const areas = inputs.areas?.length
+    ? inputs.areas.map(area => ({ ...DEFAULT_ESTIMATE_AREA, ...area }))
+    : [{
+        ...DEFAULT_ESTIMATE_AREA,
+        ...Object.fromEntries(
+          Object.keys(DEFAULT_ESTIMATE_AREA)
+            .filter(key => key !== 'id' && key !== 'name' && inputs[key as keyof EstimateArea] !== undefined)
+            .map(key => [key, inputs[key as keyof EstimateArea]])
+        ),
+        name: 'Main Area'
+      }];
+
+  return {
+    projectType: inputs.projectType ?? DEFAULT_ESTIMATE_INPUT.projectType,
+    areas,
+    clientName: inputs.clientName ?? DEFAULT_ESTIMATE_INPUT.clientName,
+    customerId: inputs.customerId ?? estimate.customer_id ?? DEFAULT_ESTIMATE_INPUT.customerId,
+    jobSiteAddress: inputs.jobSiteAddress ?? DEFAULT_ESTIMATE_INPUT.jobSiteAddress,
+    travelDistance: inputs.travelDistance ?? DEFAULT_ESTIMATE_INPUT.travelDistance,
+    profitMargin: inputs.profitMargin ?? DEFAULT_ESTIMATE_INPUT.profitMargin,
+    additionalNotes: inputs.additionalNotes ?? DEFAULT_ESTIMATE_INPUT.additionalNotes
+  };
+};
+
+export const getEstimateBreakdown = (estimate: EstimateRecord) =>
+  (estimate.breakdown as unknown as EstimateBreakdown | null) ?? null;
+
+// Breakdowns read through field_estimates have overhead, profit and the totals
+// removed; they cannot be quoted or re-serialized into a complete estimate
+export const isPricedBreakdown = (breakdown: EstimateBreakdown | null): breakdown is EstimateBreakdown =>
+  typeof breakdown?.profit === 'number' && typeof breakdown.total === 'number';
+
+export const hasMarginFigures = (estimate: EstimateRecord) =>
+  isPricedBreakdown(getEstimateBreakdown(estimate));
+
+export const getEstimateLineItems = (estimate: EstimateRecord) =>
+  (estimate.line_items as unknown as EstimateLineItem[] | null) ?? [];
@@ -0,0 +1,116 @@
+// Live fleet tracking. Each tracker reports to gps_locations and the map shows
+// the latest fix per vehicle (latest_gps_locations). Speed comes in meters per
+// second, the unit the Geolocation API reports, and heading in degrees from
+// north.
+import type { Tables } from '@/integrations/supabase/types';
+
+export type FleetAsset = Tables<'fleet_assets'>;
+export type VehicleDetail = Tables<'vehicle_details'>;
+export type TrackingDevice = Tables<'devices'>;
+export type GpsLocation = Tables<'latest_gps_locations'>;
+export type TrackingEvent = Tables<'tracking_events'>;
+
+export type VehicleStatus = 'Active' | 'Idle' | 'Offline';
+
+export const VEHICLE_STATUS_COLORS: Record<VehicleStatus, string> = {
+  Active: 'bg-green-500/10 text-green-400 border-green-500/20',
+  Idle: 'bg-yellow-500/10 text-yellow-400 border-yellow-500/20',
+  Offline: 'bg-red-500/10 text-red-400 border-red-500/20'
+};
+
+// Map markers can't use the badge classes
+export const VEHICLE_MARKER_COLORS: Record<VehicleStatus, string> = {
+  Active: '#22c55e',
+  Idle: '#eab308',
+  Offline: '#6b7280'
+};
+
+// Below this a heading is GPS noise, so parked vehicles get no arrow
+export const MOVING_SPEED_MPS = 1;
+
+const METERS_PER_SECOND_TO_MPH = 2.23694;
+
+const COMPASS_POINTS = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'];
+
+// Heard from within the hour is active, within the day idle
+export const getDeviceStatus = (device: Pick<TrackingDevice, 'last_seen'> | undefined, now: Date = new Date()): VehicleStatus => {
+  if (!device?.last_seen) return 'Offline';
+  const hoursSinceLastSeen = (now.getTime() - new Date(device.last_seen).getTime()) / (1000 * 60 * 60);
+  if (hoursSinceLastSeen < 1) return 'Active';
+  if (hoursSinceLastSeen < 24) return 'Idle';
+  return 'Offline';
+};
+
+export const isMoving = (location: Pick<GpsLocation, 'speed' | 'heading'>) =>
+  location.heading !== null && (location.speed ?? 0) >= MOVING_SPEED_MPS;
+
+export const formatSpeed = (speed: number | null) =>
+  speed === null ? 'Unknown' : `${Math.round(speed * METERS_PER_SECOND_TO_MPH)} mph`;
+
+export const formatHeading = (heading: number | null) =>
+  heading === null ? 'Unknown' : COMPASS_POINTS[Math.round((((heading % 360) + 360) % 360) / 45) % COMPASS_POINTS.length];
+
+export const formatBattery = (level: number | null) =>
+  level === null ? 'Unknown' : `${Math.round(level)}%`;
+
+// Folds a new fix into the latest-per-device list; a fix that arrives late
+// never replaces a newer one
+export const mergeLatestLocation = (locations: GpsLocation[], location: GpsLocation) => {
+  const current = locations.find(candidate => candidate.device_id === location.device_id);
+  if (!current) return [...locations, location];
+  if (new Date(current.timestamp).getTime() >= new Date(location.timestamp).getTime()) return locations;
+  return locations.map(candidate => (candidate === current ? location : candidate));
+};
+
+export interface FleetPosition {
+  vehicle: FleetAsset;
+  device: TrackingDevice;
+  location: GpsLocation;
+  status: VehicleStatus;
+}
+
+// One position per vehicle; when a vehicle carries more than one tracker the
+// freshest fix wins
+export const buildFleetPositions = (
+  vehicles: FleetAsset[],
+  devices: TrackingDevice[],
+  locations: GpsLocation[],
+  now: Date = new Date()
+): FleetPosition[] => {
+  const positions = new Map<string, FleetPosition>();
+
+  [...locations]
+    .filter(location => location.latitude !== null && location.longitude !== null)
+    .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
+    .forEach(location => {
+      const device = devices.find(candidate => candidate.id === location.device_id);
+      const vehicle = device && vehicles.find(candidate => candidate.id === device.vehicle_id);
+      if (!vehicle || positions.has(vehicle.id)) return;
+      positions.set(vehicle.id, { vehicle, device, location, status: getDeviceStatus(device, now) });
+    });
+
+  return [...positions.values()];
+};
+
+export interface Cluster<T> {
+  items: T[];
+  x: number;
+  y: number;
+}
+
+// Greedy screen-space clustering: each point joins the first cluster whose
+// anchor is within the radius (in pixels), or starts its own
+export const clusterPoints = <T>(points: { item: T; x: number; y: number }[], radius: number): Cluster<T>[] => {
+  const clusters: Cluster<T>[] = [];
+
+  points.forEach(({ item, x, y }) => {
+    const cluster = clusters.find(candidate => Math.hypot(candidate.x - x, candidate.y - y) < radius);
+    if (cluster) {
+      cluster.items.push(item);
+    } else {
+      clusters.push({ items: [item], x, y });
+    }
+  });
+
+  return clusters;
+};
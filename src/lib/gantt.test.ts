@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { getCriticalTaskIds, getTaskSpan, type TaskSpan } from '@/lib/gantt';
+
+const task = (id: string, start_date: string, due_date: string, dependencies: string[] = []) => ({
+  id,
+  project_id: 'project-1',
+  start_date,
+  due_date,
+  dependencies
+});
+
+const criticalIds = (tasks: ReturnType<typeof task>[]) => {
+  const spans = new Map<string, TaskSpan>(tasks.map(t => [t.id, getTaskSpan(t)!]));
+  return [...getCriticalTaskIds(tasks, spans)].sort();
+};
+
+describe('getCriticalTaskIds', () => {
+  it('flags a chain whose dependent starts the day its dependency is due', () => {
+    expect(criticalIds([
+      task('prep', '2026-06-01', '2026-06-03'),
+      task('seal', '2026-06-03', '2026-06-04', ['prep']),
+      task('parallel', '2026-06-01', '2026-06-04')
+    ])).toEqual(['parallel', 'prep', 'seal']);
+  });
+
+  it('flags both of two parallel branches of equal length', () => {
+    expect(criticalIds([
+      task('a1', '2026-06-01', '2026-06-03'),
+      task('a2', '2026-06-03', '2026-06-05', ['a1']),
+      task('b1', '2026-06-01', '2026-06-02'),
+      task('b2', '2026-06-02', '2026-06-05', ['b1'])
+    ])).toEqual(['a1', 'a2', 'b1', 'b2']);
+  });
+
+  it('gives a dependency a day of slack when its dependent starts the day after', () => {
+    expect(criticalIds([
+      task('a1', '2026-06-01', '2026-06-03'),
+      task('a2', '2026-06-04', '2026-06-05', ['a1'])
+    ])).toEqual(['a2']);
+  });
+
+  it('leaves a task with slack off the critical path', () => {
+    expect(criticalIds([
+      task('long', '2026-06-01', '2026-06-05'),
+      task('short', '2026-06-01', '2026-06-02')
+    ])).toEqual(['long']);
+  });
+});
@@ -0,0 +1,160 @@
+// Scheduling rules behind the project timeline. A task runs from its
+// start_date to its due_date in whole days, and a dependency means the task
+// can't start before the task it depends on is due (the same day is fine).
+import { addDays, differenceInCalendarDays, format, parseISO, startOfDay } from 'date-fns';
+import type { ProjectTaskRecord } from '@/lib/project-tasks';
+
+export interface TaskSpan {
+  start: Date;
+  end: Date; // inclusive
+}
+
+export interface DependencyLink {
+  from: string; // the task depended on
+  to: string; // the dependent task
+  violated: boolean; // the dependent starts before the other is due
+}
+
+export interface DependencyConflict {
+  task: ProjectTaskRecord;
+  kind: 'depends_on' | 'blocks'; // the moved task depends on / blocks this one
+}
+
+export type DragMode = 'move' | 'resize';
+
+type ScheduledTask = Pick<ProjectTaskRecord, 'id' | 'project_id' | 'start_date' | 'due_date' | 'dependencies'>;
+
+export const toDateValue = (date: Date) => format(date, 'yyyy-MM-dd');
+
+// Tasks with only one of the two dates are a single day long; undated tasks
+// aren't on the timeline
+export const getTaskSpan = (task: Pick<ProjectTaskRecord, 'start_date' | 'due_date'>): TaskSpan | null => {
+  const start = task.start_date ?? task.due_date;
+  const end = task.due_date ?? task.start_date;
+  if (!start) return null;
+  const startDate = parseISO(start);
+  const endDate = parseISO(end);
+  return { start: startDate, end: endDate < startDate ? startDate : endDate };
+};
+
+export const getSpanDays = (span: TaskSpan) => differenceInCalendarDays(span.end, span.start) + 1;
+
+// Moving shifts both ends; resizing moves the due date but never before the start
+export const shiftSpan = (span: TaskSpan, days: number, mode: DragMode): TaskSpan => {
+  if (mode === 'move') return { start: addDays(span.start, days), end: addDays(span.end, days) };
+  const end = addDays(span.end, days);
+  return { start: span.start, end: end < span.start ? span.start : end };
+};
+
+const startsBeforeDue = (span: TaskSpan, dependencySpan: TaskSpan) =>
+  differenceInCalendarDays(span.start, dependencySpan.end) < 0;
+
+export const getDependencyLinks = (tasks: ScheduledTask[], spans: Map<string, TaskSpan>): DependencyLink[] =>
+  tasks.flatMap(task => {
+    const span = spans.get(task.id);
+    if (!span) return [];
+    return (task.dependencies ?? [])
+      .filter(id => spans.has(id))
+      .map(id => ({ from: id, to: task.id, violated: startsBeforeDue(span, spans.get(id)) }));
+  });
+
+// Dependencies a proposed span for a task would break, in both directions
+export const findDependencyConflicts = (
+  task: ProjectTaskRecord,
+  span: TaskSpan,
+  tasks: ProjectTaskRecord[]
+): DependencyConflict[] => {
+  const dependsOn = (task.dependencies ?? [])
+    .map(id => tasks.find(candidate => candidate.id === id))
+    .filter(dependency => {
+      const dependencySpan = dependency && getTaskSpan(dependency);
+      return !!dependencySpan && startsBeforeDue(span, dependencySpan);
+    })
+    .map(dependency => ({ task: dependency, kind: 'depends_on' as const }));
+
+  const blocks = tasks
+    .filter(candidate => candidate.dependencies?.includes(task.id))
+    .filter(dependent => {
+      const dependentSpan = getTaskSpan(dependent);
+      return !!dependentSpan && startsBeforeDue(dependentSpan, span);
+    })
+    .map(dependent => ({ task: dependent, kind: 'blocks' as const }));
+
+  return [...dependsOn, ...blocks];
+};
+
+// Tasks ordered so every task comes after the tasks it depends on. Cycles
+// can't be saved from the task form; if one exists anyway it is cut where
+// it's found.
+const sortByDependencies = (tasks: ScheduledTask[]) => {
+  const byId = new Map(tasks.map(task => [task.id, task]));
+  const visited = new Set<string>();
+  const sorted: ScheduledTask[] = [];
+  const visit = (task: ScheduledTask, path: Set<string>) => {
+    if (visited.has(task.id) || path.has(task.id)) return;
+    path.add(task.id);
+    (task.dependencies ?? []).forEach(id => byId.has(id) && visit(byId.get(id), path));
+    path.delete(task.id);
+    visited.add(task.id);
+    sorted.push(task);
+  };
+  tasks.forEach(task => visit(task, new Set()));
+  return sorted;
+};
+
+// Critical path method run on each project's schedule as it stands: a task
+// starts on its own start date or when its dependencies are due, whichever is
+// later. Tasks with no slack before the project's last due date are critical;
+// slipping any of them pushes the finish out. Finishes are the inclusive last
+// day in both passes, since a dependent may start on the day its dependency
+// is due.
+export const getCriticalTaskIds = (tasks: ScheduledTask[], spans: Map<string, TaskSpan>) => {
+  const critical = new Set<string>();
+  const byProject = new Map<string, ScheduledTask[]>();
+  tasks.filter(task => spans.has(task.id)).forEach(task => {
+    const key = task.project_id ?? '';
+    byProject.set(key, [...(byProject.get(key) ?? []), task]);
+  });
+
+  byProject.forEach(projectTasks => {
+    const origin = Math.min(...projectTasks.map(task => spans.get(task.id).start.getTime()));
+    const offset = (date: Date) => differenceInCalendarDays(date, new Date(origin));
+    const order = sortByDependencies(projectTasks);
+    const earlyFinish = new Map<string, number>();
+    const earlyStart = new Map<string, number>();
+
+    order.forEach(task => {
+      const span = spans.get(task.id);
+      const ready = Math.max(
+        offset(span.start),
+        ...(task.dependencies ?? []).filter(id => earlyFinish.has(id)).map(id => earlyFinish.get(id))
+      );
+      earlyStart.set(task.id, ready);
+      earlyFinish.set(task.id, ready + getSpanDays(span) - 1);
+    });
+
+    const finish = Math.max(...earlyFinish.values());
+    const lateStart = new Map<string, number>();
+    [...order].reverse().forEach(task => {
+      const successors = projectTasks.filter(candidate => candidate.dependencies?.includes(task.id) && lateStart.has(candidate.id));
+      const lateFinish = Math.min(finish, ...successors.map(successor => lateStart.get(successor.id)));
+      lateStart.set(task.id, lateFinish - getSpanDays(spans.get(task.id)) + 1);
+    });
+
+    projectTasks.forEach(task => {
+      if (lateStart.get(task.id) === earlyStart.get(task.id)) critical.add(task.id);
+    });
+  });
+
+  return critical;
+};
+
+// Days shown on the timeline: every dated item plus a little room either side
+export const getTimelineRange = (dates: Date[], paddingDays: number = 3, minimumDays: number = 28) => {
+  const today = new Date();
+  const times = dates.length ? dates.map(date => date.getTime()) : [today.getTime()];
+  const start = startOfDay(addDays(new Date(Math.min(...times)), -paddingDays));
+  const end = addDays(new Date(Math.max(...times)), paddingDays);
+  const days = Math.max(minimumDays, differenceInCalendarDays(end, start) + 1);
+  return { start, days };
+};
@@ -0,0 +1,101 @@
+// Geofences drawn on the fleet map. Circles are a center and a radius in
+// meters; polygons are kept as GeoJSON with their bounding circle in center
+// and radius. Entry, exit and dwell are worked out by the database as fixes
+// come in (evaluate_geofences), which also logs job-site visits for fences
+// tied to a project.
+import { z } from 'zod';
+import type { Json, Tables } from '@/integrations/supabase/types';
+import { haversineFeet, type Position } from '@/lib/measurements';
+
+export type GeofenceRecord = Tables<'geofences'>;
+export type SiteVisitRecord = Tables<'project_site_visits'>;
+
+export type GeofenceShape = 'circle' | 'polygon';
+
+// The draft coming off the map, before it has a name
+export type GeofenceGeometry =
+  | { shape: 'circle'; center: Position; radius: number }
+  | { shape: 'polygon'; ring: Position[] };
+
+export const GEOFENCE_EVENT_LABELS: Record<string, string> = {
+  geofence_enter: 'Arrived',
+  geofence_exit: 'Left',
+  geofence_dwell: 'Dwelling'
+};
+
+export const GEOFENCE_COLORS = ['#3b82f6', '#22c55e', '#f97316', '#a855f7', '#ef4444'];
+
+export const FEET_PER_METER = 3.28084;
+
+export const metersBetween = (a: Position, b: Position) => haversineFeet(a, b) / FEET_PER_METER;
+
+export const formatRadius = (meters: number) => `${Math.round(meters * FEET_PER_METER).toLocaleString()} ft`;
+
+export const toGeofenceGeometry = (fence: GeofenceRecord): GeofenceGeometry => {
+  const ring = fence.shape === 'polygon'
+    ? (fence.geometry as { coordinates?: Position[][] } | null)?.coordinates?.[0]
+    : undefined;
+  return ring
+    ? { shape: 'polygon', ring: ring.slice(0, -1) }
+    : { shape: 'circle', center: [fence.center_longitude, fence.center_latitude], radius: fence.radius };
+};
+
+// Polygons are stored open on the map side and closed in GeoJSON
+const getFenceColumns = (geometry: GeofenceGeometry) => {
+  if (geometry.shape === 'circle') {
+    return {
+      shape: 'circle',
+      geometry: null,
+      center_longitude: geometry.center[0],
+      center_latitude: geometry.center[1],
+      radius: Math.round(geometry.radius)
+    };
+  }
+  const center: Position = [
+    geometry.ring.reduce((sum, [x]) => sum + x, 0) / geometry.ring.length,
+    geometry.ring.reduce((sum, [, y]) => sum + y, 0) / geometry.ring.length
+  ];
+  return {
+    shape: 'polygon',
+    geometry: { type: 'Polygon', coordinates: [[...geometry.ring, geometry.ring[0]]] } as unknown as Json,
+    center_longitude: center[0],
+    center_latitude: center[1],
+    radius: Math.ceil(Math.max(...geometry.ring.map(point => metersBetween(center, point))))
+  };
+};
+
+export const canCompleteFence = (shape: GeofenceShape, points: Position[]) =>
+  points.length >= (shape === 'polygon' ? 3 : 2);
+
+export const geofenceFormSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  project_id: z.string(),
+  color: z.string(),
+  dwell_minutes: z.preprocess(
+    value => (value === '' || value === null || value === undefined ? null : Number(value)),
+    z.number().int('Use whole minutes').positive('Dwell time must be more than zero').nullable()
+  ),
+  enable_notifications: z.boolean(),
+  is_active: z.boolean()
+});
+
+export type GeofenceFormValues = z.infer<typeof geofenceFormSchema>;
+
+export const getGeofenceFormValues = (fence?: GeofenceRecord | null): GeofenceFormValues => ({
+  name: fence?.name ?? '',
+  project_id: fence?.project_id ?? 'none',
+  color: fence?.color ?? GEOFENCE_COLORS[0],
+  dwell_minutes: fence ? fence.dwell_minutes : 15,
+  enable_notifications: fence?.enable_notifications ?? true,
+  is_active: fence?.is_active ?? true
+});
+
+export const serializeGeofenceForm = (values: GeofenceFormValues, geometry: GeofenceGeometry) => ({
+  ...getFenceColumns(geometry),
+  name: values.name,
+  project_id: values.project_id === 'none' ? null : values.project_id,
+  color: values.color,
+  dwell_minutes: values.dwell_minutes,
+  enable_notifications: values.enable_notifications,
+  is_active: values.is_active
+});
@@ -0,0 +1,92 @@
+// Renders an Invoice to PDF in the browser, laid out like the quote PDF.
+import { jsPDF } from 'jspdf';
+import { BUSINESS_CONFIG } from '@/lib/pricing';
+import { PAYMENT_INSTRUCTIONS, type Invoice } from '@/lib/client-portal';
+
+const PAGE_MARGIN = 54;
+const LINE_HEIGHT = 14;
+
+const formatCurrency = (value: number) =>
+  `$${value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatDate = (isoDate: string) =>
+  new Date(`${isoDate.slice(0, 10)}T00:00:00`).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+
+export const renderInvoicePdf = (invoice: Invoice): jsPDF => {
+  const doc = new jsPDF({ unit: 'pt', format: 'letter' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const contentWidth = pageWidth - PAGE_MARGIN * 2;
+  const amountColumn = pageWidth - PAGE_MARGIN;
+  const totalsColumn = pageWidth - PAGE_MARGIN - 200;
+  let y = PAGE_MARGIN;
+
+  const sectionHeading = (text: string) => {
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(11);
+    doc.text(text.toUpperCase(), PAGE_MARGIN, y);
+    y += 6;
+    doc.setDrawColor(200);
+    doc.line(PAGE_MARGIN, y, pageWidth - PAGE_MARGIN, y);
+    y += LINE_HEIGHT;
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(10);
+  };
+
+  // Company header
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(20);
+  doc.text(BUSINESS_CONFIG.name, PAGE_MARGIN, y + 6);
+  doc.setFontSize(16);
+  doc.text('INVOICE', pageWidth - PAGE_MARGIN, y + 6, { align: 'right' });
+  y += 24;
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(10);
+  doc.text(BUSINESS_CONFIG.address, PAGE_MARGIN, y);
+  doc.text(`Invoice #: ${invoice.invoiceNumber}`, pageWidth - PAGE_MARGIN, y, { align: 'right' });
+  y += LINE_HEIGHT;
+  doc.text(`Date: ${formatDate(invoice.issuedOn)}`, pageWidth - PAGE_MARGIN, y, { align: 'right' });
+  y += LINE_HEIGHT * 2;
+
+  sectionHeading('Bill To');
+  doc.text(invoice.clientName || 'Client', PAGE_MARGIN, y);
+  y += LINE_HEIGHT * 2;
+
+  sectionHeading('Services');
+  doc.text(invoice.projectName || 'Contracted work', PAGE_MARGIN, y);
+  doc.text(formatCurrency(invoice.amount), amountColumn, y, { align: 'right' });
+  y += LINE_HEIGHT;
+  invoice.payments.forEach((payment) => {
+    doc.text(`Payment received${payment.date ? ` ${formatDate(payment.date)}` : ''}`, PAGE_MARGIN, y);
+    doc.text(`-${formatCurrency(payment.amount)}`, amountColumn, y, { align: 'right' });
+    y += LINE_HEIGHT;
+  });
+  y += 6;
+
+  doc.setDrawColor(200);
+  doc.line(totalsColumn, y, pageWidth - PAGE_MARGIN, y);
+  y += LINE_HEIGHT + 2;
+  doc.text('Paid to date', totalsColumn, y);
+  doc.text(formatCurrency(invoice.amountPaid), amountColumn, y, { align: 'right' });
+  y += LINE_HEIGHT + 2;
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(12);
+  doc.text('Balance Due', totalsColumn, y);
+  doc.text(formatCurrency(invoice.balanceDue), amountColumn, y, { align: 'right' });
+  doc.setFontSize(10);
+  doc.setFont('helvetica', 'normal');
+  y += LINE_HEIGHT * 3;
+
+  sectionHeading('How to Pay');
+  const lines: string[] = doc.splitTextToSize(PAYMENT_INSTRUCTIONS, contentWidth);
+  doc.text(lines, PAGE_MARGIN, y);
+
+  return doc;
+};
+
+export const getInvoiceFileName = (invoice: Invoice) =>
+  `${BUSINESS_CONFIG.name.replace(/\s+/g, '-').toLowerCase()}-invoice-${invoice.invoiceNumber.toLowerCase()}.pdf`;
+
+export const downloadInvoicePdf = (invoice: Invoice) => {
+  renderInvoicePdf(invoice).save(getInvoiceFileName(invoice));
+};
@@ -0,0 +1,224 @@
+// Job costing. Actual cost is labor from time records plus the project's
+// cost entries (inventory materials, fuel, receipts); the database keeps
+// projects.actual_cost in step (refresh_project_actual_cost). Here the same
+// figures are broken down by category and set against the estimate.
+import { z } from 'zod';
+import type { Tables } from '@/integrations/supabase/types';
+import type { EstimateLineItem, LineItemCategory } from '@/lib/estimates';
+import type { ProjectRecord } from '@/lib/projects';
+
+export type CostEntryRecord = Tables<'job_cost_entries'>;
+
+export type InventoryItemRecord = Tables<'inventory_items'>;
+
+export type LaborCostRecord = Tables<'project_labor_costs'>;
+
+export type CostCategory = 'labor' | 'material' | 'equipment' | 'fuel' | 'other';
+
+export type CostEntryCategory = Exclude<CostCategory, 'labor'>;
+
+export const COST_CATEGORY_LABELS: Record<CostCategory, string> = {
+  labor: 'Labor',
+  material: 'Materials',
+  equipment: 'Equipment',
+  fuel: 'Fuel',
+  other: 'Other'
+};
+
+export const COST_ENTRY_CATEGORIES = Object.keys(COST_CATEGORY_LABELS).filter(
+  category => category !== 'labor'
+) as CostEntryCategory[];
+
+// Where each estimate line lands when compared with actuals. Crew time on
+// the application is labor; profit isn't a cost.
+const ESTIMATE_COST_CATEGORIES: Record<LineItemCategory, CostCategory | null> = {
+  material: 'material',
+  labor: 'labor',
+  application: 'labor',
+  equipment: 'equipment',
+  fuel: 'fuel',
+  overhead: 'other',
+  profit: null
+};
+
+// Proposals that count toward what the customer pays us
+export const CONTRACT_PROPOSAL_STATUSES = ['sent', 'accepted'];
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+const emptyCategoryTotals = (): Record<CostCategory, number> => ({
+  labor: 0,
+  material: 0,
+  equipment: 0,
+  fuel: 0,
+  other: 0
+});
+
+export const getEstimatedCostsByCategory = (lineItems: EstimateLineItem[]) =>
+  lineItems.reduce((totals, item) => {
+    const category = ESTIMATE_COST_CATEGORIES[item.category];
+    if (category) totals[category] = roundCurrency(totals[category] + item.amount);
+    return totals;
+  }, emptyCategoryTotals());
+
+export const getActualCostsByCategory = (
+  labor: Pick<LaborCostRecord, 'cost'>[],
+  entries: Pick<CostEntryRecord, 'category' | 'amount'>[]
+) => {
+  const totals = emptyCategoryTotals();
+  totals.labor = roundCurrency(labor.reduce((sum, row) => sum + (row.cost ?? 0), 0));
+  entries.forEach(entry => {
+    const category = (entry.category in totals ? entry.category : 'other') as CostCategory;
+    totals[category] = roundCurrency(totals[category] + entry.amount);
+  });
+  return totals;
+};
+
+export interface CostComparisonRow {
+  category: CostCategory;
+  estimated: number;
+  actual: number;
+  variance: number; // positive when over the estimate
+}
+
+export const buildCostComparison = (
+  estimated: Record<CostCategory, number>,
+  actual: Record<CostCategory, number>
+): CostComparisonRow[] =>
+  (Object.keys(COST_CATEGORY_LABELS) as CostCategory[]).map(category => ({
+    category,
+    estimated: estimated[category],
+    actual: actual[category],
+    variance: roundCurrency(actual[category] - estimated[category])
+  }));
+
+export interface MarginSummary {
+  revenue: number | null;
+  estimatedCost: number;
+  actualCost: number;
+  costVariance: number;
+  estimatedMargin: number | null;
+  actualMargin: number | null;
+  marginVariance: number | null; // negative when the job is earning less than planned
+}
+
+// Margins are percentages of revenue; without a proposal there's nothing to
+// measure them against
+export const getMarginSummary = (revenue: number | null, estimatedCost: number, actualCost: number): MarginSummary => {
+  const marginPercent = (cost: number) =>
+    revenue ? Math.round(((revenue - cost) / revenue) * 1000) / 10 : null;
+  const estimatedMargin = marginPercent(estimatedCost);
+  const actualMargin = marginPercent(actualCost);
+
+  return {
+    revenue,
+    estimatedCost,
+    actualCost,
+    costVariance: roundCurrency(actualCost - estimatedCost),
+    estimatedMargin,
+    actualMargin,
+    marginVariance: estimatedMargin === null || actualMargin === null
+      ? null
+      : Math.round((actualMargin - estimatedMargin) * 10) / 10
+  };
+};
+
+export const getContractRevenue = (proposals: Pick<Tables<'proposals'>, 'amount' | 'status'>[]) => {
+  const contracted = proposals.filter(proposal => CONTRACT_PROPOSAL_STATUSES.includes(proposal.status ?? ''));
+  return contracted.length
+    ? roundCurrency(contracted.reduce((sum, proposal) => sum + (proposal.amount ?? 0), 0))
+    : null;
+};
+
+export interface JobCostSummary extends MarginSummary {
+  project: ProjectRecord;
+  comparison: CostComparisonRow[];
+  itemized: boolean; // false when there's no estimate breakdown to compare against
+}
+
+// Projects entered by hand have a total estimate but no line items
+export const buildJobCostSummary = (
+  project: ProjectRecord,
+  lineItems: EstimateLineItem[],
+  proposals: Pick<Tables<'proposals'>, 'amount' | 'status'>[],
+  labor: Pick<LaborCostRecord, 'cost'>[],
+  entries: Pick<CostEntryRecord, 'category' | 'amount'>[]
+): JobCostSummary => {
+  const estimated = getEstimatedCostsByCategory(lineItems);
+  const actual = getActualCostsByCategory(labor, entries);
+  const sum = (totals: Record<CostCategory, number>) =>
+    roundCurrency(Object.values(totals).reduce((total, value) => total + value, 0));
+
+  return {
+    ...getMarginSummary(getContractRevenue(proposals), project.estimated_cost ?? sum(estimated), sum(actual)),
+    project,
+    comparison: buildCostComparison(estimated, actual),
+    itemized: lineItems.length > 0
+  };
+};
+
+// Materials are either drawn from inventory (priced from the item) or bought
+// for the job and entered with their receipt amount
+const isInventoryUsage = (values: { category?: string; inventory_item_id?: string }) =>
+  values.category === 'material' && values.inventory_item_id !== 'none';
+
+export const costEntryFormSchema = z
+  .object({
+    category: z.enum(COST_ENTRY_CATEGORIES as [CostEntryCategory, ...CostEntryCategory[]]),
+    inventory_item_id: z.string(),
+    description: z.string().trim().max(200),
+    quantity: z.preprocess(
+      value => (value === '' || value === null || value === undefined ? null : Number(value)),
+      z.number().positive('Quantity must be more than zero').nullable()
+    ),
+    amount: z.preprocess(
+      value => (value === '' || value === null || value === undefined ? null : Number(value)),
+      z.number().min(0, 'Amount cannot be negative').nullable()
+    ),
+    incurred_on: z.string().min(1, 'Date is required')
+  })
+  .refine(values => isInventoryUsage(values) || values.description.length > 0, {
+    message: 'Description is required',
+    path: ['description']
+  })
+  .refine(values => !isInventoryUsage(values) || values.quantity !== null, {
+    message: 'Enter how much was used',
+    path: ['quantity']
+  })
+  .refine(values => isInventoryUsage(values) || values.amount !== null, {
+    message: 'Amount is required',
+    path: ['amount']
+  });
+
+export type CostEntryFormValues = z.infer<typeof costEntryFormSchema>;
+
+export const getCostEntryFormValues = (today: string): CostEntryFormValues => ({
+  category: 'material',
+  inventory_item_id: 'none',
+  description: '',
+  quantity: null,
+  amount: null,
+  incurred_on: today
+});
+
+// Inventory usage is priced from the item here for display; the database
+// reprices it (apply_inventory_usage) and takes it out of stock
+export const serializeCostEntryForm = (
+  values: CostEntryFormValues,
+  projectId: string,
+  inventoryItems: InventoryItemRecord[]
+) => {
+  const item = isInventoryUsage(values)
+    ? inventoryItems.find(candidate => candidate.id === values.inventory_item_id)
+    : undefined;
+
+  return {
+    project_id: projectId,
+    category: values.category,
+    inventory_item_id: item?.id ?? null,
+    description: values.description || item?.name || '',
+    quantity: values.quantity,
+    amount: item ? roundCurrency((values.quantity ?? 0) * item.unit_cost) : values.amount ?? 0,
+    incurred_on: values.incurred_on
+  };
+};
@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import {
+  getCurrentMiles,
+  getMaintenanceForecast,
+  getUsageRates,
+  type MaintenanceScheduleRecord,
+  type OdometerReading,
+  type VehicleMeter
+} from '@/lib/maintenance';
+
+const NOW = new Date(2026, 9, 19, 12);
+const NO_USAGE = { milesPerDay: null, hoursPerDay: null };
+
+const schedule = (overrides: Partial<MaintenanceScheduleRecord> = {}): MaintenanceScheduleRecord => ({
+  id: 'schedule-1',
+  vehicle_id: 'truck-1',
+  service_type: 'oil',
+  name: null,
+  interval_miles: 5000,
+  interval_hours: null,
+  interval_days: null,
+  last_service_on: '2026-09-01',
+  last_service_miles: 40000,
+  last_service_hours: null,
+  notes: null,
+  created_at: '2026-09-01T12:00:00Z',
+  updated_at: '2026-09-01T12:00:00Z',
+  ...overrides
+});
+
+const meter = (overrides: Partial<VehicleMeter> = {}): VehicleMeter => ({
+  vehicle_id: 'truck-1',
+  odometer_miles: 44200,
+  engine_hours: null,
+  gps_miles: 0,
+  reading_at: '2026-10-18T16:00:00Z',
+  odometer_read_at: '2026-10-18T16:00:00Z',
+  anchor_latitude: null,
+  anchor_longitude: null,
+  anchor_at: null,
+  updated_at: '2026-10-18T16:00:00Z',
+  ...overrides
+});
+
+// What the GPS trigger leaves behind for a vehicle nobody has read yet
+const gpsOnly = meter({ odometer_miles: 312.4, gps_miles: 312.4, reading_at: null, odometer_read_at: null });
+
+describe('getMaintenanceForecast', () => {
+  it('counts miles from the last service', () => {
+    const forecast = getMaintenanceForecast(schedule(), meter(), NO_USAGE, NOW);
+
+    expect(forecast.milesRemaining).toBe(800);
+    expect(forecast.progress).toBeCloseTo(0.84);
+    expect(forecast.status).toBe('ok');
+  });
+
+  it('has no baseline until the odometer has been read', () => {
+    expect(getCurrentMiles(gpsOnly)).toBeNull();
+    expect(getMaintenanceForecast(schedule(), gpsOnly, NO_USAGE, NOW).status).toBe('unknown');
+  });
+
+  it('does not take an hour meter reading as an odometer reading', () => {
+    const hoursOnly = meter({ odometer_miles: 312.4, gps_miles: 312.4, engine_hours: 1200, odometer_read_at: null });
+
+    expect(getCurrentMiles(hoursOnly)).toBeNull();
+    expect(getMaintenanceForecast(schedule(), hoursOnly, NO_USAGE, NOW).status).toBe('unknown');
+  });
+
+  it('does not let the calendar stand in for an unread odometer', () => {
+    const forecast = getMaintenanceForecast(schedule({ interval_days: 180 }), gpsOnly, NO_USAGE, NOW);
+    expect(forecast.status).toBe('unknown');
+  });
+
+  it('still forecasts calendar-only intervals', () => {
+    const forecast = getMaintenanceForecast(schedule({ interval_miles: null, interval_days: 60 }), gpsOnly, NO_USAGE, NOW);
+
+    expect(forecast.daysRemaining).toBe(12);
+    expect(forecast.status).toBe('due_soon');
+  });
+});
+
+const reading = (recorded_at: string, odometer_miles: number, source = 'gps'): OdometerReading => ({
+  id: `${source}-${recorded_at}`,
+  vehicle_id: 'truck-1',
+  odometer_miles,
+  engine_hours: null,
+  source,
+  recorded_at,
+  reading_date: recorded_at.slice(0, 10),
+  notes: null,
+  recorded_by: null,
+  created_at: recorded_at
+});
+
+describe('getUsageRates', () => {
+  it('takes the mileage rate across the window', () => {
+    const rates = getUsageRates([
+      reading('2026-10-01T20:00:00Z', 44000, 'manual'),
+      reading('2026-10-11T20:00:00Z', 44500)
+    ], NOW);
+
+    expect(rates.milesPerDay).toBeCloseTo(50);
+  });
+
+  it('ignores GPS miles counted before a vehicle onboarded mid-window was first read', () => {
+    const rates = getUsageRates([
+      reading('2026-09-25T20:00:00Z', 40),
+      reading('2026-09-30T20:00:00Z', 210),
+      reading('2026-10-05T20:00:00Z', 87000, 'manual'),
+      reading('2026-10-15T20:00:00Z', 87400)
+    ], NOW);
+
+    expect(rates.milesPerDay).toBeCloseTo(40);
+  });
+});
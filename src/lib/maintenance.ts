@@ -0,0 +1,352 @@
+// Maintenance scheduling. Each vehicle has service intervals by miles, engine
+// hours, days, or a mix; a service is due at whichever limit comes first.
+// Current meters come from vehicle_meters (readings plus GPS distance), and
+// due dates are projected from how fast the meters moved over the last
+// USAGE_WINDOW_DAYS of odometer_readings.
+import { addDays, differenceInCalendarDays, differenceInHours, parseISO } from 'date-fns';
+import { z } from 'zod';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type MaintenanceScheduleRecord = Tables<'maintenance_schedules'>;
+export type OdometerReading = Tables<'odometer_readings'>;
+export type VehicleMeter = Tables<'vehicle_meters'>;
+
+export type MaintenanceServiceType = 'oil' | 'tires' | 'brakes' | 'hydraulics' | 'sealcoat_pump' | 'other';
+
+export const MAINTENANCE_SERVICE_LABELS: Record<MaintenanceServiceType, string> = {
+  oil: 'Oil Change',
+  tires: 'Tires',
+  brakes: 'Brakes',
+  hydraulics: 'Hydraulics',
+  sealcoat_pump: 'Sealcoat Pump Service',
+  other: 'Other'
+};
+
+export const MAINTENANCE_SERVICE_TYPES = Object.keys(MAINTENANCE_SERVICE_LABELS) as MaintenanceServiceType[];
+
+interface ServiceInterval {
+  miles: number | null;
+  hours: number | null;
+  days: number | null;
+}
+
+// Starting points for a new interval; pumps and hydraulics run on engine hours
+export const DEFAULT_SERVICE_INTERVALS: Record<MaintenanceServiceType, ServiceInterval> = {
+  oil: { miles: 5000, hours: null, days: 180 },
+  tires: { miles: 7500, hours: null, days: null },
+  brakes: { miles: 25000, hours: null, days: null },
+  hydraulics: { miles: null, hours: 500, days: 365 },
+  sealcoat_pump: { miles: null, hours: 250, days: null },
+  other: { miles: null, hours: null, days: 90 }
+};
+
+export type MaintenanceStatus = 'overdue' | 'due_soon' | 'ok' | 'unknown';
+
+export const MAINTENANCE_STATUS_LABELS: Record<MaintenanceStatus, string> = {
+  overdue: 'Overdue',
+  due_soon: 'Due Soon',
+  ok: 'Up to Date',
+  unknown: 'No Baseline'
+};
+
+export const MAINTENANCE_STATUS_COLORS: Record<MaintenanceStatus, string> = {
+  overdue: 'bg-red-500/10 text-red-400 border-red-500/20',
+  due_soon: 'bg-yellow-500/10 text-yellow-400 border-yellow-500/20',
+  ok: 'bg-green-500/10 text-green-400 border-green-500/20',
+  unknown: 'bg-gray-500/10 text-gray-400 border-gray-500/20'
+};
+
+// Due soon once this share of an interval is left, or this close in days
+export const DUE_SOON_FRACTION = 0.1;
+export const DUE_SOON_DAYS = 14;
+
+export const USAGE_WINDOW_DAYS = 30;
+
+export interface UsageRates {
+  milesPerDay: number | null;
+  hoursPerDay: number | null;
+}
+
+export interface MaintenanceForecast {
+  status: MaintenanceStatus;
+  milesRemaining: number | null;
+  hoursRemaining: number | null;
+  daysRemaining: number | null;
+  // Share of the interval used up, by whichever limit is furthest along
+  progress: number;
+  dueDate: Date | null;
+}
+
+export const getServiceName = (schedule: Pick<MaintenanceScheduleRecord, 'service_type' | 'name'>) =>
+  schedule.name || MAINTENANCE_SERVICE_LABELS[schedule.service_type as MaintenanceServiceType] || schedule.service_type;
+
+export const formatInterval = (schedule: Pick<MaintenanceScheduleRecord, 'interval_miles' | 'interval_hours' | 'interval_days'>) =>
+  [
+    schedule.interval_miles && `${schedule.interval_miles.toLocaleString()} mi`,
+    schedule.interval_hours && `${schedule.interval_hours.toLocaleString()} h`,
+    schedule.interval_days && `${schedule.interval_days} days`
+  ].filter(Boolean).join(' or ');
+
+// Rate between the oldest and newest readings in the window; a single reading
+// or one day of them isn't enough to say how much a vehicle is used
+const getRate = (readings: { at: Date; value: number }[]) => {
+  if (readings.length < 2) return null;
+  const sorted = [...readings].sort((a, b) => a.at.getTime() - b.at.getTime());
+  const first = sorted[0];
+  const last = sorted[sorted.length - 1];
+  const days = differenceInHours(last.at, first.at) / 24;
+  if (days < 1) return null;
+  return Math.max(0, (last.value - first.value) / days);
+};
+
+// Readings for one vehicle, any order. GPS rows from before a vehicle's first
+// odometer reading count up from zero, so the jump to a real reading would
+// look like miles driven; only GPS rows from the earliest hand or service
+// reading in the window onwards are used for the mileage rate.
+export const getUsageRates = (readings: OdometerReading[], now: Date): UsageRates => {
+  const since = addDays(now, -USAGE_WINDOW_DAYS);
+  const recent = readings.filter(reading => parseISO(reading.recorded_at) >= since);
+  const miles = recent.filter(reading => reading.odometer_miles !== null);
+  const firstRead = miles
+    .filter(reading => reading.source !== 'gps')
+    .reduce<Date | null>((earliest, reading) => {
+      const at = parseISO(reading.recorded_at);
+      return earliest && earliest <= at ? earliest : at;
+    }, null);
+  return {
+    milesPerDay: getRate(miles
+      .filter(reading => !firstRead || reading.source !== 'gps' || parseISO(reading.recorded_at) >= firstRead)
+      .map(reading => ({ at: parseISO(reading.recorded_at), value: reading.odometer_miles as number }))),
+    hoursPerDay: getRate(recent
+      .filter(reading => reading.engine_hours !== null)
+      .map(reading => ({ at: parseISO(reading.recorded_at), value: reading.engine_hours as number })))
+  };
+};
+
+// GPS alone counts miles from wherever the tracker was first seen, so the
+// odometer isn't known until someone has read it. An hour meter reading on its
+// own doesn't count.
+export const getCurrentMiles = (meter: VehicleMeter | undefined) =>
+  meter?.odometer_read_at ? meter.odometer_miles : null;
+
+// Remaining units on one meter and the date that runs out at the current rate
+const forecastMeter = (interval: number | null, lastService: number | null, current: number | null, rate: number | null) => {
+  if (!interval || lastService === null || current === null) return null;
+  const remaining = interval - (current - lastService);
+  return {
+    remaining,
+    progress: (current - lastService) / interval,
+    days: remaining <= 0 ? 0 : rate ? remaining / rate : null
+  };
+};
+
+export const getMaintenanceForecast = (
+  schedule: MaintenanceScheduleRecord,
+  meter: VehicleMeter | undefined,
+  rates: UsageRates,
+  now: Date
+): MaintenanceForecast => {
+  const miles = forecastMeter(schedule.interval_miles, schedule.last_service_miles, getCurrentMiles(meter), rates.milesPerDay);
+  const hours = forecastMeter(schedule.interval_hours, schedule.last_service_hours, meter?.engine_hours ?? null, rates.hoursPerDay);
+  const calendar = schedule.interval_days && schedule.last_service_on
+    ? (() => {
+        const remaining = differenceInCalendarDays(addDays(parseISO(schedule.last_service_on), schedule.interval_days), now);
+        return { remaining, progress: 1 - remaining / schedule.interval_days, days: Math.max(0, remaining) };
+      })()
+    : null;
+
+  const limits = [miles, hours, calendar].filter((limit): limit is NonNullable<typeof limit> => limit !== null);
+  // The calendar, or the other meter, could call a service on time that an
+  // unread meter would not
+  const hasNoBaseline = (!!schedule.interval_miles && getCurrentMiles(meter) === null)
+    || (!!schedule.interval_hours && (meter?.engine_hours ?? null) === null);
+  if (limits.length === 0 || hasNoBaseline) {
+    return { status: 'unknown', milesRemaining: null, hoursRemaining: null, daysRemaining: null, progress: 0, dueDate: null };
+  }
+
+  const progress = Math.max(...limits.map(limit => limit.progress));
+  const projectedDays = limits.map(limit => limit.days).filter((days): days is number => days !== null);
+  const daysUntilDue = projectedDays.length > 0 ? Math.min(...projectedDays) : null;
+  const isOverdue = limits.some(limit => limit.remaining < 0);
+  const isDueSoon = progress >= 1 - DUE_SOON_FRACTION || (daysUntilDue !== null && daysUntilDue <= DUE_SOON_DAYS);
+
+  return {
+    status: isOverdue ? 'overdue' : isDueSoon ? 'due_soon' : 'ok',
+    milesRemaining: miles?.remaining ?? null,
+    hoursRemaining: hours?.remaining ?? null,
+    daysRemaining: calendar?.remaining ?? null,
+    progress,
+    dueDate: daysUntilDue === null ? null : addDays(now, Math.floor(daysUntilDue))
+  };
+};
+
+export interface ScheduleForecast {
+  schedule: MaintenanceScheduleRecord;
+  forecast: MaintenanceForecast;
+}
+
+export const buildMaintenanceForecasts = (
+  schedules: MaintenanceScheduleRecord[],
+  meters: VehicleMeter[],
+  readings: OdometerReading[],
+  now: Date
+): ScheduleForecast[] => {
+  const rates = new Map<string, UsageRates>();
+  return schedules.map(schedule => {
+    if (!rates.has(schedule.vehicle_id)) {
+      rates.set(schedule.vehicle_id, getUsageRates(readings.filter(reading => reading.vehicle_id === schedule.vehicle_id), now));
+    }
+    const meter = meters.find(candidate => candidate.vehicle_id === schedule.vehicle_id);
+    return { schedule, forecast: getMaintenanceForecast(schedule, meter, rates.get(schedule.vehicle_id)!, now) };
+  });
+};
+
+const formatLeft = (value: number | null, unit: string) => {
+  if (value === null) return null;
+  const amount = `${Math.abs(Math.round(value)).toLocaleString()} ${unit}`;
+  return value < 0 ? `${amount} over` : `${amount} left`;
+};
+
+export const formatRemaining = (forecast: MaintenanceForecast) =>
+  [
+    formatLeft(forecast.milesRemaining, 'mi'),
+    formatLeft(forecast.hoursRemaining, 'h'),
+    formatLeft(forecast.daysRemaining, 'days')
+  ].filter(Boolean).join(' · ');
+
+export const isServiceDue = ({ forecast }: ScheduleForecast) =>
+  forecast.status === 'overdue' || forecast.status === 'due_soon';
+
+const optionalNumber = (message: string) =>
+  z.preprocess(
+    value => (value === '' || value === null || value === undefined ? null : Number(value)),
+    z.number().min(0, message).nullable()
+  );
+
+const positiveNumber = (message: string) =>
+  z.preprocess(
+    value => (value === '' || value === null || value === undefined ? null : Number(value)),
+    z.number().positive(message).nullable()
+  );
+
+export const maintenanceScheduleFormSchema = z
+  .object({
+    service_type: z.enum(MAINTENANCE_SERVICE_TYPES as [MaintenanceServiceType, ...MaintenanceServiceType[]]),
+    name: z.string().trim().max(100),
+    interval_miles: positiveNumber('Interval must be more than zero'),
+    interval_hours: positiveNumber('Interval must be more than zero'),
+    interval_days: positiveNumber('Interval must be more than zero'),
+    last_service_on: z.string(),
+    last_service_miles: optionalNumber('Mileage cannot be negative'),
+    last_service_hours: optionalNumber('Hours cannot be negative'),
+    notes: z.string().trim().max(500)
+  })
+  .refine(values => values.interval_miles !== null || values.interval_hours !== null || values.interval_days !== null, {
+    message: 'Set at least one interval',
+    path: ['interval_miles']
+  })
+  .refine(values => values.interval_days === null || values.last_service_on !== '', {
+    message: 'Enter when it was last done',
+    path: ['last_service_on']
+  });
+
+export type MaintenanceScheduleFormValues = z.infer<typeof maintenanceScheduleFormSchema>;
+
+// A new interval starts from the vehicle's current meters, as if just serviced
+export const getMaintenanceScheduleFormValues = (
+  schedule: MaintenanceScheduleRecord | null,
+  today: string,
+  currentMiles: number | null,
+  currentHours: number | null
+): MaintenanceScheduleFormValues => {
+  if (schedule) {
+    return {
+      service_type: schedule.service_type as MaintenanceServiceType,
+      name: schedule.name ?? '',
+      interval_miles: schedule.interval_miles,
+      interval_hours: schedule.interval_hours,
+      interval_days: schedule.interval_days,
+      last_service_on: schedule.last_service_on ?? '',
+      last_service_miles: schedule.last_service_miles,
+      last_service_hours: schedule.last_service_hours,
+      notes: schedule.notes ?? ''
+    };
+  }
+  const defaults = DEFAULT_SERVICE_INTERVALS.oil;
+  return {
+    service_type: 'oil',
+    name: '',
+    interval_miles: defaults.miles,
+    interval_hours: defaults.hours,
+    interval_days: defaults.days,
+    last_service_on: today,
+    last_service_miles: currentMiles === null ? null : Math.round(currentMiles),
+    last_service_hours: currentHours,
+    notes: ''
+  };
+};
+
+export const serializeMaintenanceScheduleForm = (values: MaintenanceScheduleFormValues, vehicleId: string) => ({
+  vehicle_id: vehicleId,
+  service_type: values.service_type,
+  name: values.name || null,
+  interval_miles: values.interval_miles,
+  interval_hours: values.interval_hours,
+  interval_days: values.interval_days === null ? null : Math.round(values.interval_days),
+  last_service_on: values.last_service_on || null,
+  last_service_miles: values.last_service_miles,
+  last_service_hours: values.last_service_hours,
+  notes: values.notes || null
+});
+
+export const meterReadingFormSchema = z
+  .object({
+    odometer_miles: optionalNumber('Mileage cannot be negative'),
+    engine_hours: optionalNumber('Hours cannot be negative'),
+    notes: z.string().trim().max(500)
+  })
+  .refine(values => values.odometer_miles !== null || values.engine_hours !== null, {
+    message: 'Enter the odometer, the hour meter, or both',
+    path: ['odometer_miles']
+  });
+
+export type MeterReadingFormValues = z.infer<typeof meterReadingFormSchema>;
+
+export const getMeterReadingFormValues = (): MeterReadingFormValues => ({
+  odometer_miles: null,
+  engine_hours: null,
+  notes: ''
+});
+
+export const serviceLogFormSchema = z.object({
+  performed_on: z.string().min(1, 'Date is required'),
+  odometer_miles: optionalNumber('Mileage cannot be negative'),
+  engine_hours: optionalNumber('Hours cannot be negative'),
+  notes: z.string().trim().max(500)
+});
+
+export type ServiceLogFormValues = z.infer<typeof serviceLogFormSchema>;
+
+export const getServiceLogFormValues = (
+  today: string,
+  currentMiles: number | null,
+  currentHours: number | null
+): ServiceLogFormValues => ({
+  performed_on: today,
+  odometer_miles: currentMiles === null ? null : Math.round(currentMiles),
+  engine_hours: currentHours,
+  notes: ''
+});
+
+// Goes into vehicle_maintenance_records; the database restarts the interval
+// (apply_maintenance_service) and records the meters as a reading
+export const serializeServiceLogForm = (values: ServiceLogFormValues, schedule: MaintenanceScheduleRecord) => ({
+  vehicle_id: schedule.vehicle_id,
+  schedule_id: schedule.id,
+  maintenance_type: schedule.service_type,
+  description: getServiceName(schedule),
+  performed_at: values.performed_on,
+  odometer_reading: values.odometer_miles,
+  engine_hours: values.engine_hours,
+  notes: values.notes || null
+});
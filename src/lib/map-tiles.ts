@@ -0,0 +1,42 @@
+// Raster tile sources for the Leaflet maps. VITE_MAP_TILE_URL points the
+// street layer at another tile server, such as one on the shop network, with
+// VITE_MAP_TILE_ATTRIBUTION and VITE_MAP_TILE_MAX_ZOOM to match it. The
+// satellite layer, which the measuring and site maps open on, takes the same
+// three settings as VITE_SATELLITE_TILE_URL, VITE_SATELLITE_TILE_ATTRIBUTION
+// and VITE_SATELLITE_TILE_MAX_ZOOM.
+import { BUSINESS_CONFIG } from '@/lib/pricing';
+
+export interface TileLayerConfig {
+  name: string;
+  url: string;
+  attribution: string;
+  maxZoom: number;
+}
+
+export type TileLayerKey = 'satellite' | 'streets';
+
+export const MAP_TILE_LAYERS: Record<TileLayerKey, TileLayerConfig> = {
+  satellite: {
+    name: 'Satellite',
+    url: import.meta.env.VITE_SATELLITE_TILE_URL
+      || 'https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}',
+    attribution: import.meta.env.VITE_SATELLITE_TILE_URL
+      ? import.meta.env.VITE_SATELLITE_TILE_ATTRIBUTION ?? ''
+      : 'Tiles &copy; Esri &mdash; Source: Esri, Maxar, Earthstar Geographics, and the GIS User Community',
+    maxZoom: Number(import.meta.env.VITE_SATELLITE_TILE_MAX_ZOOM) || 20
+  },
+  streets: {
+    name: 'Streets',
+    url: import.meta.env.VITE_MAP_TILE_URL || 'https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png',
+    attribution: import.meta.env.VITE_MAP_TILE_URL
+      ? import.meta.env.VITE_MAP_TILE_ATTRIBUTION ?? ''
+      : '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors',
+    maxZoom: Number(import.meta.env.VITE_MAP_TILE_MAX_ZOOM) || 19
+  }
+};
+
+// Maps open on the shop until there is something better to show
+export const DEFAULT_MAP_CENTER: [number, number] = [
+  BUSINESS_CONFIG.coordinates.latitude,
+  BUSINESS_CONFIG.coordinates.longitude
+];
@@ -0,0 +1,197 @@
+// Takeoff measurements traced over a map or an uploaded aerial photo, and the
+// geometry math that turns them into calculator quantities.
+import type { Json, Tables, TablesInsert } from '@/integrations/supabase/types';
+import type { EstimateArea } from '@/lib/pricing';
+
+export type MeasurementRecord = Tables<'estimate_measurements'>;
+
+export type MeasurementSource = 'map' | 'image';
+
+export type MeasurementShape = 'polygon' | 'polyline';
+
+// The area field a measurement feeds
+export type MeasurementTarget = 'squareFootage' | 'oilSpotArea' | 'patchArea' | 'linearFootage' | 'crosswalkLinearFeet';
+
+// [x, y]: longitude/latitude for map traces, pixels for image traces
+export type Position = [number, number];
+
+export interface Measurement {
+  id: string;
+  areaId: string;
+  target: MeasurementTarget;
+  label: string;
+  source: MeasurementSource;
+  coordinates: Position[]; // polygons are stored open; the ring closes on export
+  feetPerPixel: number | null;
+  quantity: number;
+}
+
+export const MEASUREMENT_TARGETS: Record<MeasurementTarget, { label: string; shape: MeasurementShape; unit: string }> = {
+  squareFootage: { label: 'Sealcoat area', shape: 'polygon', unit: 'sq ft' },
+  oilSpotArea: { label: 'Oil spots', shape: 'polygon', unit: 'sq ft' },
+  patchArea: { label: 'Patch area', shape: 'polygon', unit: 'sq ft' },
+  linearFootage: { label: 'Cracks', shape: 'polyline', unit: 'ft' },
+  crosswalkLinearFeet: { label: 'Crosswalk', shape: 'polyline', unit: 'ft' }
+};
+
+export const MEASUREMENT_TARGET_KEYS = Object.keys(MEASUREMENT_TARGETS) as MeasurementTarget[];
+
+export const MEASUREMENT_TARGET_COLORS: Record<MeasurementTarget, string> = {
+  squareFootage: '#f59e0b',
+  oilSpotArea: '#a855f7',
+  patchArea: '#ef4444',
+  linearFootage: '#3b82f6',
+  crosswalkLinearFeet: '#f8fafc'
+};
+
+// WGS84 equatorial radius, matching what Leaflet uses for distances
+const EARTH_RADIUS_FEET = 6378137 * 3.28084;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+export const haversineFeet = ([lng1, lat1]: Position, [lng2, lat2]: Position) => {
+  const dLat = toRadians(lat2 - lat1);
+  const dLng = toRadians(lng2 - lng1);
+  const a = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_FEET * Math.asin(Math.min(1, Math.sqrt(a)));
+};
+
+// Spherical polygon area; accurate to well under a percent at parking lot scale
+export const geodesicAreaSqFt = (ring: Position[]) => {
+  if (ring.length < 3) return 0;
+  let area = 0;
+  for (let i = 0; i < ring.length; i++) {
+    const [lng1, lat1] = ring[i];
+    const [lng2, lat2] = ring[(i + 1) % ring.length];
+    area += toRadians(lng2 - lng1) * (2 + Math.sin(toRadians(lat1)) + Math.sin(toRadians(lat2)));
+  }
+  return Math.abs((area * EARTH_RADIUS_FEET * EARTH_RADIUS_FEET) / 2);
+};
+
+export const planarAreaSqFt = (ring: Position[], feetPerPixel: number) => {
+  if (ring.length < 3) return 0;
+  let area = 0;
+  for (let i = 0; i < ring.length; i++) {
+    const [x1, y1] = ring[i];
+    const [x2, y2] = ring[(i + 1) % ring.length];
+    area += x1 * y2 - x2 * y1;
+  }
+  return (Math.abs(area) / 2) * feetPerPixel * feetPerPixel;
+};
+
+export const planarDistance = ([x1, y1]: Position, [x2, y2]: Position) => Math.hypot(x2 - x1, y2 - y1);
+
+export const pathLengthFeet = (path: Position[], source: MeasurementSource, feetPerPixel: number | null) => {
+  let length = 0;
+  for (let i = 1; i < path.length; i++) {
+    length += source === 'map'
+      ? haversineFeet(path[i - 1], path[i])
+      : planarDistance(path[i - 1], path[i]) * (feetPerPixel ?? 0);
+  }
+  return length;
+};
+
+export const measureCoordinates = (
+  target: MeasurementTarget,
+  coordinates: Position[],
+  source: MeasurementSource,
+  feetPerPixel: number | null
+) => {
+  if (MEASUREMENT_TARGETS[target].shape === 'polyline') {
+    return pathLengthFeet(coordinates, source, feetPerPixel);
+  }
+  return source === 'map'
+    ? geodesicAreaSqFt(coordinates)
+    : planarAreaSqFt(coordinates, feetPerPixel ?? 0);
+};
+
+// Whether a trace has enough points to close into its shape
+export const canCompleteTrace = (target: MeasurementTarget, coordinates: Position[]) =>
+  coordinates.length >= (MEASUREMENT_TARGETS[target].shape === 'polygon' ? 3 : 2);
+
+export const toGeoJsonGeometry = (measurement: Pick<Measurement, 'target' | 'coordinates'>) =>
+  MEASUREMENT_TARGETS[measurement.target].shape === 'polygon'
+    ? { type: 'Polygon', coordinates: [[...measurement.coordinates, measurement.coordinates[0]]] }
+    : { type: 'LineString', coordinates: measurement.coordinates };
+
+export const serializeMeasurement = (
+  measurement: Measurement,
+  estimateId: string
+): TablesInsert<'estimate_measurements'> => ({
+  id: measurement.id,
+  estimate_id: estimateId,
+  area_id: measurement.areaId,
+  target: measurement.target,
+  label: measurement.label || null,
+  source: measurement.source,
+  geometry: toGeoJsonGeometry(measurement) as unknown as Json,
+  feet_per_pixel: measurement.source === 'image' ? measurement.feetPerPixel : null,
+  quantity: Math.round(measurement.quantity * 100) / 100
+});
+
+export const parseMeasurementRecord = (record: MeasurementRecord): Measurement => {
+  const geometry = record.geometry as unknown as { type: string; coordinates: Position[] | Position[][] };
+  const coordinates = geometry.type === 'Polygon'
+    ? (geometry.coordinates as Position[][])[0].slice(0, -1)
+    : (geometry.coordinates as Position[]);
+  return {
+    id: record.id,
+    areaId: record.area_id,
+    target: record.target as MeasurementTarget,
+    label: record.label ?? '',
+    source: record.source as MeasurementSource,
+    coordinates,
+    feetPerPixel: record.feet_per_pixel,
+    quantity: record.quantity
+  };
+};
+
+// Writes the measured total into each area field touched by `changed`.
+// Fields nobody has traced keep whatever was typed in.
+export const applyMeasurementTotals = (
+  areas: EstimateArea[],
+  measurements: Measurement[],
+  changed: Pick<Measurement, 'areaId' | 'target'>[]
+): EstimateArea[] =>
+  areas.map(area => {
+    const targets = changed.filter(entry => entry.areaId === area.id).map(entry => entry.target);
+    if (targets.length === 0) return area;
+
+    const updated = { ...area };
+    for (const target of targets) {
+      updated[target] = Math.round(
+        measurements
+          .filter(measurement => measurement.areaId === area.id && measurement.target === target)
+          .reduce((sum, measurement) => sum + measurement.quantity, 0)
+      );
+    }
+    return updated;
+  });
+
+export interface TracedSite {
+  estimateId: string;
+  customer: string | null;
+  address: string | null;
+  measurements: Measurement[];
+}
+
+type TracedMeasurementRecord = MeasurementRecord & {
+  estimates: { customer: string | null; job_site_address: string | null } | null;
+};
+
+// Map traces grouped by the estimate they were measured for
+export const groupTracedSites = (records: TracedMeasurementRecord[]): TracedSite[] => {
+  const sites = new Map<string, TracedSite>();
+  records.forEach(record => {
+    const site = sites.get(record.estimate_id) ?? {
+      estimateId: record.estimate_id,
+      customer: record.estimates?.customer ?? null,
+      address: record.estimates?.job_site_address ?? null,
+      measurements: []
+    };
+    site.measurements.push(parseMeasurementRecord(record));
+    sites.set(record.estimate_id, site);
+  });
+  return Array.from(sites.values());
+};
@@ -0,0 +1,79 @@
+// Who may do what. Roles come from user_roles (the app_role enum); the UI asks
+// for a permission rather than checking role names directly, and the database
+// enforces the same rules through has_any_role() in RLS.
+import type { Database } from '@/integrations/supabase/types';
+
+export type AppRole = Database['public']['Enums']['app_role'];
+
+export const APP_ROLES: AppRole[] = [
+  'Super Administrator',
+  'Administrator',
+  'Estimator',
+  'Field Crew Lead',
+  'Field Technician',
+  'Client'
+];
+
+export type Permission =
+  | 'estimates.view'
+  | 'estimates.view_margins'
+  | 'price_books.manage'
+  | 'projects.view'
+  | 'projects.manage'
+  | 'schedule.view'
+  | 'schedule.manage'
+  | 'time_clock.use'
+  | 'timesheets.approve'
+  | 'payroll.export'
+  | 'costing.view'
+  | 'fleet.view'
+  | 'fleet.manage'
+  | 'geofences.manage'
+  | 'maintenance.log'
+  | 'mapping.view'
+  | 'analytics.view'
+  | 'reports.view'
+  | 'roles.manage'
+  | 'portal.view';
+
+const ADMINS: AppRole[] = ['Super Administrator', 'Administrator'];
+const OFFICE: AppRole[] = [...ADMINS, 'Estimator'];
+const STAFF: AppRole[] = [...OFFICE, 'Field Crew Lead', 'Field Technician'];
+
+// Crew leads can price small add-on work in the field but never see margins
+export const PERMISSIONS: Record<Permission, AppRole[]> = {
+  'estimates.view': [...OFFICE, 'Field Crew Lead'],
+  'estimates.view_margins': OFFICE,
+  'price_books.manage': OFFICE,
+  'projects.view': STAFF,
+  'projects.manage': OFFICE,
+  'schedule.view': STAFF,
+  'schedule.manage': OFFICE,
+  'time_clock.use': STAFF,
+  'timesheets.approve': [...OFFICE, 'Field Crew Lead'],
+  'payroll.export': OFFICE,
+  'costing.view': OFFICE,
+  'fleet.view': STAFF,
+  'fleet.manage': ADMINS,
+  'geofences.manage': OFFICE,
+  'maintenance.log': [...OFFICE, 'Field Crew Lead'],
+  'mapping.view': STAFF,
+  'analytics.view': OFFICE,
+  'reports.view': OFFICE,
+  'roles.manage': ADMINS,
+  'portal.view': ['Client']
+};
+
+export const hasPermission = (roles: AppRole[], permission: Permission) =>
+  roles.some(role => PERMISSIONS[permission].includes(role));
+
+// Customers who sign in only ever land in the client portal
+export const isClientOnly = (roles: AppRole[]) =>
+  roles.includes('Client') && !roles.some(role => STAFF.includes(role));
+
+// Only a Super Administrator can hand out (or take away) Super Administrator
+export const getAssignableRoles = (roles: AppRole[]): AppRole[] => {
+  if (roles.includes('Super Administrator')) return APP_ROLES;
+  if (roles.includes('Administrator')) return APP_ROLES.filter(role => role !== 'Super Administrator');
+  return [];
+};
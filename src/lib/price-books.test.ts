@@ -0,0 +1,85 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  PRICE_BOOK_ITEM_KEYS,
+  buildRateTable,
+  getMissingItemKeys,
+  selectEffectiveVersion,
+  type PriceBookItem,
+  type PriceBookVersionWithItems
+} from '@/lib/price-books';
+import { MATERIAL_COSTS } from '@/lib/pricing';
+
+const BOOK = { id: 'book-1', name: 'SealMaster Virginia' };
+
+const item = (item_key: string, unit_price: number): PriceBookItem => ({
+  id: `item-${item_key}`,
+  price_book_version_id: 'version-1',
+  item_key,
+  description: null,
+  supplier: 'SealMaster',
+  unit: 'each',
+  unit_price
+});
+
+const version = (
+  n: number,
+  effective_date: string,
+  items: PriceBookItem[] = PRICE_BOOK_ITEM_KEYS.map(key => item(key, MATERIAL_COSTS[key]))
+): PriceBookVersionWithItems => ({
+  id: `version-${n}`,
+  price_book_id: BOOK.id,
+  version: n,
+  effective_date,
+  notes: null,
+  created_by: null,
+  created_at: null,
+  price_book_items: items
+});
+
+describe('selectEffectiveVersion', () => {
+  const versions = [version(1, '2026-01-01'), version(2, '2026-04-01')];
+
+  it('picks the highest version whose date has been reached', () => {
+    expect(selectEffectiveVersion(versions, new Date(2026, 2, 31, 12))?.version).toBe(1);
+    expect(selectEffectiveVersion(versions, new Date(2026, 3, 1, 0, 5))?.version).toBe(2);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('compares against the local calendar day, not the UTC one', () => {
+    // Late evening on Mar 31 in New York is already Apr 1 in UTC
+    vi.stubEnv('TZ', 'America/New_York');
+    const evening = new Date(2026, 2, 31, 23, 30);
+
+    expect(evening.toISOString().slice(0, 10)).toBe('2026-04-01');
+    expect(selectEffectiveVersion(versions, evening)?.version).toBe(1);
+  });
+});
+
+describe('buildRateTable', () => {
+  it('prices from the version and records it', () => {
+    const complete = version(1, '2026-01-01', PRICE_BOOK_ITEM_KEYS.map(key => item(key, key === 'sealMasterPMM' ? 4.25 : MATERIAL_COSTS[key])));
+    const rates = buildRateTable(BOOK, complete);
+
+    expect(rates.materialCosts.sealMasterPMM).toBe(4.25);
+    expect(rates.priceBook).toEqual({
+      priceBookId: 'book-1',
+      priceBookName: 'SealMaster Virginia',
+      versionId: 'version-1',
+      version: 1,
+      effectiveDate: '2026-01-01'
+    });
+  });
+
+  it('does not record a version that is missing catalog items', () => {
+    const partial = version(1, '2026-01-01', [item('sealMasterPMM', 4.25), item('sand50lb', 11)]);
+    const rates = buildRateTable(BOOK, partial);
+
+    expect(getMissingItemKeys(partial)).toContain('hotMixTon');
+    expect(rates.materialCosts.sealMasterPMM).toBe(4.25);
+    expect(rates.materialCosts.hotMixTon).toBe(MATERIAL_COSTS.hotMixTon);
+    expect(rates.priceBook).toBeUndefined();
+  });
+});
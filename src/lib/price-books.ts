@@ -0,0 +1,149 @@
+// Price book helpers: resolving which version applies on a date, turning a
+// version's items into a pricing RateTable, and diffing versions into a
+// change history. Versions are immutable snapshots, so the history of every
+// price change is the sequence of diffs between consecutive versions.
+import { format } from 'date-fns';
+import type { Tables } from '@/integrations/supabase/types';
+import { DEFAULT_RATE_TABLE, type MaterialCosts, type RateTable } from '@/lib/pricing';
+
+export type PriceBook = Tables<'price_books'>;
+export type PriceBookVersion = Tables<'price_book_versions'>;
+export type PriceBookItem = Tables<'price_book_items'>;
+
+export interface PriceBookVersionWithItems extends PriceBookVersion {
+  price_book_items: PriceBookItem[];
+}
+
+export interface PriceBookWithVersions extends PriceBook {
+  price_book_versions: PriceBookVersionWithItems[];
+}
+
+export type PriceBookItemKey = keyof MaterialCosts;
+
+// Items the pricing engine knows how to consume, with their purchase units
+export const PRICE_BOOK_CATALOG: Record<PriceBookItemKey, { label: string; unit: string }> = {
+  sealMasterPMM: { label: 'SealMaster PMM concentrate', unit: 'gal' },
+  sand50lb: { label: 'Sand, 50 lb bag', unit: 'bag' },
+  prepSeal5gal: { label: 'Prep Seal oil spot primer, 5 gal', unit: 'bucket' },
+  fastDry5gal: { label: 'Fast Dry additive, 5 gal', unit: 'bucket' },
+  crackMaster30lb: { label: 'CrackMaster hot pour, 30 lb', unit: 'box' },
+  trafficPaint: { label: 'Traffic marking paint', unit: 'gal' },
+  hotMixTon: { label: 'Hot mix asphalt', unit: 'ton' },
+  coldMix50lb: { label: 'Cold patch mix, 50 lb', unit: 'bag' }
+};
+
+export const PRICE_BOOK_ITEM_KEYS = Object.keys(PRICE_BOOK_CATALOG) as PriceBookItemKey[];
+
+export interface PriceChange {
+  itemKey: string;
+  supplier: string | null;
+  previousPrice: number | null;
+  newPrice: number | null;
+}
+
+export interface PriceBookHistoryEntry {
+  version: number;
+  effectiveDate: string;
+  notes: string | null;
+  createdAt: string | null;
+  changes: PriceChange[];
+}
+
+export const sortVersions = <T extends Pick<PriceBookVersion, 'version'>>(versions: T[]) =>
+  [...versions].sort((a, b) => a.version - b.version);
+
+export const getLatestVersion = <T extends Pick<PriceBookVersion, 'version'>>(versions: T[]): T | null => {
+  const ordered = sortVersions(versions);
+  return ordered.length > 0 ? ordered[ordered.length - 1] : null;
+};
+
+// The version in force on a date is the highest version whose effective date
+// has been reached. Future-dated versions are ignored until their date, which
+// is compared in local time so a version takes over at the office's midnight.
+export const selectEffectiveVersion = <T extends Pick<PriceBookVersion, 'version' | 'effective_date'>>(
+  versions: T[],
+  on: Date = new Date()
+): T | null => {
+  const day = format(on, 'yyyy-MM-dd');
+  const inForce = versions.filter(v => v.effective_date <= day);
+  return getLatestVersion(inForce);
+};
+
+// Catalog items a version has no price for
+export const getMissingItemKeys = (version: Pick<PriceBookVersionWithItems, 'price_book_items'>): PriceBookItemKey[] =>
+  PRICE_BOOK_ITEM_KEYS.filter(key => !version.price_book_items.some(item => item.item_key === key));
+
+// Only a version that prices every catalog item is recorded on the rate
+// table. An incomplete one still supplies the prices it has, but the gaps come
+// from the built-in rates, so estimates priced with it could not be reproduced
+// from the version alone.
+export const buildRateTable = (
+  book: Pick<PriceBook, 'id' | 'name'>,
+  version: PriceBookVersionWithItems,
+  base: RateTable = DEFAULT_RATE_TABLE
+): RateTable => {
+  const materialCosts: MaterialCosts = { ...base.materialCosts };
+  for (const item of version.price_book_items) {
+    if (item.item_key in materialCosts) {
+      materialCosts[item.item_key as PriceBookItemKey] = Number(item.unit_price);
+    }
+  }
+
+  if (getMissingItemKeys(version).length > 0) {
+    return { ...base, materialCosts, priceBook: undefined };
+  }
+
+  return {
+    ...base,
+    materialCosts,
+    priceBook: {
+      priceBookId: book.id,
+      priceBookName: book.name,
+      versionId: version.id,
+      version: version.version,
+      effectiveDate: version.effective_date
+    }
+  };
+};
+
+// Rate table for whichever version of the book is in force on the date,
+// falling back to the built-in rates when the book has no version yet.
+export const resolveRateTable = (
+  book: PriceBookWithVersions | null,
+  on: Date = new Date(),
+  base: RateTable = DEFAULT_RATE_TABLE
+): RateTable => {
+  const version = book ? selectEffectiveVersion(book.price_book_versions, on) : null;
+  return book && version ? buildRateTable(book, version, base) : base;
+};
+
+export const diffPriceBookItems = (
+  previous: Pick<PriceBookItem, 'item_key' | 'supplier' | 'unit_price'>[],
+  next: Pick<PriceBookItem, 'item_key' | 'supplier' | 'unit_price'>[]
+): PriceChange[] => {
+  const before = new Map(previous.map(item => [item.item_key, item]));
+  const after = new Map(next.map(item => [item.item_key, item]));
+  const keys = Array.from(new Set([...before.keys(), ...after.keys()])).sort();
+
+  return keys.flatMap(key => {
+    const a = before.get(key);
+    const b = after.get(key);
+    const previousPrice = a ? Number(a.unit_price) : null;
+    const newPrice = b ? Number(b.unit_price) : null;
+    if (previousPrice === newPrice && a?.supplier === b?.supplier) return [];
+    return [{ itemKey: key, supplier: b?.supplier ?? a?.supplier ?? null, previousPrice, newPrice }];
+  });
+};
+
+export const buildPriceBookHistory = (versions: PriceBookVersionWithItems[]): PriceBookHistoryEntry[] => {
+  const ordered = sortVersions(versions);
+  return ordered
+    .map((version, index) => ({
+      version: version.version,
+      effectiveDate: version.effective_date,
+      notes: version.notes,
+      createdAt: version.created_at,
+      changes: diffPriceBookItems(index > 0 ? ordered[index - 1].price_book_items : [], version.price_book_items)
+    }))
+    .reverse();
+};
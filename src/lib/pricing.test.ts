@@ -0,0 +1,205 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_ESTIMATE_AREA,
+  DEFAULT_ESTIMATE_INPUT,
+  DEFAULT_RATE_TABLE,
+  calculateEstimate,
+  calculateLaborAndEquipment,
+  calculateMaterials,
+  calculatePatchingTakeoff,
+  calculateStripingTakeoff,
+  createEstimateArea,
+  getCrackSeverityMultiplier,
+  rateForVolume,
+  type EstimateArea,
+  type EstimateInput,
+  type RateTable
+} from '@/lib/pricing';
+
+const area = (overrides: Partial<EstimateArea> = {}): EstimateArea => ({ ...DEFAULT_ESTIMATE_AREA, ...overrides });
+
+const input = (areas: EstimateArea[], overrides: Partial<EstimateInput> = {}): EstimateInput => ({
+  ...DEFAULT_ESTIMATE_INPUT,
+  areas,
+  ...overrides
+});
+
+const NOW = new Date('2026-03-02T15:00:00Z');
+
+describe('rateForVolume', () => {
+  const range = { min: 0.75, max: 1.00 };
+
+  it('charges the top of the range for tiny or empty jobs', () => {
+    expect(rateForVolume(range, 0, 2000)).toBe(1.00);
+  });
+
+  it('falls linearly to the bottom of the range at the breakpoint', () => {
+    expect(rateForVolume(range, 1000, 2000)).toBeCloseTo(0.875);
+    expect(rateForVolume(range, 2000, 2000)).toBeCloseTo(0.75);
+    expect(rateForVolume(range, 8000, 2000)).toBeCloseTo(0.75);
+  });
+});
+
+describe('getCrackSeverityMultiplier', () => {
+  it('falls back to light for unknown severities', () => {
+    expect(getCrackSeverityMultiplier('severe')).toBe(1.5);
+    expect(getCrackSeverityMultiplier('unheard-of')).toBe(1.0);
+  });
+});
+
+describe('calculateMaterials', () => {
+  it('takes off sealcoat, sand and additive for a single coat', () => {
+    const { materials, costs } = calculateMaterials(area({ squareFootage: 10000 }));
+
+    expect(materials.sealMasterPMM).toBeCloseTo(144);
+    expect(materials.sand).toBeCloseTo(432);
+    expect(materials.water).toBeCloseTo(28.8);
+    expect(materials.fastDry).toBeCloseTo(2.304);
+    expect(costs.sealMasterPMM).toBeCloseTo(545.76);
+    expect(costs.sand).toBe(90); // 9 bags
+    expect(costs.fastDry).toBe(50); // 1 bucket
+    expect(materials.totalMaterialCost).toBeCloseTo(685.76);
+  });
+
+  it('uses the lighter rate for every coat after the first', () => {
+    const { materials } = calculateMaterials(area({ squareFootage: 10000, numberOfCoats: 3 }));
+    expect(materials.sealMasterPMM).toBeCloseTo(144 + 111 * 2);
+  });
+
+  it('rounds crack filler and primer up to whole boxes and buckets', () => {
+    const { materials } = calculateMaterials(area({ linearFootage: 250, crackSeverity: 'moderate', oilSpotArea: 200 }));
+    expect(materials.crackMaster).toBe(3); // 300 ft equivalent
+    expect(materials.prepSeal).toBe(2);
+  });
+
+  it('returns zeroes for an empty area', () => {
+    const { materials } = calculateMaterials(area());
+    expect(materials.totalMaterialCost).toBe(0);
+  });
+});
+
+describe('calculateStripingTakeoff', () => {
+  it('returns null when there is nothing to stripe', () => {
+    expect(calculateStripingTakeoff(area())).toBeNull();
+  });
+
+  it('converts stalls and symbols to 4" line feet', () => {
+    const takeoff = calculateStripingTakeoff(area({ parkingStalls: 20, handicapSymbols: 2, arrows: 1 }));
+
+    expect(takeoff.stallLineFeet).toBe(378); // 21 lines of 18 ft
+    expect(takeoff.symbolFeet).toBe(95);
+    expect(takeoff.equivalentLinearFeet).toBe(473);
+    expect(takeoff.paintGallons).toBe(2);
+    expect(takeoff.ratePerFoot).toBeCloseTo(0.940875);
+    expect(takeoff.applicationCost).toBeCloseTo(445.033875);
+  });
+
+  it('widens stall lines for 6" striping', () => {
+    const takeoff = calculateStripingTakeoff(area({ parkingStalls: 20, lineWidth: 6 }));
+    expect(takeoff.stallLineFeet).toBe(567);
+  });
+
+  it('counts stop bars and crosswalks', () => {
+    const takeoff = calculateStripingTakeoff(area({ stopBars: 2, crosswalkLinearFeet: 30 }));
+    expect(takeoff.stopBarFeet).toBe(144);
+    expect(takeoff.crosswalkFeet).toBe(90);
+  });
+});
+
+describe('calculatePatchingTakeoff', () => {
+  it('returns null without an area or depth', () => {
+    expect(calculatePatchingTakeoff(area({ patchArea: 100, patchDepth: 0 }))).toBeNull();
+  });
+
+  it('takes off hot mix in tons', () => {
+    const takeoff = calculatePatchingTakeoff(area({ patchArea: 100, patchDepth: 2 }));
+
+    expect(takeoff.tons).toBeCloseTo(1.2083, 4);
+    expect(takeoff.coldMixBags).toBe(0);
+    expect(takeoff.ratePerSqFt).toBeCloseTo(4.4);
+    expect(takeoff.applicationCost).toBeCloseTo(440);
+  });
+
+  it('takes off cold mix in whole bags at the cold rate', () => {
+    const takeoff = calculatePatchingTakeoff(area({ patchArea: 100, patchDepth: 2, patchMixType: 'cold' }));
+
+    expect(takeoff.coldMixBags).toBe(49);
+    expect(takeoff.ratePerSqFt).toBeCloseTo(3.6);
+  });
+});
+
+describe('calculateLaborAndEquipment', () => {
+  it('bills at least the minimum job hours', () => {
+    const labor = calculateLaborAndEquipment(input([area({ linearFootage: 50 })]));
+
+    expect(labor.hoursByService.crackFill).toBeCloseTo(0.5);
+    expect(labor.laborHours).toBe(4);
+    expect(labor.laborCost).toBe(540);
+    expect(labor.equipmentCost).toBe(200);
+  });
+
+  it('does not add crew hours to striping-only jobs', () => {
+    const labor = calculateLaborAndEquipment(input([area({ parkingStalls: 10 })]));
+
+    expect(labor.laborHours).toBe(0);
+    expect(labor.stripingCost).toBeGreaterThan(0);
+  });
+
+  it('charges fuel for the round trip', () => {
+    const labor = calculateLaborAndEquipment(input([area({ squareFootage: 5000 })], { travelDistance: 30 }));
+
+    expect(labor.roundTripMiles).toBe(60);
+    expect(labor.fuelCost).toBeCloseTo(18);
+  });
+});
+
+describe('calculateEstimate', () => {
+  it('adds overhead and profit on top of the subtotal', () => {
+    const breakdown = calculateEstimate(input([area({ squareFootage: 10000 })]), DEFAULT_RATE_TABLE, NOW);
+
+    expect(breakdown.labor.laborHours).toBe(20);
+    expect(breakdown.subtotal).toBeCloseTo(4385.76);
+    expect(breakdown.overhead).toBeCloseTo(657.864);
+    expect(breakdown.profit).toBeCloseTo(877.152);
+    expect(breakdown.total).toBeCloseTo(5920.776);
+    expect(breakdown.timestamp).toBe(NOW.toISOString());
+    expect(breakdown.priceBook).toBeNull();
+  });
+
+  it('is deterministic for the same input, rates and time', () => {
+    const estimate = input([area({ squareFootage: 8000, linearFootage: 400, parkingStalls: 12 })]);
+    expect(calculateEstimate(estimate, DEFAULT_RATE_TABLE, NOW)).toEqual(calculateEstimate(estimate, DEFAULT_RATE_TABLE, NOW));
+  });
+
+  it('splits the job across areas so area totals add up', () => {
+    const lot = area({ squareFootage: 12000, parkingStalls: 30 });
+    const drive = { ...createEstimateArea([lot]), squareFootage: 3000, linearFootage: 200 };
+    const breakdown = calculateEstimate(input([lot, drive], { travelDistance: 12 }), DEFAULT_RATE_TABLE, NOW);
+
+    expect(drive.id).toBe('area-2');
+    expect(breakdown.areas).toHaveLength(2);
+    expect(breakdown.areas.reduce((sum, a) => sum + a.subtotal, 0)).toBeCloseTo(breakdown.subtotal);
+    expect(breakdown.areas.reduce((sum, a) => sum + a.total, 0)).toBeCloseTo(breakdown.total);
+    expect(breakdown.materials.sealMasterPMM).toBeCloseTo(15000 * 0.0144);
+  });
+
+  it('prices from the given rate table and records its price book', () => {
+    const rates: RateTable = {
+      ...DEFAULT_RATE_TABLE,
+      materialCosts: { ...DEFAULT_RATE_TABLE.materialCosts, sealMasterPMM: 5 },
+      overheadRate: 0.1,
+      priceBook: {
+        priceBookId: 'book-1',
+        priceBookName: 'Standard',
+        versionId: 'version-3',
+        version: 3,
+        effectiveDate: '2026-01-01'
+      }
+    };
+    const breakdown = calculateEstimate(input([area({ squareFootage: 10000 })]), rates, NOW);
+
+    expect(breakdown.costs.sealMasterPMM).toBeCloseTo(720);
+    expect(breakdown.overheadRate).toBe(0.1);
+    expect(breakdown.priceBook?.versionId).toBe('version-3');
+  });
+});
@@ -0,0 +1,640 @@
+// Pure pricing engine for asphalt maintenance estimates.
+// Everything here is deterministic: the same input and rate table always
+// produce the same breakdown, so old estimates can be re-derived exactly.
+
+// Virginia Business Configuration
+export const BUSINESS_CONFIG = {
+  name: "Asphalt Overwatch",
+  address: "337 Ayers Orchard Road, Stuart, VA 24171",
+  coordinates: { latitude: 36.6385, longitude: -80.2656 },
+  employees: { fullTime: 2, partTime: 1, hourlyWage: 12 },
+  blendedLaborRate: 45, // Including taxes, benefits, overhead
+  supplier: "SealMaster, 703 West Decatur Street, Madison, NC 27025"
+};
+
+export interface MaterialCosts {
+  sealMasterPMM: number; // per gallon
+  sand50lb: number; // per bag
+  prepSeal5gal: number; // per bucket
+  fastDry5gal: number; // per bucket
+  crackMaster30lb: number; // per box
+  trafficPaint: number; // per gallon
+  hotMixTon: number; // per ton
+  coldMix50lb: number; // per bag
+}
+
+export interface RateRange {
+  min: number;
+  max: number;
+}
+
+export interface ApplicationRates {
+  sealcoat: {
+    firstCoat: number; // gal/sq ft
+    additionalCoats: number; // gal/sq ft
+  };
+  sandMixRatio: number; // lbs per 100 gallons
+  waterRatio: number; // fraction by volume
+  crackFilling: RateRange; // per linear foot
+  lineStriping: RateRange; // per linear foot
+  patchingHotMix: RateRange; // per sq ft
+  patchingColdMix: RateRange; // per sq ft
+  stripingTakeoff: {
+    coverageFeetPerGallon: number; // 4" line at 15 mils
+    stallLineFeet: number;
+    stopBarEquivalentFeet: number; // 24" x 12' bar in 4" line feet
+    crosswalkWidthFactor: number; // 12" bars in 4" line feet per foot
+    handicapSymbolEquivalentFeet: number;
+    arrowEquivalentFeet: number;
+    volumeBreakpointFeet: number; // footage earning the minimum rate
+  };
+  patchingTakeoff: {
+    compactedDensityLbPerCuFt: number;
+    volumeBreakpointSqFt: number; // area earning the minimum rate
+  };
+}
+
+export interface LaborRates {
+  blendedLaborRate: number; // per person-hour
+  crewSize: number;
+  sealcoatHoursPer1000SqFt: number;
+  crackFillFeetPerHour: number;
+  minimumJobHours: number;
+  equipmentHourlyRate: number;
+  truckMpg: number;
+  fuelPricePerGallon: number;
+}
+
+// Identifies the price book version a rate table was built from
+export interface PriceBookReference {
+  priceBookId: string;
+  priceBookName: string;
+  versionId: string;
+  version: number;
+  effectiveDate: string;
+}
+
+export interface RateTable {
+  materialCosts: MaterialCosts;
+  applicationRates: ApplicationRates;
+  labor: LaborRates;
+  overheadRate: number; // fraction of subtotal
+  priceBook?: PriceBookReference;
+}
+
+// Material Costs (Virginia 2025)
+export const MATERIAL_COSTS: MaterialCosts = {
+  sealMasterPMM: 3.79,
+  sand50lb: 10.00,
+  prepSeal5gal: 50.00,
+  fastDry5gal: 50.00,
+  crackMaster30lb: 44.95,
+  trafficPaint: 19.50,
+  hotMixTon: 85.00,
+  coldMix50lb: 16.00
+};
+
+// Application Rates & Coverage
+export const APPLICATION_RATES: ApplicationRates = {
+  sealcoat: {
+    firstCoat: 0.0144,
+    additionalCoats: 0.0111
+  },
+  sandMixRatio: 300, // 6 bags per 100 gallons
+  waterRatio: 0.20,
+  crackFilling: { min: 0.50, max: 3.00 },
+  lineStriping: { min: 0.75, max: 1.00 },
+  patchingHotMix: { min: 2.00, max: 5.00 },
+  patchingColdMix: { min: 2.00, max: 4.00 },
+  stripingTakeoff: {
+    coverageFeetPerGallon: 320,
+    stallLineFeet: 18,
+    stopBarEquivalentFeet: 72,
+    crosswalkWidthFactor: 3,
+    handicapSymbolEquivalentFeet: 40,
+    arrowEquivalentFeet: 15,
+    volumeBreakpointFeet: 2000
+  },
+  patchingTakeoff: {
+    compactedDensityLbPerCuFt: 145,
+    volumeBreakpointSqFt: 500
+  }
+};
+
+export const LABOR_RATES: LaborRates = {
+  blendedLaborRate: BUSINESS_CONFIG.blendedLaborRate,
+  crewSize: 3,
+  sealcoatHoursPer1000SqFt: 2, // including prep and cleanup
+  crackFillFeetPerHour: 100,
+  minimumJobHours: 4,
+  equipmentHourlyRate: 50,
+  truckMpg: 15,
+  fuelPricePerGallon: 4.50
+};
+
+export const DEFAULT_RATE_TABLE: RateTable = {
+  materialCosts: MATERIAL_COSTS,
+  applicationRates: APPLICATION_RATES,
+  labor: LABOR_RATES,
+  overheadRate: 0.15
+};
+
+export type CrackSeverity = 'light' | 'moderate' | 'severe';
+
+export type ServiceKey = 'sealcoat' | 'crackFill' | 'striping' | 'patching';
+
+export type LineWidth = 4 | 6;
+
+export type PatchMixType = 'hot' | 'cold';
+
+// One named section of a job (a parking lot, a driveway, an access road) with
+// its own service mix
+export interface EstimateArea {
+  id: string;
+  name: string;
+  squareFootage: number;
+  linearFootage: number;
+  numberOfCoats: number;
+  crackSeverity: string;
+  oilSpotArea: number;
+  parkingStalls: number;
+  handicapSymbols: number;
+  arrows: number;
+  stopBars: number;
+  crosswalkLinearFeet: number;
+  lineWidth: LineWidth; // inches
+  patchArea: number; // sq ft
+  patchDepth: number; // inches
+  patchMixType: PatchMixType;
+}
+
+export interface EstimateInput {
+  projectType: string;
+  areas: EstimateArea[];
+  clientName: string;
+  customerId: string | null; // customer account the quote is shared with in the client portal
+  jobSiteAddress: string;
+  travelDistance: number;
+  profitMargin: number;
+  additionalNotes: string;
+}
+
+export const DEFAULT_ESTIMATE_AREA: EstimateArea = {
+  id: 'area-1',
+  name: 'Area 1',
+  squareFootage: 0,
+  linearFootage: 0,
+  numberOfCoats: 1,
+  crackSeverity: 'light',
+  oilSpotArea: 0,
+  parkingStalls: 0,
+  handicapSymbols: 0,
+  arrows: 0,
+  stopBars: 0,
+  crosswalkLinearFeet: 0,
+  lineWidth: 4,
+  patchArea: 0,
+  patchDepth: 2,
+  patchMixType: 'hot'
+};
+
+export const DEFAULT_ESTIMATE_INPUT: EstimateInput = {
+  projectType: '',
+  areas: [DEFAULT_ESTIMATE_AREA],
+  clientName: '',
+  customerId: null,
+  jobSiteAddress: '',
+  travelDistance: 0,
+  profitMargin: 20,
+  additionalNotes: ''
+};
+
+// Ids only need to be unique within an estimate, so they are numbered rather
+// than random to keep saved inputs stable and readable.
+export const createEstimateArea = (existing: EstimateArea[]): EstimateArea => {
+  const next = existing.reduce((max, area) => {
+    const n = parseInt(area.id.replace('area-', ''), 10);
+    return Number.isNaN(n) ? max : Math.max(max, n);
+  }, 0) + 1;
+  return { ...DEFAULT_ESTIMATE_AREA, id: `area-${next}`, name: `Area ${existing.length + 1}` };
+};
+
+export interface StripingTakeoff {
+  stallLineFeet: number;
+  stopBarFeet: number;
+  crosswalkFeet: number;
+  symbolFeet: number;
+  equivalentLinearFeet: number; // everything expressed as 4" line
+  paintGallons: number;
+  ratePerFoot: number;
+  applicationCost: number;
+}
+
+export interface PatchingTakeoff {
+  area: number;
+  depth: number;
+  mixType: PatchMixType;
+  tons: number;
+  coldMixBags: number;
+  ratePerSqFt: number;
+  applicationCost: number;
+}
+
+export interface MaterialQuantities {
+  sealMasterPMM: number; // gallons of concentrate
+  sand: number; // lbs
+  water: number; // gallons
+  prepSeal: number; // 5-gal buckets
+  fastDry: number; // gallons
+  crackMaster: number; // 30 lb boxes
+  trafficPaint: number; // gallons
+  hotMix: number; // tons
+  coldMix: number; // 50 lb bags
+  totalMaterialCost: number;
+}
+
+export interface MaterialLineCosts {
+  sealMasterPMM: number;
+  sand: number;
+  prepSeal: number;
+  fastDry: number;
+  crackMaster: number;
+  trafficPaint: number;
+  hotMix: number;
+  coldMix: number;
+}
+
+export interface MaterialsBreakdown {
+  materials: MaterialQuantities;
+  costs: MaterialLineCosts;
+}
+
+export interface LaborBreakdown {
+  laborHours: number;
+  hoursByService: Partial<Record<ServiceKey, number>>;
+  crewSize: number;
+  laborCost: number;
+  equipmentCost: number;
+  stripingCost: number; // per-foot application charge
+  patchingCost: number; // per-sq-ft application charge
+  roundTripMiles: number;
+  fuelCost: number;
+  totalLabor: number;
+}
+
+export interface AreaBreakdown extends MaterialsBreakdown {
+  id: string;
+  name: string;
+  hoursByService: Partial<Record<ServiceKey, number>>;
+  striping: StripingTakeoff | null;
+  patching: PatchingTakeoff | null;
+  directCost: number; // materials, crew hours and application charges for this area alone
+  subtotal: number; // share of the job subtotal, including crew minimum and travel
+  total: number; // share of the job total
+}
+
+export interface EstimateBreakdown extends MaterialsBreakdown {
+  areas: AreaBreakdown[];
+  labor: LaborBreakdown;
+  subtotal: number;
+  overheadRate: number;
+  overhead: number;
+  profitMargin: number;
+  profit: number;
+  total: number;
+  priceBook: PriceBookReference | null;
+  timestamp: string;
+}
+
+const CRACK_SEVERITY_MULTIPLIERS: Record<CrackSeverity, number> = {
+  light: 1.0,
+  moderate: 1.2,
+  severe: 1.5
+};
+
+export const getCrackSeverityMultiplier = (severity: string) =>
+  CRACK_SEVERITY_MULTIPLIERS[severity as CrackSeverity] ?? 1.0;
+
+// Per-unit rates fall from the top of the configured range on small jobs to
+// the bottom once the quantity reaches the volume breakpoint.
+export const rateForVolume = (range: RateRange, quantity: number, breakpoint: number) => {
+  if (quantity <= 0) return range.max;
+  const progress = Math.min(quantity / breakpoint, 1);
+  return range.max - (range.max - range.min) * progress;
+};
+
+export const calculateStripingTakeoff = (
+  area: EstimateArea,
+  rates: RateTable = DEFAULT_RATE_TABLE
+): StripingTakeoff | null => {
+  const {
+    parkingStalls = 0,
+    handicapSymbols = 0,
+    arrows = 0,
+    stopBars = 0,
+    crosswalkLinearFeet = 0,
+    lineWidth = 4
+  } = area;
+  const { stripingTakeoff, lineStriping } = rates.applicationRates;
+
+  if (parkingStalls + handicapSymbols + arrows + stopBars + crosswalkLinearFeet <= 0) return null;
+
+  // One line per stall plus the line closing off the end of the row, widened
+  // proportionally for 6" lines
+  const stallLineFeet = parkingStalls > 0
+    ? (parkingStalls + 1) * stripingTakeoff.stallLineFeet * (lineWidth / 4)
+    : 0;
+  const stopBarFeet = stopBars * stripingTakeoff.stopBarEquivalentFeet;
+  const crosswalkFeet = crosswalkLinearFeet * stripingTakeoff.crosswalkWidthFactor;
+  const symbolFeet = handicapSymbols * stripingTakeoff.handicapSymbolEquivalentFeet
+    + arrows * stripingTakeoff.arrowEquivalentFeet;
+
+  const equivalentLinearFeet = stallLineFeet + stopBarFeet + crosswalkFeet + symbolFeet;
+  const paintGallons = Math.ceil(equivalentLinearFeet / stripingTakeoff.coverageFeetPerGallon);
+  const ratePerFoot = rateForVolume(lineStriping, equivalentLinearFeet, stripingTakeoff.volumeBreakpointFeet);
+
+  return {
+    stallLineFeet,
+    stopBarFeet,
+    crosswalkFeet,
+    symbolFeet,
+    equivalentLinearFeet,
+    paintGallons,
+    ratePerFoot,
+    applicationCost: equivalentLinearFeet * ratePerFoot
+  };
+};
+
+export const calculatePatchingTakeoff = (
+  area: EstimateArea,
+  rates: RateTable = DEFAULT_RATE_TABLE
+): PatchingTakeoff | null => {
+  const { patchArea = 0, patchDepth = 2, patchMixType = 'hot' } = area;
+  const { patchingTakeoff, patchingHotMix, patchingColdMix } = rates.applicationRates;
+
+  if (patchArea <= 0 || patchDepth <= 0) return null;
+
+  const cubicFeet = patchArea * (patchDepth / 12);
+  const tons = (cubicFeet * patchingTakeoff.compactedDensityLbPerCuFt) / 2000;
+  const coldMixBags = patchMixType === 'cold' ? Math.ceil((tons * 2000) / 50) : 0;
+  const range = patchMixType === 'cold' ? patchingColdMix : patchingHotMix;
+  const ratePerSqFt = rateForVolume(range, patchArea, patchingTakeoff.volumeBreakpointSqFt);
+
+  return {
+    area: patchArea,
+    depth: patchDepth,
+    mixType: patchMixType,
+    tons,
+    coldMixBags,
+    ratePerSqFt,
+    applicationCost: patchArea * ratePerSqFt
+  };
+};
+
+export const calculateMaterials = (
+  area: EstimateArea,
+  rates: RateTable = DEFAULT_RATE_TABLE
+): MaterialsBreakdown => {
+  const { squareFootage, numberOfCoats, linearFootage, oilSpotArea, crackSeverity } = area;
+  const { applicationRates, materialCosts } = rates;
+
+  const materials: MaterialQuantities = {
+    sealMasterPMM: 0,
+    sand: 0,
+    water: 0,
+    prepSeal: 0,
+    fastDry: 0,
+    crackMaster: 0,
+    trafficPaint: 0,
+    hotMix: 0,
+    coldMix: 0,
+    totalMaterialCost: 0
+  };
+
+  // Sealcoating calculations
+  if (squareFootage > 0) {
+    // First coat
+    const firstCoatGallons = squareFootage * applicationRates.sealcoat.firstCoat;
+    let totalPMM = firstCoatGallons;
+
+    // Additional coats
+    if (numberOfCoats > 1) {
+      const additionalCoatsGallons = squareFootage * applicationRates.sealcoat.additionalCoats * (numberOfCoats - 1);
+      totalPMM += additionalCoatsGallons;
+    }
+
+    materials.sealMasterPMM = totalPMM;
+    materials.sand = (totalPMM / 100) * applicationRates.sandMixRatio;
+    materials.water = totalPMM * applicationRates.waterRatio;
+
+    // Fast Dry additive (2 gal per 125 gal of concentrate)
+    materials.fastDry = (totalPMM / 125) * 2;
+  }
+
+  // Oil spot primer
+  if (oilSpotArea > 0) {
+    materials.prepSeal = Math.ceil(oilSpotArea / 175); // 175 sq ft per gallon average
+  }
+
+  // Crack filling
+  if (linearFootage > 0) {
+    const crackMultiplier = getCrackSeverityMultiplier(crackSeverity);
+    materials.crackMaster = Math.ceil((linearFootage * crackMultiplier) / 100); // boxes needed
+  }
+
+  // Line striping paint
+  const striping = calculateStripingTakeoff(area, rates);
+  if (striping) {
+    materials.trafficPaint = striping.paintGallons;
+  }
+
+  // Patching mix
+  const patching = calculatePatchingTakeoff(area, rates);
+  if (patching) {
+    if (patching.mixType === 'cold') {
+      materials.coldMix = patching.coldMixBags;
+    } else {
+      materials.hotMix = patching.tons;
+    }
+  }
+
+  const costs: MaterialLineCosts = {
+    sealMasterPMM: materials.sealMasterPMM * materialCosts.sealMasterPMM,
+    sand: Math.ceil(materials.sand / 50) * materialCosts.sand50lb, // convert lbs to bags
+    prepSeal: materials.prepSeal * materialCosts.prepSeal5gal,
+    fastDry: Math.ceil(materials.fastDry / 5) * materialCosts.fastDry5gal, // 5-gal buckets
+    crackMaster: materials.crackMaster * materialCosts.crackMaster30lb,
+    trafficPaint: materials.trafficPaint * materialCosts.trafficPaint,
+    hotMix: materials.hotMix * materialCosts.hotMixTon,
+    coldMix: materials.coldMix * materialCosts.coldMix50lb
+  };
+
+  materials.totalMaterialCost = Object.values(costs).reduce((sum, cost) => sum + cost, 0);
+
+  return { materials, costs };
+};
+
+export const calculateServiceHours = (
+  area: EstimateArea,
+  rates: RateTable = DEFAULT_RATE_TABLE
+): Partial<Record<ServiceKey, number>> => {
+  const { squareFootage, linearFootage } = area;
+  const { labor } = rates;
+
+  const hoursByService: Partial<Record<ServiceKey, number>> = {};
+
+  if (squareFootage > 0) {
+    hoursByService.sealcoat = (squareFootage / 1000) * labor.sealcoatHoursPer1000SqFt;
+  }
+
+  if (linearFootage > 0) {
+    hoursByService.crackFill = linearFootage / labor.crackFillFeetPerHour;
+  }
+
+  return hoursByService;
+};
+
+const sumHours = (hoursByService: Partial<Record<ServiceKey, number>>) =>
+  Object.values(hoursByService).reduce((sum, hours) => sum + hours, 0);
+
+const crewHourlyCost = (rates: RateTable) =>
+  rates.labor.blendedLaborRate * rates.labor.crewSize + rates.labor.equipmentHourlyRate;
+
+// Crew time, the minimum job charge and travel are counted once for the whole
+// job; the crew moves between areas without another trip.
+export const calculateLaborAndEquipment = (
+  input: EstimateInput,
+  rates: RateTable = DEFAULT_RATE_TABLE
+): LaborBreakdown => {
+  const { areas, travelDistance } = input;
+  const { labor } = rates;
+
+  const hoursByService: Partial<Record<ServiceKey, number>> = {};
+  let stripingCost = 0;
+  let patchingCost = 0;
+
+  for (const area of areas) {
+    for (const [service, hours] of Object.entries(calculateServiceHours(area, rates)) as [ServiceKey, number][]) {
+      hoursByService[service] = (hoursByService[service] ?? 0) + hours;
+    }
+    stripingCost += calculateStripingTakeoff(area, rates)?.applicationCost ?? 0;
+    patchingCost += calculatePatchingTakeoff(area, rates)?.applicationCost ?? 0;
+  }
+
+  // Striping and patching are priced per unit, which already covers their
+  // crew time, so they only count toward the crew minimum when the crew is
+  // otherwise on site.
+  const serviceHours = sumHours(hoursByService);
+  const perUnitOnly = serviceHours === 0 && stripingCost + patchingCost > 0;
+  const laborHours = perUnitOnly ? 0 : Math.max(serviceHours, labor.minimumJobHours);
+
+  const laborCost = laborHours * labor.blendedLaborRate * labor.crewSize;
+
+  // Equipment runs for the same hours as the crew
+  const equipmentCost = laborHours * labor.equipmentHourlyRate;
+
+  const roundTripMiles = travelDistance * 2;
+  const fuelCost = (roundTripMiles / labor.truckMpg) * labor.fuelPricePerGallon;
+
+  return {
+    laborHours,
+    hoursByService,
+    crewSize: labor.crewSize,
+    laborCost,
+    equipmentCost,
+    stripingCost,
+    patchingCost,
+    roundTripMiles,
+    fuelCost,
+    totalLabor: laborCost + equipmentCost + stripingCost + patchingCost + fuelCost
+  };
+};
+
+const sumMaterials = (breakdowns: MaterialsBreakdown[]): MaterialsBreakdown => {
+  const materials: MaterialQuantities = {
+    sealMasterPMM: 0,
+    sand: 0,
+    water: 0,
+    prepSeal: 0,
+    fastDry: 0,
+    crackMaster: 0,
+    trafficPaint: 0,
+    hotMix: 0,
+    coldMix: 0,
+    totalMaterialCost: 0
+  };
+  const costs: MaterialLineCosts = {
+    sealMasterPMM: 0,
+    sand: 0,
+    prepSeal: 0,
+    fastDry: 0,
+    crackMaster: 0,
+    trafficPaint: 0,
+    hotMix: 0,
+    coldMix: 0
+  };
+
+  for (const breakdown of breakdowns) {
+    for (const key of Object.keys(materials) as (keyof MaterialQuantities)[]) {
+      materials[key] += breakdown.materials[key];
+    }
+    for (const key of Object.keys(costs) as (keyof MaterialLineCosts)[]) {
+      costs[key] += breakdown.costs[key];
+    }
+  }
+
+  return { materials, costs };
+};
+
+export const calculateEstimate = (
+  input: EstimateInput,
+  rates: RateTable = DEFAULT_RATE_TABLE,
+  now: Date = new Date()
+): EstimateBreakdown => {
+  // Materials are taken off per area, so each area's subtotal reflects the
+  // bags and buckets it actually needs.
+  const areas = input.areas.map(area => {
+    const { materials, costs } = calculateMaterials(area, rates);
+    const hoursByService = calculateServiceHours(area, rates);
+    const striping = calculateStripingTakeoff(area, rates);
+    const patching = calculatePatchingTakeoff(area, rates);
+    const directCost = materials.totalMaterialCost
+      + sumHours(hoursByService) * crewHourlyCost(rates)
+      + (striping?.applicationCost ?? 0)
+      + (patching?.applicationCost ?? 0);
+    return { id: area.id, name: area.name, materials, costs, hoursByService, striping, patching, directCost };
+  });
+
+  const { materials, costs } = sumMaterials(areas);
+  const labor = calculateLaborAndEquipment(input, rates);
+
+  const subtotal = materials.totalMaterialCost + labor.totalLabor;
+  const overhead = subtotal * rates.overheadRate;
+  const profit = subtotal * (input.profitMargin / 100);
+  const total = subtotal + overhead + profit;
+
+  // Job-level costs (crew minimum top-up, travel) are spread across areas in
+  // proportion to their direct cost so the area subtotals add up to the job.
+  const directTotal = areas.reduce((sum, area) => sum + area.directCost, 0);
+  const shareOf = (directCost: number) =>
+    directTotal > 0 ? directCost / directTotal : 1 / Math.max(areas.length, 1);
+
+  return {
+    areas: areas.map(area => ({
+      ...area,
+      subtotal: subtotal * shareOf(area.directCost),
+      total: total * shareOf(area.directCost)
+    })),
+    materials,
+    costs,
+    labor,
+    subtotal,
+    overheadRate: rates.overheadRate,
+    overhead,
+    profitMargin: input.profitMargin,
+    profit,
+    total,
+    priceBook: rates.priceBook ?? null,
+    timestamp: now.toISOString()
+  };
+};
@@ -0,0 +1,174 @@
+// Milestones, their tasks, and the progress figures built from them. A
+// project's progress is the hours-weighted completion of its tasks, so a
+// half-done 20-hour task moves it further than a finished 1-hour one.
+import { z } from 'zod';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type MilestoneRecord = Tables<'project_milestones'>;
+
+export type ProjectTaskRecord = Tables<'project_tasks'>;
+
+export type TaskStatus = 'pending' | 'in_progress' | 'completed';
+
+export type TaskPriority = 'low' | 'normal' | 'high';
+
+export const TASK_STATUS_LABELS: Record<TaskStatus, string> = {
+  pending: 'Pending',
+  in_progress: 'In Progress',
+  completed: 'Completed'
+};
+
+export const TASK_PRIORITY_LABELS: Record<TaskPriority, string> = {
+  low: 'Low',
+  normal: 'Normal',
+  high: 'High'
+};
+
+type ProgressTask = Pick<ProjectTaskRecord, 'status' | 'progress' | 'estimated_hours'>;
+
+// Percent complete for one task; a completed task is always 100
+export const getTaskCompletion = (task: ProgressTask) => {
+  if (task.status === 'completed') return 100;
+  return Math.min(100, Math.max(0, task.progress ?? 0));
+};
+
+// Tasks without an estimate count as one hour so they still register
+const taskWeight = (task: ProgressTask) => (task.estimated_hours && task.estimated_hours > 0 ? task.estimated_hours : 1);
+
+export const calculateTaskProgress = (tasks: ProgressTask[]) => {
+  if (tasks.length === 0) return 0;
+  const totalWeight = tasks.reduce((sum, task) => sum + taskWeight(task), 0);
+  const done = tasks.reduce((sum, task) => sum + taskWeight(task) * getTaskCompletion(task), 0);
+  return Math.round(done / totalWeight);
+};
+
+// Progress for one project. Projects with milestones but no tasks yet fall
+// back to the share of milestones completed.
+export const getProjectProgress = (
+  projectId: string,
+  tasks: (ProgressTask & Pick<ProjectTaskRecord, 'project_id'>)[],
+  milestones: Pick<MilestoneRecord, 'project_id' | 'status'>[]
+) => {
+  const projectTasks = tasks.filter(task => task.project_id === projectId);
+  const projectMilestones = milestones.filter(milestone => milestone.project_id === projectId);
+  const counts = { taskCount: projectTasks.length, milestoneCount: projectMilestones.length };
+  if (projectTasks.length > 0) return { progress: calculateTaskProgress(projectTasks), ...counts };
+  if (projectMilestones.length === 0) return { progress: 0, ...counts };
+  const completed = projectMilestones.filter(milestone => milestone.status === 'completed').length;
+  return { progress: Math.round((completed / projectMilestones.length) * 100), ...counts };
+};
+
+// Dependencies that still have to be finished before this task can be
+export const getBlockingTasks = (task: Pick<ProjectTaskRecord, 'dependencies'>, tasks: ProjectTaskRecord[]) =>
+  (task.dependencies ?? [])
+    .map(id => tasks.find(candidate => candidate.id === id))
+    .filter((dependency): dependency is ProjectTaskRecord => !!dependency && dependency.status !== 'completed');
+
+// Tasks that depend on this one, directly or through another task. A task
+// can't take any of them as a dependency without creating a cycle.
+export const getDependentTaskIds = (taskId: string, tasks: ProjectTaskRecord[]) => {
+  const dependents = new Set<string>();
+  const queue = [taskId];
+  while (queue.length > 0) {
+    const current = queue.shift();
+    tasks
+      .filter(task => task.dependencies?.includes(current) && !dependents.has(task.id))
+      .forEach(task => {
+        dependents.add(task.id);
+        queue.push(task.id);
+      });
+  }
+  return dependents;
+};
+
+// Sorted the way the checklist shows them: by due date, undated last
+export const sortTasks = (tasks: ProjectTaskRecord[]) =>
+  [...tasks].sort((a, b) => (a.due_date ?? '9999').localeCompare(b.due_date ?? '9999') || (a.title ?? '').localeCompare(b.title ?? ''));
+
+const optionalText = z.string().trim().max(500);
+
+const optionalHours = z.preprocess(
+  value => (value === '' || value === null || value === undefined ? null : Number(value)),
+  z.number().min(0, 'Hours cannot be negative').nullable()
+);
+
+export const milestoneFormSchema = z.object({
+  title: z.string().trim().min(1, 'Milestone title is required').max(200),
+  description: optionalText,
+  target_date: z.string()
+});
+
+export type MilestoneFormValues = z.infer<typeof milestoneFormSchema>;
+
+export const getMilestoneFormValues = (milestone?: MilestoneRecord | null): MilestoneFormValues => ({
+  title: milestone?.title ?? '',
+  description: milestone?.description ?? '',
+  target_date: milestone?.target_date ?? ''
+});
+
+export const serializeMilestoneForm = (values: MilestoneFormValues) => ({
+  title: values.title,
+  description: values.description || null,
+  target_date: values.target_date || null
+});
+
+export const taskFormSchema = z
+  .object({
+    title: z.string().trim().min(1, 'Task title is required').max(200),
+    description: optionalText,
+    milestone_id: z.string(), // '' for tasks outside any milestone
+    assigned_to: z.string(), // '' when unassigned
+    status: z.enum(Object.keys(TASK_STATUS_LABELS) as [TaskStatus, ...TaskStatus[]]),
+    priority: z.enum(Object.keys(TASK_PRIORITY_LABELS) as [TaskPriority, ...TaskPriority[]]),
+    start_date: z.string(),
+    due_date: z.string(),
+    estimated_hours: optionalHours,
+    actual_hours: optionalHours,
+    progress: z.coerce.number().int().min(0).max(100),
+    dependencies: z.array(z.string())
+  })
+  .refine(values => !values.start_date || !values.due_date || values.due_date >= values.start_date, {
+    message: 'Due date cannot be before the start date',
+    path: ['due_date']
+  });
+
+export type TaskFormValues = z.infer<typeof taskFormSchema>;
+
+export const getTaskFormValues = (task?: ProjectTaskRecord | null, milestoneId?: string | null): TaskFormValues => ({
+  title: task?.title ?? '',
+  description: task?.description ?? '',
+  milestone_id: task?.milestone_id ?? milestoneId ?? '',
+  assigned_to: task?.assigned_to ?? '',
+  status: (task?.status as TaskStatus) ?? 'pending',
+  priority: (task?.priority as TaskPriority) ?? 'normal',
+  start_date: task?.start_date ?? '',
+  due_date: task?.due_date ?? '',
+  estimated_hours: task?.estimated_hours ?? null,
+  actual_hours: task?.actual_hours ?? null,
+  progress: task?.progress ?? 0,
+  dependencies: task?.dependencies ?? []
+});
+
+// Completing a task fills its progress and completion date; reopening clears
+// the date
+export const serializeTaskForm = (values: TaskFormValues, task?: ProjectTaskRecord | null) => ({
+  title: values.title,
+  description: values.description || null,
+  milestone_id: values.milestone_id || null,
+  assigned_to: values.assigned_to || null,
+  status: values.status,
+  priority: values.priority,
+  start_date: values.start_date || null,
+  due_date: values.due_date || null,
+  estimated_hours: values.estimated_hours,
+  actual_hours: values.actual_hours,
+  progress: values.status === 'completed' ? 100 : values.progress,
+  completed_date: values.status === 'completed' ? (task?.completed_date ?? new Date().toISOString().slice(0, 10)) : null,
+  dependencies: values.dependencies
+});
+
+// Fields written when a task is ticked on or off the checklist
+export const getTaskCompletionUpdate = (completed: boolean) =>
+  completed
+    ? { status: 'completed', progress: 100, completed_date: new Date().toISOString().slice(0, 10) }
+    : { status: 'pending', progress: 0, completed_date: null };
@@ -0,0 +1,200 @@
+// Shared project types and labels.
+import { z } from 'zod';
+import type { Database, Tables } from '@/integrations/supabase/types';
+
+export type ProjectRecord = Tables<'projects'>;
+
+export type ProjectAuditEntry = Tables<'project_audit_log'>;
+
+export type ProjectStatus = Database['public']['Enums']['project_status'];
+
+export type ProjectType = Database['public']['Enums']['project_type'];
+
+export const PROJECT_STATUS_LABELS: Record<ProjectStatus, string> = {
+  pending: 'Pending',
+  in_progress: 'In Progress',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+  on_hold: 'On Hold'
+};
+
+// Statuses a project may move to from each status. The database enforces the
+// same transitions (enforce_project_status_transition).
+export const PROJECT_STATUS_TRANSITIONS: Record<ProjectStatus, ProjectStatus[]> = {
+  pending: ['in_progress', 'on_hold', 'cancelled'],
+  in_progress: ['on_hold', 'completed', 'cancelled'],
+  on_hold: ['in_progress', 'cancelled'],
+  completed: ['in_progress'],
+  cancelled: ['pending']
+};
+
+export const canTransitionProject = (from: ProjectStatus, to: ProjectStatus) =>
+  PROJECT_STATUS_TRANSITIONS[from].includes(to);
+
+// Button labels for moving a project into each status
+export const PROJECT_STATUS_ACTIONS: Record<ProjectStatus, string> = {
+  pending: 'Reinstate',
+  in_progress: 'Start',
+  on_hold: 'Hold',
+  completed: 'Mark Complete',
+  cancelled: 'Cancel'
+};
+
+export const PROJECT_TYPE_LABELS: Record<ProjectType, string> = {
+  asphalt_paving: 'Asphalt Paving',
+  sealcoating: 'Sealcoating',
+  line_striping: 'Line Striping',
+  crack_sealing: 'Crack Sealing',
+  pothole_repair: 'Pothole Repair',
+  overlay: 'Overlay',
+  maintenance: 'Maintenance'
+};
+
+export interface MilestoneTemplate {
+  title: string;
+  description: string;
+  tasks: string[];
+  anchor: 'start' | 'end'; // counted from the project's start or end date
+  offsetDays: number;
+}
+
+const KICKOFF: MilestoneTemplate = {
+  title: 'Scheduling & Site Walk',
+  description: 'Confirm the start date and walk the site with the client',
+  tasks: ['Confirm start date with client', 'Schedule crew and equipment', 'Notify tenants of closures'],
+  anchor: 'start',
+  offsetDays: -7
+};
+
+const WALKTHROUGH: MilestoneTemplate = {
+  title: 'Final Walkthrough',
+  description: 'Review the finished work with the client and reopen the site',
+  tasks: ['Walk site with client', 'Remove barricades', 'Send final invoice'],
+  anchor: 'end',
+  offsetDays: 1
+};
+
+const workMilestones = (
+  prep: Pick<MilestoneTemplate, 'title' | 'description' | 'tasks'>,
+  work: Pick<MilestoneTemplate, 'title' | 'description' | 'tasks'>
+): MilestoneTemplate[] => [
+  KICKOFF,
+  { ...prep, anchor: 'start', offsetDays: 0 },
+  { ...work, anchor: 'end', offsetDays: 0 },
+  WALKTHROUGH
+];
+
+// Milestones every new project of a type starts with
+export const DEFAULT_PROJECT_MILESTONES: Record<ProjectType, MilestoneTemplate[]> = {
+  asphalt_paving: workMilestones(
+    { title: 'Base Preparation', description: 'Grade and compact the base', tasks: ['Excavate and grade', 'Compact base stone', 'Proof roll'] },
+    { title: 'Paving', description: 'Lay and roll asphalt', tasks: ['Apply tack coat', 'Pave and roll', 'Check drainage'] }
+  ),
+  sealcoating: workMilestones(
+    { title: 'Surface Preparation', description: 'Clean the surface and treat oil spots', tasks: ['Blow off and sweep surface', 'Treat oil spots with prep seal', 'Edge along curbs'] },
+    { title: 'Sealcoat Application', description: 'Apply sealcoat and let it cure', tasks: ['Apply first coat', 'Apply second coat', 'Barricade during cure'] }
+  ),
+  line_striping: workMilestones(
+    { title: 'Layout', description: 'Mark out the striping plan', tasks: ['Confirm stall count and ADA spaces', 'Chalk layout lines'] },
+    { title: 'Striping', description: 'Paint lines, stalls and symbols', tasks: ['Paint stall lines', 'Stencil symbols and arrows', 'Paint stop bars and crosswalks'] }
+  ),
+  crack_sealing: workMilestones(
+    { title: 'Crack Preparation', description: 'Clean out cracks before filling', tasks: ['Rout wide cracks', 'Blow out debris'] },
+    { title: 'Crack Filling', description: 'Fill cracks with hot-pour sealant', tasks: ['Fill cracks', 'Squeegee and detack'] }
+  ),
+  pothole_repair: workMilestones(
+    { title: 'Excavation', description: 'Cut out failed pavement', tasks: ['Saw-cut repair areas', 'Remove failed material', 'Compact subbase'] },
+    { title: 'Patching', description: 'Place and compact patch material', tasks: ['Tack edges', 'Place and compact patch', 'Seal patch edges'] }
+  ),
+  overlay: workMilestones(
+    { title: 'Milling & Repairs', description: 'Mill the surface and repair base failures', tasks: ['Mill surface', 'Repair base failures', 'Sweep and tack'] },
+    { title: 'Overlay Paving', description: 'Pave the new surface course', tasks: ['Pave and roll', 'Adjust structures to grade'] }
+  ),
+  maintenance: workMilestones(
+    { title: 'Repairs & Preparation', description: 'Repair and clean the surface', tasks: ['Complete crack and patch repairs', 'Clean surface'] },
+    { title: 'Surface Work', description: 'Complete the quoted maintenance services', tasks: ['Complete scheduled services', 'Barricade during cure'] }
+  )
+};
+
+const optionalText = z.string().trim().max(500);
+
+// Fields a user edits on the project form
+export const projectFormSchema = z
+  .object({
+    name: z.string().trim().min(1, 'Project name is required').max(200),
+    description: optionalText,
+    project_type: z.enum(Object.keys(PROJECT_TYPE_LABELS) as [ProjectType, ...ProjectType[]]),
+    client_name: optionalText,
+    client_phone: optionalText,
+    client_email: z.union([z.literal(''), z.string().trim().email('Enter a valid email address')]),
+    site_address: optionalText,
+    start_date: z.string(),
+    end_date: z.string(),
+    // Actual cost is rolled up from job costing and isn't entered here
+    estimated_cost: z.coerce.number().min(0, 'Cost cannot be negative')
+  })
+  .refine(values => !values.start_date || !values.end_date || values.end_date >= values.start_date, {
+    message: 'End date cannot be before the start date',
+    path: ['end_date']
+  });
+
+export type ProjectFormValues = z.infer<typeof projectFormSchema>;
+
+export const getProjectFormValues = (project?: ProjectRecord | null): ProjectFormValues => ({
+  name: project?.name ?? '',
+  description: project?.description ?? '',
+  project_type: project?.project_type ?? 'asphalt_paving',
+  client_name: project?.client_name ?? '',
+  client_phone: project?.client_phone ?? '',
+  client_email: project?.client_email ?? '',
+  site_address: project?.site_address ?? '',
+  start_date: project?.start_date ?? '',
+  end_date: project?.end_date ?? '',
+  estimated_cost: project?.estimated_cost ?? 0
+});
+
+// Blank form fields are stored as nulls
+export const serializeProjectForm = (values: ProjectFormValues) => ({
+  name: values.name,
+  description: values.description || null,
+  project_type: values.project_type,
+  client_name: values.client_name || null,
+  client_phone: values.client_phone || null,
+  client_email: values.client_email || null,
+  site_address: values.site_address || null,
+  start_date: values.start_date || null,
+  end_date: values.end_date || null,
+  estimated_cost: values.estimated_cost
+});
+
+const AUDIT_FIELD_LABELS: Record<string, string> = {
+  name: 'name',
+  description: 'description',
+  project_type: 'type',
+  status: 'status',
+  client_name: 'client',
+  client_phone: 'client phone',
+  client_email: 'client email',
+  site_address: 'site address',
+  start_date: 'start date',
+  end_date: 'end date',
+  estimated_cost: 'estimated cost',
+  actual_cost: 'actual cost'
+};
+
+// One line per audit entry, e.g. "Status: In Progress → On Hold"
+export const describeProjectChange = (entry: ProjectAuditEntry) => {
+  switch (entry.action) {
+    case 'created': return 'Project created';
+    case 'archived': return 'Project archived';
+    case 'restored': return 'Project restored';
+  }
+
+  const changes = (entry.changes ?? {}) as Record<string, { from: unknown; to: unknown }>;
+  if (entry.action === 'status_changed' && changes.status) {
+    const { from, to } = changes.status;
+    return `Status: ${PROJECT_STATUS_LABELS[from as ProjectStatus] ?? from} → ${PROJECT_STATUS_LABELS[to as ProjectStatus] ?? to}`;
+  }
+  const fields = Object.keys(changes).map(field => AUDIT_FIELD_LABELS[field] ?? field.replace(/_/g, ' '));
+  return fields.length ? `Updated ${fields.join(', ')}` : 'Project updated';
+};
@@ -0,0 +1,136 @@
+// Renders a Quote to PDF entirely in the browser with jsPDF, so quotes can be
+// produced in the truck with no connection.
+import { jsPDF } from 'jspdf';
+import { BUSINESS_CONFIG } from '@/lib/pricing';
+import { getQuoteFileName, type Quote } from '@/lib/quote';
+
+const PAGE_MARGIN = 54;
+const LINE_HEIGHT = 14;
+
+const formatCurrency = (value: number) =>
+  `$${value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatDate = (isoDate: string) =>
+  new Date(`${isoDate}T00:00:00`).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+
+export const renderQuotePdf = (quote: Quote): jsPDF => {
+  const doc = new jsPDF({ unit: 'pt', format: 'letter' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const contentWidth = pageWidth - PAGE_MARGIN * 2;
+  let y = PAGE_MARGIN;
+
+  const ensureSpace = (height: number) => {
+    if (y + height > pageHeight - PAGE_MARGIN) {
+      doc.addPage();
+      y = PAGE_MARGIN;
+    }
+  };
+
+  const sectionHeading = (text: string) => {
+    ensureSpace(LINE_HEIGHT * 2);
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(11);
+    doc.text(text.toUpperCase(), PAGE_MARGIN, y);
+    y += 6;
+    doc.setDrawColor(200);
+    doc.line(PAGE_MARGIN, y, pageWidth - PAGE_MARGIN, y);
+    y += LINE_HEIGHT;
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(10);
+  };
+
+  // Company header
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(20);
+  doc.text(BUSINESS_CONFIG.name, PAGE_MARGIN, y + 6);
+  doc.setFontSize(16);
+  doc.text('QUOTE', pageWidth - PAGE_MARGIN, y + 6, { align: 'right' });
+  y += 24;
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(10);
+  doc.text(BUSINESS_CONFIG.address, PAGE_MARGIN, y);
+  doc.text(`Quote #: ${quote.quoteNumber}`, pageWidth - PAGE_MARGIN, y, { align: 'right' });
+  y += LINE_HEIGHT;
+  doc.text(`Date: ${formatDate(quote.issuedOn)}`, pageWidth - PAGE_MARGIN, y, { align: 'right' });
+  y += LINE_HEIGHT;
+  doc.text(`Valid until: ${formatDate(quote.validUntil)}`, pageWidth - PAGE_MARGIN, y, { align: 'right' });
+  y += LINE_HEIGHT * 2;
+
+  // Client
+  sectionHeading('Prepared For');
+  doc.text(quote.clientName || 'Client', PAGE_MARGIN, y);
+  y += LINE_HEIGHT;
+  if (quote.jobSiteAddress) {
+    doc.text(`Job site: ${quote.jobSiteAddress}`, PAGE_MARGIN, y);
+    y += LINE_HEIGHT;
+  }
+  y += LINE_HEIGHT;
+
+  // Scope of work
+  sectionHeading('Scope of Work');
+  const amountColumn = pageWidth - PAGE_MARGIN;
+  const descriptionWidth = contentWidth - 110;
+  for (const item of quote.scope) {
+    const lines: string[] = doc.splitTextToSize(item.description, descriptionWidth);
+    ensureSpace(LINE_HEIGHT * (lines.length + 2));
+    doc.setFont('helvetica', 'bold');
+    doc.text(item.title, PAGE_MARGIN, y);
+    doc.text(formatCurrency(item.amount), amountColumn, y, { align: 'right' });
+    y += LINE_HEIGHT;
+    doc.setFont('helvetica', 'normal');
+    doc.text(lines, PAGE_MARGIN, y);
+    y += LINE_HEIGHT * lines.length + 6;
+  }
+
+  ensureSpace(LINE_HEIGHT * 3);
+  doc.setDrawColor(200);
+  doc.line(pageWidth - PAGE_MARGIN - 200, y, pageWidth - PAGE_MARGIN, y);
+  y += LINE_HEIGHT + 2;
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(12);
+  doc.text('Total', pageWidth - PAGE_MARGIN - 200, y);
+  doc.text(formatCurrency(quote.total), amountColumn, y, { align: 'right' });
+  doc.setFontSize(10);
+  doc.setFont('helvetica', 'normal');
+  y += LINE_HEIGHT * 2;
+
+  if (quote.notes) {
+    sectionHeading('Notes');
+    const lines: string[] = doc.splitTextToSize(quote.notes, contentWidth);
+    ensureSpace(LINE_HEIGHT * lines.length);
+    doc.text(lines, PAGE_MARGIN, y);
+    y += LINE_HEIGHT * (lines.length + 1);
+  }
+
+  // Terms
+  sectionHeading('Terms & Conditions');
+  quote.terms.forEach((term, index) => {
+    const lines: string[] = doc.splitTextToSize(`${index + 1}. ${term}`, contentWidth);
+    ensureSpace(LINE_HEIGHT * lines.length);
+    doc.text(lines, PAGE_MARGIN, y);
+    y += LINE_HEIGHT * lines.length + 2;
+  });
+  y += LINE_HEIGHT;
+
+  // Signature block
+  ensureSpace(LINE_HEIGHT * 7);
+  sectionHeading('Acceptance');
+  doc.text('By signing below, the customer accepts this quote and authorizes the work described above.', PAGE_MARGIN, y);
+  y += LINE_HEIGHT * 3;
+  const columnWidth = (contentWidth - 40) / 2;
+  const rightColumn = PAGE_MARGIN + columnWidth + 40;
+  doc.line(PAGE_MARGIN, y, PAGE_MARGIN + columnWidth, y);
+  doc.line(rightColumn, y, rightColumn + columnWidth, y);
+  y += LINE_HEIGHT - 2;
+  doc.setFontSize(9);
+  doc.text('Customer signature / Date', PAGE_MARGIN, y);
+  doc.text(`${BUSINESS_CONFIG.name} representative / Date`, rightColumn, y);
+
+  return doc;
+};
+
+export const downloadQuotePdf = (quote: Quote) => {
+  renderQuotePdf(quote).save(getQuoteFileName(quote));
+};
@@ -0,0 +1,204 @@
+// Customer-facing quote content built from a computed estimate. Quotes show a
+// price per service only; material, labor, overhead and profit figures never
+// appear on what the customer receives.
+import {
+  BUSINESS_CONFIG,
+  type AreaBreakdown,
+  type EstimateArea,
+  type EstimateBreakdown,
+  type EstimateInput,
+  type MaterialLineCosts,
+  type ServiceKey
+} from '@/lib/pricing';
+import {
+  ESTIMATE_VALIDITY_DAYS,
+  getEstimateBreakdown,
+  getEstimateInputs,
+  getValidUntil,
+  isPricedBreakdown,
+  type EstimateRecord
+} from '@/lib/estimates';
+
+export interface QuoteScopeItem {
+  service: ServiceKey | 'general';
+  title: string;
+  description: string;
+  amount: number;
+}
+
+export interface Quote {
+  quoteNumber: string;
+  issuedOn: string;
+  validUntil: string;
+  clientName: string;
+  jobSiteAddress: string;
+  scope: QuoteScopeItem[];
+  total: number;
+  notes: string;
+  terms: string[];
+}
+
+export const QUOTE_TERMS = [
+  `This quote is valid for ${ESTIMATE_VALIDITY_DAYS} days from the date issued and is subject to site inspection.`,
+  'Pavement must be dry and clear of vehicles before work begins. Work is weather permitting; sealcoat requires 50°F and rising with no rain forecast for 24 hours.',
+  'Freshly sealed areas must stay closed to traffic for at least 24 hours after application.',
+  'Cracks are filled to extend pavement life; existing cracks may reappear as the pavement moves.',
+  'Payment is due upon completion unless otherwise agreed in writing.'
+];
+
+const SERVICE_MATERIALS: Record<ServiceKey, (keyof MaterialLineCosts)[]> = {
+  sealcoat: ['sealMasterPMM', 'sand', 'fastDry', 'prepSeal'],
+  crackFill: ['crackMaster'],
+  striping: ['trafficPaint'],
+  patching: ['hotMix', 'coldMix']
+};
+
+const SERVICE_ORDER: ServiceKey[] = ['crackFill', 'patching', 'sealcoat', 'striping'];
+
+const countOf = (count: number, singular: string, plural: string) =>
+  count > 0 ? [`${count} ${count === 1 ? singular : plural}`] : [];
+
+const describeService = (
+  service: ServiceKey,
+  area: EstimateArea,
+  areaBreakdown: AreaBreakdown
+): Pick<QuoteScopeItem, 'title' | 'description'> => {
+  switch (service) {
+    case 'sealcoat': {
+      const coats = area.numberOfCoats === 1 ? '1 coat' : `${area.numberOfCoats} coats`;
+      const oilSpots = area.oilSpotArea > 0
+        ? ` Prime approximately ${area.oilSpotArea.toLocaleString()} sq ft of oil spots with Prep Seal.`
+        : '';
+      return {
+        title: 'Sealcoating',
+        description: `Clean and sealcoat ${area.squareFootage.toLocaleString()} sq ft with SealMaster PMM, sand and Fast Dry additive, ${coats}.${oilSpots}`
+      };
+    }
+    case 'crackFill':
+      return {
+        title: 'Crack Filling',
+        description: `Clean and fill approximately ${area.linearFootage.toLocaleString()} linear ft of ${area.crackSeverity} cracking with CrackMaster hot pour.`
+      };
+    case 'striping': {
+      const markings = [
+        ...countOf(area.parkingStalls, 'parking stall', 'parking stalls'),
+        ...countOf(area.handicapSymbols, 'handicap symbol', 'handicap symbols'),
+        ...countOf(area.arrows, 'arrow', 'arrows'),
+        ...countOf(area.stopBars, 'stop bar', 'stop bars'),
+        ...(area.crosswalkLinearFeet > 0 ? [`${area.crosswalkLinearFeet.toLocaleString()} linear ft of crosswalk`] : [])
+      ];
+      return {
+        title: 'Line Striping',
+        description: `Layout and paint ${area.lineWidth}" traffic markings: ${markings.join(', ')}.`
+      };
+    }
+    case 'patching': {
+      const patching = areaBreakdown.patching;
+      const mix = patching?.mixType === 'cold' ? 'cold patch mix' : 'hot mix asphalt';
+      return {
+        title: 'Asphalt Patching',
+        description: patching
+          ? `Cut out and patch ${patching.area.toLocaleString()} sq ft of failed asphalt at ${patching.depth}" compacted depth with ${mix}.`
+          : 'Cut out and patch failed asphalt areas.'
+      };
+    }
+  }
+};
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+// Allocates the estimate total across each area's services in proportion to
+// their direct material and crew cost, so the scope lines always sum to the
+// quoted total.
+export const buildQuoteScope = (input: EstimateInput, breakdown: EstimateBreakdown): QuoteScopeItem[] => {
+  const { labor } = breakdown;
+  const crewHourlyCost = labor.laborHours > 0 ? (labor.laborCost + labor.equipmentCost) / labor.laborHours : 0;
+  // Breakdowns saved before multi-area takeoffs carry no per-area split
+  const areaBreakdowns = breakdown.areas ?? [];
+  const showAreaNames = areaBreakdowns.length > 1;
+
+  const direct = areaBreakdowns.flatMap(areaBreakdown => {
+    const area = input.areas.find(candidate => candidate.id === areaBreakdown.id);
+    if (!area) return [];
+    const applicationCosts: Partial<Record<ServiceKey, number>> = {
+      striping: areaBreakdown.striping?.applicationCost ?? 0,
+      patching: areaBreakdown.patching?.applicationCost ?? 0
+    };
+
+    return SERVICE_ORDER
+      .map(service => {
+        const materialCost = SERVICE_MATERIALS[service].reduce((sum, key) => sum + (areaBreakdown.costs[key] ?? 0), 0);
+        const crewCost = (areaBreakdown.hoursByService[service] ?? 0) * crewHourlyCost;
+        return { service, area, areaBreakdown, cost: materialCost + crewCost + (applicationCosts[service] ?? 0) };
+      })
+      .filter(entry => entry.cost > 0);
+  });
+
+  const total = roundCurrency(breakdown.total);
+  const directTotal = direct.reduce((sum, entry) => sum + entry.cost, 0);
+
+  if (direct.length === 0 || directTotal === 0) {
+    return [{
+      service: 'general',
+      title: 'Asphalt Maintenance',
+      description: 'Asphalt maintenance services as discussed.',
+      amount: total
+    }];
+  }
+
+  const scope = direct.map(({ service, area, areaBreakdown, cost }) => {
+    const { title, description } = describeService(service, area, areaBreakdown);
+    return {
+      service,
+      title: showAreaNames ? `${area.name}: ${title}` : title,
+      description,
+      amount: roundCurrency(total * (cost / directTotal))
+    };
+  });
+
+  // Push any rounding remainder onto the largest line
+  const remainder = roundCurrency(total - scope.reduce((sum, item) => sum + item.amount, 0));
+  if (remainder !== 0) {
+    const largest = scope.reduce((max, item) => (item.amount > max.amount ? item : max), scope[0]);
+    largest.amount = roundCurrency(largest.amount + remainder);
+  }
+
+  return scope;
+};
+
+export const getQuoteNumber = (estimateId: string) => `Q-${estimateId.slice(0, 8).toUpperCase()}`;
+
+export const buildQuote = (
+  input: EstimateInput,
+  breakdown: EstimateBreakdown,
+  options: { quoteNumber?: string; validUntil?: string | null; issuedOn?: Date } = {}
+): Quote => {
+  const issuedOn = options.issuedOn ?? new Date(breakdown.timestamp);
+  return {
+    quoteNumber: options.quoteNumber ?? `Q-${issuedOn.toISOString().slice(0, 10).replace(/-/g, '')}`,
+    issuedOn: issuedOn.toISOString().slice(0, 10),
+    validUntil: options.validUntil ?? getValidUntil(issuedOn),
+    clientName: input.clientName,
+    jobSiteAddress: input.jobSiteAddress,
+    scope: buildQuoteScope(input, breakdown),
+    total: roundCurrency(breakdown.total),
+    notes: input.additionalNotes,
+    terms: QUOTE_TERMS
+  };
+};
+
+// The quote for a saved estimate, or null when it has no calculation yet
+export const buildEstimateQuote = (estimate: EstimateRecord): Quote | null => {
+  const inputs = getEstimateInputs(estimate);
+  const breakdown = getEstimateBreakdown(estimate);
+  if (!inputs || !isPricedBreakdown(breakdown)) return null;
+  return buildQuote(inputs, breakdown, {
+    quoteNumber: getQuoteNumber(estimate.id),
+    validUntil: estimate.valid_until
+  });
+};
+
+export const getQuoteFileName = (quote: Quote) => {
+  const client = (quote.clientName || 'client').replace(/[^a-z0-9]+/gi, '-').replace(/^-|-$/g, '').toLowerCase();
+  return `${BUSINESS_CONFIG.name.replace(/\s+/g, '-').toLowerCase()}-quote-${client}-${quote.issuedOn}.pdf`;
+};
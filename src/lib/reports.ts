@@ -0,0 +1,77 @@
+// Tabular reports over saved records, exported as CSV for spreadsheets and
+// the accountant.
+import { format } from 'date-fns';
+import { ESTIMATE_STATUS_LABELS, getEstimateStatus, type EstimateRecord } from '@/lib/estimates';
+import { getQuoteNumber } from '@/lib/quote';
+import { PROJECT_STATUS_LABELS, PROJECT_TYPE_LABELS, type ProjectRecord } from '@/lib/projects';
+
+export type ReportCell = string | number | null;
+
+export interface ReportColumn<T> {
+  header: string;
+  value: (row: T) => ReportCell;
+}
+
+export interface ReportRange {
+  from: string | null; // yyyy-MM-dd, inclusive
+  to: string | null;
+}
+
+// Date-only columns are already calendar days; timestamps are shown in local time
+const formatDate = (value: string | null) => {
+  if (!value) return null;
+  return value.length === 10 ? value : format(new Date(value), 'yyyy-MM-dd');
+};
+
+export const isInRange = (value: string | null, range: ReportRange) => {
+  const day = formatDate(value);
+  if (!day) return !range.from && !range.to;
+  return (!range.from || day >= range.from) && (!range.to || day <= range.to);
+};
+
+export const ESTIMATE_REPORT_COLUMNS: ReportColumn<EstimateRecord>[] = [
+  { header: 'Quote #', value: estimate => getQuoteNumber(estimate.id) },
+  { header: 'Created', value: estimate => formatDate(estimate.created_at) },
+  { header: 'Customer', value: estimate => estimate.customer },
+  { header: 'Job Site', value: estimate => estimate.job_site_address },
+  { header: 'Status', value: estimate => ESTIMATE_STATUS_LABELS[getEstimateStatus(estimate)] },
+  { header: 'Amount', value: estimate => estimate.amount },
+  { header: 'Sent', value: estimate => formatDate(estimate.sent_at) },
+  { header: 'Valid Until', value: estimate => estimate.valid_until }
+];
+
+export const PROJECT_REPORT_COLUMNS: ReportColumn<ProjectRecord>[] = [
+  { header: 'Project', value: project => project.name },
+  { header: 'Client', value: project => project.client_name },
+  { header: 'Type', value: project => (project.project_type ? PROJECT_TYPE_LABELS[project.project_type] : null) },
+  { header: 'Status', value: project => (project.status ? PROJECT_STATUS_LABELS[project.status] : null) },
+  { header: 'Site Address', value: project => project.site_address },
+  { header: 'Start', value: project => project.start_date },
+  { header: 'End', value: project => project.end_date },
+  { header: 'Estimated Cost', value: project => project.estimated_cost },
+  { header: 'Actual Cost', value: project => project.actual_cost }
+];
+
+const escapeCsvCell = (cell: ReportCell) => {
+  if (cell === null || cell === undefined) return '';
+  const text = String(cell);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = <T>(columns: ReportColumn<T>[], rows: T[]) =>
+  [
+    columns.map(column => escapeCsvCell(column.header)).join(','),
+    ...rows.map(row => columns.map(column => escapeCsvCell(column.value(row))).join(','))
+  ].join('\r\n');
+
+export const downloadCsv = (fileName: string, csv: string) => {
+  const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv;charset=utf-8' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const getReportFileName = (report: string, range: ReportRange) =>
+  `${report}${range.from ? `-from-${range.from}` : ''}${range.to ? `-to-${range.to}` : ''}.csv`;
@@ -0,0 +1,160 @@
+// Time clock rules. Punches are stamped and checked by the database
+// (prepare_time_record, review_time_record) and overtime is worked out there
+// per workweek (recalculate_weekly_overtime); this mirrors the same rules so
+// the clock can show running totals and warn before a punch is refused.
+import { addDays, differenceInMinutes, format, startOfWeek } from 'date-fns';
+import type { Tables } from '@/integrations/supabase/types';
+import type { ProjectStatus } from '@/lib/projects';
+import type { ReportColumn } from '@/lib/reports';
+
+export type TimeRecord = Tables<'time_records'>;
+
+export type TimeRecordStatus = 'open' | 'pending' | 'approved' | 'rejected';
+
+export const TIME_RECORD_STATUS_LABELS: Record<TimeRecordStatus, string> = {
+  open: 'On the Clock',
+  pending: 'Awaiting Approval',
+  approved: 'Approved',
+  rejected: 'Rejected'
+};
+
+// Projects crew can clock in to
+export const CLOCKABLE_PROJECT_STATUSES: ProjectStatus[] = ['pending', 'in_progress'];
+
+// Company policy; neither Virginia nor federal law requires breaks for adults
+export const MEAL_BREAK_AFTER_HOURS = 6;
+export const MEAL_BREAK_MINUTES = 30;
+
+// FLSA and the Virginia Overtime Wage Act: time and a half past 40 hours in
+// a workweek, which runs Monday to Sunday here
+export const WEEKLY_OVERTIME_HOURS = 40;
+export const OVERTIME_MULTIPLIER = 1.5;
+
+export interface PunchLocation {
+  latitude: number;
+  longitude: number;
+  accuracy: number; // meters
+}
+
+const roundHours = (value: number) => Math.round(value * 100) / 100;
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+export const getWorkweekStart = (day: Date) => startOfWeek(day, { weekStartsOn: 1 });
+
+export const getWorkweekRange = (day: Date) => {
+  const start = getWorkweekStart(day);
+  return { from: format(start, 'yyyy-MM-dd'), to: format(addDays(start, 6), 'yyyy-MM-dd') };
+};
+
+// Minutes on break so far, counting a break that's still running
+export const getBreakMinutes = (record: TimeRecord, now: Date = new Date()) =>
+  (record.break_duration ?? 0) +
+  (record.break_started_at ? Math.max(0, differenceInMinutes(now, new Date(record.break_started_at))) : 0);
+
+// Minutes worked so far, or in total once the shift is over
+export const getWorkedMinutes = (record: TimeRecord, now: Date = new Date()) => {
+  if (!record.clock_in) return Math.round((record.total_hours ?? 0) * 60);
+  const end = record.clock_out ? new Date(record.clock_out) : now;
+  return Math.max(0, differenceInMinutes(end, new Date(record.clock_in)) - getBreakMinutes(record, end));
+};
+
+// Clocking out now would be refused for want of a meal break
+export const needsMealBreak = (record: TimeRecord, now: Date = new Date()) =>
+  getWorkedMinutes(record, now) > MEAL_BREAK_AFTER_HOURS * 60 && getBreakMinutes(record, now) < MEAL_BREAK_MINUTES;
+
+// Hours toward the week's 40; rejected shifts don't count
+export const getWeeklyHours = (records: TimeRecord[], now: Date = new Date()) =>
+  roundHours(records
+    .filter(record => record.status !== 'rejected')
+    .reduce((sum, record) => sum + getWorkedMinutes(record, now) / 60, 0));
+
+export const getWeeklyOvertime = (weeklyHours: number) =>
+  roundHours(Math.max(0, weeklyHours - WEEKLY_OVERTIME_HOURS));
+
+export const formatMinutes = (minutes: number) =>
+  `${Math.floor(minutes / 60)}h ${String(Math.round(minutes % 60)).padStart(2, '0')}m`;
+
+export const getLocationLink = (latitude: number, longitude: number) =>
+  `https://www.openstreetmap.org/?mlat=${latitude}&mlon=${longitude}#map=17/${latitude}/${longitude}`;
+
+// A punch still goes through when the phone can't get a fix; reviewers see
+// that it has no location
+export const getPunchLocation = () =>
+  new Promise<PunchLocation | null>(resolve => {
+    if (!('geolocation' in navigator)) {
+      resolve(null);
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(
+      position => resolve({
+        latitude: position.coords.latitude,
+        longitude: position.coords.longitude,
+        accuracy: Math.round(position.coords.accuracy)
+      }),
+      () => resolve(null),
+      { enableHighAccuracy: true, timeout: 15000, maximumAge: 60000 }
+    );
+  });
+
+export interface PayrollRow {
+  employeeId: string;
+  employee: string;
+  hourlyRate: number;
+  shifts: number;
+  regularHours: number;
+  overtimeHours: number;
+  regularPay: number;
+  overtimePay: number;
+  grossPay: number;
+}
+
+// Approved hours per employee. Overtime was already split out per workweek,
+// so a pay period that cuts a week in two still pays it correctly.
+export const buildPayrollRows = (
+  records: TimeRecord[],
+  employees: Pick<Tables<'employees'>, 'id' | 'first_name' | 'last_name' | 'hourly_rate'>[]
+): PayrollRow[] => {
+  const rows = new Map<string, PayrollRow>();
+
+  records
+    .filter(record => record.status === 'approved' && record.employee_id)
+    .forEach(record => {
+      const employee = employees.find(candidate => candidate.id === record.employee_id);
+      const row = rows.get(record.employee_id) ?? {
+        employeeId: record.employee_id,
+        employee: employee ? `${employee.first_name} ${employee.last_name}`.trim() : 'Unknown employee',
+        hourlyRate: employee?.hourly_rate ?? 0,
+        shifts: 0,
+        regularHours: 0,
+        overtimeHours: 0,
+        regularPay: 0,
+        overtimePay: 0,
+        grossPay: 0
+      };
+      const overtime = record.overtime_hours ?? 0;
+      row.shifts += 1;
+      row.regularHours = roundHours(row.regularHours + (record.total_hours ?? 0) - overtime);
+      row.overtimeHours = roundHours(row.overtimeHours + overtime);
+      rows.set(record.employee_id, row);
+    });
+
+  return [...rows.values()]
+    .map(row => {
+      const regularPay = roundCurrency(row.regularHours * row.hourlyRate);
+      const overtimePay = roundCurrency(row.overtimeHours * row.hourlyRate * OVERTIME_MULTIPLIER);
+      return { ...row, regularPay, overtimePay, grossPay: roundCurrency(regularPay + overtimePay) };
+    })
+    .sort((a, b) => a.employee.localeCompare(b.employee));
+};
+
+export const PAYROLL_COLUMNS: ReportColumn<PayrollRow>[] = [
+  { header: 'Employee', value: row => row.employee },
+  { header: 'Shifts', value: row => row.shifts },
+  { header: 'Regular Hours', value: row => row.regularHours },
+  { header: 'Overtime Hours', value: row => row.overtimeHours },
+  { header: 'Hourly Rate', value: row => row.hourlyRate },
+  { header: 'Regular Pay', value: row => row.regularPay },
+  { header: 'Overtime Pay', value: row => row.overtimePay },
+  { header: 'Gross Pay', value: row => row.grossPay }
+];
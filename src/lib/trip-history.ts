@@ -0,0 +1,182 @@
+// Trip history. A day of fixes from gps_locations is split into stops, where
+// the vehicle stayed within STOP_RADIUS_FEET for at least STOP_MIN_MINUTES,
+// and the trips between them. Idle time is time inside a trip spent standing
+// still, like waiting at a light or a supply yard gate.
+import { differenceInSeconds } from 'date-fns';
+import type { Tables } from '@/integrations/supabase/types';
+import { MOVING_SPEED_MPS } from '@/lib/fleet-tracking';
+import { haversineFeet } from '@/lib/measurements';
+
+export type TrackPoint = Pick<Tables<'gps_locations'>, 'id' | 'latitude' | 'longitude' | 'speed' | 'heading' | 'timestamp'>;
+
+export const STOP_RADIUS_FEET = 300;
+export const STOP_MIN_MINUTES = 5;
+
+// Trackers sleep with the ignition off; a silence this long splits a trip
+export const SIGNAL_GAP_MINUTES = 15;
+
+const FEET_PER_MILE = 5280;
+const METERS_PER_FOOT = 0.3048;
+
+export interface Trip {
+  kind: 'trip';
+  start: string;
+  end: string;
+  points: TrackPoint[];
+  miles: number;
+  drivingMinutes: number;
+  idleMinutes: number;
+  maxSpeed: number; // meters per second
+}
+
+export interface TripStop {
+  kind: 'stop';
+  start: string;
+  end: string;
+  minutes: number;
+  latitude: number;
+  longitude: number;
+}
+
+export type TripSegment = Trip | TripStop;
+
+export interface TripDaySummary {
+  trips: number;
+  stops: number;
+  miles: number;
+  drivingMinutes: number;
+  idleMinutes: number;
+  stoppedMinutes: number;
+  maxSpeed: number;
+}
+
+const feetBetween = (a: TrackPoint, b: TrackPoint) =>
+  haversineFeet([a.longitude, a.latitude], [b.longitude, b.latitude]);
+
+const secondsBetween = (a: TrackPoint, b: TrackPoint) =>
+  Math.max(0, differenceInSeconds(new Date(b.timestamp), new Date(a.timestamp)));
+
+const roundMiles = (value: number) => Math.round(value * 10) / 10;
+
+// Reported speed at the later fix when the tracker sent one, otherwise
+// distance over time
+const intervalSpeed = (a: TrackPoint, b: TrackPoint) => {
+  if (b.speed != null) return b.speed;
+  const seconds = secondsBetween(a, b);
+  return seconds > 0 ? (feetBetween(a, b) * METERS_PER_FOOT) / seconds : 0;
+};
+
+const buildTrip = (points: TrackPoint[]): Trip => {
+  let feet = 0;
+  let idleSeconds = 0;
+  let maxSpeed = 0;
+
+  points.forEach((point, index) => {
+    maxSpeed = Math.max(maxSpeed, point.speed ?? 0);
+    if (index === 0) return;
+    const previous = points[index - 1];
+    const speed = intervalSpeed(previous, point);
+    feet += feetBetween(previous, point);
+    maxSpeed = Math.max(maxSpeed, speed);
+    if (speed < MOVING_SPEED_MPS) idleSeconds += secondsBetween(previous, point);
+  });
+
+  const totalSeconds = secondsBetween(points[0], points[points.length - 1]);
+  return {
+    kind: 'trip',
+    start: points[0].timestamp,
+    end: points[points.length - 1].timestamp,
+    points,
+    miles: roundMiles(feet / FEET_PER_MILE),
+    drivingMinutes: Math.round((totalSeconds - idleSeconds) / 60),
+    idleMinutes: Math.round(idleSeconds / 60),
+    maxSpeed
+  };
+};
+
+const buildStop = (points: TrackPoint[]): TripStop => ({
+  kind: 'stop',
+  start: points[0].timestamp,
+  end: points[points.length - 1].timestamp,
+  minutes: Math.round(secondsBetween(points[0], points[points.length - 1]) / 60),
+  latitude: points.reduce((sum, point) => sum + point.latitude, 0) / points.length,
+  longitude: points.reduce((sum, point) => sum + point.longitude, 0) / points.length
+});
+
+// Trips between two stops, cut wherever the tracker went quiet
+const splitAtGaps = (points: TrackPoint[]) => {
+  const runs: TrackPoint[][] = [];
+  let run: TrackPoint[] = [];
+  points.forEach((point, index) => {
+    if (index > 0 && secondsBetween(points[index - 1], point) > SIGNAL_GAP_MINUTES * 60) {
+      runs.push(run);
+      run = [];
+    }
+    run.push(point);
+  });
+  runs.push(run);
+  return runs.filter(candidate => candidate.length > 1);
+};
+
+// Points must be in time order
+export const segmentTrips = (points: TrackPoint[]): TripSegment[] => {
+  const stays: [number, number][] = [];
+  let i = 0;
+  while (i < points.length) {
+    let j = i + 1;
+    while (j < points.length && feetBetween(points[i], points[j]) <= STOP_RADIUS_FEET) j++;
+    if (secondsBetween(points[i], points[j - 1]) >= STOP_MIN_MINUTES * 60) {
+      stays.push([i, j - 1]);
+      i = j;
+    } else {
+      i++;
+    }
+  }
+
+  const segments: TripSegment[] = [];
+  // A trip starts where the previous stop ended, so the route has no holes
+  let tripStart = 0;
+  stays.forEach(([stayStart, stayEnd]) => {
+    splitAtGaps(points.slice(tripStart, stayStart + 1)).forEach(run => segments.push(buildTrip(run)));
+    segments.push(buildStop(points.slice(stayStart, stayEnd + 1)));
+    tripStart = stayEnd;
+  });
+  splitAtGaps(points.slice(tripStart)).forEach(run => segments.push(buildTrip(run)));
+
+  return segments;
+};
+
+export const summarizeTrips = (segments: TripSegment[]): TripDaySummary => {
+  const trips = segments.filter((segment): segment is Trip => segment.kind === 'trip');
+  const stops = segments.filter((segment): segment is TripStop => segment.kind === 'stop');
+  return {
+    trips: trips.length,
+    stops: stops.length,
+    miles: roundMiles(trips.reduce((sum, trip) => sum + trip.miles, 0)),
+    drivingMinutes: trips.reduce((sum, trip) => sum + trip.drivingMinutes, 0),
+    idleMinutes: trips.reduce((sum, trip) => sum + trip.idleMinutes, 0),
+    stoppedMinutes: stops.reduce((sum, stop) => sum + stop.minutes, 0),
+    maxSpeed: trips.reduce((max, trip) => Math.max(max, trip.maxSpeed), 0)
+  };
+};
+
+// Where the vehicle was at a moment in the day, interpolated between the two
+// fixes either side of it; before the first fix or after the last it stays put
+export const getPositionAt = (points: TrackPoint[], time: number) => {
+  if (points.length === 0) return null;
+  const nextIndex = points.findIndex(point => new Date(point.timestamp).getTime() >= time);
+  if (nextIndex === 0) return points[0];
+  if (nextIndex === -1) return points[points.length - 1];
+
+  const previous = points[nextIndex - 1];
+  const next = points[nextIndex];
+  const from = new Date(previous.timestamp).getTime();
+  const to = new Date(next.timestamp).getTime();
+  const ratio = to > from ? (time - from) / (to - from) : 0;
+  return {
+    ...previous,
+    latitude: previous.latitude + (next.latitude - previous.latitude) * ratio,
+    longitude: previous.longitude + (next.longitude - previous.longitude) * ratio,
+    timestamp: new Date(time).toISOString()
+  };
+};
@@ -0,0 +1,94 @@
+// Forecast providers. Pick one with VITE_WEATHER_PROVIDER; Open-Meteo needs no
+// API key, and the mock provider gives a repeatable forecast for development.
+import type { ForecastLocation, WeatherCondition, WeatherProvider } from '@/lib/weather';
+
+const WINDY_MPH = 20;
+
+// WMO weather interpretation codes as used by Open-Meteo
+const conditionFromWeatherCode = (code: number, windSpeedMph: number): WeatherCondition => {
+  if ((code >= 71 && code <= 77) || code === 85 || code === 86) return 'snowy';
+  if ((code >= 51 && code <= 67) || (code >= 80 && code <= 82) || code >= 95) return 'rainy';
+  if (windSpeedMph >= WINDY_MPH) return 'windy';
+  if (code <= 1) return 'sunny';
+  return 'cloudy';
+};
+
+interface OpenMeteoResponse {
+  hourly: {
+    time: string[];
+    temperature_2m: number[];
+    precipitation_probability: (number | null)[];
+    precipitation: number[];
+    wind_speed_10m: number[];
+    relative_humidity_2m: number[];
+    weather_code: number[];
+  };
+}
+
+export const openMeteoProvider: WeatherProvider = {
+  id: 'open-meteo',
+  name: 'Open-Meteo',
+  getForecast: async (location: ForecastLocation, hours: number) => {
+    const params = new URLSearchParams({
+      latitude: location.latitude.toString(),
+      longitude: location.longitude.toString(),
+      hourly: 'temperature_2m,precipitation_probability,precipitation,wind_speed_10m,relative_humidity_2m,weather_code',
+      temperature_unit: 'fahrenheit',
+      wind_speed_unit: 'mph',
+      precipitation_unit: 'inch',
+      timezone: 'GMT',
+      forecast_hours: hours.toString()
+    });
+
+    const response = await fetch(`https://api.open-meteo.com/v1/forecast?${params}`);
+    if (!response.ok) throw new Error(`Open-Meteo request failed: ${response.status}`);
+    const { hourly } = (await response.json()) as OpenMeteoResponse;
+
+    return hourly.time.map((time, index) => ({
+      time: new Date(`${time}:00Z`).toISOString(),
+      temperatureF: hourly.temperature_2m[index],
+      precipitationProbability: hourly.precipitation_probability[index] ?? 0,
+      precipitationInches: hourly.precipitation[index],
+      windSpeedMph: hourly.wind_speed_10m[index],
+      humidity: hourly.relative_humidity_2m[index],
+      condition: conditionFromWeatherCode(hourly.weather_code[index], hourly.wind_speed_10m[index])
+    }));
+  }
+};
+
+// A repeatable week: mild days with cold nights, a cold snap on day 3 and
+// an all-day rain on day 5, so every warning path shows up in development.
+export const mockWeatherProvider: WeatherProvider = {
+  id: 'mock',
+  name: 'Mock forecast',
+  getForecast: async (_location, hours) => {
+    const start = new Date();
+    start.setMinutes(0, 0, 0);
+
+    return Array.from({ length: hours }, (_, index) => {
+      const time = new Date(start.getTime() + index * 60 * 60 * 1000);
+      const dayOffset = Math.floor((index + start.getHours()) / 24);
+      const diurnal = Math.sin(((time.getHours() - 9) / 24) * 2 * Math.PI);
+      const temperatureF = (dayOffset === 2 ? 44 : 62) + diurnal * 12;
+      const raining = dayOffset === 4;
+      const windSpeedMph = 6 + (time.getHours() % 6);
+      return {
+        time: time.toISOString(),
+        temperatureF: Math.round(temperatureF * 10) / 10,
+        precipitationProbability: raining ? 80 : 10,
+        precipitationInches: raining ? 0.08 : 0,
+        windSpeedMph,
+        humidity: raining ? 90 : 55,
+        condition: raining ? 'rainy' : diurnal > 0 ? 'sunny' : 'cloudy'
+      };
+    });
+  }
+};
+
+export const WEATHER_PROVIDERS: Record<string, WeatherProvider> = {
+  [openMeteoProvider.id]: openMeteoProvider,
+  [mockWeatherProvider.id]: mockWeatherProvider
+};
+
+export const getWeatherProvider = (id: string | undefined = import.meta.env.VITE_WEATHER_PROVIDER) =>
+  WEATHER_PROVIDERS[id ?? ''] ?? openMeteoProvider;
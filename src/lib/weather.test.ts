@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import {
+  assessWeatherWindow,
+  checkScheduledProjects,
+  type ForecastHour,
+  type ScheduledProject
+} from '@/lib/weather';
+
+const DAY = new Date(2026, 9, 20);
+const NOW = new Date(2026, 9, 19, 12);
+
+// Four days of mild, dry hours from midnight on DAY, with `change` applied
+// to the hours it matches
+const forecast = (change: (time: Date) => Partial<ForecastHour> | undefined = () => undefined): ForecastHour[] =>
+  Array.from({ length: 96 }, (_, index) => {
+    const time = new Date(2026, 9, 20, index);
+    return {
+      time: time.toISOString(),
+      temperatureF: 65,
+      precipitationProbability: 10,
+      precipitationInches: 0,
+      windSpeedMph: 5,
+      humidity: 50,
+      condition: 'sunny',
+      ...change(time)
+    };
+  });
+
+// Hours after the work day on DAY ends at 17:00
+const hoursAfterWork = (time: Date) => (time.getTime() - new Date(2026, 9, 20, 17).getTime()) / (60 * 60 * 1000);
+
+const project = (overrides: Partial<ScheduledProject> = {}): ScheduledProject => ({
+  id: 'project-1',
+  name: 'Church lot',
+  project_type: 'sealcoating',
+  start_date: '2026-10-20',
+  end_date: null,
+  site_address: null,
+  ...overrides
+});
+
+describe('assessWeatherWindow', () => {
+  it('passes a work day at exactly the minimum temperature', () => {
+    const assessment = assessWeatherWindow(forecast(() => ({ temperatureF: 50 })), DAY, 'sealcoating');
+
+    expect(assessment.status).toBe('suitable');
+    expect(assessment.lowTemperatureF).toBe(50);
+  });
+
+  it.each(['sealcoating', 'line_striping'] as const)('fails %s when any work hour is below 50°F', service => {
+    const cold = forecast(time => (time.getDate() === 20 && time.getHours() === 16 ? { temperatureF: 49 } : undefined));
+    const assessment = assessWeatherWindow(cold, DAY, service);
+
+    expect(assessment.status).toBe('unsuitable');
+    expect(assessment.reasons[0]).toMatch(/Low of 49°F/);
+  });
+
+  it('ignores cold outside work hours', () => {
+    const coldMorning = forecast(time => (time.getHours() < 8 ? { temperatureF: 35 } : undefined));
+    expect(assessWeatherWindow(coldMorning, DAY, 'sealcoating').status).toBe('suitable');
+  });
+
+  it('counts a 40% chance as rain but not 39%', () => {
+    const atNoon = (precipitationProbability: number) =>
+      forecast(time => (time.getDate() === 20 && time.getHours() === 12 ? { precipitationProbability } : undefined));
+
+    expect(assessWeatherWindow(atNoon(39), DAY, 'sealcoating').status).toBe('suitable');
+    const assessment = assessWeatherWindow(atNoon(40), DAY, 'sealcoating');
+    expect(assessment.status).toBe('unsuitable');
+    expect(assessment.reasons).toEqual(['Rain likely during work hours (40%)']);
+  });
+
+  it('counts measurable rain whatever the chance', () => {
+    const drizzle = forecast(time => (hoursAfterWork(time) === 3 ? { precipitationInches: 0.01 } : undefined));
+    expect(assessWeatherWindow(drizzle, DAY, 'line_striping').status).toBe('unsuitable');
+  });
+
+  it('holds sealcoating to a 24 hour cure and striping to 12', () => {
+    const rainAfter = (hours: number) =>
+      forecast(time => (hoursAfterWork(time) === hours ? { precipitationProbability: 80 } : undefined));
+
+    expect(assessWeatherWindow(rainAfter(20), DAY, 'sealcoating').reasons).toEqual(['Rain likely 20h after finishing (needs 24h dry)']);
+    expect(assessWeatherWindow(rainAfter(20), DAY, 'line_striping').status).toBe('suitable');
+    expect(assessWeatherWindow(rainAfter(11), DAY, 'line_striping').status).toBe('unsuitable');
+    expect(assessWeatherWindow(rainAfter(12), DAY, 'line_striping').status).toBe('suitable');
+    expect(assessWeatherWindow(rainAfter(24), DAY, 'sealcoating').status).toBe('suitable');
+  });
+
+  it('is unknown when the forecast ends before the cure window does', () => {
+    const shortForecast = forecast().filter(hour => hoursAfterWork(new Date(hour.time)) < 20);
+
+    expect(assessWeatherWindow(shortForecast, DAY, 'sealcoating').status).toBe('unknown');
+    expect(assessWeatherWindow(shortForecast, DAY, 'line_striping').status).toBe('suitable');
+  });
+});
+
+describe('checkScheduledProjects', () => {
+  it('reports a scheduled project with no forecast as unknown', () => {
+    const [check] = checkScheduledProjects([project()], [], NOW);
+
+    expect(check.status).toBe('unknown');
+    expect(check.days).toEqual([expect.objectContaining({ date: '2026-10-20' })]);
+  });
+
+  it('takes the worst day of a multi-day project', () => {
+    const rainyThursday = forecast(time => (time.getDate() === 22 && time.getHours() === 10 ? { precipitationProbability: 70 } : undefined));
+    const [check] = checkScheduledProjects([project({ project_type: 'line_striping', end_date: '2026-10-22' })], rainyThursday, NOW);
+
+    expect(check.days.map(day => day.assessment.status)).toEqual(['suitable', 'suitable', 'unsuitable']);
+    expect(check.status).toBe('unsuitable');
+  });
+
+  it('skips projects that are not weather sensitive or not yet in range', () => {
+    const checks = checkScheduledProjects([
+      project({ id: 'paving', project_type: 'asphalt_paving' }),
+      project({ id: 'later', start_date: '2026-11-20' })
+    ], forecast(), NOW);
+
+    expect(checks).toEqual([]);
+  });
+});
@@ -0,0 +1,228 @@
+// Forecast types and the weather rules for sealcoating and striping.
+// Providers only have to produce hourly ForecastHour values; everything that
+// decides whether a job can go ahead lives here and is pure.
+import { format } from 'date-fns';
+import type { Database, Tables, TablesInsert } from '@/integrations/supabase/types';
+import { BUSINESS_CONFIG } from '@/lib/pricing';
+
+export type WeatherCondition = Database['public']['Enums']['weather_condition'];
+
+export type WeatherRecord = Tables<'weather_data'>;
+
+export interface ForecastLocation {
+  name: string;
+  latitude: number;
+  longitude: number;
+}
+
+export interface ForecastHour {
+  time: string; // ISO timestamp for the start of the hour
+  temperatureF: number;
+  precipitationProbability: number; // percent
+  precipitationInches: number;
+  windSpeedMph: number;
+  humidity: number; // percent
+  condition: WeatherCondition;
+}
+
+export interface WeatherProvider {
+  id: string;
+  name: string;
+  getForecast: (location: ForecastLocation, hours: number) => Promise<ForecastHour[]>;
+}
+
+export type WeatherSensitiveService = 'sealcoating' | 'line_striping';
+
+export interface WeatherRequirement {
+  minTemperatureF: number;
+  rainFreeHours: number; // after the work day ends
+}
+
+// Sealer needs a full day to cure before rain; traffic paint skins over in a
+// few hours but still needs a dry night.
+export const WEATHER_REQUIREMENTS: Record<WeatherSensitiveService, WeatherRequirement> = {
+  sealcoating: { minTemperatureF: 50, rainFreeHours: 24 },
+  line_striping: { minTemperatureF: 50, rainFreeHours: 12 }
+};
+
+export const WEATHER_RULES = {
+  rainProbabilityThreshold: 40, // percent chance counted as rain
+  measurableRainInches: 0.01,
+  workdayStartHour: 8,
+  workdayEndHour: 17
+};
+
+export const FORECAST_HORIZON_HOURS = 7 * 24;
+
+// Forecasts are fetched for the shop; every job is within a short drive of it
+export const SERVICE_AREA_LOCATION: ForecastLocation = {
+  name: 'Stuart, VA',
+  latitude: BUSINESS_CONFIG.coordinates.latitude,
+  longitude: BUSINESS_CONFIG.coordinates.longitude
+};
+
+export type WeatherWindowStatus = 'suitable' | 'unsuitable' | 'unknown';
+
+export interface WeatherAssessment {
+  status: WeatherWindowStatus;
+  reasons: string[];
+  lowTemperatureF: number | null;
+  maxPrecipitationProbability: number | null;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const isRainy = (hour: ForecastHour) =>
+  hour.precipitationProbability >= WEATHER_RULES.rainProbabilityThreshold
+  || hour.precipitationInches >= WEATHER_RULES.measurableRainInches;
+
+// Work runs through the working hours of `day` (local time), then the surface
+// has to stay dry for the service's rain-free period.
+export const assessWeatherWindow = (
+  forecast: ForecastHour[],
+  day: Date,
+  service: WeatherSensitiveService
+): WeatherAssessment => {
+  const requirement = WEATHER_REQUIREMENTS[service];
+  const workStart = new Date(day);
+  workStart.setHours(WEATHER_RULES.workdayStartHour, 0, 0, 0);
+  const workEnd = new Date(day);
+  workEnd.setHours(WEATHER_RULES.workdayEndHour, 0, 0, 0);
+  const dryUntil = new Date(workEnd.getTime() + requirement.rainFreeHours * HOUR_MS);
+
+  const hoursIn = (from: Date, to: Date) => forecast.filter(hour => {
+    const time = new Date(hour.time).getTime();
+    return time >= from.getTime() && time < to.getTime();
+  });
+
+  // Hours already past are no longer in the forecast, so a day in progress
+  // only needs the rest of its window covered
+  const firstHour = forecast.length > 0 ? new Date(forecast[0].time).getTime() : Infinity;
+  const coverageStart = Math.max(workStart.getTime(), firstHour);
+
+  const workHours = hoursIn(workStart, workEnd);
+  const dryHours = hoursIn(workStart, dryUntil);
+  const expectedDryHours = Math.ceil((dryUntil.getTime() - coverageStart) / HOUR_MS);
+
+  if (workHours.length === 0 || dryHours.length < expectedDryHours) {
+    return { status: 'unknown', reasons: ['Outside the forecast range'], lowTemperatureF: null, maxPrecipitationProbability: null };
+  }
+
+  const lowTemperatureF = Math.min(...workHours.map(hour => hour.temperatureF));
+  const maxPrecipitationProbability = Math.max(...dryHours.map(hour => hour.precipitationProbability));
+  const reasons: string[] = [];
+
+  if (lowTemperatureF < requirement.minTemperatureF) {
+    reasons.push(`Low of ${Math.round(lowTemperatureF)}°F during work hours (needs ${requirement.minTemperatureF}°F)`);
+  }
+  const firstRain = dryHours.find(isRainy);
+  if (firstRain) {
+    const hoursAfterEnd = Math.round((new Date(firstRain.time).getTime() - workEnd.getTime()) / HOUR_MS);
+    reasons.push(hoursAfterEnd <= 0
+      ? `Rain likely during work hours (${Math.round(firstRain.precipitationProbability)}%)`
+      : `Rain likely ${hoursAfterEnd}h after finishing (needs ${requirement.rainFreeHours}h dry)`);
+  }
+
+  return {
+    status: reasons.length > 0 ? 'unsuitable' : 'suitable',
+    reasons,
+    lowTemperatureF,
+    maxPrecipitationProbability
+  };
+};
+
+// Days in the forecast with a suitable window for the service
+export const findSuitableDays = (
+  forecast: ForecastHour[],
+  service: WeatherSensitiveService,
+  from: Date = new Date()
+): Date[] => {
+  const days: Date[] = [];
+  const day = new Date(from);
+  day.setHours(0, 0, 0, 0);
+  // Today only counts if the work day has not started yet
+  if (from.getHours() >= WEATHER_RULES.workdayStartHour) day.setDate(day.getDate() + 1);
+
+  const last = forecast.length > 0 ? new Date(forecast[forecast.length - 1].time) : day;
+  while (day <= last) {
+    if (assessWeatherWindow(forecast, day, service).status === 'suitable') days.push(new Date(day));
+    day.setDate(day.getDate() + 1);
+  }
+  return days;
+};
+
+export const getCurrentConditions = (forecast: ForecastHour[], now: Date = new Date()) =>
+  forecast.find(hour => new Date(hour.time).getTime() + HOUR_MS > now.getTime()) ?? null;
+
+export const serializeForecast = (
+  forecast: ForecastHour[],
+  providerId: string,
+  fetchedAt: Date = new Date()
+): TablesInsert<'weather_data'>[] =>
+  forecast.map(hour => ({
+    forecast_for: hour.time,
+    recorded_at: fetchedAt.toISOString(),
+    source: providerId,
+    temperature: hour.temperatureF,
+    humidity: hour.humidity,
+    wind_speed: hour.windSpeedMph,
+    precipitation_probability: hour.precipitationProbability,
+    precipitation_inches: hour.precipitationInches,
+    condition: hour.condition
+  }));
+
+export const parseForecastRecord = (record: WeatherRecord): ForecastHour => ({
+  time: record.forecast_for,
+  temperatureF: record.temperature ?? 0,
+  precipitationProbability: record.precipitation_probability ?? 0,
+  precipitationInches: record.precipitation_inches ?? 0,
+  windSpeedMph: record.wind_speed ?? 0,
+  humidity: record.humidity ?? 0,
+  condition: record.condition ?? 'cloudy'
+});
+
+export type ScheduledProject = Pick<Tables<'projects'>, 'id' | 'name' | 'project_type' | 'start_date' | 'end_date' | 'site_address'>;
+
+export interface ScheduledWeatherCheck {
+  project: ScheduledProject;
+  service: WeatherSensitiveService;
+  status: WeatherWindowStatus;
+  days: { date: string; assessment: WeatherAssessment }[];
+}
+
+export const WEATHER_SENSITIVE_SERVICES = Object.keys(WEATHER_REQUIREMENTS) as WeatherSensitiveService[];
+
+const STATUS_SEVERITY: Record<WeatherWindowStatus, number> = { suitable: 0, unknown: 1, unsuitable: 2 };
+
+// Checks every remaining scheduled day of each weather-sensitive project that
+// falls inside the forecast.
+export const checkScheduledProjects = (
+  projects: ScheduledProject[],
+  forecast: ForecastHour[],
+  now: Date = new Date()
+): ScheduledWeatherCheck[] => {
+  // Once today's work day is over, the next one is tomorrow
+  const today = new Date(now);
+  if (now.getHours() >= WEATHER_RULES.workdayEndHour) today.setDate(today.getDate() + 1);
+  today.setHours(0, 0, 0, 0);
+  const horizon = new Date(today.getTime() + FORECAST_HORIZON_HOURS * HOUR_MS);
+
+  return projects.flatMap(project => {
+    const service = project.project_type as WeatherSensitiveService;
+    if (!WEATHER_SENSITIVE_SERVICES.includes(service) || !project.start_date) return [];
+
+    const start = new Date(`${project.start_date}T00:00:00`);
+    const end = new Date(`${project.end_date ?? project.start_date}T00:00:00`);
+    const days: ScheduledWeatherCheck['days'] = [];
+    for (const day = new Date(Math.max(start.getTime(), today.getTime())); day <= end && day < horizon; day.setDate(day.getDate() + 1)) {
+      days.push({ date: format(day, 'yyyy-MM-dd'), assessment: assessWeatherWindow(forecast, day, service) });
+    }
+    if (days.length === 0) return [];
+
+    const status = days.reduce<WeatherWindowStatus>(
+      (worst, { assessment }) => (STATUS_SEVERITY[assessment.status] > STATUS_SEVERITY[worst] ? assessment.status : worst),
+      'suitable'
+    );
+    return [{ project, service, status, days }];
+  });
+};
@@ -0,0 +1,16 @@
+import React from 'react';
+import Header from '@/components/Header';
+import AnalyticsOverview from '@/components/AnalyticsOverview';
+
+const Analytics = () => {
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+      <div className="container mx-auto px-6 py-12">
+        <AnalyticsOverview />
+      </div>
+    </div>
+  );
+};
+
+export default Analytics;
\ No newline at end of file
@@ -0,0 +1,25 @@
+import React from 'react';
+import { Navigate, useLocation, useNavigate, type Location } from 'react-router-dom';
+import AuthForm from '@/components/AuthForm';
+import { useAuth } from '@/hooks/use-auth';
+
+const Auth = () => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { session, loading } = useAuth();
+  // Set by ProtectedRoute when it bounced the visitor here
+  const from = (location.state as { from?: Location } | null)?.from;
+  const destination = from ? `${from.pathname}${from.search}` : '/';
+
+  if (!loading && session) {
+    return <Navigate to={destination} replace />;
+  }
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center px-6 py-12">
+      <AuthForm onSignedIn={() => navigate(destination, { replace: true })} />
+    </div>
+  );
+};
+
+export default Auth;
\ No newline at end of file
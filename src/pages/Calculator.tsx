@@ -1,13 +1,16 @@
 import React from 'react';
+import { useParams } from 'react-router-dom';
 import Header from '@/components/Header';
 import EstimateCalculator from '@/components/EstimateCalculator';
 
 const Calculator = () => {
+  const { estimateId } = useParams();
+
   return (
     <div className="min-h-screen bg-background">
       <Header />
       <div className="container mx-auto px-6 py-12">
-        <EstimateCalculator />
+        <EstimateCalculator key={estimateId ?? 'new'} estimateId={estimateId} />
       </div>
     </div>
   );
@@ -0,0 +1,16 @@
+import React from 'react';
+import Header from '@/components/Header';
+import ClientPortalView from '@/components/ClientPortal';
+
+const ClientPortal = () => {
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+      <div className="container mx-auto px-6 py-12">
+        <ClientPortalView />
+      </div>
+    </div>
+  );
+};
+
+export default ClientPortal;
\ No newline at end of file
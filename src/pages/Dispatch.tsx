@@ -0,0 +1,16 @@
+import React from 'react';
+import Header from '@/components/Header';
+import DispatchBoard from '@/components/DispatchBoard';
+
+const Dispatch = () => {
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+      <div className="container mx-auto px-6 py-12">
+        <DispatchBoard />
+      </div>
+    </div>
+  );
+};
+
+export default Dispatch;
\ No newline at end of file
@@ -0,0 +1,16 @@
+import React from 'react';
+import Header from '@/components/Header';
+import EstimateList from '@/components/EstimateList';
+
+const Estimates = () => {
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+      <div className="container mx-auto px-6 py-12">
+        <EstimateList />
+      </div>
+    </div>
+  );
+};
+
+export default Estimates;
\ No newline at end of file
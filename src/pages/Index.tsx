@@ -1,8 +1,18 @@
+import { Navigate } from "react-router-dom";
 import Header from "@/components/Header";
 import HeroSection from "@/components/HeroSection";
 import Dashboard from "@/components/Dashboard";
+import { usePermissions } from "@/hooks/use-permissions";
+import { isClientOnly } from "@/lib/permissions";
 
 const Index = () => {
+  const { roles, isLoading } = usePermissions();
+
+  // Customers have nothing to see on the staff dashboard
+  if (!isLoading && isClientOnly(roles)) {
+    return <Navigate to="/portal" replace />;
+  }
+
   return (
     <div className="min-h-screen bg-background">
       <Header />
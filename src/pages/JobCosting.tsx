@@ -0,0 +1,16 @@
+import React from 'react';
+import Header from '@/components/Header';
+import JobCostingOverview from '@/components/JobCostingOverview';
+
+const JobCosting = () => {
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+      <div className="container mx-auto px-6 py-12">
+        <JobCostingOverview />
+      </div>
+    </div>
+  );
+};
+
+export default JobCosting;
\ No newline at end of file
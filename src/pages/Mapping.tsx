@@ -0,0 +1,16 @@
+import React from 'react';
+import Header from '@/components/Header';
+import SiteMap from '@/components/SiteMap';
+
+const Mapping = () => {
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+      <div className="container mx-auto px-6 py-12">
+        <SiteMap />
+      </div>
+    </div>
+  );
+};
+
+export default Mapping;
\ No newline at end of file
@@ -0,0 +1,16 @@
+import React from 'react';
+import Header from '@/components/Header';
+import PriceBookManager from '@/components/PriceBookManager';
+
+const PriceBooks = () => {
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+      <div className="container mx-auto px-6 py-12">
+        <PriceBookManager />
+      </div>
+    </div>
+  );
+};
+
+export default PriceBooks;
\ No newline at end of file
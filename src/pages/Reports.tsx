@@ -0,0 +1,16 @@
+import React from 'react';
+import Header from '@/components/Header';
+import ReportsCenter from '@/components/ReportsCenter';
+
+const Reports = () => {
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+      <div className="container mx-auto px-6 py-12">
+        <ReportsCenter />
+      </div>
+    </div>
+  );
+};
+
+export default Reports;
\ No newline at end of file
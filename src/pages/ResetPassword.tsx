@@ -0,0 +1,29 @@
+import React from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { Loader2 } from 'lucide-react';
+import ResetPasswordForm from '@/components/ResetPasswordForm';
+import { useAuth } from '@/hooks/use-auth';
+
+const ResetPassword = () => {
+  const navigate = useNavigate();
+  const { session, loading } = useAuth();
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center px-6 py-12">
+      {loading ? (
+        <Loader2 className="h-8 w-8 animate-spin text-industrial-orange" />
+      ) : session ? (
+        <ResetPasswordForm onComplete={() => navigate('/', { replace: true })} />
+      ) : (
+        <div className="text-center space-y-2">
+          <p className="text-foreground">This reset link is invalid or has expired.</p>
+          <Link to="/auth" className="text-industrial-orange hover:underline">
+            Request a new one from the sign-in page
+          </Link>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ResetPassword;
\ No newline at end of file
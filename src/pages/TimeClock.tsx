@@ -0,0 +1,16 @@
+import React from 'react';
+import Header from '@/components/Header';
+import TimeTracking from '@/components/TimeTracking';
+
+const TimeClock = () => {
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+      <div className="container mx-auto px-4 md:px-6 py-8 md:py-12">
+        <TimeTracking />
+      </div>
+    </div>
+  );
+};
+
+export default TimeClock;
\ No newline at end of file
@@ -0,0 +1,16 @@
+import React from 'react';
+import Header from '@/components/Header';
+import RoleManagement from '@/components/RoleManagement';
+
+const UserRoles = () => {
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+      <div className="container mx-auto px-6 py-12">
+        <RoleManagement />
+      </div>
+    </div>
+  );
+};
+
+export default UserRoles;
\ No newline at end of file
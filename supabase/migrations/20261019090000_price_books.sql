@@ -0,0 +1,129 @@
+-- Versioned material price books.
+-- A price book version is an immutable snapshot of item prices; editing prices
+-- publishes a new version so estimates computed against an older version can
+-- always be reproduced exactly.
+
+CREATE TABLE public.price_books (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE TABLE public.price_book_versions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  price_book_id UUID NOT NULL REFERENCES public.price_books(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  effective_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  notes TEXT,
+  created_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  UNIQUE (price_book_id, version)
+);
+
+CREATE TABLE public.price_book_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  price_book_version_id UUID NOT NULL REFERENCES public.price_book_versions(id) ON DELETE CASCADE,
+  item_key TEXT NOT NULL,
+  description TEXT,
+  supplier TEXT,
+  unit TEXT NOT NULL,
+  unit_price NUMERIC(10, 2) NOT NULL CHECK (unit_price >= 0),
+  UNIQUE (price_book_version_id, item_key)
+);
+
+CREATE INDEX idx_price_book_versions_book ON public.price_book_versions(price_book_id, effective_date DESC);
+CREATE INDEX idx_price_book_items_version ON public.price_book_items(price_book_version_id);
+
+ALTER TABLE public.estimates
+  ADD COLUMN price_book_version_id UUID REFERENCES public.price_book_versions(id);
+
+ALTER TABLE public.price_books ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.price_book_versions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.price_book_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view price books" ON public.price_books
+  FOR SELECT TO authenticated USING (true);
+CREATE POLICY "Authenticated users can manage price books" ON public.price_books
+  FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can view price book versions" ON public.price_book_versions
+  FOR SELECT TO authenticated USING (true);
+CREATE POLICY "Authenticated users can publish price book versions" ON public.price_book_versions
+  FOR INSERT TO authenticated WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can view price book items" ON public.price_book_items
+  FOR SELECT TO authenticated USING (true);
+CREATE POLICY "Authenticated users can add price book items" ON public.price_book_items
+  FOR INSERT TO authenticated WITH CHECK (true);
+
+-- Publishes the next version of a book with its full item list in one
+-- transaction, so a failed item insert never leaves an empty version behind.
+CREATE OR REPLACE FUNCTION public.publish_price_book_version(
+  _price_book_id UUID,
+  _effective_date DATE,
+  _notes TEXT,
+  _items JSONB
+)
+RETURNS public.price_book_versions
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  next_version INTEGER;
+  new_version public.price_book_versions%ROWTYPE;
+BEGIN
+  IF jsonb_array_length(COALESCE(_items, '[]'::jsonb)) = 0 THEN
+    RAISE EXCEPTION 'A price book version needs at least one item';
+  END IF;
+
+  -- Serialise publishers of the same book so version numbers stay sequential
+  PERFORM 1 FROM public.price_books WHERE id = _price_book_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Price book % not found', _price_book_id;
+  END IF;
+
+  SELECT COALESCE(MAX(version), 0) + 1 INTO next_version
+  FROM public.price_book_versions
+  WHERE price_book_id = _price_book_id;
+
+  INSERT INTO public.price_book_versions (price_book_id, version, effective_date, notes, created_by)
+  VALUES (_price_book_id, next_version, _effective_date, NULLIF(_notes, ''), auth.uid())
+  RETURNING * INTO new_version;
+
+  INSERT INTO public.price_book_items (price_book_version_id, item_key, description, supplier, unit, unit_price)
+  SELECT new_version.id, i.item_key, i.description, i.supplier, i.unit, i.unit_price
+  FROM jsonb_to_recordset(_items) AS i(item_key TEXT, description TEXT, supplier TEXT, unit TEXT, unit_price NUMERIC);
+
+  UPDATE public.price_books SET updated_at = now() WHERE id = _price_book_id;
+
+  RETURN new_version;
+END;
+$$;
+
+-- Seed the default book with the Virginia 2025 SealMaster pricing the
+-- calculator previously hard-coded.
+WITH book AS (
+  INSERT INTO public.price_books (name, description)
+  VALUES ('SealMaster Virginia', 'Default supplier pricing')
+  RETURNING id
+), v AS (
+  INSERT INTO public.price_book_versions (price_book_id, version, effective_date, notes)
+  SELECT id, 1, DATE '2025-01-01', 'Initial pricing' FROM book
+  RETURNING id
+)
+INSERT INTO public.price_book_items (price_book_version_id, item_key, description, supplier, unit, unit_price)
+SELECT v.id, i.item_key, i.description, 'SealMaster', i.unit, i.unit_price
+FROM v, (VALUES
+  ('sealMasterPMM', 'SealMaster PMM concentrate', 'gal', 3.79),
+  ('sand50lb', 'Sand, 50 lb bag', 'bag', 10.00),
+  ('prepSeal5gal', 'Prep Seal oil spot primer, 5 gal', 'bucket', 50.00),
+  ('fastDry5gal', 'Fast Dry additive, 5 gal', 'bucket', 50.00),
+  ('crackMaster30lb', 'CrackMaster hot pour, 30 lb', 'box', 44.95),
+  ('trafficPaint', 'Traffic marking paint', 'gal', 19.50),
+  ('hotMixTon', 'Hot mix asphalt', 'ton', 85.00),
+  ('coldMix50lb', 'Cold patch mix, 50 lb', 'bag', 16.00)
+) AS i(item_key, description, unit, unit_price);
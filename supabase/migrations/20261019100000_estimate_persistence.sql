@@ -0,0 +1,49 @@
+-- Saved calculator estimates: keep the form inputs and the computed breakdown
+-- alongside the structured line items so a saved estimate can be reopened in
+-- the calculator exactly as it was quoted.
+
+ALTER TABLE public.estimates
+  ADD COLUMN inputs JSONB,
+  ADD COLUMN breakdown JSONB,
+  ADD COLUMN job_site_address TEXT,
+  ADD COLUMN sent_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN updated_at TIMESTAMP WITH TIME ZONE DEFAULT now();
+
+UPDATE public.estimates SET status = 'draft' WHERE status IS NULL;
+
+ALTER TABLE public.estimates
+  ALTER COLUMN status SET DEFAULT 'draft',
+  ADD CONSTRAINT estimates_status_check
+    CHECK (status IN ('draft', 'sent', 'accepted', 'declined', 'expired'));
+
+CREATE INDEX IF NOT EXISTS idx_estimates_created_at ON public.estimates(created_at DESC);
+
+-- Once an estimate leaves draft the customer has seen its price, so the priced
+-- content is frozen. Status changes still go through, except that a sent
+-- estimate can't go back to draft; changing the quote means duplicating it
+-- into a new draft. The validity date only moves when the estimate is reopened
+-- as a draft.
+CREATE OR REPLACE FUNCTION public.prevent_sent_estimate_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.status = 'sent' AND NEW.status = 'draft' THEN
+    RAISE EXCEPTION 'Estimate % has been sent and cannot be reopened; duplicate it instead', OLD.id;
+  END IF;
+  IF OLD.status IS DISTINCT FROM 'draft' AND (
+    (NEW.amount, NEW.line_items, NEW.inputs, NEW.breakdown, NEW.price_book_version_id, NEW.customer, NEW.job_site_address, NEW.notes)
+      IS DISTINCT FROM
+    (OLD.amount, OLD.line_items, OLD.inputs, OLD.breakdown, OLD.price_book_version_id, OLD.customer, OLD.job_site_address, OLD.notes)
+    OR (NEW.valid_until IS DISTINCT FROM OLD.valid_until AND NEW.status IS DISTINCT FROM 'draft')
+  ) THEN
+    RAISE EXCEPTION 'Estimate % is % and can no longer be edited; duplicate it instead', OLD.id, OLD.status;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prevent_sent_estimate_changes
+  BEFORE UPDATE ON public.estimates
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_sent_estimate_changes();
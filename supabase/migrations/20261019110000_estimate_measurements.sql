@@ -0,0 +1,34 @@
+-- Traced takeoff measurements saved with an estimate.
+-- The client reads and writes plain GeoJSON; map traces are also kept as a
+-- PostGIS geometry so they can be queried spatially alongside the rest of the
+-- spatial data. Traces over an uploaded aerial image are in image pixels and
+-- carry the calibrated scale instead.
+
+CREATE TABLE public.estimate_measurements (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  estimate_id UUID NOT NULL REFERENCES public.estimates(id) ON DELETE CASCADE,
+  area_id TEXT NOT NULL,
+  target TEXT NOT NULL
+    CHECK (target IN ('squareFootage', 'oilSpotArea', 'patchArea', 'linearFootage', 'crosswalkLinearFeet')),
+  label TEXT,
+  source TEXT NOT NULL DEFAULT 'map' CHECK (source IN ('map', 'image')),
+  geometry JSONB NOT NULL,
+  feet_per_pixel NUMERIC,
+  quantity NUMERIC(12, 2) NOT NULL CHECK (quantity >= 0),
+  geom geometry(Geometry, 4326) GENERATED ALWAYS AS (
+    CASE WHEN source = 'map' THEN ST_SetSRID(ST_GeomFromGeoJSON(geometry::text), 4326) END
+  ) STORED,
+  created_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  CHECK (source = 'map' OR feet_per_pixel > 0)
+);
+
+CREATE INDEX idx_estimate_measurements_estimate ON public.estimate_measurements(estimate_id);
+CREATE INDEX idx_estimate_measurements_geom ON public.estimate_measurements USING GIST (geom);
+
+ALTER TABLE public.estimate_measurements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view estimate measurements" ON public.estimate_measurements
+  FOR SELECT TO authenticated USING (true);
+CREATE POLICY "Authenticated users can manage estimate measurements" ON public.estimate_measurements
+  FOR ALL TO authenticated USING (true) WITH CHECK (true);
@@ -0,0 +1,35 @@
+-- Hourly forecasts ingested from the configured weather provider are stored in
+-- weather_data next to observations. A row with forecast_for set is a forecast
+-- for that hour; recorded_at is when it was fetched.
+
+ALTER TABLE public.weather_data
+  ADD COLUMN forecast_for TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN precipitation_probability NUMERIC(5, 2),
+  ADD COLUMN precipitation_inches NUMERIC(6, 3),
+  ADD COLUMN source TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_weather_data_forecast
+  ON public.weather_data(source, forecast_for)
+  WHERE forecast_for IS NOT NULL;
+
+ALTER TABLE public.weather_data ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can view weather data" ON public.weather_data;
+CREATE POLICY "Authenticated users can view weather data" ON public.weather_data
+  FOR SELECT TO authenticated USING (true);
+-- Only staff refresh the cached forecast, so nobody else can forge or clear it.
+-- has_any_role() does not exist yet at this point, hence the has_role() chain.
+DROP POLICY IF EXISTS "Authenticated users can record weather data" ON public.weather_data;
+DROP POLICY IF EXISTS "Staff can record weather data" ON public.weather_data;
+CREATE POLICY "Staff can record weather data" ON public.weather_data
+  FOR ALL TO authenticated
+  USING (
+    public.has_role(auth.uid(), 'Super Administrator') OR public.has_role(auth.uid(), 'Administrator')
+    OR public.has_role(auth.uid(), 'Estimator') OR public.has_role(auth.uid(), 'Field Crew Lead')
+    OR public.has_role(auth.uid(), 'Field Technician')
+  )
+  WITH CHECK (
+    public.has_role(auth.uid(), 'Super Administrator') OR public.has_role(auth.uid(), 'Administrator')
+    OR public.has_role(auth.uid(), 'Estimator') OR public.has_role(auth.uid(), 'Field Crew Lead')
+    OR public.has_role(auth.uid(), 'Field Technician')
+  );
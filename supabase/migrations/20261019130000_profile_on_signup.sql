@@ -0,0 +1,27 @@
+-- Every account gets a profile row on sign-up, so created_by references to
+-- public.profiles work from the first thing a new user saves.
+
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.profiles (id, email, full_name)
+  VALUES (NEW.id, NEW.email, NEW.raw_user_meta_data ->> 'full_name')
+  ON CONFLICT (id) DO NOTHING;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_auth_user_created ON auth.users;
+CREATE TRIGGER on_auth_user_created
+  AFTER INSERT ON auth.users
+  FOR EACH ROW EXECUTE FUNCTION public.handle_new_user();
+
+-- Accounts created before the trigger existed
+INSERT INTO public.profiles (id, email, full_name)
+SELECT id, email, raw_user_meta_data ->> 'full_name'
+FROM auth.users
+ON CONFLICT (id) DO NOTHING;
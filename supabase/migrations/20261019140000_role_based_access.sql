@@ -0,0 +1,166 @@
+-- Role-based access. The app asks for permissions (src/lib/permissions.ts);
+-- these policies enforce the same role lists so hiding a button is never the
+-- only thing standing between a user and the data.
+
+CREATE OR REPLACE FUNCTION public.has_any_role(_user_id UUID, _roles public.app_role[])
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.user_roles
+    WHERE user_id = _user_id AND role = ANY (_roles)
+  );
+$$;
+
+-- Role assignments: everyone can read their own, administrators manage all.
+-- Only a Super Administrator can grant or revoke Super Administrator.
+ALTER TABLE public.user_roles ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own roles" ON public.user_roles;
+CREATE POLICY "Users can view their own roles" ON public.user_roles
+  FOR SELECT TO authenticated USING (user_id = auth.uid());
+DROP POLICY IF EXISTS "Administrators can view all roles" ON public.user_roles;
+CREATE POLICY "Administrators can view all roles" ON public.user_roles
+  FOR SELECT TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['Super Administrator', 'Administrator']::public.app_role[]));
+DROP POLICY IF EXISTS "Administrators can grant roles" ON public.user_roles;
+CREATE POLICY "Administrators can grant roles" ON public.user_roles
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    public.has_any_role(auth.uid(), ARRAY['Super Administrator', 'Administrator']::public.app_role[])
+    AND (role <> 'Super Administrator' OR public.has_role(auth.uid(), 'Super Administrator'))
+  );
+DROP POLICY IF EXISTS "Administrators can revoke roles" ON public.user_roles;
+CREATE POLICY "Administrators can revoke roles" ON public.user_roles
+  FOR DELETE TO authenticated
+  USING (
+    public.has_any_role(auth.uid(), ARRAY['Super Administrator', 'Administrator']::public.app_role[])
+    AND (role <> 'Super Administrator' OR public.has_role(auth.uid(), 'Super Administrator'))
+  );
+
+-- Estimates carry cost and margin. The office works with all of them; crew
+-- leads price add-on work in the field and only touch the rows they created.
+-- The restrictive policy keeps every other role out whatever else is granted.
+ALTER TABLE public.estimates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.estimate_measurements ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Estimate access is limited by role" ON public.estimates;
+CREATE POLICY "Estimate access is limited by role" ON public.estimates
+  AS RESTRICTIVE FOR ALL TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['Super Administrator', 'Administrator', 'Estimator', 'Field Crew Lead']::public.app_role[]))
+  WITH CHECK (public.has_any_role(auth.uid(), ARRAY['Super Administrator', 'Administrator', 'Estimator', 'Field Crew Lead']::public.app_role[]));
+DROP POLICY IF EXISTS "Office roles can access estimates" ON public.estimates;
+CREATE POLICY "Office roles can access estimates" ON public.estimates
+  FOR ALL TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['Super Administrator', 'Administrator', 'Estimator']::public.app_role[]))
+  WITH CHECK (public.has_any_role(auth.uid(), ARRAY['Super Administrator', 'Administrator', 'Estimator']::public.app_role[]));
+DROP POLICY IF EXISTS "Crew leads can access their own estimates" ON public.estimates;
+CREATE POLICY "Crew leads can access their own estimates" ON public.estimates
+  FOR ALL TO authenticated
+  USING (created_by = auth.uid() AND public.has_role(auth.uid(), 'Field Crew Lead'))
+  WITH CHECK (created_by = auth.uid() AND public.has_role(auth.uid(), 'Field Crew Lead'));
+
+DROP POLICY IF EXISTS "Measurement access is limited by role" ON public.estimate_measurements;
+CREATE POLICY "Measurement access is limited by role" ON public.estimate_measurements
+  AS RESTRICTIVE FOR ALL TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['Super Administrator', 'Administrator', 'Estimator', 'Field Crew Lead']::public.app_role[]))
+  WITH CHECK (public.has_any_role(auth.uid(), ARRAY['Super Administrator', 'Administrator', 'Estimator', 'Field Crew Lead']::public.app_role[]));
+DROP POLICY IF EXISTS "Estimate roles can access measurements" ON public.estimate_measurements;
+CREATE POLICY "Estimate roles can access measurements" ON public.estimate_measurements
+  FOR ALL TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['Super Administrator', 'Administrator', 'Estimator', 'Field Crew Lead']::public.app_role[]))
+  WITH CHECK (public.has_any_role(auth.uid(), ARRAY['Super Administrator', 'Administrator', 'Estimator', 'Field Crew Lead']::public.app_role[]));
+
+-- Removes overhead and profit from a saved breakdown, along with the subtotals
+-- and totals they could be worked back out from. What is left are the cost
+-- figures.
+CREATE OR REPLACE FUNCTION public.strip_estimate_margins(_breakdown JSONB)
+RETURNS JSONB
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN _breakdown IS NULL THEN NULL
+    WHEN jsonb_typeof(_breakdown -> 'areas') = 'array' THEN
+      jsonb_set(
+        _breakdown - ARRAY['subtotal', 'overheadRate', 'overhead', 'profitMargin', 'profit', 'total'],
+        '{areas}',
+        COALESCE((SELECT jsonb_agg(area - ARRAY['subtotal', 'total']) FROM jsonb_array_elements(_breakdown -> 'areas') AS area), '[]'::jsonb)
+      )
+    ELSE _breakdown - ARRAY['subtotal', 'overheadRate', 'overhead', 'profitMargin', 'profit', 'total']
+  END;
+$$;
+
+-- Every estimate as a crew lead may see it: their own rows as saved, everyone
+-- else's without margins or the quoted amount. The app reads estimates
+-- through this view for anyone without estimates.view_margins.
+CREATE OR REPLACE VIEW public.field_estimates WITH (security_barrier) AS
+  SELECT
+    e.id,
+    e.status,
+    e.customer,
+    e.job_site_address,
+    e.notes,
+    CASE WHEN e.created_by = auth.uid() THEN e.amount END AS amount,
+    e.valid_until,
+    e.sent_at,
+    e.job_id,
+    e.price_book_version_id,
+    e.created_by,
+    e.created_at,
+    e.updated_at,
+    CASE WHEN e.created_by = auth.uid() THEN e.inputs ELSE e.inputs - 'profitMargin' END AS inputs,
+    CASE WHEN e.created_by = auth.uid() THEN e.breakdown ELSE public.strip_estimate_margins(e.breakdown) END AS breakdown,
+    CASE
+      WHEN e.created_by = auth.uid() OR e.line_items IS NULL THEN e.line_items
+      ELSE COALESCE((
+        SELECT jsonb_agg(item) FROM jsonb_array_elements(e.line_items) AS item
+        WHERE item ->> 'category' NOT IN ('overhead', 'profit')
+      ), '[]'::jsonb)
+    END AS line_items
+  FROM public.estimates e
+  WHERE public.has_any_role(auth.uid(), ARRAY['Super Administrator', 'Administrator', 'Estimator', 'Field Crew Lead']::public.app_role[]);
+
+GRANT SELECT ON public.field_estimates TO authenticated;
+
+-- Anyone pricing a job reads the rate tables; only the office changes them
+DO $$
+DECLARE
+  target TEXT;
+  command TEXT;
+BEGIN
+  FOREACH target IN ARRAY ARRAY['price_books', 'price_book_versions', 'price_book_items'] LOOP
+    FOREACH command IN ARRAY ARRAY['INSERT', 'UPDATE', 'DELETE'] LOOP
+      EXECUTE format('DROP POLICY IF EXISTS %I ON public.%I', 'Office roles can ' || lower(command) || ' ' || target, target);
+      EXECUTE format(
+        'CREATE POLICY %I ON public.%I AS RESTRICTIVE FOR %s TO authenticated %s',
+        'Office roles can ' || lower(command) || ' ' || target,
+        target,
+        command,
+        CASE command
+          WHEN 'INSERT' THEN 'WITH CHECK (public.has_any_role(auth.uid(), ARRAY[''Super Administrator'', ''Administrator'', ''Estimator'']::public.app_role[]))'
+          ELSE 'USING (public.has_any_role(auth.uid(), ARRAY[''Super Administrator'', ''Administrator'', ''Estimator'']::public.app_role[]))'
+        END
+      );
+    END LOOP;
+  END LOOP;
+END;
+$$;
+
+-- Only administrators add or retire fleet assets
+DROP POLICY IF EXISTS "Administrators can add fleet assets" ON public.fleet_assets;
+CREATE POLICY "Administrators can add fleet assets" ON public.fleet_assets
+  AS RESTRICTIVE FOR INSERT TO authenticated
+  WITH CHECK (public.has_any_role(auth.uid(), ARRAY['Super Administrator', 'Administrator']::public.app_role[]));
+DROP POLICY IF EXISTS "Administrators can remove fleet assets" ON public.fleet_assets;
+CREATE POLICY "Administrators can remove fleet assets" ON public.fleet_assets
+  AS RESTRICTIVE FOR DELETE TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['Super Administrator', 'Administrator']::public.app_role[]));
+
+-- Nobody is granted a role on sign-up, so with open sign-up the first account
+-- is not trusted with anything. The first Super Administrator is granted by
+-- hand once their account exists (see "Granting the first administrator" in
+-- the README); they hand out every other role from the User Roles screen.
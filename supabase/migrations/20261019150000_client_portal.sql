@@ -0,0 +1,264 @@
+-- Client portal. A customer record is linked to the account its contact signs
+-- in with; Client users read their own projects, quotes, invoices and signed
+-- contracts through the client_portal_* views, which only carry
+-- customer-facing columns, and act through the client_* functions. Base
+-- tables stay staff-only, so cost, margin and crew data never reach a client.
+
+ALTER TABLE public.customers
+  ADD COLUMN portal_user_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_customers_portal_user ON public.customers(portal_user_id);
+
+ALTER TABLE public.estimates
+  ADD COLUMN customer_id UUID REFERENCES public.customers(id) ON DELETE SET NULL,
+  -- Snapshot of the customer-facing quote taken when the estimate is sent
+  ADD COLUMN client_quote JSONB;
+
+CREATE INDEX IF NOT EXISTS idx_estimates_customer ON public.estimates(customer_id);
+
+-- Crew leads see the customer link on every estimate. The sent quote carries
+-- the quoted total, so like the amount it only shows on their own estimates.
+CREATE OR REPLACE VIEW public.field_estimates WITH (security_barrier) AS
+  SELECT
+    e.id,
+    e.status,
+    e.customer,
+    e.job_site_address,
+    e.notes,
+    CASE WHEN e.created_by = auth.uid() THEN e.amount END AS amount,
+    e.valid_until,
+    e.sent_at,
+    e.job_id,
+    e.price_book_version_id,
+    e.created_by,
+    e.created_at,
+    e.updated_at,
+    CASE WHEN e.created_by = auth.uid() THEN e.inputs ELSE e.inputs - 'profitMargin' END AS inputs,
+    CASE WHEN e.created_by = auth.uid() THEN e.breakdown ELSE public.strip_estimate_margins(e.breakdown) END AS breakdown,
+    CASE
+      WHEN e.created_by = auth.uid() OR e.line_items IS NULL THEN e.line_items
+      ELSE COALESCE((
+        SELECT jsonb_agg(item) FROM jsonb_array_elements(e.line_items) AS item
+        WHERE item ->> 'category' NOT IN ('overhead', 'profit')
+      ), '[]'::jsonb)
+    END AS line_items,
+    e.customer_id,
+    CASE WHEN e.created_by = auth.uid() THEN e.client_quote END AS client_quote
+  FROM public.estimates e
+  WHERE public.has_any_role(auth.uid(), ARRAY['Super Administrator', 'Administrator', 'Estimator', 'Field Crew Lead']::public.app_role[]);
+
+CREATE OR REPLACE FUNCTION public.portal_customer_ids()
+RETURNS SETOF UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT id FROM public.customers WHERE portal_user_id = auth.uid();
+$$;
+
+-- Staff-only base tables. The permissive policies keep staff access working
+-- on tables that did not have RLS enabled before; the restrictive one makes
+-- sure no broader policy lets a client in. Customers and the money side of a
+-- job (proposals, contracts, payments and the jobs themselves) are read by all
+-- staff but only changed by the office. Estimates and price books already
+-- carry their own per-role permissive policies, so they only get RLS and the
+-- restrictive one; their "authenticated can view" policies no longer reach
+-- clients.
+DO $$
+DECLARE
+  target TEXT;
+  command TEXT;
+  staff_check TEXT := 'public.has_any_role(auth.uid(), ARRAY[''Super Administrator'', ''Administrator'', ''Estimator'', ''Field Crew Lead'', ''Field Technician'']::public.app_role[])';
+  office_check TEXT := 'public.has_any_role(auth.uid(), ARRAY[''Super Administrator'', ''Administrator'', ''Estimator'']::public.app_role[])';
+BEGIN
+  FOREACH target IN ARRAY ARRAY[
+    'projects', 'project_milestones', 'work_schedules', 'fleet_assets', 'devices', 'gps_locations'
+  ] LOOP
+    EXECUTE format('DROP POLICY IF EXISTS %I ON public.%I', 'Staff can access ' || target, target);
+    EXECUTE format(
+      'CREATE POLICY %I ON public.%I FOR ALL TO authenticated USING (%s) WITH CHECK (%s)',
+      'Staff can access ' || target, target, staff_check, staff_check
+    );
+  END LOOP;
+
+  FOREACH target IN ARRAY ARRAY['proposals', 'contracts', 'payments', 'jobs', 'customers'] LOOP
+    EXECUTE format('DROP POLICY IF EXISTS %I ON public.%I', 'Staff can access ' || target, target);
+    EXECUTE format('DROP POLICY IF EXISTS %I ON public.%I', 'Staff can view ' || target, target);
+    EXECUTE format(
+      'CREATE POLICY %I ON public.%I FOR SELECT TO authenticated USING (%s)',
+      'Staff can view ' || target, target, staff_check
+    );
+    FOREACH command IN ARRAY ARRAY['INSERT', 'UPDATE', 'DELETE'] LOOP
+      EXECUTE format('DROP POLICY IF EXISTS %I ON public.%I', 'Office roles can ' || lower(command) || ' ' || target, target);
+      EXECUTE format(
+        'CREATE POLICY %I ON public.%I FOR %s TO authenticated %s',
+        'Office roles can ' || lower(command) || ' ' || target, target, command,
+        CASE command
+          WHEN 'INSERT' THEN format('WITH CHECK (%s)', office_check)
+          WHEN 'UPDATE' THEN format('USING (%s) WITH CHECK (%s)', office_check, office_check)
+          ELSE format('USING (%s)', office_check)
+        END
+      );
+    END LOOP;
+  END LOOP;
+
+  FOREACH target IN ARRAY ARRAY[
+    'projects', 'project_milestones', 'proposals', 'contracts', 'payments', 'jobs',
+    'customers', 'work_schedules', 'fleet_assets', 'devices', 'gps_locations',
+    'estimates', 'estimate_measurements', 'price_books', 'price_book_versions', 'price_book_items'
+  ] LOOP
+    EXECUTE format('ALTER TABLE public.%I ENABLE ROW LEVEL SECURITY', target);
+    EXECUTE format('DROP POLICY IF EXISTS %I ON public.%I', 'Only staff can access ' || target, target);
+    EXECUTE format(
+      'CREATE POLICY %I ON public.%I AS RESTRICTIVE FOR ALL TO authenticated USING (%s) WITH CHECK (%s)',
+      'Only staff can access ' || target, target, staff_check, staff_check
+    );
+  END LOOP;
+END;
+$$;
+
+CREATE OR REPLACE VIEW public.client_portal_projects WITH (security_barrier) AS
+  SELECT p.id, p.name, p.description, p.project_type, p.status, p.site_address, p.start_date, p.end_date
+  FROM public.projects p
+  WHERE p.customer_id IN (SELECT public.portal_customer_ids());
+
+CREATE OR REPLACE VIEW public.client_portal_milestones WITH (security_barrier) AS
+  SELECT m.id, m.project_id, m.title, m.description, m.status, m.target_date, m.completed_date
+  FROM public.project_milestones m
+  JOIN public.client_portal_projects p ON p.id = m.project_id;
+
+CREATE OR REPLACE VIEW public.client_portal_estimates WITH (security_barrier) AS
+  SELECT e.id, e.status, e.amount, e.job_site_address, e.sent_at, e.valid_until, e.client_quote
+  FROM public.estimates e
+  WHERE e.customer_id IN (SELECT public.portal_customer_ids())
+    AND e.status IN ('sent', 'accepted', 'declined')
+    AND e.client_quote IS NOT NULL;
+
+CREATE OR REPLACE VIEW public.client_portal_proposals WITH (security_barrier) AS
+  SELECT
+    pr.id,
+    pr.project_id,
+    p.name AS project_name,
+    pr.client_name,
+    pr.amount,
+    pr.status,
+    pr.created_at,
+    COALESCE((
+      SELECT SUM(pay.amount) FROM public.payments pay
+      WHERE pay.proposal_id = pr.id AND pay.status = 'completed'
+    ), 0) AS amount_paid
+  FROM public.proposals pr
+  JOIN public.client_portal_projects p ON p.id = pr.project_id
+  WHERE pr.status IS DISTINCT FROM 'draft';
+
+CREATE OR REPLACE VIEW public.client_portal_payments WITH (security_barrier) AS
+  SELECT pay.id, pay.proposal_id, pay.amount, pay.status, pay.payment_date
+  FROM public.payments pay
+  JOIN public.client_portal_proposals pr ON pr.id = pay.proposal_id;
+
+CREATE OR REPLACE VIEW public.client_portal_contracts WITH (security_barrier) AS
+  SELECT c.id, c.job_id, j.title AS job_title, c.signed, c.signed_at, c.contract_url
+  FROM public.contracts c
+  JOIN public.jobs j ON j.id = c.job_id
+  WHERE j.customer_id IN (SELECT public.portal_customer_ids())
+    AND c.signed IS TRUE;
+
+GRANT SELECT ON
+  public.client_portal_projects,
+  public.client_portal_milestones,
+  public.client_portal_estimates,
+  public.client_portal_proposals,
+  public.client_portal_payments,
+  public.client_portal_contracts
+TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.client_accept_estimate(_estimate_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.estimates
+  SET status = 'accepted', updated_at = now()
+  WHERE id = _estimate_id
+    AND customer_id IN (SELECT public.portal_customer_ids())
+    AND status = 'sent'
+    AND (valid_until IS NULL OR valid_until >= CURRENT_DATE);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Estimate % cannot be accepted', _estimate_id;
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.client_accept_proposal(_proposal_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.proposals
+  SET status = 'accepted', updated_at = now()
+  WHERE id = _proposal_id
+    AND id IN (SELECT id FROM public.client_portal_proposals)
+    AND status = 'sent';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Proposal % cannot be accepted', _proposal_id;
+  END IF;
+END;
+$$;
+
+-- Records a pending payment before the client is sent to the payment page;
+-- the office marks it completed once the money arrives. A proposal has at
+-- most one pending payment: starting another replaces the amount on the one
+-- already open, so abandoned attempts can't add up to more than the balance.
+CREATE OR REPLACE FUNCTION public.client_start_payment(_proposal_id UUID, _amount NUMERIC)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  balance NUMERIC;
+  payment_id UUID;
+BEGIN
+  -- Two tabs starting a payment at once queue here
+  PERFORM 1 FROM public.proposals WHERE id = _proposal_id FOR UPDATE;
+
+  SELECT amount - amount_paid INTO balance
+  FROM public.client_portal_proposals
+  WHERE id = _proposal_id AND status = 'accepted';
+
+  IF balance IS NULL OR _amount <= 0 OR _amount > balance THEN
+    RAISE EXCEPTION 'Invalid payment amount for proposal %', _proposal_id;
+  END IF;
+
+  UPDATE public.payments
+  SET amount = _amount, payment_date = now()
+  WHERE id = (
+    SELECT id FROM public.payments
+    WHERE proposal_id = _proposal_id AND status = 'pending'
+    ORDER BY payment_date DESC NULLS LAST, id
+    LIMIT 1
+  )
+  RETURNING id INTO payment_id;
+
+  IF payment_id IS NULL THEN
+    INSERT INTO public.payments (proposal_id, amount, status, payment_date)
+    VALUES (_proposal_id, _amount, 'pending', now())
+    RETURNING id INTO payment_id;
+  END IF;
+
+  RETURN payment_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION
+  public.client_accept_estimate(UUID),
+  public.client_accept_proposal(UUID),
+  public.client_start_payment(UUID, NUMERIC)
+TO authenticated;
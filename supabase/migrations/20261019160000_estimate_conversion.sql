@@ -0,0 +1,84 @@
+-- Converting an accepted estimate. The app builds the project, job and
+-- milestone rows from the estimate (src/lib/estimate-conversion.ts) and
+-- convert_estimate() writes them together with the proposal in one
+-- transaction, so a failed step never leaves half a project behind.
+
+ALTER TABLE public.projects
+  ADD COLUMN estimate_id UUID UNIQUE REFERENCES public.estimates(id) ON DELETE SET NULL;
+
+ALTER TABLE public.jobs
+  ADD COLUMN project_id UUID REFERENCES public.projects(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_jobs_project ON public.jobs(project_id);
+
+ALTER TABLE public.proposals
+  ADD COLUMN estimate_id UUID REFERENCES public.estimates(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_proposals_estimate ON public.proposals(estimate_id);
+
+CREATE OR REPLACE FUNCTION public.convert_estimate(
+  _estimate_id UUID,
+  _project JSONB,
+  _job JSONB,
+  _milestones JSONB
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  estimate public.estimates%ROWTYPE;
+  new_project_id UUID;
+  new_job_id UUID;
+BEGIN
+  IF NOT public.has_any_role(auth.uid(), ARRAY['Super Administrator', 'Administrator', 'Estimator']::public.app_role[]) THEN
+    RAISE EXCEPTION 'Only office roles can convert estimates';
+  END IF;
+
+  SELECT * INTO estimate FROM public.estimates WHERE id = _estimate_id FOR UPDATE;
+
+  IF estimate.id IS NULL OR estimate.status <> 'accepted' THEN
+    RAISE EXCEPTION 'Estimate % is not accepted', _estimate_id;
+  END IF;
+  IF estimate.job_id IS NOT NULL OR EXISTS (SELECT 1 FROM public.projects WHERE estimate_id = _estimate_id) THEN
+    RAISE EXCEPTION 'Estimate % has already been converted', _estimate_id;
+  END IF;
+
+  INSERT INTO public.projects (
+    name, description, project_type, status, client_name, client_email, client_phone,
+    customer_id, site_address, start_date, end_date, estimated_cost, estimate_id, created_by
+  )
+  SELECT
+    p.name, p.description, p.project_type, 'pending', p.client_name, p.client_email, p.client_phone,
+    estimate.customer_id, p.site_address, p.start_date, p.end_date, p.estimated_cost, estimate.id, auth.uid()
+  FROM jsonb_populate_record(NULL::public.projects, _project) p
+  RETURNING id INTO new_project_id;
+
+  INSERT INTO public.jobs (
+    title, description, status, priority, customer_id, project_id, location_address,
+    crew_size_required, equipment_needed, estimated_duration
+  )
+  SELECT
+    j.title, j.description, 'pending', j.priority, estimate.customer_id, new_project_id, j.location_address,
+    j.crew_size_required, j.equipment_needed, j.estimated_duration
+  FROM jsonb_populate_record(NULL::public.jobs, _job) j
+  RETURNING id INTO new_job_id;
+
+  INSERT INTO public.project_milestones (project_id, title, description, status, target_date, tasks)
+  SELECT new_project_id, m.title, m.description, 'pending', m.target_date, m.tasks
+  FROM jsonb_populate_recordset(NULL::public.project_milestones, _milestones) m;
+
+  -- The proposal goes out for the accepted price and is accepted (and paid)
+  -- through the client portal
+  INSERT INTO public.proposals (project_id, estimate_id, client_name, amount, status, created_by)
+  VALUES (new_project_id, estimate.id, COALESCE(estimate.customer, ''), COALESCE(estimate.amount, 0), 'sent', auth.uid());
+
+  UPDATE public.estimates
+  SET job_id = new_job_id, updated_at = now()
+  WHERE id = estimate.id;
+
+  RETURN new_project_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.convert_estimate(UUID, JSONB, JSONB, JSONB) TO authenticated;
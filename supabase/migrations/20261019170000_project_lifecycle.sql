@@ -0,0 +1,131 @@
+-- Project lifecycle. Status changes follow the same transitions as
+-- PROJECT_STATUS_TRANSITIONS in src/lib/projects.ts, archived projects drop
+-- out of every list without losing their history, and every change is
+-- written to project_audit_log with who made it and when.
+
+-- The app has always offered "Hold"; the enum never had the value
+ALTER TYPE public.project_status ADD VALUE IF NOT EXISTS 'on_hold';
+
+ALTER TABLE public.projects
+  ADD COLUMN archived_at TIMESTAMPTZ,
+  ADD COLUMN archived_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_projects_archived ON public.projects(archived_at);
+
+CREATE TABLE public.project_audit_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  action TEXT NOT NULL CHECK (action IN ('created', 'updated', 'status_changed', 'archived', 'restored')),
+  changes JSONB NOT NULL DEFAULT '{}'::jsonb, -- { column: { from, to } }
+  changed_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  changed_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_project_audit_log_project ON public.project_audit_log(project_id, changed_at DESC);
+
+-- Written only by the trigger below
+ALTER TABLE public.project_audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view project history" ON public.project_audit_log
+  FOR SELECT TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['Super Administrator', 'Administrator', 'Estimator', 'Field Crew Lead', 'Field Technician']::public.app_role[]));
+
+CREATE OR REPLACE FUNCTION public.enforce_project_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status AND NOT (
+    (OLD.status::text = 'pending' AND NEW.status::text IN ('in_progress', 'on_hold', 'cancelled')) OR
+    (OLD.status::text = 'in_progress' AND NEW.status::text IN ('on_hold', 'completed', 'cancelled')) OR
+    (OLD.status::text = 'on_hold' AND NEW.status::text IN ('in_progress', 'cancelled')) OR
+    (OLD.status::text = 'completed' AND NEW.status::text = 'in_progress') OR
+    (OLD.status::text = 'cancelled' AND NEW.status::text = 'pending')
+  ) THEN
+    RAISE EXCEPTION 'Project status cannot change from % to %', OLD.status, NEW.status;
+  END IF;
+
+  IF OLD.archived_at IS NOT NULL AND NEW.archived_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Archived projects must be restored before they are changed';
+  END IF;
+
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_project_status_transition ON public.projects;
+CREATE TRIGGER enforce_project_status_transition
+  BEFORE UPDATE ON public.projects
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_project_status_transition();
+
+CREATE OR REPLACE FUNCTION public.log_project_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  old_row JSONB;
+  new_row JSONB := to_jsonb(NEW);
+  changes JSONB := '{}'::jsonb;
+  field TEXT;
+  change_action TEXT;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.project_audit_log (project_id, action, changed_by)
+    VALUES (NEW.id, 'created', auth.uid());
+    RETURN NEW;
+  END IF;
+
+  old_row := to_jsonb(OLD);
+  FOR field IN SELECT jsonb_object_keys(new_row) LOOP
+    IF field NOT IN ('updated_at', 'archived_by') AND new_row -> field IS DISTINCT FROM old_row -> field THEN
+      changes := changes || jsonb_build_object(field, jsonb_build_object('from', old_row -> field, 'to', new_row -> field));
+    END IF;
+  END LOOP;
+
+  IF changes = '{}'::jsonb THEN
+    RETURN NEW;
+  END IF;
+
+  change_action := CASE
+    WHEN OLD.archived_at IS NULL AND NEW.archived_at IS NOT NULL THEN 'archived'
+    WHEN OLD.archived_at IS NOT NULL AND NEW.archived_at IS NULL THEN 'restored'
+    WHEN NEW.status IS DISTINCT FROM OLD.status THEN 'status_changed'
+    ELSE 'updated'
+  END;
+
+  INSERT INTO public.project_audit_log (project_id, action, changes, changed_by)
+  VALUES (NEW.id, change_action, changes, auth.uid());
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS log_project_change ON public.projects;
+CREATE TRIGGER log_project_change
+  AFTER INSERT OR UPDATE ON public.projects
+  FOR EACH ROW EXECUTE FUNCTION public.log_project_change();
+
+-- Archived projects leave the client portal too
+CREATE OR REPLACE VIEW public.client_portal_projects WITH (security_barrier) AS
+  SELECT p.id, p.name, p.description, p.project_type, p.status, p.site_address, p.start_date, p.end_date
+  FROM public.projects p
+  WHERE p.customer_id IN (SELECT public.portal_customer_ids())
+    AND p.archived_at IS NULL;
+
+-- Only the office edits, archives or moves projects through their lifecycle
+DROP POLICY IF EXISTS "Office roles can update projects" ON public.projects;
+CREATE POLICY "Office roles can update projects" ON public.projects
+  AS RESTRICTIVE FOR UPDATE TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['Super Administrator', 'Administrator', 'Estimator']::public.app_role[]));
+DROP POLICY IF EXISTS "Office roles can create projects" ON public.projects;
+CREATE POLICY "Office roles can create projects" ON public.projects
+  AS RESTRICTIVE FOR INSERT TO authenticated
+  WITH CHECK (public.has_any_role(auth.uid(), ARRAY['Super Administrator', 'Administrator', 'Estimator']::public.app_role[]));
+-- Projects are archived rather than deleted so their history stays intact
+DROP POLICY IF EXISTS "Projects are archived, not deleted" ON public.projects;
+CREATE POLICY "Projects are archived, not deleted" ON public.projects
+  AS RESTRICTIVE FOR DELETE TO authenticated
+  USING (false);
@@ -0,0 +1,169 @@
+-- Milestones are made of project_tasks. Each task belongs to a milestone,
+-- a milestone's status follows its tasks, and project progress is computed
+-- from task completion (src/lib/project-tasks.ts). The old
+-- project_milestones.tasks text array is copied into real tasks and no
+-- longer written.
+
+ALTER TABLE public.project_tasks
+  ADD COLUMN milestone_id UUID REFERENCES public.project_milestones(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_project_tasks_milestone ON public.project_tasks(milestone_id);
+CREATE INDEX IF NOT EXISTS idx_project_tasks_project ON public.project_tasks(project_id);
+
+INSERT INTO public.project_tasks (project_id, milestone_id, title, status, progress, due_date, completed_date)
+SELECT
+  m.project_id,
+  m.id,
+  task.title,
+  CASE WHEN m.status = 'completed' THEN 'completed' ELSE 'pending' END,
+  CASE WHEN m.status = 'completed' THEN 100 ELSE 0 END,
+  m.target_date,
+  m.completed_date
+FROM public.project_milestones m
+CROSS JOIN LATERAL unnest(m.tasks) AS task(title)
+WHERE m.tasks IS NOT NULL;
+
+UPDATE public.project_milestones SET tasks = NULL WHERE tasks IS NOT NULL;
+
+-- Staff-only, like the other project tables
+ALTER TABLE public.project_tasks ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Staff can access project_tasks" ON public.project_tasks;
+CREATE POLICY "Staff can access project_tasks" ON public.project_tasks
+  FOR ALL TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['Super Administrator', 'Administrator', 'Estimator', 'Field Crew Lead', 'Field Technician']::public.app_role[]))
+  WITH CHECK (public.has_any_role(auth.uid(), ARRAY['Super Administrator', 'Administrator', 'Estimator', 'Field Crew Lead', 'Field Technician']::public.app_role[]));
+
+-- A milestone is complete once every task is, in progress once any task has
+-- started, and pending otherwise. Milestones without tasks are left alone.
+CREATE OR REPLACE FUNCTION public.refresh_milestone_status(_milestone_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  task_count INTEGER;
+  done_count INTEGER;
+  started_count INTEGER;
+BEGIN
+  SELECT
+    COUNT(*),
+    COUNT(*) FILTER (WHERE status = 'completed'),
+    COUNT(*) FILTER (WHERE status = 'in_progress' OR COALESCE(progress, 0) > 0)
+  INTO task_count, done_count, started_count
+  FROM public.project_tasks
+  WHERE milestone_id = _milestone_id;
+
+  IF task_count = 0 THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.project_milestones
+  SET
+    status = CASE
+      WHEN done_count = task_count THEN 'completed'
+      WHEN done_count > 0 OR started_count > 0 THEN 'in_progress'
+      ELSE 'pending'
+    END,
+    completed_date = CASE WHEN done_count = task_count THEN COALESCE(completed_date, CURRENT_DATE) ELSE NULL END
+  WHERE id = _milestone_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.sync_milestone_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') AND OLD.milestone_id IS NOT NULL THEN
+    PERFORM public.refresh_milestone_status(OLD.milestone_id);
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') AND NEW.milestone_id IS NOT NULL
+    AND NEW.milestone_id IS DISTINCT FROM (CASE WHEN TG_OP = 'UPDATE' THEN OLD.milestone_id END) THEN
+    PERFORM public.refresh_milestone_status(NEW.milestone_id);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_milestone_status ON public.project_tasks;
+CREATE TRIGGER sync_milestone_status
+  AFTER INSERT OR UPDATE OR DELETE ON public.project_tasks
+  FOR EACH ROW EXECUTE FUNCTION public.sync_milestone_status();
+
+-- Converted estimates now get their template checklists as tasks
+CREATE OR REPLACE FUNCTION public.convert_estimate(
+  _estimate_id UUID,
+  _project JSONB,
+  _job JSONB,
+  _milestones JSONB
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  estimate public.estimates%ROWTYPE;
+  new_project_id UUID;
+  new_job_id UUID;
+  new_milestone_id UUID;
+  milestone JSONB;
+BEGIN
+  IF NOT public.has_any_role(auth.uid(), ARRAY['Super Administrator', 'Administrator', 'Estimator']::public.app_role[]) THEN
+    RAISE EXCEPTION 'Only office roles can convert estimates';
+  END IF;
+
+  SELECT * INTO estimate FROM public.estimates WHERE id = _estimate_id FOR UPDATE;
+
+  IF estimate.id IS NULL OR estimate.status <> 'accepted' THEN
+    RAISE EXCEPTION 'Estimate % is not accepted', _estimate_id;
+  END IF;
+  IF estimate.job_id IS NOT NULL OR EXISTS (SELECT 1 FROM public.projects WHERE estimate_id = _estimate_id) THEN
+    RAISE EXCEPTION 'Estimate % has already been converted', _estimate_id;
+  END IF;
+
+  INSERT INTO public.projects (
+    name, description, project_type, status, client_name, client_email, client_phone,
+    customer_id, site_address, start_date, end_date, estimated_cost, estimate_id, created_by
+  )
+  SELECT
+    p.name, p.description, p.project_type, 'pending', p.client_name, p.client_email, p.client_phone,
+    estimate.customer_id, p.site_address, p.start_date, p.end_date, p.estimated_cost, estimate.id, auth.uid()
+  FROM jsonb_populate_record(NULL::public.projects, _project) p
+  RETURNING id INTO new_project_id;
+
+  INSERT INTO public.jobs (
+    title, description, status, priority, customer_id, project_id, location_address,
+    crew_size_required, equipment_needed, estimated_duration
+  )
+  SELECT
+    j.title, j.description, 'pending', j.priority, estimate.customer_id, new_project_id, j.location_address,
+    j.crew_size_required, j.equipment_needed, j.estimated_duration
+  FROM jsonb_populate_record(NULL::public.jobs, _job) j
+  RETURNING id INTO new_job_id;
+
+  FOR milestone IN SELECT value FROM jsonb_array_elements(_milestones) LOOP
+    INSERT INTO public.project_milestones (project_id, title, description, status, target_date)
+    VALUES (new_project_id, milestone ->> 'title', milestone ->> 'description', 'pending', (milestone ->> 'target_date')::date)
+    RETURNING id INTO new_milestone_id;
+
+    INSERT INTO public.project_tasks (project_id, milestone_id, title, status, progress, due_date)
+    SELECT new_project_id, new_milestone_id, task.title, 'pending', 0, (milestone ->> 'target_date')::date
+    FROM jsonb_array_elements_text(COALESCE(milestone -> 'tasks', '[]'::jsonb)) AS task(title);
+  END LOOP;
+
+  -- The proposal goes out for the accepted price and is accepted (and paid)
+  -- through the client portal
+  INSERT INTO public.proposals (project_id, estimate_id, client_name, amount, status, created_by)
+  VALUES (new_project_id, estimate.id, COALESCE(estimate.customer, ''), COALESCE(estimate.amount, 0), 'sent', auth.uid());
+
+  UPDATE public.estimates
+  SET job_id = new_job_id, updated_at = now()
+  WHERE id = estimate.id;
+
+  RETURN new_project_id;
+END;
+$$;
@@ -0,0 +1,160 @@
+-- Dispatch board. Crew members are booked onto jobs through work_schedules
+-- and equipment through scheduling_entries (resource_id is the equipment
+-- row). Nobody can be in two places at once, and equipment that is in
+-- maintenance or out of service can't be booked at all. The board checks
+-- the same rules (src/lib/dispatch.ts) before it saves.
+
+-- Equipment status was free text; unknown values are treated as available
+ALTER TABLE public.equipment
+  ALTER COLUMN status DROP DEFAULT,
+  ALTER COLUMN status TYPE public.equipment_status USING (
+    CASE WHEN status IN ('available', 'in_use', 'maintenance', 'out_of_service')
+      THEN status ELSE 'available' END
+  )::public.equipment_status,
+  ALTER COLUMN status SET DEFAULT 'available';
+
+-- NOT VALID so rows that predate the board don't block the migration
+ALTER TABLE public.work_schedules
+  ADD CONSTRAINT work_schedules_crew_member_id_fkey
+    FOREIGN KEY (crew_member_id) REFERENCES public.employees(id) ON DELETE CASCADE NOT VALID,
+  ADD CONSTRAINT work_schedules_job_id_fkey
+    FOREIGN KEY (job_id) REFERENCES public.jobs(id) ON DELETE CASCADE NOT VALID;
+
+-- Equipment bookings are cancelled the same way crew bookings are
+ALTER TABLE public.scheduling_entries
+  ADD COLUMN IF NOT EXISTS status TEXT DEFAULT 'scheduled';
+
+ALTER TABLE public.scheduling_entries
+  ADD CONSTRAINT scheduling_entries_resource_id_fkey
+    FOREIGN KEY (resource_id) REFERENCES public.equipment(id) ON DELETE CASCADE NOT VALID,
+  ADD CONSTRAINT scheduling_entries_job_id_fkey
+    FOREIGN KEY (job_id) REFERENCES public.jobs(id) ON DELETE CASCADE NOT VALID;
+
+CREATE INDEX IF NOT EXISTS idx_work_schedules_crew_time ON public.work_schedules(crew_member_id, scheduled_start);
+CREATE INDEX IF NOT EXISTS idx_scheduling_entries_resource_time ON public.scheduling_entries(resource_id, start_time);
+
+CREATE OR REPLACE FUNCTION public.check_crew_booking()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.crew_member_id IS NULL OR NEW.scheduled_start IS NULL OR NEW.scheduled_end IS NULL
+    OR COALESCE(NEW.status, '') = 'cancelled' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.scheduled_end <= NEW.scheduled_start THEN
+    RAISE EXCEPTION 'A booking must end after it starts';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.work_schedules w
+    WHERE w.crew_member_id = NEW.crew_member_id
+      AND w.id <> NEW.id
+      AND COALESCE(w.status, '') <> 'cancelled'
+      AND w.scheduled_start < NEW.scheduled_end
+      AND w.scheduled_end > NEW.scheduled_start
+  ) THEN
+    RAISE EXCEPTION 'Crew member is already booked at that time';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_crew_booking ON public.work_schedules;
+CREATE TRIGGER check_crew_booking
+  BEFORE INSERT OR UPDATE ON public.work_schedules
+  FOR EACH ROW EXECUTE FUNCTION public.check_crew_booking();
+
+CREATE OR REPLACE FUNCTION public.check_equipment_booking()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  equipment_state public.equipment_status;
+BEGIN
+  IF NEW.resource_id IS NULL OR NEW.start_time IS NULL OR NEW.end_time IS NULL
+    OR COALESCE(NEW.status, '') = 'cancelled' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.end_time <= NEW.start_time THEN
+    RAISE EXCEPTION 'A booking must end after it starts';
+  END IF;
+
+  SELECT status INTO equipment_state FROM public.equipment WHERE id = NEW.resource_id;
+  IF equipment_state::text IN ('maintenance', 'out_of_service') THEN
+    RAISE EXCEPTION 'Equipment that is % cannot be scheduled', replace(equipment_state::text, '_', ' ');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.scheduling_entries s
+    WHERE s.resource_id = NEW.resource_id
+      AND s.id <> NEW.id
+      AND COALESCE(s.status, '') <> 'cancelled'
+      AND s.start_time < NEW.end_time
+      AND s.end_time > NEW.start_time
+  ) THEN
+    RAISE EXCEPTION 'Equipment is already booked at that time';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_equipment_booking ON public.scheduling_entries;
+CREATE TRIGGER check_equipment_booking
+  BEFORE INSERT OR UPDATE ON public.scheduling_entries
+  FOR EACH ROW EXECUTE FUNCTION public.check_equipment_booking();
+
+-- The triggers give a readable error; these constraints hold the rule when
+-- two bookings for the same person or machine are saved at the same moment
+-- and neither trigger can see the other's row yet. Overlapping bookings left
+-- over from before the board have to be resolved before this migration runs.
+CREATE EXTENSION IF NOT EXISTS btree_gist;
+
+ALTER TABLE public.work_schedules
+  ADD CONSTRAINT work_schedules_no_double_booking
+    EXCLUDE USING gist (crew_member_id WITH =, tstzrange(scheduled_start, scheduled_end) WITH &&)
+    WHERE (crew_member_id IS NOT NULL AND scheduled_start IS NOT NULL AND scheduled_end IS NOT NULL
+      AND COALESCE(status, '') <> 'cancelled');
+
+ALTER TABLE public.scheduling_entries
+  ADD CONSTRAINT scheduling_entries_no_double_booking
+    EXCLUDE USING gist (resource_id WITH =, tstzrange(start_time, end_time) WITH &&)
+    WHERE (resource_id IS NOT NULL AND start_time IS NOT NULL AND end_time IS NOT NULL
+      AND COALESCE(status, '') <> 'cancelled');
+
+-- Staff see the board; only the office changes it
+DO $$
+DECLARE
+  target TEXT;
+  command TEXT;
+BEGIN
+  FOREACH target IN ARRAY ARRAY['equipment', 'scheduling_entries'] LOOP
+    EXECUTE format('ALTER TABLE public.%I ENABLE ROW LEVEL SECURITY', target);
+    EXECUTE format('DROP POLICY IF EXISTS %I ON public.%I', 'Staff can access ' || target, target);
+    EXECUTE format(
+      'CREATE POLICY %I ON public.%I FOR ALL TO authenticated USING (%s) WITH CHECK (%s)',
+      'Staff can access ' || target, target,
+      'public.has_any_role(auth.uid(), ARRAY[''Super Administrator'', ''Administrator'', ''Estimator'', ''Field Crew Lead'', ''Field Technician'']::public.app_role[])',
+      'public.has_any_role(auth.uid(), ARRAY[''Super Administrator'', ''Administrator'', ''Estimator'', ''Field Crew Lead'', ''Field Technician'']::public.app_role[])'
+    );
+  END LOOP;
+
+  FOREACH target IN ARRAY ARRAY['work_schedules', 'scheduling_entries'] LOOP
+    FOREACH command IN ARRAY ARRAY['INSERT', 'UPDATE', 'DELETE'] LOOP
+      EXECUTE format('DROP POLICY IF EXISTS %I ON public.%I', 'Office roles can ' || lower(command) || ' ' || target, target);
+      EXECUTE format(
+        'CREATE POLICY %I ON public.%I AS RESTRICTIVE FOR %s TO authenticated %s (%s)',
+        'Office roles can ' || lower(command) || ' ' || target, target, command,
+        CASE WHEN command = 'INSERT' THEN 'WITH CHECK' ELSE 'USING' END,
+        'public.has_any_role(auth.uid(), ARRAY[''Super Administrator'', ''Administrator'', ''Estimator'']::public.app_role[])'
+      );
+    END LOOP;
+  END LOOP;
+END;
+$$;
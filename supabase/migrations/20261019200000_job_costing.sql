@@ -0,0 +1,262 @@
+-- Job costing. A project's actual cost is its labor (time records at the
+-- employee's hourly rate, overtime at time and a half) plus everything logged
+-- against it in job_cost_entries: materials drawn from inventory, fuel, and
+-- receipts for anything else. projects.actual_cost is kept up to date by
+-- triggers and is no longer entered by hand. The same math lives in
+-- src/lib/job-costing.ts for the cost breakdowns.
+
+-- Inventory needs a cost to price what a job uses
+ALTER TABLE public.inventory_items
+  ADD COLUMN IF NOT EXISTS unit TEXT,
+  ADD COLUMN IF NOT EXISTS unit_cost NUMERIC(12,2) NOT NULL DEFAULT 0 CHECK (unit_cost >= 0);
+
+CREATE TABLE IF NOT EXISTS public.job_cost_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  category TEXT NOT NULL CHECK (category IN ('material', 'equipment', 'fuel', 'other')),
+  description TEXT NOT NULL,
+  inventory_item_id UUID REFERENCES public.inventory_items(id) ON DELETE SET NULL,
+  quantity NUMERIC(12,2) CHECK (quantity > 0),
+  unit TEXT,
+  unit_cost NUMERIC(12,2) CHECK (unit_cost >= 0),
+  amount NUMERIC(12,2) NOT NULL CHECK (amount >= 0),
+  incurred_on DATE NOT NULL DEFAULT CURRENT_DATE,
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_job_cost_entries_project ON public.job_cost_entries(project_id, incurred_on);
+CREATE INDEX IF NOT EXISTS idx_time_records_project ON public.time_records(project_id);
+
+-- NOT VALID so receipts that predate job costing don't block the migration
+ALTER TABLE public.receipts
+  ADD CONSTRAINT receipts_cost_id_fkey
+    FOREIGN KEY (cost_id) REFERENCES public.job_cost_entries(id) ON DELETE CASCADE NOT VALID;
+
+-- Material drawn from inventory is priced at the item's unit cost and comes
+-- off the shelf; deleting the entry puts it back
+CREATE OR REPLACE FUNCTION public.apply_inventory_usage()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  item public.inventory_items%ROWTYPE;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    IF OLD.inventory_item_id IS NOT NULL THEN
+      UPDATE public.inventory_items
+      SET quantity = COALESCE(quantity, 0) + OLD.quantity, updated_at = now()
+      WHERE id = OLD.inventory_item_id;
+    END IF;
+    RETURN OLD;
+  END IF;
+
+  IF NEW.inventory_item_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO item FROM public.inventory_items WHERE id = NEW.inventory_item_id FOR UPDATE;
+  IF NEW.quantity IS NULL THEN
+    RAISE EXCEPTION 'Enter how much of % was used', item.name;
+  END IF;
+  IF COALESCE(item.quantity, 0) < NEW.quantity THEN
+    RAISE EXCEPTION 'Only % of % in stock', COALESCE(item.quantity, 0), item.name;
+  END IF;
+
+  UPDATE public.inventory_items
+  SET quantity = COALESCE(quantity, 0) - NEW.quantity, updated_at = now()
+  WHERE id = item.id;
+
+  NEW.category := 'material';
+  NEW.unit := item.unit;
+  NEW.unit_cost := item.unit_cost;
+  NEW.amount := round(NEW.quantity * item.unit_cost, 2);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS apply_inventory_usage ON public.job_cost_entries;
+CREATE TRIGGER apply_inventory_usage
+  BEFORE INSERT OR DELETE ON public.job_cost_entries
+  FOR EACH ROW EXECUTE FUNCTION public.apply_inventory_usage();
+
+-- Labor per project and employee. Rejected time doesn't count, and time is
+-- costed at the employee's current rate.
+CREATE OR REPLACE VIEW public.project_labor_costs WITH (security_invoker = true) AS
+  SELECT
+    t.project_id,
+    t.employee_id,
+    SUM(COALESCE(t.total_hours, 0)) AS hours,
+    SUM(COALESCE(t.overtime_hours, 0)) AS overtime_hours,
+    round(SUM(
+      (COALESCE(t.total_hours, 0) - COALESCE(t.overtime_hours, 0)) * COALESCE(e.hourly_rate, 0)
+      + COALESCE(t.overtime_hours, 0) * COALESCE(e.hourly_rate, 0) * 1.5
+    ), 2) AS cost
+  FROM public.time_records t
+  LEFT JOIN public.employees e ON e.id = t.employee_id
+  WHERE t.project_id IS NOT NULL
+    AND COALESCE(t.status, '') <> 'rejected'
+  GROUP BY t.project_id, t.employee_id;
+
+-- Archived projects keep the cost they were archived with
+CREATE OR REPLACE FUNCTION public.refresh_project_actual_cost(_project_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  labor NUMERIC;
+  other_costs NUMERIC;
+BEGIN
+  IF _project_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(SUM(cost), 0) INTO labor FROM public.project_labor_costs WHERE project_id = _project_id;
+  SELECT COALESCE(SUM(amount), 0) INTO other_costs FROM public.job_cost_entries WHERE project_id = _project_id;
+
+  UPDATE public.projects
+  SET actual_cost = labor + other_costs
+  WHERE id = _project_id
+    AND archived_at IS NULL
+    AND actual_cost IS DISTINCT FROM labor + other_costs;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.sync_project_actual_cost()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    PERFORM public.refresh_project_actual_cost(NEW.project_id);
+  END IF;
+  IF TG_OP = 'DELETE' OR (TG_OP = 'UPDATE' AND OLD.project_id IS DISTINCT FROM NEW.project_id) THEN
+    PERFORM public.refresh_project_actual_cost(OLD.project_id);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_project_actual_cost ON public.time_records;
+CREATE TRIGGER sync_project_actual_cost
+  AFTER INSERT OR UPDATE OR DELETE ON public.time_records
+  FOR EACH ROW EXECUTE FUNCTION public.sync_project_actual_cost();
+
+DROP TRIGGER IF EXISTS sync_project_actual_cost ON public.job_cost_entries;
+CREATE TRIGGER sync_project_actual_cost
+  AFTER INSERT OR UPDATE OR DELETE ON public.job_cost_entries
+  FOR EACH ROW EXECUTE FUNCTION public.sync_project_actual_cost();
+
+-- A raise reprices every project the employee has logged time on
+CREATE OR REPLACE FUNCTION public.sync_employee_labor_cost()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  affected UUID;
+BEGIN
+  FOR affected IN
+    SELECT DISTINCT project_id FROM public.time_records
+    WHERE employee_id = NEW.id AND project_id IS NOT NULL
+  LOOP
+    PERFORM public.refresh_project_actual_cost(affected);
+  END LOOP;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_employee_labor_cost ON public.employees;
+CREATE TRIGGER sync_employee_labor_cost
+  AFTER UPDATE OF hourly_rate ON public.employees
+  FOR EACH ROW
+  WHEN (OLD.hourly_rate IS DISTINCT FROM NEW.hourly_rate)
+  EXECUTE FUNCTION public.sync_employee_labor_cost();
+
+-- actual_cost now changes with every time record, which would flood the
+-- project's audit trail; it is left out like updated_at
+CREATE OR REPLACE FUNCTION public.log_project_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  old_row JSONB;
+  new_row JSONB := to_jsonb(NEW);
+  changes JSONB := '{}'::jsonb;
+  field TEXT;
+  change_action TEXT;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.project_audit_log (project_id, action, changed_by)
+    VALUES (NEW.id, 'created', auth.uid());
+    RETURN NEW;
+  END IF;
+
+  old_row := to_jsonb(OLD);
+  FOR field IN SELECT jsonb_object_keys(new_row) LOOP
+    IF field NOT IN ('updated_at', 'archived_by', 'actual_cost') AND new_row -> field IS DISTINCT FROM old_row -> field THEN
+      changes := changes || jsonb_build_object(field, jsonb_build_object('from', old_row -> field, 'to', new_row -> field));
+    END IF;
+  END LOOP;
+
+  IF changes = '{}'::jsonb THEN
+    RETURN NEW;
+  END IF;
+
+  change_action := CASE
+    WHEN OLD.archived_at IS NULL AND NEW.archived_at IS NOT NULL THEN 'archived'
+    WHEN OLD.archived_at IS NOT NULL AND NEW.archived_at IS NULL THEN 'restored'
+    WHEN NEW.status IS DISTINCT FROM OLD.status THEN 'status_changed'
+    ELSE 'updated'
+  END;
+
+  INSERT INTO public.project_audit_log (project_id, action, changes, changed_by)
+  VALUES (NEW.id, change_action, changes, auth.uid());
+  RETURN NEW;
+END;
+$$;
+
+-- Receipt images live in a private bucket under the project's id
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('receipts', 'receipts', false)
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS "Office roles can access receipt files" ON storage.objects;
+CREATE POLICY "Office roles can access receipt files" ON storage.objects
+  FOR ALL TO authenticated
+  USING (bucket_id = 'receipts' AND public.has_any_role(auth.uid(), ARRAY['Super Administrator', 'Administrator', 'Estimator']::public.app_role[]))
+  WITH CHECK (bucket_id = 'receipts' AND public.has_any_role(auth.uid(), ARRAY['Super Administrator', 'Administrator', 'Estimator']::public.app_role[]));
+
+-- Costs and margins are office business. Entries are logged and removed,
+-- never edited, so the inventory they drew stays in step.
+DO $$
+DECLARE
+  target TEXT;
+BEGIN
+  FOREACH target IN ARRAY ARRAY['job_cost_entries', 'receipts', 'inventory_items'] LOOP
+    EXECUTE format('ALTER TABLE public.%I ENABLE ROW LEVEL SECURITY', target);
+    EXECUTE format('DROP POLICY IF EXISTS %I ON public.%I', 'Office roles can access ' || target, target);
+    EXECUTE format(
+      'CREATE POLICY %I ON public.%I FOR ALL TO authenticated USING (%s) WITH CHECK (%s)',
+      'Office roles can access ' || target, target,
+      'public.has_any_role(auth.uid(), ARRAY[''Super Administrator'', ''Administrator'', ''Estimator'']::public.app_role[])',
+      'public.has_any_role(auth.uid(), ARRAY[''Super Administrator'', ''Administrator'', ''Estimator'']::public.app_role[])'
+    );
+  END LOOP;
+END;
+$$;
+
+DROP POLICY IF EXISTS "Cost entries are never edited" ON public.job_cost_entries;
+CREATE POLICY "Cost entries are never edited" ON public.job_cost_entries
+  AS RESTRICTIVE FOR UPDATE TO authenticated USING (false);
+
+-- Bring every open project up to date
+SELECT public.refresh_project_actual_cost(id) FROM public.projects WHERE archived_at IS NULL;
@@ -0,0 +1,264 @@
+-- Time clock. Crew members punch in and out against a project from their
+-- phone; each punch records where it was made. A shift is open until the
+-- clock-out, pending until a crew lead or the office approves (or rejects)
+-- it, and locked once it has been exported for payroll. The same rules live
+-- in src/lib/time-clock.ts so the screen can explain them before saving.
+
+ALTER TABLE public.time_records
+  ADD COLUMN IF NOT EXISTS clock_in_latitude DOUBLE PRECISION,
+  ADD COLUMN IF NOT EXISTS clock_in_longitude DOUBLE PRECISION,
+  ADD COLUMN IF NOT EXISTS clock_in_accuracy DOUBLE PRECISION, -- meters
+  ADD COLUMN IF NOT EXISTS clock_out_latitude DOUBLE PRECISION,
+  ADD COLUMN IF NOT EXISTS clock_out_longitude DOUBLE PRECISION,
+  ADD COLUMN IF NOT EXISTS clock_out_accuracy DOUBLE PRECISION,
+  ADD COLUMN IF NOT EXISTS break_started_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS approved_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS approved_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS exported_at TIMESTAMPTZ;
+
+-- NOT VALID so statuses that predate the time clock don't block the migration
+ALTER TABLE public.time_records
+  ADD CONSTRAINT time_records_status_check
+    CHECK (status IN ('open', 'pending', 'approved', 'rejected')) NOT VALID;
+
+CREATE INDEX IF NOT EXISTS idx_time_records_employee_date ON public.time_records(employee_id, date);
+
+-- The employee record of whoever is signed in
+CREATE OR REPLACE FUNCTION public.current_employee_id()
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT id FROM public.employees WHERE user_id = auth.uid() LIMIT 1
+$$;
+
+-- Break minutes, hours worked and status follow from the punches. Crew
+-- members' punches are stamped with the server's clock; crew leads and the
+-- office can correct times. Neither Virginia nor federal law requires breaks
+-- for adults; the 30-minute meal break on shifts over 6 hours is company
+-- policy.
+CREATE OR REPLACE FUNCTION public.prepare_time_record()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  is_reviewer BOOLEAN := public.has_any_role(auth.uid(), ARRAY['Super Administrator', 'Administrator', 'Estimator', 'Field Crew Lead']::public.app_role[]);
+  worked_minutes NUMERIC;
+BEGIN
+  IF TG_OP = 'UPDATE' AND OLD.exported_at IS NOT NULL AND (
+    NEW.clock_in IS DISTINCT FROM OLD.clock_in
+    OR NEW.clock_out IS DISTINCT FROM OLD.clock_out
+    OR NEW.break_duration IS DISTINCT FROM OLD.break_duration
+    OR NEW.project_id IS DISTINCT FROM OLD.project_id
+    OR NEW.status IS DISTINCT FROM OLD.status
+  ) THEN
+    RAISE EXCEPTION 'Time that has been exported for payroll cannot be changed';
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NOT is_reviewer OR NEW.clock_in IS NULL THEN
+      NEW.clock_in := now();
+    END IF;
+    IF NEW.clock_out IS NULL AND EXISTS (
+      SELECT 1 FROM public.time_records t
+      WHERE t.employee_id = NEW.employee_id AND t.clock_out IS NULL AND t.id <> NEW.id
+    ) THEN
+      RAISE EXCEPTION 'Already clocked in';
+    END IF;
+  ELSIF NOT is_reviewer THEN
+    NEW.clock_in := OLD.clock_in;
+    NEW.break_duration := OLD.break_duration;
+    IF OLD.clock_out IS NULL AND NEW.clock_out IS NOT NULL THEN
+      NEW.clock_out := now();
+    END IF;
+    IF OLD.break_started_at IS NULL AND NEW.break_started_at IS NOT NULL THEN
+      NEW.break_started_at := now();
+    END IF;
+  END IF;
+
+  -- Shifts from before the time clock may have no punches at all
+  IF NEW.clock_in IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- Payroll days are Virginia calendar days
+  NEW.date := (NEW.clock_in AT TIME ZONE 'America/New_York')::date;
+  NEW.break_duration := COALESCE(NEW.break_duration, 0);
+
+  -- Ending a break (or clocking out during one) adds it to the break time
+  IF TG_OP = 'UPDATE' AND OLD.break_started_at IS NOT NULL
+    AND (NEW.break_started_at IS NULL OR NEW.clock_out IS NOT NULL) THEN
+    NEW.break_duration := NEW.break_duration
+      + round(EXTRACT(EPOCH FROM COALESCE(NEW.clock_out, now()) - OLD.break_started_at) / 60);
+    NEW.break_started_at := NULL;
+  END IF;
+
+  IF NEW.clock_out IS NULL THEN
+    NEW.status := 'open';
+    NEW.total_hours := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.clock_out <= NEW.clock_in THEN
+    RAISE EXCEPTION 'Clock-out must be after clock-in';
+  END IF;
+
+  worked_minutes := EXTRACT(EPOCH FROM NEW.clock_out - NEW.clock_in) / 60 - NEW.break_duration;
+  IF worked_minutes > 6 * 60 AND NEW.break_duration < 30 AND (
+    TG_OP = 'INSERT'
+    OR NEW.clock_in IS DISTINCT FROM OLD.clock_in
+    OR NEW.clock_out IS DISTINCT FROM OLD.clock_out
+    OR NEW.break_duration IS DISTINCT FROM OLD.break_duration
+  ) THEN
+    RAISE EXCEPTION 'Shifts over 6 hours need a 30-minute meal break';
+  END IF;
+
+  NEW.total_hours := round(GREATEST(worked_minutes, 0) / 60, 2);
+  IF NEW.status IS NULL OR NEW.status = 'open' THEN
+    NEW.status := 'pending';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS prepare_time_record ON public.time_records;
+CREATE TRIGGER prepare_time_record
+  BEFORE INSERT OR UPDATE ON public.time_records
+  FOR EACH ROW EXECUTE FUNCTION public.prepare_time_record();
+
+-- Only crew leads and the office approve or reject time, never their own,
+-- and only once the shift is over
+CREATE OR REPLACE FUNCTION public.review_time_record()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status OR NEW.status NOT IN ('approved', 'rejected') THEN
+    IF NEW.status IN ('open', 'pending') THEN
+      NEW.approved_by := NULL;
+      NEW.approved_at := NULL;
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NOT public.has_any_role(auth.uid(), ARRAY['Super Administrator', 'Administrator', 'Estimator', 'Field Crew Lead']::public.app_role[]) THEN
+    RAISE EXCEPTION 'Only crew leads and the office can review time';
+  END IF;
+  IF NEW.employee_id = public.current_employee_id() THEN
+    RAISE EXCEPTION 'You cannot review your own time';
+  END IF;
+  IF NEW.clock_out IS NULL THEN
+    RAISE EXCEPTION 'This shift is still open';
+  END IF;
+
+  NEW.approved_by := auth.uid();
+  NEW.approved_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS review_time_record ON public.time_records;
+CREATE TRIGGER review_time_record
+  BEFORE UPDATE OF status ON public.time_records
+  FOR EACH ROW EXECUTE FUNCTION public.review_time_record();
+
+-- Overtime under the FLSA and the Virginia Overtime Wage Act: hours past 40
+-- in a Monday-to-Sunday workweek, counted in the order they were worked.
+-- Rejected shifts don't count toward the 40. Shifts already exported for
+-- payroll have been paid as they were split, so their hours still count
+-- toward the 40 but their overtime is never rewritten by a later change to
+-- the week.
+CREATE OR REPLACE FUNCTION public.recalculate_weekly_overtime(_employee_id UUID, _week_start DATE)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  shift RECORD;
+  worked NUMERIC := 0;
+  overtime NUMERIC;
+BEGIN
+  FOR shift IN
+    SELECT id, total_hours, overtime_hours, status, exported_at FROM public.time_records
+    WHERE employee_id = _employee_id
+      AND date >= _week_start AND date < _week_start + 7
+      AND clock_out IS NOT NULL
+    ORDER BY clock_in, id
+  LOOP
+    IF shift.exported_at IS NOT NULL THEN
+      IF shift.status IS DISTINCT FROM 'rejected' THEN
+        worked := worked + COALESCE(shift.total_hours, 0);
+      END IF;
+      CONTINUE;
+    ELSIF shift.status = 'rejected' THEN
+      overtime := 0;
+    ELSE
+      overtime := GREATEST(0, LEAST(COALESCE(shift.total_hours, 0), worked + COALESCE(shift.total_hours, 0) - 40));
+      worked := worked + COALESCE(shift.total_hours, 0);
+    END IF;
+
+    IF shift.overtime_hours IS DISTINCT FROM overtime THEN
+      UPDATE public.time_records SET overtime_hours = overtime WHERE id = shift.id;
+    END IF;
+  END LOOP;
+END;
+$$;
+
+-- Only fires on the columns that move hours, so the overtime updates above
+-- don't set it off again
+CREATE OR REPLACE FUNCTION public.sync_weekly_overtime()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP IN ('INSERT', 'UPDATE') AND NEW.employee_id IS NOT NULL AND NEW.date IS NOT NULL THEN
+    PERFORM public.recalculate_weekly_overtime(NEW.employee_id, date_trunc('week', NEW.date)::date);
+  END IF;
+  IF TG_OP IN ('UPDATE', 'DELETE') AND OLD.employee_id IS NOT NULL AND OLD.date IS NOT NULL
+    AND (TG_OP = 'DELETE' OR OLD.employee_id IS DISTINCT FROM NEW.employee_id
+      OR date_trunc('week', OLD.date) IS DISTINCT FROM date_trunc('week', NEW.date)) THEN
+    PERFORM public.recalculate_weekly_overtime(OLD.employee_id, date_trunc('week', OLD.date)::date);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_weekly_overtime ON public.time_records;
+CREATE TRIGGER sync_weekly_overtime
+  AFTER INSERT OR DELETE OR UPDATE OF employee_id, date, clock_in, clock_out, total_hours, status ON public.time_records
+  FOR EACH ROW EXECUTE FUNCTION public.sync_weekly_overtime();
+
+-- Crew members see and punch their own time, and can only touch a shift
+-- while it's open. Crew leads and the office see everyone's.
+ALTER TABLE public.time_records ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Employees can view own time_records" ON public.time_records;
+CREATE POLICY "Employees can view own time_records" ON public.time_records
+  FOR SELECT TO authenticated
+  USING (employee_id = public.current_employee_id());
+
+DROP POLICY IF EXISTS "Employees can clock in" ON public.time_records;
+CREATE POLICY "Employees can clock in" ON public.time_records
+  FOR INSERT TO authenticated
+  WITH CHECK (employee_id = public.current_employee_id() AND clock_out IS NULL);
+
+DROP POLICY IF EXISTS "Employees can update open time_records" ON public.time_records;
+CREATE POLICY "Employees can update open time_records" ON public.time_records
+  FOR UPDATE TO authenticated
+  USING (employee_id = public.current_employee_id() AND status = 'open')
+  WITH CHECK (employee_id = public.current_employee_id() AND status IN ('open', 'pending'));
+
+DROP POLICY IF EXISTS "Reviewers can access time_records" ON public.time_records;
+CREATE POLICY "Reviewers can access time_records" ON public.time_records
+  FOR ALL TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['Super Administrator', 'Administrator', 'Estimator', 'Field Crew Lead']::public.app_role[]))
+  WITH CHECK (public.has_any_role(auth.uid(), ARRAY['Super Administrator', 'Administrator', 'Estimator', 'Field Crew Lead']::public.app_role[]));
@@ -0,0 +1,17 @@
+-- Live fleet map. Trackers post to gps_locations; the map only needs each
+-- device's latest fix, which latest_gps_locations picks out.
+
+-- Devices pointed at fleet_vehicles, which nothing in the app manages; the
+-- fleet page and vehicle_details both use fleet_assets. NOT VALID so devices
+-- linked the old way don't block the migration.
+ALTER TABLE public.devices
+  DROP CONSTRAINT IF EXISTS devices_vehicle_id_fkey,
+  ADD CONSTRAINT devices_vehicle_id_fkey
+    FOREIGN KEY (vehicle_id) REFERENCES public.fleet_assets(id) ON DELETE SET NULL NOT VALID;
+
+CREATE INDEX IF NOT EXISTS idx_gps_locations_device_time ON public.gps_locations(device_id, "timestamp" DESC);
+
+CREATE OR REPLACE VIEW public.latest_gps_locations WITH (security_invoker = true) AS
+  SELECT DISTINCT ON (device_id) *
+  FROM public.gps_locations
+  ORDER BY device_id, "timestamp" DESC;
@@ -0,0 +1,55 @@
+-- Realtime fleet updates. The fleet page subscribes to new fixes, device
+-- changes and tracking events, and falls back to polling when the realtime
+-- connection is down.
+
+-- A fix is proof the tracker is alive, so last_seen follows the newest one
+-- instead of waiting for the tracker to report it separately
+CREATE OR REPLACE FUNCTION public.touch_device_last_seen()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.devices
+  SET last_seen = NEW."timestamp"
+  WHERE id = NEW.device_id
+    AND (last_seen IS NULL OR last_seen < NEW."timestamp");
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS touch_device_last_seen ON public.gps_locations;
+CREATE TRIGGER touch_device_last_seen
+  AFTER INSERT ON public.gps_locations
+  FOR EACH ROW EXECUTE FUNCTION public.touch_device_last_seen();
+
+-- Realtime only delivers rows the subscriber could select, so tracking events
+-- get the same staff-only policies as the rest of the fleet tables
+ALTER TABLE public.tracking_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Staff can access tracking_events" ON public.tracking_events;
+CREATE POLICY "Staff can access tracking_events" ON public.tracking_events
+  FOR ALL TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['Super Administrator', 'Administrator', 'Estimator', 'Field Crew Lead', 'Field Technician']::public.app_role[]))
+  WITH CHECK (public.has_any_role(auth.uid(), ARRAY['Super Administrator', 'Administrator', 'Estimator', 'Field Crew Lead', 'Field Technician']::public.app_role[]));
+
+DROP POLICY IF EXISTS "Only staff can access tracking_events" ON public.tracking_events;
+CREATE POLICY "Only staff can access tracking_events" ON public.tracking_events
+  AS RESTRICTIVE FOR ALL TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['Super Administrator', 'Administrator', 'Estimator', 'Field Crew Lead', 'Field Technician']::public.app_role[]))
+  WITH CHECK (public.has_any_role(auth.uid(), ARRAY['Super Administrator', 'Administrator', 'Estimator', 'Field Crew Lead', 'Field Technician']::public.app_role[]));
+
+DO $$
+DECLARE
+  target TEXT;
+BEGIN
+  FOREACH target IN ARRAY ARRAY['gps_locations', 'devices', 'tracking_events'] LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = target
+    ) THEN
+      EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', target);
+    END IF;
+  END LOOP;
+END $$;
@@ -0,0 +1,250 @@
+-- Geofences. A fence is a circle (center and radius in meters) or a polygon
+-- drawn on the fleet map; polygons keep GeoJSON in geometry, like traced
+-- measurements, plus a PostGIS copy for the containment test. center and
+-- radius stay filled for polygons as their bounding circle.
+--
+-- Every new fix is checked against the active fences (evaluate_geofences).
+-- geofence_presence remembers which fences each tracker is inside, so
+-- entering, leaving and staying longer than dwell_minutes each write one
+-- tracking_events row. Fences tied to a project also log site visits.
+-- Switching a fence off or deleting it closes the visits still open there.
+
+ALTER TABLE public.geofences
+  ADD COLUMN shape TEXT NOT NULL DEFAULT 'circle' CHECK (shape IN ('circle', 'polygon')),
+  ADD COLUMN geometry JSONB,
+  ADD COLUMN geom geometry(Polygon, 4326) GENERATED ALWAYS AS (
+    CASE WHEN shape = 'polygon' THEN ST_SetSRID(ST_GeomFromGeoJSON(geometry::text), 4326) END
+  ) STORED,
+  ADD COLUMN dwell_minutes INTEGER DEFAULT 15 CHECK (dwell_minutes > 0),
+  ADD COLUMN project_id UUID REFERENCES public.projects(id) ON DELETE SET NULL,
+  ADD CONSTRAINT geofences_radius_positive CHECK (radius > 0) NOT VALID,
+  ADD CONSTRAINT geofences_polygon_geometry CHECK (shape = 'circle' OR geometry IS NOT NULL);
+
+CREATE INDEX IF NOT EXISTS idx_geofences_geom ON public.geofences USING GIST (geom);
+CREATE INDEX IF NOT EXISTS idx_geofences_project ON public.geofences(project_id);
+
+-- Tracking events pointed at fleet_vehicles, like devices did; NOT VALID so
+-- old events don't block the migration. Deleting a fence keeps its events.
+ALTER TABLE public.tracking_events
+  DROP CONSTRAINT IF EXISTS tracking_events_vehicle_id_fkey,
+  ADD CONSTRAINT tracking_events_vehicle_id_fkey
+    FOREIGN KEY (vehicle_id) REFERENCES public.fleet_assets(id) ON DELETE SET NULL NOT VALID,
+  DROP CONSTRAINT IF EXISTS tracking_events_geofence_id_fkey,
+  ADD CONSTRAINT tracking_events_geofence_id_fkey
+    FOREIGN KEY (geofence_id) REFERENCES public.geofences(id) ON DELETE SET NULL NOT VALID;
+
+CREATE INDEX IF NOT EXISTS idx_tracking_events_geofence ON public.tracking_events(geofence_id, created_at DESC);
+
+CREATE TABLE public.geofence_presence (
+  device_id UUID NOT NULL REFERENCES public.devices(id) ON DELETE CASCADE,
+  geofence_id UUID NOT NULL REFERENCES public.geofences(id) ON DELETE CASCADE,
+  entered_at TIMESTAMPTZ NOT NULL,
+  last_seen_at TIMESTAMPTZ NOT NULL,
+  dwell_notified_at TIMESTAMPTZ,
+  PRIMARY KEY (device_id, geofence_id)
+);
+
+CREATE TABLE public.project_site_visits (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  geofence_id UUID REFERENCES public.geofences(id) ON DELETE SET NULL,
+  device_id UUID REFERENCES public.devices(id) ON DELETE SET NULL,
+  vehicle_id UUID REFERENCES public.fleet_assets(id) ON DELETE SET NULL,
+  arrived_at TIMESTAMPTZ NOT NULL,
+  departed_at TIMESTAMPTZ,
+  CHECK (departed_at IS NULL OR departed_at >= arrived_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_project_site_visits_project ON public.project_site_visits(project_id, arrived_at DESC);
+
+-- Fixes this imprecise can put a parked truck on the wrong side of a fence
+-- line, so they never change whether a tracker is inside
+CREATE OR REPLACE FUNCTION public.evaluate_geofences()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  tracker RECORD;
+  vehicle_name TEXT;
+  point geometry := ST_SetSRID(ST_MakePoint(NEW.longitude, NEW.latitude), 4326);
+  inside_ids UUID[];
+  fence RECORD;
+  presence RECORD;
+  event_type TEXT;
+BEGIN
+  IF COALESCE(NEW.accuracy, 0) > 100 THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT d.id, d.name, d.vehicle_id, d.last_seen INTO tracker FROM public.devices d WHERE d.id = NEW.device_id;
+  -- A fix that arrives after a newer one has already been evaluated is history
+  IF tracker.last_seen IS NOT NULL AND NEW."timestamp" < tracker.last_seen THEN
+    RETURN NEW;
+  END IF;
+  SELECT name INTO vehicle_name FROM public.fleet_assets WHERE id = tracker.vehicle_id;
+  vehicle_name := COALESCE(vehicle_name, tracker.name, 'A tracker');
+
+  SELECT COALESCE(array_agg(f.id), '{}') INTO inside_ids
+  FROM public.geofences f
+  WHERE COALESCE(f.is_active, true)
+    AND CASE f.shape
+      WHEN 'polygon' THEN ST_Covers(f.geom, point)
+      ELSE ST_DWithin(
+        ST_MakePoint(f.center_longitude, f.center_latitude)::geography,
+        point::geography,
+        f.radius
+      )
+    END;
+
+  -- Presence in a fence that was switched off is cleared when it is
+  -- (close_geofence_visits), so anything left here is real movement
+  FOR presence IN
+    SELECT p.*, f.name, f.project_id, f.enable_notifications
+    FROM public.geofence_presence p
+    JOIN public.geofences f ON f.id = p.geofence_id
+    WHERE p.device_id = NEW.device_id AND NOT (p.geofence_id = ANY(inside_ids))
+  LOOP
+    DELETE FROM public.geofence_presence WHERE device_id = presence.device_id AND geofence_id = presence.geofence_id;
+
+    INSERT INTO public.tracking_events (type, severity, message, device_id, vehicle_id, geofence_id, location_id, is_read)
+    VALUES ('geofence_exit', 'info', format('%s left %s', vehicle_name, presence.name),
+      NEW.device_id, tracker.vehicle_id, presence.geofence_id, NEW.id, NOT COALESCE(presence.enable_notifications, true));
+
+    IF presence.project_id IS NOT NULL THEN
+      UPDATE public.project_site_visits
+      SET departed_at = NEW."timestamp"
+      WHERE geofence_id = presence.geofence_id AND device_id = NEW.device_id AND departed_at IS NULL;
+    END IF;
+  END LOOP;
+
+  FOR fence IN SELECT * FROM public.geofences WHERE id = ANY(inside_ids) LOOP
+    SELECT * INTO presence FROM public.geofence_presence
+    WHERE device_id = NEW.device_id AND geofence_id = fence.id;
+
+    event_type := NULL;
+    IF NOT FOUND THEN
+      INSERT INTO public.geofence_presence (device_id, geofence_id, entered_at, last_seen_at)
+      VALUES (NEW.device_id, fence.id, NEW."timestamp", NEW."timestamp");
+      event_type := 'geofence_enter';
+
+      IF fence.project_id IS NOT NULL THEN
+        INSERT INTO public.project_site_visits (project_id, geofence_id, device_id, vehicle_id, arrived_at)
+        VALUES (fence.project_id, fence.id, NEW.device_id, tracker.vehicle_id, NEW."timestamp");
+      END IF;
+    ELSE
+      UPDATE public.geofence_presence
+      SET last_seen_at = NEW."timestamp",
+          dwell_notified_at = CASE
+            WHEN presence.dwell_notified_at IS NULL AND fence.dwell_minutes IS NOT NULL
+              AND NEW."timestamp" - presence.entered_at >= make_interval(mins => fence.dwell_minutes)
+            THEN NEW."timestamp" ELSE presence.dwell_notified_at END
+      WHERE device_id = NEW.device_id AND geofence_id = fence.id
+      RETURNING CASE WHEN dwell_notified_at IS DISTINCT FROM presence.dwell_notified_at THEN 'geofence_dwell' END
+        INTO event_type;
+    END IF;
+
+    IF event_type IS NOT NULL THEN
+      INSERT INTO public.tracking_events (type, severity, message, device_id, vehicle_id, geofence_id, location_id, is_read)
+      VALUES (
+        event_type,
+        CASE WHEN event_type = 'geofence_dwell' THEN 'warning' ELSE 'info' END,
+        CASE event_type
+          WHEN 'geofence_enter' THEN format('%s arrived at %s', vehicle_name, fence.name)
+          ELSE format('%s has been at %s for over %s minutes', vehicle_name, fence.name, fence.dwell_minutes)
+        END,
+        NEW.device_id, tracker.vehicle_id, fence.id, NEW.id, NOT COALESCE(fence.enable_notifications, true)
+      );
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Runs before touch_device_last_seen (triggers fire in name order), so
+-- last_seen is still the previous fix when a late one is checked
+DROP TRIGGER IF EXISTS evaluate_geofences ON public.gps_locations;
+CREATE TRIGGER evaluate_geofences
+  AFTER INSERT ON public.gps_locations
+  FOR EACH ROW EXECUTE FUNCTION public.evaluate_geofences();
+
+-- A fence switched off or deleted with a tracker inside raises no exit, but
+-- the visit still ends, at the last fix seen inside. Deleting runs before the
+-- row goes, while the visits and presence still point at it.
+CREATE OR REPLACE FUNCTION public.close_geofence_visits()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.project_site_visits v
+  SET departed_at = p.last_seen_at
+  FROM public.geofence_presence p
+  WHERE p.geofence_id = OLD.id
+    AND v.geofence_id = OLD.id
+    AND v.device_id = p.device_id
+    AND v.departed_at IS NULL;
+
+  DELETE FROM public.geofence_presence WHERE geofence_id = OLD.id;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS close_geofence_visits_on_deactivate ON public.geofences;
+CREATE TRIGGER close_geofence_visits_on_deactivate
+  AFTER UPDATE OF is_active ON public.geofences
+  FOR EACH ROW WHEN (COALESCE(OLD.is_active, true) AND NOT COALESCE(NEW.is_active, true))
+  EXECUTE FUNCTION public.close_geofence_visits();
+
+DROP TRIGGER IF EXISTS close_geofence_visits_on_delete ON public.geofences;
+CREATE TRIGGER close_geofence_visits_on_delete
+  BEFORE DELETE ON public.geofences
+  FOR EACH ROW EXECUTE FUNCTION public.close_geofence_visits();
+
+-- Fences are drawn by the office; everyone on staff sees them and the visits
+-- they log. Presence and visits are written only by the engine above.
+ALTER TABLE public.geofences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.geofence_presence ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.project_site_visits ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Staff can view geofences" ON public.geofences;
+CREATE POLICY "Staff can view geofences" ON public.geofences
+  FOR SELECT TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['Super Administrator', 'Administrator', 'Estimator', 'Field Crew Lead', 'Field Technician']::public.app_role[]));
+
+DROP POLICY IF EXISTS "Office can manage geofences" ON public.geofences;
+CREATE POLICY "Office can manage geofences" ON public.geofences
+  FOR ALL TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['Super Administrator', 'Administrator', 'Estimator']::public.app_role[]))
+  WITH CHECK (public.has_any_role(auth.uid(), ARRAY['Super Administrator', 'Administrator', 'Estimator']::public.app_role[]));
+
+-- Restrictive so an older, broader policy can't let crew redraw fences
+DROP POLICY IF EXISTS "Only office can add geofences" ON public.geofences;
+CREATE POLICY "Only office can add geofences" ON public.geofences
+  AS RESTRICTIVE FOR INSERT TO authenticated
+  WITH CHECK (public.has_any_role(auth.uid(), ARRAY['Super Administrator', 'Administrator', 'Estimator']::public.app_role[]));
+
+DROP POLICY IF EXISTS "Only office can change geofences" ON public.geofences;
+CREATE POLICY "Only office can change geofences" ON public.geofences
+  AS RESTRICTIVE FOR UPDATE TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['Super Administrator', 'Administrator', 'Estimator']::public.app_role[]));
+
+DROP POLICY IF EXISTS "Only office can remove geofences" ON public.geofences;
+CREATE POLICY "Only office can remove geofences" ON public.geofences
+  AS RESTRICTIVE FOR DELETE TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['Super Administrator', 'Administrator', 'Estimator']::public.app_role[]));
+
+CREATE POLICY "Staff can view geofence presence" ON public.geofence_presence
+  FOR SELECT TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['Super Administrator', 'Administrator', 'Estimator', 'Field Crew Lead', 'Field Technician']::public.app_role[]));
+
+CREATE POLICY "Staff can view site visits" ON public.project_site_visits
+  FOR SELECT TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['Super Administrator', 'Administrator', 'Estimator', 'Field Crew Lead', 'Field Technician']::public.app_role[]));
@@ -0,0 +1,288 @@
+-- Maintenance scheduling from real meter readings. vehicle_meters holds each
+-- vehicle's current odometer and engine hours: odometer and hour meter
+-- readings set them, and GPS fixes add the distance driven in between.
+-- odometer_readings keeps the history (one GPS row per vehicle per day, plus
+-- every reading entered by hand or taken at a service), which is what due
+-- dates are projected from. Service intervals are per vehicle and can be by
+-- miles, engine hours, days, or any mix; whichever comes first is due.
+-- Completed services go in the existing vehicle_maintenance_records log. The
+-- due/overdue math lives in src/lib/maintenance.ts.
+
+CREATE TABLE public.vehicle_meters (
+  vehicle_id UUID PRIMARY KEY REFERENCES public.fleet_assets(id) ON DELETE CASCADE,
+  -- Fine enough to add up GPS steps of a few dozen meters
+  odometer_miles NUMERIC(12,3) NOT NULL DEFAULT 0,
+  engine_hours NUMERIC(10,1),
+  -- Driven since the last odometer reading, counted from GPS
+  gps_miles NUMERIC(12,3) NOT NULL DEFAULT 0,
+  -- Last reading of either meter, and of the odometer itself. Until the
+  -- odometer has been read, odometer_miles is only the GPS distance.
+  reading_at TIMESTAMPTZ,
+  odometer_read_at TIMESTAMPTZ,
+  -- Where the GPS distance was last measured from
+  anchor_latitude DOUBLE PRECISION,
+  anchor_longitude DOUBLE PRECISION,
+  anchor_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.odometer_readings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  vehicle_id UUID NOT NULL REFERENCES public.fleet_assets(id) ON DELETE CASCADE,
+  odometer_miles NUMERIC(10,1) CHECK (odometer_miles >= 0),
+  engine_hours NUMERIC(10,1) CHECK (engine_hours >= 0),
+  source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'gps', 'service')),
+  recorded_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  reading_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  notes TEXT,
+  recorded_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (odometer_miles IS NOT NULL OR engine_hours IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_odometer_readings_vehicle ON public.odometer_readings(vehicle_id, recorded_at DESC);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_odometer_readings_gps_day
+  ON public.odometer_readings(vehicle_id, reading_date) WHERE source = 'gps';
+
+CREATE TABLE public.maintenance_schedules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  vehicle_id UUID NOT NULL REFERENCES public.fleet_assets(id) ON DELETE CASCADE,
+  service_type TEXT NOT NULL CHECK (service_type IN ('oil', 'tires', 'brakes', 'hydraulics', 'sealcoat_pump', 'other')),
+  name TEXT,
+  interval_miles NUMERIC(10,1) CHECK (interval_miles > 0),
+  interval_hours NUMERIC(10,1) CHECK (interval_hours > 0),
+  interval_days INTEGER CHECK (interval_days > 0),
+  last_service_on DATE,
+  last_service_miles NUMERIC(10,1) CHECK (last_service_miles >= 0),
+  last_service_hours NUMERIC(10,1) CHECK (last_service_hours >= 0),
+  notes TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (interval_miles IS NOT NULL OR interval_hours IS NOT NULL OR interval_days IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_maintenance_schedules_vehicle ON public.maintenance_schedules(vehicle_id);
+
+-- The existing service log becomes the record of completed intervals. It
+-- pointed at fleet_vehicles, like devices did; NOT VALID so old records don't
+-- block the migration.
+ALTER TABLE public.vehicle_maintenance_records
+  ADD COLUMN IF NOT EXISTS schedule_id UUID REFERENCES public.maintenance_schedules(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS engine_hours NUMERIC(10,1) CHECK (engine_hours >= 0),
+  DROP CONSTRAINT IF EXISTS vehicle_maintenance_records_vehicle_id_fkey,
+  ADD CONSTRAINT vehicle_maintenance_records_vehicle_id_fkey
+    FOREIGN KEY (vehicle_id) REFERENCES public.fleet_assets(id) ON DELETE CASCADE NOT VALID;
+
+CREATE INDEX IF NOT EXISTS idx_vehicle_maintenance_records_vehicle ON public.vehicle_maintenance_records(vehicle_id, performed_at DESC);
+
+-- A reading replaces whatever the meters had counted up to, unless a newer
+-- reading has already been taken. GPS rows are written by the meters
+-- themselves and are skipped. An odometer reading also drops the GPS anchor,
+-- so distance is counted again from the next fix rather than from before the
+-- reading, which would add those miles on top of it.
+CREATE OR REPLACE FUNCTION public.apply_odometer_reading()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.vehicle_meters (vehicle_id, odometer_miles, engine_hours, reading_at, odometer_read_at)
+  VALUES (
+    NEW.vehicle_id, COALESCE(NEW.odometer_miles, 0), NEW.engine_hours, NEW.recorded_at,
+    CASE WHEN NEW.odometer_miles IS NOT NULL THEN NEW.recorded_at END
+  )
+  ON CONFLICT (vehicle_id) DO UPDATE
+  SET odometer_miles = COALESCE(NEW.odometer_miles, vehicle_meters.odometer_miles),
+      engine_hours = COALESCE(NEW.engine_hours, vehicle_meters.engine_hours),
+      gps_miles = CASE WHEN NEW.odometer_miles IS NULL THEN vehicle_meters.gps_miles ELSE 0 END,
+      anchor_latitude = CASE WHEN NEW.odometer_miles IS NULL THEN vehicle_meters.anchor_latitude END,
+      anchor_longitude = CASE WHEN NEW.odometer_miles IS NULL THEN vehicle_meters.anchor_longitude END,
+      anchor_at = CASE WHEN NEW.odometer_miles IS NULL THEN vehicle_meters.anchor_at END,
+      reading_at = NEW.recorded_at,
+      odometer_read_at = CASE WHEN NEW.odometer_miles IS NULL THEN vehicle_meters.odometer_read_at ELSE NEW.recorded_at END,
+      updated_at = now()
+  WHERE vehicle_meters.reading_at IS NULL OR vehicle_meters.reading_at <= NEW.recorded_at;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS apply_odometer_reading ON public.odometer_readings;
+CREATE TRIGGER apply_odometer_reading
+  AFTER INSERT ON public.odometer_readings
+  FOR EACH ROW WHEN (NEW.source <> 'gps')
+  EXECUTE FUNCTION public.apply_odometer_reading();
+
+-- GPS distance is measured from an anchor that only moves once the vehicle is
+-- 25 m away from it, so a parked truck's wandering fixes don't add miles.
+-- Imprecise and late fixes are ignored, like in the geofence check.
+CREATE OR REPLACE FUNCTION public.accumulate_odometer()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  vehicle UUID;
+  meters public.vehicle_meters%ROWTYPE;
+  moved_meters DOUBLE PRECISION;
+BEGIN
+  IF COALESCE(NEW.accuracy, 0) > 100 THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT vehicle_id INTO vehicle FROM public.devices WHERE id = NEW.device_id;
+  IF vehicle IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.vehicle_meters (vehicle_id) VALUES (vehicle) ON CONFLICT (vehicle_id) DO NOTHING;
+  SELECT * INTO meters FROM public.vehicle_meters WHERE vehicle_id = vehicle FOR UPDATE;
+
+  IF meters.anchor_at IS NULL THEN
+    UPDATE public.vehicle_meters
+    SET anchor_latitude = NEW.latitude, anchor_longitude = NEW.longitude, anchor_at = NEW."timestamp"
+    WHERE vehicle_id = vehicle;
+    RETURN NEW;
+  END IF;
+  IF NEW."timestamp" <= meters.anchor_at THEN
+    RETURN NEW;
+  END IF;
+
+  moved_meters := ST_Distance(
+    ST_MakePoint(meters.anchor_longitude, meters.anchor_latitude)::geography,
+    ST_MakePoint(NEW.longitude, NEW.latitude)::geography
+  );
+  IF moved_meters < 25 THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE public.vehicle_meters
+  SET odometer_miles = odometer_miles + moved_meters / 1609.344,
+      gps_miles = gps_miles + moved_meters / 1609.344,
+      anchor_latitude = NEW.latitude,
+      anchor_longitude = NEW.longitude,
+      anchor_at = NEW."timestamp",
+      updated_at = now()
+  WHERE vehicle_id = vehicle
+  RETURNING * INTO meters;
+
+  -- One history row per vehicle per (UTC) day, kept at the day's last reading
+  INSERT INTO public.odometer_readings (vehicle_id, odometer_miles, engine_hours, source, recorded_at, reading_date)
+  VALUES (vehicle, meters.odometer_miles, meters.engine_hours, 'gps', NEW."timestamp", NEW."timestamp"::date)
+  ON CONFLICT (vehicle_id, reading_date) WHERE source = 'gps' DO UPDATE
+  SET odometer_miles = EXCLUDED.odometer_miles,
+      engine_hours = EXCLUDED.engine_hours,
+      recorded_at = EXCLUDED.recorded_at;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS accumulate_odometer ON public.gps_locations;
+CREATE TRIGGER accumulate_odometer
+  AFTER INSERT ON public.gps_locations
+  FOR EACH ROW EXECUTE FUNCTION public.accumulate_odometer();
+
+-- Logging a service restarts its interval and records the meters it was
+-- done at
+CREATE OR REPLACE FUNCTION public.apply_maintenance_service()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.schedule_id IS NOT NULL THEN
+    UPDATE public.maintenance_schedules
+    SET last_service_on = NEW.performed_at::date,
+        last_service_miles = COALESCE(NEW.odometer_reading, last_service_miles),
+        last_service_hours = COALESCE(NEW.engine_hours, last_service_hours),
+        updated_at = now()
+    WHERE id = NEW.schedule_id
+      AND (last_service_on IS NULL OR last_service_on <= NEW.performed_at::date);
+  END IF;
+
+  IF NEW.vehicle_id IS NOT NULL AND (NEW.odometer_reading IS NOT NULL OR NEW.engine_hours IS NOT NULL) THEN
+    INSERT INTO public.odometer_readings (vehicle_id, odometer_miles, engine_hours, source, recorded_at, reading_date)
+    VALUES (
+      NEW.vehicle_id, NEW.odometer_reading, NEW.engine_hours, 'service',
+      -- A service logged for today counts from now, not from midnight
+      CASE WHEN NEW.performed_at::date = CURRENT_DATE THEN now() ELSE NEW.performed_at::timestamptz END,
+      NEW.performed_at::date
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS apply_maintenance_service ON public.vehicle_maintenance_records;
+CREATE TRIGGER apply_maintenance_service
+  AFTER INSERT ON public.vehicle_maintenance_records
+  FOR EACH ROW EXECUTE FUNCTION public.apply_maintenance_service();
+
+-- Oil changes tracked in vehicle_details become the first schedules, and the
+-- mileage at the last change the first reading
+INSERT INTO public.maintenance_schedules (vehicle_id, service_type, interval_miles, last_service_on, last_service_miles)
+SELECT DISTINCT ON (d.vehicle_id)
+  d.vehicle_id,
+  'oil',
+  COALESCE(d.oil_change_interval_miles, d.next_oil_change_due_mileage - d.last_oil_change_mileage),
+  d.last_oil_change_date::date,
+  d.last_oil_change_mileage
+FROM public.vehicle_details d
+JOIN public.fleet_assets a ON a.id = d.vehicle_id
+WHERE COALESCE(d.oil_change_interval_miles, d.next_oil_change_due_mileage - d.last_oil_change_mileage) > 0
+ORDER BY d.vehicle_id, d.updated_at DESC NULLS LAST;
+
+INSERT INTO public.odometer_readings (vehicle_id, odometer_miles, source, recorded_at, reading_date)
+SELECT vehicle_id, last_service_miles, 'service', COALESCE(last_service_on::timestamptz, now()), COALESCE(last_service_on, CURRENT_DATE)
+FROM public.maintenance_schedules
+WHERE last_service_miles IS NOT NULL;
+
+-- Everyone on staff sees the schedule. Crew leads and the office record
+-- readings and services; admins set the intervals, like the rest of the fleet.
+ALTER TABLE public.vehicle_meters ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.odometer_readings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.maintenance_schedules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.vehicle_maintenance_records ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view vehicle meters" ON public.vehicle_meters
+  FOR SELECT TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['Super Administrator', 'Administrator', 'Estimator', 'Field Crew Lead', 'Field Technician']::public.app_role[]));
+
+CREATE POLICY "Staff can view odometer readings" ON public.odometer_readings
+  FOR SELECT TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['Super Administrator', 'Administrator', 'Estimator', 'Field Crew Lead', 'Field Technician']::public.app_role[]));
+
+CREATE POLICY "Crew leads can record odometer readings" ON public.odometer_readings
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    source = 'manual'
+    AND public.has_any_role(auth.uid(), ARRAY['Super Administrator', 'Administrator', 'Estimator', 'Field Crew Lead']::public.app_role[])
+  );
+
+CREATE POLICY "Staff can view maintenance schedules" ON public.maintenance_schedules
+  FOR SELECT TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['Super Administrator', 'Administrator', 'Estimator', 'Field Crew Lead', 'Field Technician']::public.app_role[]));
+
+CREATE POLICY "Admins can manage maintenance schedules" ON public.maintenance_schedules
+  FOR ALL TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['Super Administrator', 'Administrator']::public.app_role[]))
+  WITH CHECK (public.has_any_role(auth.uid(), ARRAY['Super Administrator', 'Administrator']::public.app_role[]));
+
+DROP POLICY IF EXISTS "Staff can view maintenance records" ON public.vehicle_maintenance_records;
+CREATE POLICY "Staff can view maintenance records" ON public.vehicle_maintenance_records
+  FOR SELECT TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['Super Administrator', 'Administrator', 'Estimator', 'Field Crew Lead', 'Field Technician']::public.app_role[]));
+
+DROP POLICY IF EXISTS "Crew leads can log maintenance" ON public.vehicle_maintenance_records;
+CREATE POLICY "Crew leads can log maintenance" ON public.vehicle_maintenance_records
+  FOR INSERT TO authenticated
+  WITH CHECK (public.has_any_role(auth.uid(), ARRAY['Super Administrator', 'Administrator', 'Estimator', 'Field Crew Lead']::public.app_role[]));
+
+-- Restrictive so an older, broader policy can't let anyone else rewrite the log
+DROP POLICY IF EXISTS "Only crew leads can log maintenance" ON public.vehicle_maintenance_records;
+CREATE POLICY "Only crew leads can log maintenance" ON public.vehicle_maintenance_records
+  AS RESTRICTIVE FOR INSERT TO authenticated
+  WITH CHECK (public.has_any_role(auth.uid(), ARRAY['Super Administrator', 'Administrator', 'Estimator', 'Field Crew Lead']::public.app_role[]));
@@ -0,0 +1,54 @@
+-- A client can only have one payment in flight per proposal, so starting the
+-- payment page over and over never adds up to more than the balance.
+BEGIN;
+SELECT plan(4);
+
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-0000-0000-0000000c7e01', 'client@example.com');
+
+INSERT INTO public.customers (id, name, portal_user_id) VALUES
+  ('00000000-0000-0000-0000-0000000c0501', 'Parking Lot Owner', '00000000-0000-0000-0000-0000000c7e01');
+
+INSERT INTO public.projects (id, name, customer_id) VALUES
+  ('00000000-0000-0000-0000-00000000b001', 'Lot resurfacing', '00000000-0000-0000-0000-0000000c0501');
+
+INSERT INTO public.proposals (id, project_id, client_name, amount, status) VALUES
+  ('00000000-0000-0000-0000-00000000d001', '00000000-0000-0000-0000-00000000b001', 'Parking Lot Owner', 1000, 'accepted');
+
+SET LOCAL role authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000c7e01", "role": "authenticated"}', true);
+
+CREATE TEMP TABLE started AS
+  SELECT public.client_start_payment('00000000-0000-0000-0000-00000000d001', 800) AS id;
+
+SELECT is(
+  public.client_start_payment('00000000-0000-0000-0000-00000000d001', 600),
+  (SELECT id FROM started),
+  'starting again reuses the pending payment'
+);
+
+RESET role;
+
+SELECT is(
+  (SELECT amount::numeric FROM public.payments WHERE proposal_id = '00000000-0000-0000-0000-00000000d001' AND status = 'pending'),
+  600::numeric,
+  'the pending payment carries the latest amount'
+);
+SELECT is(
+  (SELECT count(*) FROM public.payments WHERE proposal_id = '00000000-0000-0000-0000-00000000d001'),
+  1::bigint,
+  'no second payment is recorded'
+);
+
+UPDATE public.payments SET status = 'completed' WHERE proposal_id = '00000000-0000-0000-0000-00000000d001';
+
+SET LOCAL role authenticated;
+
+SELECT throws_ok(
+  $$SELECT public.client_start_payment('00000000-0000-0000-0000-00000000d001', 500)$$,
+  'Invalid payment amount for proposal 00000000-0000-0000-0000-00000000d001',
+  'a new payment is held to what is left once one completes'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
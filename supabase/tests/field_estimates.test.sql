@@ -0,0 +1,96 @@
+-- Crew leads read other people's estimates through field_estimates. Nothing
+-- they get back may let them work out the margin: no overhead or profit, and
+-- no total or quoted amount to subtract the remaining costs from.
+BEGIN;
+SELECT plan(9);
+
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-0000-0000-00000000e571', 'estimator@example.com'),
+  ('00000000-0000-0000-0000-0000000c1ead', 'crew-lead@example.com');
+
+INSERT INTO public.user_roles (user_id, role) VALUES
+  ('00000000-0000-0000-0000-00000000e571', 'Estimator'),
+  ('00000000-0000-0000-0000-0000000c1ead', 'Field Crew Lead');
+
+INSERT INTO public.estimates (id, status, created_by, amount, inputs, breakdown, line_items, client_quote) VALUES (
+  '00000000-0000-0000-0000-0000000000e1',
+  'sent',
+  '00000000-0000-0000-0000-00000000e571',
+  1380,
+  '{"profitMargin": 20, "travelDistance": 10}',
+  '{
+    "materials": {"totalMaterialCost": 400},
+    "labor": {"totalLabor": 600},
+    "subtotal": 1000, "overheadRate": 0.15, "overhead": 150,
+    "profitMargin": 20, "profit": 200, "total": 1380,
+    "areas": [{"id": "area-1", "directCost": 1000, "subtotal": 1000, "total": 1380}]
+  }',
+  '[
+    {"key": "labor", "category": "labor", "amount": 600},
+    {"key": "overhead", "category": "overhead", "amount": 150},
+    {"key": "profit", "category": "profit", "amount": 200}
+  ]',
+  '{"total": 1380}'
+), (
+  '00000000-0000-0000-0000-0000000000e2',
+  'draft',
+  '00000000-0000-0000-0000-0000000c1ead',
+  690,
+  '{"profitMargin": 20}',
+  '{"subtotal": 500, "profit": 100, "total": 690, "areas": []}',
+  '[]',
+  NULL
+);
+
+SET LOCAL role authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000c1ead", "role": "authenticated"}', true);
+
+SELECT is(
+  (SELECT amount FROM public.field_estimates WHERE id = '00000000-0000-0000-0000-0000000000e1'),
+  NULL,
+  'the quoted amount of someone else''s estimate is hidden'
+);
+SELECT ok(
+  NOT (SELECT breakdown ?| ARRAY['subtotal', 'overheadRate', 'overhead', 'profitMargin', 'profit', 'total']
+       FROM public.field_estimates WHERE id = '00000000-0000-0000-0000-0000000000e1'),
+  'the breakdown carries no subtotal, overhead, profit or total'
+);
+SELECT is(
+  (SELECT count(*) FROM public.field_estimates, jsonb_array_elements(breakdown -> 'areas') AS area
+   WHERE id = '00000000-0000-0000-0000-0000000000e1' AND area ?| ARRAY['subtotal', 'total']),
+  0::bigint,
+  'no area carries a subtotal or total'
+);
+SELECT is(
+  (SELECT (breakdown -> 'areas' -> 0 ->> 'directCost')::numeric FROM public.field_estimates WHERE id = '00000000-0000-0000-0000-0000000000e1'),
+  1000::numeric,
+  'cost figures are kept'
+);
+SELECT is(
+  (SELECT count(*) FROM public.field_estimates, jsonb_array_elements(line_items) AS item
+   WHERE id = '00000000-0000-0000-0000-0000000000e1' AND item ->> 'category' IN ('overhead', 'profit')),
+  0::bigint,
+  'overhead and profit line items are dropped'
+);
+SELECT is(
+  (SELECT client_quote FROM public.field_estimates WHERE id = '00000000-0000-0000-0000-0000000000e1'),
+  NULL,
+  'the sent quote and its total are hidden'
+);
+SELECT ok(
+  NOT (SELECT inputs ? 'profitMargin' FROM public.field_estimates WHERE id = '00000000-0000-0000-0000-0000000000e1'),
+  'the profit margin input is dropped'
+);
+SELECT is(
+  (SELECT amount FROM public.field_estimates WHERE id = '00000000-0000-0000-0000-0000000000e2'),
+  690::numeric,
+  'a crew lead sees the amount of an estimate they priced'
+);
+SELECT is(
+  (SELECT (breakdown ->> 'total')::numeric FROM public.field_estimates WHERE id = '00000000-0000-0000-0000-0000000000e2'),
+  690::numeric,
+  'a crew lead sees the full breakdown of an estimate they priced'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
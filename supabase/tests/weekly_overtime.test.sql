@@ -0,0 +1,40 @@
+-- Overtime on shifts already exported for payroll has been paid, so a late
+-- change to another shift in the same workweek must not rewrite it.
+BEGIN;
+SELECT plan(3);
+
+-- Fixtures go in as they would be after the fact; the time clock triggers
+-- would stamp them with the current time
+SET LOCAL session_replication_role = replica;
+
+INSERT INTO public.employees (id, email, first_name, last_name) VALUES
+  ('00000000-0000-0000-0000-0000000e0001', 'crew@example.com', 'Casey', 'Crew');
+
+INSERT INTO public.time_records (id, employee_id, date, clock_in, clock_out, total_hours, overtime_hours, status, exported_at) VALUES
+  -- Rejected after the rest of the week was exported
+  ('00000000-0000-0000-0000-00000000a001', '00000000-0000-0000-0000-0000000e0001', '2026-10-12', '2026-10-12 07:00-04', '2026-10-12 19:30-04', 12, 0, 'rejected', NULL),
+  ('00000000-0000-0000-0000-00000000a002', '00000000-0000-0000-0000-0000000e0001', '2026-10-13', '2026-10-13 07:00-04', '2026-10-13 19:30-04', 12, 0, 'approved', '2026-10-17 09:00-04'),
+  ('00000000-0000-0000-0000-00000000a003', '00000000-0000-0000-0000-0000000e0001', '2026-10-14', '2026-10-14 07:00-04', '2026-10-14 19:30-04', 12, 0, 'approved', '2026-10-17 09:00-04'),
+  ('00000000-0000-0000-0000-00000000a004', '00000000-0000-0000-0000-0000000e0001', '2026-10-15', '2026-10-15 07:00-04', '2026-10-15 17:30-04', 10, 6, 'approved', '2026-10-17 09:00-04'),
+  ('00000000-0000-0000-0000-00000000a005', '00000000-0000-0000-0000-0000000e0001', '2026-10-16', '2026-10-16 07:00-04', '2026-10-16 15:30-04', 8, NULL, 'pending', NULL);
+
+SELECT public.recalculate_weekly_overtime('00000000-0000-0000-0000-0000000e0001', '2026-10-12');
+
+SELECT is(
+  (SELECT overtime_hours::numeric FROM public.time_records WHERE id = '00000000-0000-0000-0000-00000000a004'),
+  6::numeric,
+  'an exported shift keeps the overtime it was paid'
+);
+SELECT is(
+  (SELECT overtime_hours::numeric FROM public.time_records WHERE id = '00000000-0000-0000-0000-00000000a003'),
+  0::numeric,
+  'an exported shift is not given overtime either'
+);
+SELECT is(
+  (SELECT overtime_hours::numeric FROM public.time_records WHERE id = '00000000-0000-0000-0000-00000000a005'),
+  2::numeric,
+  'exported hours still count toward the 40 for the shifts after them'
+);
+
+SELECT * FROM finish();
+ROLLBACK;